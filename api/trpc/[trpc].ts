@@ -1,9 +1,16 @@
 import { fetchRequestHandler } from '@trpc/server/adapters/fetch'
 
+import { MemoryCacheStore } from '../../src/server/response-cache.js'
+import { createContextFactory } from '../../src/server/trpc/context.js'
 import { appRouter } from '../../src/server/trpc/index.js'
 
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 
+// Module scope, so warm invocations of this instance share cached responses
+const createContext = createContextFactory({
+  cacheStore: new MemoryCacheStore()
+})
+
 /**
  * Vercel Serverless Function handler for tRPC requests.
  * Converts Node.js request to Web Request for the fetch adapter.
@@ -49,8 +56,7 @@ export default async function handler(
     endpoint: '/api/trpc',
     req: webRequest,
     router: appRouter,
-    createContext: () => ({}),
-    allowMethodOverride: true // Allow POST for queries (secure OAuth tokens)
+    createContext
   })
 
   // Send the response
@@ -58,6 +64,18 @@ export default async function handler(
   response.headers.forEach((value, key) => {
     res.setHeader(key, value)
   })
-  const responseBody = await response.text()
-  res.send(responseBody)
+  // forEach would merge multiple cookies into one header value
+  const cookies = response.headers.getSetCookie()
+  if (cookies.length > 0) {
+    res.setHeader('set-cookie', cookies)
+  }
+
+  // Write chunks as they arrive so streamed procedures (getFullCollection)
+  // report progress instead of arriving all at once
+  if (response.body) {
+    for await (const chunk of response.body) {
+      res.write(chunk)
+    }
+  }
+  res.end()
 }
@@ -80,6 +80,7 @@ export default defineConfig([
             'api/**/*.ts', // Vercel serverless functions
             'src/server/**/*.ts', // Server-side code consumed by API
             'vite.config.ts',
+            'vitest.config.ts',
             'eslint.config.js'
           ]
         }
@@ -165,7 +166,12 @@ export default defineConfig([
     }
   },
   {
-    files: ['vite.config.ts', 'eslint.config.js', 'scripts/**/*.{js,ts}'],
+    files: [
+      'vite.config.ts',
+      'vitest.config.ts',
+      'eslint.config.js',
+      'scripts/**/*.{js,ts}'
+    ],
     rules: {
       // Permit Node.js builtins in tooling and config files.
       'import-x/no-nodejs-modules': 'off',
@@ -9,8 +9,14 @@ import { fetchRequestHandler } from '@trpc/server/adapters/fetch'
 import { Hono } from 'hono'
 import { cors } from 'hono/cors'
 
+import { MemoryCacheStore } from '../src/server/response-cache.ts'
+import { createContextFactory } from '../src/server/trpc/context.ts'
 import { appRouter } from '../src/server/trpc/index.ts'
 
+const createContext = createContextFactory({
+  cacheStore: new MemoryCacheStore()
+})
+
 const app = new Hono()
 
 // Enable CORS for local development
@@ -28,8 +34,7 @@ app.all('/api/trpc/*', async (c) => {
     endpoint: '/api/trpc',
     req: c.req.raw,
     router: appRouter,
-    createContext: () => ({}),
-    allowMethodOverride: true // Allow POST for queries (secure OAuth tokens)
+    createContext
   })
   return response
 })
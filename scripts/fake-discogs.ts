@@ -0,0 +1,19 @@
+/**
+ * Fake Discogs API for offline development.
+ * Serves fixture data for the whole login-to-collection flow; point the API
+ * dev server at it with DISCOGS_API_URL=http://localhost:3002.
+ *
+ * Run with: bun run scripts/fake-discogs.ts
+ */
+import { serve } from '@hono/node-server'
+
+import { createFakeDiscogsApp } from '../src/server/fake-discogs/app.ts'
+
+const port = 3002
+console.log(`💿 Fake Discogs API running at http://localhost:${port}`)
+console.log(`   Sign in as: vinyldeck-demo (authorization is automatic)`)
+
+serve({
+  fetch: createFakeDiscogsApp().fetch,
+  port
+})
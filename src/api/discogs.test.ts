@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  extractVinylDescriptors,
+  getNoteValue,
+  getVersionFormats,
+  isVinylRecord
+} from '@/api/discogs'
+import type { DiscogsCollectionRelease } from '@/types/discogs'
+
+describe('extractVinylDescriptors', () => {
+  it('splits vinyl descriptions into types and sizes', () => {
+    expect(
+      extractVinylDescriptors([
+        { name: 'Vinyl', descriptions: ['12"', 'LP', 'Album', '10 Inch'] }
+      ])
+    ).toEqual({ types: ['LP', 'Album'], sizes: ['12"', '10 Inch'] })
+  })
+
+  it('ignores formats other than vinyl', () => {
+    expect(
+      extractVinylDescriptors([
+        { name: 'CD', descriptions: ['Album'] },
+        { name: 'Vinyl', descriptions: ['7"'] },
+        { name: 'Vinyl' }
+      ])
+    ).toEqual({ types: [], sizes: ['7"'] })
+  })
+})
+
+describe('isVinylRecord', () => {
+  it('is true when any format is vinyl', () => {
+    expect(isVinylRecord([{ name: 'CD' }, { name: 'Vinyl' }])).toBe(true)
+    expect(isVinylRecord([{ name: 'Cassette' }])).toBe(false)
+  })
+})
+
+describe('getVersionFormats', () => {
+  it('rebuilds formats from a master version format string', () => {
+    expect(
+      getVersionFormats({
+        format: 'Vinyl, LP, Album, RE',
+        major_formats: ['Vinyl']
+      })
+    ).toEqual([{ name: 'Vinyl', descriptions: ['LP', 'Album', 'RE'] }])
+  })
+})
+
+describe('getNoteValue', () => {
+  const item = {
+    instance_id: 1,
+    notes: [
+      { field_id: 1, value: ' Mint (M) ' },
+      { field_id: 2, value: '  ' }
+    ]
+  } as DiscogsCollectionRelease
+
+  it('returns the trimmed value of a field', () => {
+    expect(getNoteValue(item, 1)).toBe('Mint (M)')
+  })
+
+  it('treats blank and missing fields as unset', () => {
+    expect(getNoteValue(item, 2)).toBeUndefined()
+    expect(getNoteValue(item, 3)).toBeUndefined()
+  })
+})
@@ -4,6 +4,11 @@
  * Pure utility functions for working with Discogs data.
  * All API calls are handled by the tRPC server (src/server/trpc/routers/discogs.ts).
  */
+import type {
+  DiscogsFormat,
+  DiscogsListItem,
+  DiscogsMasterVersion
+} from '@/types/discogs'
 
 /**
  * Check if a release is a vinyl record based on its formats.
@@ -14,3 +19,87 @@
 export function isVinylRecord(formats: { name: string }[]): boolean {
   return formats.some((format) => format.name === 'Vinyl')
 }
+
+const isSizeDescriptor = (value: string) =>
+  value.includes('"') || /inch/i.test(value)
+
+/**
+ * Split the descriptions of a release's vinyl formats into types
+ * (LP, Album, Reissue, ...) and sizes (12", 7", ...). Non-vinyl formats
+ * are ignored. These are the values behind the type and size filters.
+ *
+ * @param formats - Array of format objects from a Discogs release
+ * @returns Vinyl type and size descriptors, in format order
+ */
+export function extractVinylDescriptors(
+  formats: Pick<DiscogsFormat, 'name' | 'descriptions'>[]
+): { types: string[]; sizes: string[] } {
+  const types: string[] = []
+  const sizes: string[] = []
+
+  for (const format of formats) {
+    if (format.name !== 'Vinyl') continue
+    for (const description of format.descriptions ?? []) {
+      if (isSizeDescriptor(description)) {
+        sizes.push(description)
+      } else {
+        types.push(description)
+      }
+    }
+  }
+
+  return { types, sizes }
+}
+
+/**
+ * Rebuild format objects for a master version, which only carries a
+ * comma-separated `format` string (e.g. "LP, Album, RE") and its major
+ * formats. The result can be passed to {@link extractVinylDescriptors}.
+ *
+ * @param version - A version from GET /masters/{id}/versions
+ * @returns One format per major format, sharing the listed descriptions
+ */
+export function getVersionFormats(
+  version: Pick<DiscogsMasterVersion, 'format' | 'major_formats'>
+): Pick<DiscogsFormat, 'name' | 'descriptions'>[] {
+  const parts = version.format
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+
+  return version.major_formats.map((name) => ({
+    name,
+    descriptions: parts.filter((part) => part !== name)
+  }))
+}
+
+/**
+ * Get a stable React key for a collection item or want.
+ * Collection items use instance_id because the same release can be owned
+ * more than once; wants are unique per release.
+ *
+ * @param item - A collection item or wantlist item
+ * @returns A key that is unique within its list
+ */
+export function getListItemKey(item: DiscogsListItem): number {
+  return 'instance_id' in item ? item.instance_id : item.id
+}
+
+/**
+ * Read a custom notes field value from a collection item.
+ * Wants have free-text notes instead of fields, so they never have values.
+ *
+ * @param item - Collection item or want
+ * @param fieldId - ID of the custom collection field
+ * @returns The trimmed field value, or undefined when empty or not set
+ */
+export function getNoteValue(
+  item: DiscogsListItem,
+  fieldId: number
+): string | undefined {
+  if (!('instance_id' in item)) return undefined
+  const value = item.notes
+    ?.find((note) => note.field_id === fieldId)
+    ?.value.trim()
+  return value || undefined
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { RateLimiter } from '@/api/rate-limiter'
+import { RATE_LIMIT } from '@/lib/constants'
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    limiter = new RateLimiter()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('does not throttle with budget to spare', () => {
+    limiter.updateFromRateLimit({ limit: 60, used: 10, remaining: 50 })
+    expect(limiter.shouldThrottle()).toBe(false)
+    expect(limiter.getWaitTime()).toBe(0)
+  })
+
+  it('throttles below the buffer until the window resets', () => {
+    limiter.updateFromRateLimit({ limit: 60, used: 58, remaining: 2 })
+    expect(limiter.shouldThrottle()).toBe(true)
+    expect(limiter.getWaitTime()).toBe(RATE_LIMIT.WINDOW_MS)
+
+    vi.advanceTimersByTime(RATE_LIMIT.WINDOW_MS + 1)
+    expect(limiter.shouldThrottle()).toBe(false)
+    expect(limiter.getState().remaining).toBe(60)
+  })
+
+  it('counts in-flight requests against the remaining budget', () => {
+    limiter.updateFromRateLimit({ remaining: RATE_LIMIT.BUFFER + 1 })
+    expect(limiter.shouldThrottle()).toBe(false)
+
+    limiter.startRequest()
+    limiter.startRequest()
+    expect(limiter.shouldThrottle()).toBe(true)
+
+    limiter.finishRequest()
+    limiter.finishRequest()
+    expect(limiter.shouldThrottle()).toBe(false)
+  })
+
+  it('ignores missing and non-numeric values', () => {
+    limiter.updateFromRateLimit({ limit: 60, used: 1, remaining: 59 })
+    limiter.updateFromRateLimit({ remaining: Number.NaN })
+    limiter.updateFromHeaders({
+      'x-discogs-ratelimit-remaining': 'abc',
+      'x-discogs-ratelimit-used': '4'
+    })
+
+    expect(limiter.getState()).toMatchObject({ used: 4, remaining: 59 })
+  })
+
+  it('runs scheduled requests once the window resets', async () => {
+    limiter.updateFromRateLimit({ remaining: 0 })
+    const request = vi.fn(() => Promise.resolve('done'))
+
+    const result = limiter.schedule(request)
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT.WINDOW_MS - 1000)
+    expect(request).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(2000)
+    await expect(result).resolves.toBe('done')
+    expect(request).toHaveBeenCalledOnce()
+  })
+
+  it('shares one wait between concurrent callers', async () => {
+    limiter.updateFromRateLimit({ remaining: 0 })
+    const waits = Promise.all([limiter.waitIfNeeded(), limiter.waitIfNeeded()])
+    expect(vi.getTimerCount()).toBe(1)
+
+    await vi.advanceTimersByTimeAsync(RATE_LIMIT.WINDOW_MS)
+    await expect(waits).resolves.toHaveLength(2)
+  })
+})
@@ -33,7 +33,7 @@ interface RateLimitState {
   lastUpdated: number
 }
 
-class RateLimiter {
+export class RateLimiter {
   private state: RateLimitState = {
     limit: RATE_LIMIT.MAX_REQUESTS,
     used: 0,
@@ -190,6 +190,28 @@ class RateLimiter {
     return this.waitPromise
   }
 
+  /**
+   * Run a request once the budget allows it, counting it as in flight.
+   *
+   * Unlike waitIfNeeded(), the throttle check and the in-flight increment
+   * happen in the same tick, so many requests queued at once (e.g. one
+   * lookup per release) are released gradually instead of in one burst.
+   */
+  async schedule<T>(request: () => Promise<T>): Promise<T> {
+    while (this.shouldThrottle()) {
+      await this.waitIfNeeded()
+      // Yield a macrotask so requests released together re-check in turn
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+
+    this.startRequest()
+    try {
+      return await request()
+    } finally {
+      this.finishRequest()
+    }
+  }
+
   /**
    * Track in-flight requests to prevent burst overruns.
    */
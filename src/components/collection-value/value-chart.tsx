@@ -0,0 +1,148 @@
+import { useTranslation } from 'react-i18next'
+
+import type { ValueSnapshot } from '@/lib/value-history'
+
+interface ValueChartProps {
+  snapshots: ValueSnapshot[]
+  formatValue: (value: number) => string
+}
+
+const WIDTH = 640
+const HEIGHT = 260
+const PADDING = { top: 12, right: 16, bottom: 28, left: 72 }
+const Y_TICKS = 4
+
+/**
+ * Value-over-time chart: the min–max range as a shaded band with the median
+ * as a line. Plain SVG scaled through its viewBox, so no chart library.
+ */
+export function ValueChart({
+  snapshots,
+  formatValue
+}: ValueChartProps): React.JSX.Element {
+  const { t, i18n } = useTranslation()
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+
+  const firstTime = snapshots[0]?.takenAt ?? 0
+  const lastTime = snapshots[snapshots.length - 1]?.takenAt ?? firstTime
+  const lowest = Math.min(...snapshots.map((snapshot) => snapshot.minimum))
+  const highest = Math.max(...snapshots.map((snapshot) => snapshot.maximum))
+  // Pad the range so the band never touches the plot edges
+  const margin = highest > lowest ? (highest - lowest) * 0.1 : 1
+  const yMin = Math.max(0, lowest - margin)
+  const yMax = highest + margin
+
+  const x = (time: number) =>
+    lastTime > firstTime
+      ? PADDING.left + ((time - firstTime) / (lastTime - firstTime)) * plotWidth
+      : PADDING.left + plotWidth / 2
+  const y = (value: number) =>
+    PADDING.top + plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight
+
+  const toPoints = (pick: (snapshot: ValueSnapshot) => number) =>
+    snapshots.map((snapshot) => `${x(snapshot.takenAt)},${y(pick(snapshot))}`)
+
+  const bandPath = `M${[
+    ...toPoints((snapshot) => snapshot.maximum),
+    ...toPoints((snapshot) => snapshot.minimum).reverse()
+  ].join('L')}Z`
+  const medianPoints = toPoints((snapshot) => snapshot.median).join(' ')
+
+  const ticks = Array.from(
+    { length: Y_TICKS + 1 },
+    (_, index) => yMin + ((yMax - yMin) * index) / Y_TICKS
+  )
+  const formatDate = (time: number) =>
+    new Date(time).toLocaleDateString(i18n.language, { dateStyle: 'medium' })
+
+  return (
+    <figure className="flex flex-col gap-3">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="h-auto w-full"
+        role="img"
+        aria-label={t('value.chart.label', {
+          count: snapshots.length,
+          from: formatDate(firstTime),
+          to: formatDate(lastTime)
+        })}
+      >
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              className="stroke-border"
+              strokeDasharray="4 4"
+            />
+            <text
+              x={PADDING.left - 8}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-muted-foreground text-[11px] tabular-nums"
+            >
+              {formatValue(tick)}
+            </text>
+          </g>
+        ))}
+
+        <path d={bandPath} className="fill-primary/15" />
+        <polyline
+          points={medianPoints}
+          fill="none"
+          className="stroke-primary"
+          strokeWidth={2}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+        />
+        {snapshots.map((snapshot) => (
+          <circle
+            key={snapshot.takenAt}
+            cx={x(snapshot.takenAt)}
+            cy={y(snapshot.median)}
+            r={3}
+            className="fill-primary"
+          >
+            <title>
+              {`${formatDate(snapshot.takenAt)}: ${formatValue(snapshot.minimum)} – ${formatValue(snapshot.maximum)} (${formatValue(snapshot.median)})`}
+            </title>
+          </circle>
+        ))}
+
+        <text
+          x={PADDING.left}
+          y={HEIGHT - 8}
+          className="fill-muted-foreground text-[11px]"
+        >
+          {formatDate(firstTime)}
+        </text>
+        {lastTime > firstTime ? (
+          <text
+            x={WIDTH - PADDING.right}
+            y={HEIGHT - 8}
+            textAnchor="end"
+            className="fill-muted-foreground text-[11px]"
+          >
+            {formatDate(lastTime)}
+          </text>
+        ) : null}
+      </svg>
+
+      <figcaption className="text-muted-foreground flex flex-wrap items-center gap-4 text-xs">
+        <span className="flex items-center gap-1.5">
+          <span className="bg-primary h-0.5 w-4 rounded-full" />
+          {t('value.median')}
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="bg-primary/15 h-3 w-4 rounded-sm" />
+          {t('value.chart.range')}
+        </span>
+      </figcaption>
+    </figure>
+  )
+}
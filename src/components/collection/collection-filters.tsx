@@ -1,6 +1,7 @@
-import { SlidersHorizontal } from 'lucide-react'
+import { CircleMinus, SlidersHorizontal } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
 
+import { StarRating } from '@/components/collection/star-rating'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Checkbox } from '@/components/ui/checkbox'
@@ -13,50 +14,63 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet'
 import { Slider } from '@/components/ui/slider'
-import type {
-  CollectionFilterOptions,
-  FilterOption
-} from '@/hooks/use-collection'
 import { useIsMobile } from '@/hooks/use-mobile'
+import {
+  type CollectionFilterOptions,
+  countFacetValues,
+  EMPTY_FACET_FILTER,
+  type FacetFilter,
+  type FacetMatchMode,
+  type FilterOption,
+  toggleExcluded,
+  toggleIncluded
+} from '@/lib/release-filters'
 import { cn } from '@/lib/utils'
 
 interface CollectionSelectedFilters {
-  genres: string[]
-  styles: string[]
-  labels: string[]
-  types: string[]
-  sizes: string[]
-  countries: string[]
+  genres: FacetFilter
+  styles: FacetFilter
+  labels: FacetFilter
+  types: FacetFilter
+  sizes: FacetFilter
+  countries: FacetFilter
   yearRange: [number, number] | null
+  minRating: number | null
+  fields: Record<number, FacetFilter>
 }
 
 export interface CollectionFiltersProps {
   options: CollectionFilterOptions
   selected: CollectionSelectedFilters
-  setSelectedGenres: (values: string[]) => void
-  setSelectedStyles: (values: string[]) => void
-  setSelectedLabels: (values: string[]) => void
-  setSelectedTypes: (values: string[]) => void
-  setSelectedSizes: (values: string[]) => void
-  setSelectedCountries: (values: string[]) => void
+  setSelectedGenres: (filter: FacetFilter) => void
+  setSelectedStyles: (filter: FacetFilter) => void
+  setSelectedLabels: (filter: FacetFilter) => void
+  setSelectedTypes: (filter: FacetFilter) => void
+  setSelectedSizes: (filter: FacetFilter) => void
+  setSelectedCountries: (filter: FacetFilter) => void
   setYearRange: (range: [number, number] | null) => void
+  setMinRating: (rating: number | null) => void
+  /** Omitted for lists without custom fields (e.g. the wantlist) */
+  setSelectedFieldValues?: (fieldId: number, filter: FacetFilter) => void
   clearFilters: () => void
   activeFilterCount: number
   className?: string
 }
 
-const toggleValue = (values: string[], value: string) =>
-  values.includes(value)
-    ? values.filter((item) => item !== value)
-    : [...values, value]
+const MATCH_MODES: FacetMatchMode[] = ['any', 'all']
 
 interface FilterGroupProps {
   idPrefix: string
   title: string
   options: FilterOption[]
-  selected: string[]
-  onChange: (next: string[]) => void
+  selected: FacetFilter
+  onChange: (next: FacetFilter) => void
   columns?: 'single' | 'double'
+  /**
+   * Offer matching all included values, for facets where a release can
+   * have several (genres, but not the country)
+   */
+  allowMatchAll?: boolean
 }
 
 function FilterGroup({
@@ -65,21 +79,53 @@ function FilterGroup({
   options,
   selected,
   onChange,
-  columns = 'double'
+  columns = 'double',
+  allowMatchAll = false
 }: FilterGroupProps) {
   const { t } = useTranslation()
   const gridClass =
     columns === 'single' ? 'grid-cols-1' : 'grid-cols-1 sm:grid-cols-2'
+  const selectedCount = countFacetValues(selected)
+  // The mode only matters once two values are included
+  const showMatchMode =
+    allowMatchAll && (selected.included.length > 1 || selected.mode === 'all')
 
   return (
     <div className="space-y-2">
       <div className="flex items-center gap-2">
         <h4 className="text-sm font-medium">{title}</h4>
-        {selected.length > 0 && (
+        {selectedCount > 0 && (
           <Badge variant="secondary" className="h-5 px-1.5 text-[10px]">
-            {selected.length}
+            {selectedCount}
           </Badge>
         )}
+        {showMatchMode ? (
+          <div
+            role="group"
+            aria-label={t('collection.filters.matchMode', { facet: title })}
+            className="ml-auto flex rounded-md border p-0.5"
+          >
+            {MATCH_MODES.map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                aria-pressed={selected.mode === mode}
+                title={t(`collection.filters.matchModes.${mode}Hint`)}
+                onClick={() => {
+                  onChange({ ...selected, mode })
+                }}
+                className={cn(
+                  'rounded-sm px-1.5 text-[11px] leading-5 transition-colors',
+                  selected.mode === mode
+                    ? 'bg-secondary text-secondary-foreground font-medium'
+                    : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {t(`collection.filters.matchModes.${mode}`)}
+              </button>
+            ))}
+          </div>
+        ) : null}
       </div>
       {options.length === 0 ? (
         <p className="text-muted-foreground text-xs">
@@ -89,27 +135,64 @@ function FilterGroup({
         <div className={cn('grid gap-2', gridClass)}>
           {options.map((option, index) => {
             const id = `${idPrefix}-${index}`
-            const isChecked = selected.includes(option.value)
+            const isChecked = selected.included.includes(option.value)
+            const isExcluded = selected.excluded.includes(option.value)
             return (
-              <label
+              <div
                 key={option.value}
-                htmlFor={id}
-                className="flex items-center gap-2 text-sm"
+                className="group flex min-w-0 items-center gap-1"
               >
-                <Checkbox
-                  id={id}
-                  checked={isChecked}
-                  onCheckedChange={() => {
-                    onChange(toggleValue(selected, option.value))
+                <label
+                  htmlFor={id}
+                  className="flex min-w-0 flex-1 items-center gap-2 text-sm"
+                >
+                  <Checkbox
+                    id={id}
+                    checked={isChecked}
+                    onCheckedChange={() => {
+                      onChange(toggleIncluded(selected, option.value))
+                    }}
+                  />
+                  <span
+                    className={cn(
+                      'line-clamp-1 flex-1',
+                      isExcluded && 'text-muted-foreground line-through'
+                    )}
+                  >
+                    <span className="text-muted-foreground text-xs tabular-nums">
+                      ({option.count})
+                    </span>{' '}
+                    {option.value}
+                  </span>
+                </label>
+                <button
+                  type="button"
+                  aria-pressed={isExcluded}
+                  aria-label={t(
+                    isExcluded
+                      ? 'collection.filters.unexclude'
+                      : 'collection.filters.exclude',
+                    { value: option.value }
+                  )}
+                  title={t(
+                    isExcluded
+                      ? 'collection.filters.unexclude'
+                      : 'collection.filters.exclude',
+                    { value: option.value }
+                  )}
+                  onClick={() => {
+                    onChange(toggleExcluded(selected, option.value))
                   }}
-                />
-                <span className="line-clamp-1 flex-1">
-                  <span className="text-muted-foreground text-xs tabular-nums">
-                    ({option.count})
-                  </span>{' '}
-                  {option.value}
-                </span>
-              </label>
+                  className={cn(
+                    'hover:text-destructive focus-visible:ring-ring rounded-full p-0.5 transition-opacity focus-visible:opacity-100 focus-visible:ring-2 focus-visible:outline-none',
+                    isExcluded
+                      ? 'text-destructive'
+                      : 'text-muted-foreground opacity-0 group-hover:opacity-100 pointer-coarse:opacity-60'
+                  )}
+                >
+                  <CircleMinus className="size-3.5" />
+                </button>
+              </div>
             )
           })}
         </div>
@@ -128,6 +211,8 @@ function FilterContent({
   setSelectedSizes,
   setSelectedCountries,
   setYearRange,
+  setMinRating,
+  setSelectedFieldValues,
   clearFilters,
   activeFilterCount,
   layout
@@ -222,6 +307,28 @@ function FilterContent({
             })()}
           </div>
 
+          <div className={cn('space-y-3', isDesktop ? 'col-span-full' : '')}>
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">
+                {t('collection.filters.minRating')}
+              </h4>
+              <span className="text-muted-foreground text-xs">
+                {selected.minRating === null
+                  ? t('collection.filters.anyRating')
+                  : t('collection.filters.minRatingOption', {
+                      count: selected.minRating
+                    })}
+              </span>
+            </div>
+            <StarRating
+              value={selected.minRating ?? 0}
+              label={t('collection.filters.minRating')}
+              onChange={(rating) => {
+                setMinRating(rating > 0 ? rating : null)
+              }}
+            />
+          </div>
+
           <div className={cn(isDesktop ? 'col-span-full' : '')}>
             <Separator />
           </div>
@@ -231,6 +338,7 @@ function FilterContent({
             title={t('collection.filters.genre')}
             options={options.genres}
             selected={selected.genres}
+            allowMatchAll
             onChange={setSelectedGenres}
             columns={groupColumns}
           />
@@ -240,6 +348,7 @@ function FilterContent({
             title={t('collection.filters.style')}
             options={options.styles}
             selected={selected.styles}
+            allowMatchAll
             onChange={setSelectedStyles}
             columns={groupColumns}
           />
@@ -249,6 +358,7 @@ function FilterContent({
             title={t('collection.filters.label')}
             options={options.labels}
             selected={selected.labels}
+            allowMatchAll
             onChange={setSelectedLabels}
             columns={groupColumns}
           />
@@ -258,6 +368,7 @@ function FilterContent({
             title={t('collection.filters.vinylType')}
             options={options.types}
             selected={selected.types}
+            allowMatchAll
             onChange={setSelectedTypes}
             columns={groupColumns}
           />
@@ -267,6 +378,7 @@ function FilterContent({
             title={t('collection.filters.size')}
             options={options.sizes}
             selected={selected.sizes}
+            allowMatchAll
             onChange={setSelectedSizes}
             columns="single"
           />
@@ -279,6 +391,22 @@ function FilterContent({
             onChange={setSelectedCountries}
             columns={groupColumns}
           />
+
+          {setSelectedFieldValues
+            ? options.fields.map((field) => (
+                <FilterGroup
+                  key={field.id}
+                  idPrefix={`filter-field-${field.id}`}
+                  title={field.name}
+                  options={field.options}
+                  selected={selected.fields[field.id] ?? EMPTY_FACET_FILTER}
+                  onChange={(filter) => {
+                    setSelectedFieldValues(field.id, filter)
+                  }}
+                  columns={groupColumns}
+                />
+              ))
+            : null}
         </div>
       </ScrollArea>
     </div>
@@ -295,6 +423,8 @@ export function CollectionFilters({
   setSelectedSizes,
   setSelectedCountries,
   setYearRange,
+  setMinRating,
+  setSelectedFieldValues,
   clearFilters,
   activeFilterCount,
   className
@@ -323,6 +453,8 @@ export function CollectionFilters({
       setSelectedSizes={setSelectedSizes}
       setSelectedCountries={setSelectedCountries}
       setYearRange={setYearRange}
+      setMinRating={setMinRating}
+      {...(setSelectedFieldValues && { setSelectedFieldValues })}
       clearFilters={clearFilters}
       activeFilterCount={activeFilterCount}
       layout={isMobile ? 'mobile' : 'desktop'}
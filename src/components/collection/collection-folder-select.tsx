@@ -0,0 +1,273 @@
+import { FolderCog, FolderPen, FolderPlus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import type { DiscogsCollectionFolder } from '@/types/discogs'
+
+export interface CollectionFolderSelectProps {
+  folders: DiscogsCollectionFolder[]
+  folderId: number
+  onFolderChange: (folderId: number) => void
+  onCreateFolder: (name: string) => Promise<DiscogsCollectionFolder>
+  onRenameFolder: (
+    folderId: number,
+    name: string
+  ) => Promise<DiscogsCollectionFolder>
+  onDeleteFolder: (folderId: number) => Promise<void>
+  isMutating: boolean
+}
+
+type FolderDialog = 'create' | 'rename' | 'delete' | null
+
+/** Folders 0 ("All") and 1 ("Uncategorized") are built in and immutable */
+const isBuiltInFolder = (folderId: number) => folderId < 2
+
+/**
+ * Folder switcher with item counts, plus a menu to create, rename and
+ * delete folders. Discogs only allows deleting empty folders.
+ */
+export function CollectionFolderSelect({
+  folders,
+  folderId,
+  onFolderChange,
+  onCreateFolder,
+  onRenameFolder,
+  onDeleteFolder,
+  isMutating
+}: CollectionFolderSelectProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const [dialog, setDialog] = useState<FolderDialog>(null)
+  const [name, setName] = useState('')
+
+  const currentFolder = folders.find((folder) => folder.id === folderId)
+  const canEditCurrent = currentFolder && !isBuiltInFolder(currentFolder.id)
+  const canDeleteCurrent = canEditCurrent && currentFolder.count === 0
+
+  const getFolderName = (folder: DiscogsCollectionFolder) => {
+    if (folder.id === 0) return t('folders.all')
+    if (folder.id === 1) return t('folders.uncategorized')
+    return folder.name
+  }
+
+  const openDialog = (nextDialog: Exclude<FolderDialog, null>) => {
+    setName(nextDialog === 'rename' ? (currentFolder?.name ?? '') : '')
+    setDialog(nextDialog)
+  }
+
+  const handleSubmitName = async () => {
+    const trimmedName = name.trim()
+    if (!trimmedName) return
+
+    try {
+      if (dialog === 'create') {
+        const folder = await onCreateFolder(trimmedName)
+        onFolderChange(folder.id)
+        toast.success(t('folders.created', { name: trimmedName }))
+      } else if (dialog === 'rename' && currentFolder) {
+        await onRenameFolder(currentFolder.id, trimmedName)
+        toast.success(t('folders.renamed', { name: trimmedName }))
+      }
+      setDialog(null)
+    } catch {
+      toast.error(
+        dialog === 'create'
+          ? t('folders.errors.createFailed')
+          : t('folders.errors.renameFailed')
+      )
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!currentFolder) return
+
+    try {
+      await onDeleteFolder(currentFolder.id)
+      onFolderChange(0)
+      toast.success(t('folders.deleted', { name: currentFolder.name }))
+    } catch {
+      toast.error(t('folders.errors.deleteFailed'))
+    } finally {
+      setDialog(null)
+    }
+  }
+
+  return (
+    <>
+      <Select
+        value={String(folderId)}
+        onValueChange={(value) => {
+          onFolderChange(Number(value))
+        }}
+      >
+        <SelectTrigger
+          size="sm"
+          className="w-[140px] px-2 sm:w-[180px] sm:px-3"
+          aria-label={t('folders.label')}
+        >
+          <SelectValue placeholder={t('folders.all')} />
+        </SelectTrigger>
+        <SelectContent>
+          {folders.length === 0 ? (
+            <SelectItem value={String(folderId)}>{t('folders.all')}</SelectItem>
+          ) : null}
+          {folders.map((folder) => (
+            <SelectItem key={folder.id} value={String(folder.id)}>
+              <span className="truncate">{getFolderName(folder)}</span>
+              <span className="text-muted-foreground ml-auto pl-2 tabular-nums">
+                {folder.count}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon-sm"
+            disabled={isMutating}
+            aria-label={t('folders.manage')}
+            title={t('folders.manage')}
+          >
+            <FolderCog className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onSelect={() => {
+              openDialog('create')
+            }}
+          >
+            <FolderPlus />
+            {t('folders.create')}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            disabled={!canEditCurrent}
+            onSelect={() => {
+              openDialog('rename')
+            }}
+          >
+            <FolderPen />
+            {t('folders.rename')}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            variant="destructive"
+            disabled={!canDeleteCurrent}
+            onSelect={() => {
+              openDialog('delete')
+            }}
+          >
+            <Trash2 />
+            {t('folders.delete')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog
+        open={dialog === 'create' || dialog === 'rename'}
+        onOpenChange={(open) => {
+          if (!open) setDialog(null)
+        }}
+      >
+        <AlertDialogContent>
+          <form
+            className="flex flex-col gap-4"
+            onSubmit={(event) => {
+              event.preventDefault()
+              void handleSubmitName()
+            }}
+          >
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {dialog === 'rename'
+                  ? t('folders.renameTitle')
+                  : t('folders.createTitle')}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {t('folders.nameDescription')}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <Input
+              value={name}
+              maxLength={255}
+              placeholder={t('folders.namePlaceholder')}
+              aria-label={t('folders.namePlaceholder')}
+              onChange={(event) => {
+                setName(event.target.value)
+              }}
+            />
+            <AlertDialogFooter>
+              <AlertDialogCancel type="button">
+                {t('common.cancel')}
+              </AlertDialogCancel>
+              <Button type="submit" disabled={isMutating || !name.trim()}>
+                {t('folders.save')}
+              </Button>
+            </AlertDialogFooter>
+          </form>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog
+        open={dialog === 'delete'}
+        onOpenChange={(open) => {
+          if (!open) setDialog(null)
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('folders.deleteTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('folders.deleteDescription', {
+                name: currentFolder?.name ?? ''
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={isMutating}
+              onClick={(event) => {
+                // Keep the dialog open until the request settles
+                event.preventDefault()
+                void handleDelete()
+              }}
+              className="bg-destructive hover:bg-destructive/90 text-white"
+            >
+              {t('folders.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
@@ -7,6 +7,11 @@ import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Button } from '@/components/ui/button'
 import { useCollectionSync } from '@/hooks/use-collection-sync'
 import { useUserProfile } from '@/hooks/use-user-profile'
+import { formatArtistCredit } from '@/lib/formatters'
+import type { DiscogsCollectionRelease } from '@/types/discogs'
+
+/** Releases listed per group before collapsing into "and N more" */
+const MAX_LISTED = 5
 
 /**
  * Global persistent banner that notifies user of collection changes.
@@ -16,15 +21,23 @@ import { useUserProfile } from '@/hooks/use-user-profile'
  * 1. User adds vinyl on Discogs website
  * 2. User opens VinylDeck → cached collection loads instantly
  * 3. Background metadata check detects count change (refetch on window focus)
- * 4. Banner shows: "5 new items detected. Refresh to see changes."
- * 5. User clicks refresh → full collection refetches
+ * 4. Banner shows: "5 new items detected. Refresh to see changes.", then
+ *    lists the added and removed releases once the sync diff has loaded
+ * 5. User clicks refresh → the diff is merged into the cache, or the full
+ *    collection refetches if no diff could be made
  * 6. Old data shown during refresh (no loading spinner on collection view)
  * 7. Banner visible on Settings, Collection, and all future authenticated pages
  */
 export function CollectionSyncBanner(): React.JSX.Element | null {
   const { t } = useTranslation()
-  const { hasChanges, newItemsCount, deletedItemsCount, refreshCollection } =
-    useCollectionSync()
+  const {
+    hasChanges,
+    newItemsCount,
+    deletedItemsCount,
+    addedReleases,
+    removedReleases,
+    refreshCollection
+  } = useCollectionSync()
   const { profile } = useUserProfile()
   const username = profile?.username
 
@@ -48,6 +61,31 @@ export function CollectionSyncBanner(): React.JSX.Element | null {
     return parts.join(' ')
   }
 
+  const renderReleases = (
+    label: string,
+    releases: DiscogsCollectionRelease[]
+  ) => {
+    if (releases.length === 0) return null
+
+    const hiddenCount = releases.length - MAX_LISTED
+    return (
+      <div>
+        <span className="font-medium">{label}</span>
+        <ul className="text-muted-foreground">
+          {releases.slice(0, MAX_LISTED).map((release) => (
+            <li key={release.instance_id} className="truncate">
+              {formatArtistCredit(release.basic_information.artists)} –{' '}
+              {release.basic_information.title}
+            </li>
+          ))}
+          {hiddenCount > 0 ? (
+            <li>{t('collection.sync.more', { count: hiddenCount })}</li>
+          ) : null}
+        </ul>
+      </div>
+    )
+  }
+
   return (
     <div className="px-6 pt-6">
       <Alert className="mb-4">
@@ -56,18 +94,26 @@ export function CollectionSyncBanner(): React.JSX.Element | null {
         ) : (
           <RefreshCw className="h-4 w-4" />
         )}
-        <AlertDescription className="flex items-center justify-between">
-          <span>{getMessage()}</span>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={refreshCollection}
-            disabled={isFetching}
-          >
-            {isFetching
-              ? t('collection.sync.refreshing')
-              : t('collection.sync.refreshNow')}
-          </Button>
+        <AlertDescription className="flex flex-col gap-2">
+          <div className="flex w-full items-center justify-between gap-4">
+            <span>{getMessage()}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={refreshCollection}
+              disabled={isFetching}
+            >
+              {isFetching
+                ? t('collection.sync.refreshing')
+                : t('collection.sync.refreshNow')}
+            </Button>
+          </div>
+          {isFetching ? null : (
+            <div className="grid w-full gap-2 text-sm sm:grid-cols-2">
+              {renderReleases(t('collection.sync.added'), addedReleases)}
+              {renderReleases(t('collection.sync.removed'), removedReleases)}
+            </div>
+          )}
         </AlertDescription>
       </Alert>
     </div>
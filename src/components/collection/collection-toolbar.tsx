@@ -1,10 +1,15 @@
 import { Search, ArrowDown, ArrowUp, Shuffle } from 'lucide-react'
+import { useId } from 'react'
 import { useTranslation } from 'react-i18next'
 
 import {
   CollectionFilters,
   type CollectionFiltersProps
 } from '@/components/collection/collection-filters'
+import {
+  CollectionFolderSelect,
+  type CollectionFolderSelectProps
+} from '@/components/collection/collection-folder-select'
 import { ViewToggle } from '@/components/collection/view-toggle'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -18,12 +23,16 @@ import {
   SelectTrigger,
   SelectValue
 } from '@/components/ui/select'
+import { MARKETPLACE } from '@/lib/constants'
+import { SEARCH_FIELDS, type SearchQueryIssue } from '@/lib/search-query'
 import type { CollectionSortKey, CollectionSortOrder } from '@/types/discogs'
 import type { ViewMode } from '@/types/preferences'
 
 interface CollectionToolbarProps {
   search: string
   onSearchChange: (search: string) => void
+  /** Problems with the search syntax, shown under the search box */
+  searchIssues?: SearchQueryIssue[]
   sort: CollectionSortKey
   onSortChange: (sort: CollectionSortKey) => void
   sortOrder: CollectionSortOrder
@@ -32,11 +41,14 @@ interface CollectionToolbarProps {
   viewMode: ViewMode
   onViewToggle: () => void
   filters: CollectionFiltersProps
+  /** Folder switcher; omitted for lists without folders (e.g. the wantlist) */
+  folders?: CollectionFolderSelectProps
 }
 
 export function CollectionToolbar({
   search,
   onSearchChange,
+  searchIssues,
   sort,
   onSortChange,
   sortOrder,
@@ -44,9 +56,23 @@ export function CollectionToolbar({
   onReshuffle,
   viewMode,
   onViewToggle,
-  filters
+  filters,
+  folders
 }: CollectionToolbarProps): React.JSX.Element {
   const { t } = useTranslation()
+  const hintsId = useId()
+
+  // The same problem can come up more than once in a query; list it once
+  const searchHints = [
+    ...new Set(
+      (searchIssues ?? []).map((issue) =>
+        t(`collection.searchHints.${issue.type}`, {
+          ...issue,
+          fields: SEARCH_FIELDS.map((field) => `${field}:`).join(' ')
+        })
+      )
+    )
+  ]
 
   const toggleSortOrder = () => {
     if (isRandomSort) {
@@ -63,10 +89,14 @@ export function CollectionToolbar({
     sort === 'label' ||
     sort === 'format' ||
     sort === 'genre'
+  const isValueSort = sort === 'value'
+  const isRatingSort = sort === 'rating'
   const isRandomSort = sort === 'random'
+  const isRelevanceSort = sort === 'relevance'
   const canReshuffle = Boolean(onReshuffle)
   const sortOrderLabel = (() => {
     if (isRandomSort) return t('collection.sortOrder.shuffle')
+    if (isRelevanceSort) return t('collection.sortOrder.relevance')
     if (isTimelineSort) {
       return sortOrder === 'asc'
         ? t('collection.sortOrder.oldest')
@@ -77,6 +107,16 @@ export function CollectionToolbar({
         ? t('collection.sortOrder.az')
         : t('collection.sortOrder.za')
     }
+    if (isRatingSort) {
+      return sortOrder === 'asc'
+        ? t('collection.sortOrder.lowestRated')
+        : t('collection.sortOrder.highestRated')
+    }
+    if (isValueSort) {
+      return sortOrder === 'asc'
+        ? t('collection.sortOrder.cheapest')
+        : t('collection.sortOrder.mostValuable')
+    }
     return sortOrder === 'asc'
       ? t('collection.sortOrder.asc')
       : t('collection.sortOrder.desc')
@@ -84,20 +124,36 @@ export function CollectionToolbar({
 
   return (
     <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-      <div className="group relative flex-1 sm:max-w-xs">
-        <Search className="text-muted-foreground group-focus-within:text-foreground absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 transition-colors" />
-        <Input
-          type="search"
-          placeholder={t('collection.search')}
-          aria-label={t('collection.search')}
-          value={search}
-          onChange={(e) => {
-            onSearchChange(e.target.value)
-          }}
-          className="pl-9"
-        />
+      <div className="flex-1 sm:max-w-xs">
+        <div className="group relative">
+          <Search className="text-muted-foreground group-focus-within:text-foreground absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 transition-colors" />
+          <Input
+            type="search"
+            placeholder={t('collection.search')}
+            aria-label={t('collection.search')}
+            title={t('collection.searchSyntax')}
+            value={search}
+            onChange={(e) => {
+              onSearchChange(e.target.value)
+            }}
+            aria-invalid={searchHints.length > 0}
+            {...(searchHints.length > 0 ? { 'aria-describedby': hintsId } : {})}
+            className="pl-9"
+          />
+        </div>
+        {searchHints.length > 0 ? (
+          <ul
+            id={hintsId}
+            className="text-destructive mt-1.5 space-y-0.5 text-xs"
+          >
+            {searchHints.map((hint) => (
+              <li key={hint}>{hint}</li>
+            ))}
+          </ul>
+        ) : null}
       </div>
       <div className="flex flex-wrap items-center justify-end gap-2">
+        {folders ? <CollectionFolderSelect {...folders} /> : null}
         <ViewToggle viewMode={viewMode} onToggle={onViewToggle} />
         <CollectionFilters {...filters} />
         <Select value={sort} onValueChange={onSortChange}>
@@ -108,6 +164,14 @@ export function CollectionToolbar({
             <SelectValue placeholder={t('collection.sort.placeholder')} />
           </SelectTrigger>
           <SelectContent>
+            {search.trim() ? (
+              <>
+                <SelectItem value="relevance">
+                  {t('collection.sort.relevance')}
+                </SelectItem>
+                <SelectSeparator />
+              </>
+            ) : null}
             <SelectGroup>
               <SelectLabel>{t('collection.sortGroup.timeline')}</SelectLabel>
               <SelectItem value="added">
@@ -139,6 +203,19 @@ export function CollectionToolbar({
             <SelectSeparator />
             <SelectGroup>
               <SelectLabel>{t('collection.sortGroup.other')}</SelectLabel>
+              <SelectItem value="rating">
+                {t('collection.sort.rating')}
+              </SelectItem>
+              <SelectItem
+                value="value"
+                title={t('collection.sort.valueHint', {
+                  count: MARKETPLACE.VALUE_SORT_LIMIT
+                })}
+              >
+                {t('collection.sort.value', {
+                  count: MARKETPLACE.VALUE_SORT_LIMIT
+                })}
+              </SelectItem>
               <SelectItem value="random">
                 {t('collection.sort.random')}
               </SelectItem>
@@ -149,7 +226,7 @@ export function CollectionToolbar({
           variant="outline"
           size="icon-sm"
           onClick={toggleSortOrder}
-          disabled={isRandomSort ? !canReshuffle : false}
+          disabled={isRelevanceSort || (isRandomSort && !canReshuffle)}
           title={sortOrderLabel}
           aria-label={sortOrderLabel}
           className="transition-all duration-200 hover:scale-110"
@@ -158,7 +235,7 @@ export function CollectionToolbar({
             <Shuffle className="h-4 w-4" />
           ) : (
             <>
-              {sortOrder === 'asc' ? (
+              {sortOrder === 'asc' && !isRelevanceSort ? (
                 <ArrowUp className="h-4 w-4" />
               ) : (
                 <ArrowDown className="h-4 w-4" />
@@ -0,0 +1,64 @@
+import { createPortal } from 'react-dom'
+import { useTranslation } from 'react-i18next'
+
+import type { JumpSection } from '@/lib/release-filters'
+import { cn } from '@/lib/utils'
+
+interface JumpRailProps {
+  sections: JumpSection[]
+  /** First visible item, to highlight the section it belongs to */
+  currentIndex: number
+  onJump: (index: number) => void
+}
+
+/**
+ * Letters or years along the right edge of the window that scroll a long
+ * list to the start of their section. Rendered into the body, since a
+ * blurred or animated ancestor would pin it to that element instead.
+ */
+export function JumpRail({
+  sections,
+  currentIndex,
+  onJump
+}: JumpRailProps): React.JSX.Element | null {
+  const { t } = useTranslation()
+
+  if (sections.length < 2) {
+    return null
+  }
+
+  const currentSection = sections
+    .filter((section) => section.index <= currentIndex)
+    .at(-1)
+
+  return createPortal(
+    <nav
+      aria-label={t('collection.jumpRail.label')}
+      className="bg-background/80 animate-in fade-in fixed top-1/2 right-1 z-20 flex max-h-[80svh] -translate-y-1/2 flex-col overflow-y-auto rounded-full border px-0.5 py-2 shadow-sm backdrop-blur duration-500"
+    >
+      {sections.map((section) => {
+        const isCurrent = section === currentSection
+        return (
+          <button
+            key={section.label}
+            type="button"
+            onClick={() => {
+              onJump(section.index)
+            }}
+            aria-label={t('collection.jumpRail.jumpTo', {
+              section: section.label
+            })}
+            aria-current={isCurrent ? 'location' : undefined}
+            className={cn(
+              'hover:bg-accent hover:text-foreground rounded-full px-1.5 py-px text-[10px] leading-tight font-medium tabular-nums transition-colors',
+              isCurrent ? 'text-primary' : 'text-muted-foreground'
+            )}
+          >
+            {section.label}
+          </button>
+        )
+      })}
+    </nav>,
+    document.body
+  )
+}
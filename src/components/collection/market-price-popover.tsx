@@ -0,0 +1,122 @@
+import { Tag } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger
+} from '@/components/ui/popover'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  useMarketplaceStats,
+  usePriceSuggestions
+} from '@/hooks/use-marketplace'
+import { MARKETPLACE } from '@/lib/constants'
+import { formatPrice } from '@/lib/formatters'
+import { cn } from '@/lib/utils'
+
+interface MarketPricePopoverProps {
+  releaseId: number
+  className?: string
+}
+
+function MarketPriceDetails({ releaseId }: { releaseId: number }) {
+  const { t, i18n } = useTranslation()
+  const stats = useMarketplaceStats([releaseId])
+  const suggestions = usePriceSuggestions([releaseId])
+  const releaseStats = stats.byReleaseId.get(releaseId)
+  const releaseSuggestions = suggestions.byReleaseId.get(releaseId)
+  const lowestPrice = releaseStats?.lowest_price
+    ? formatPrice(releaseStats.lowest_price, i18n.language)
+    : '-'
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1">
+        <dt className="text-muted-foreground">
+          {t('marketplace.lowestPrice')}
+        </dt>
+        <dd className="text-right tabular-nums">
+          {stats.pendingCount > 0 ? (
+            <Skeleton className="h-4 w-14" />
+          ) : (
+            lowestPrice
+          )}
+        </dd>
+        <dt className="text-muted-foreground">{t('marketplace.forSale')}</dt>
+        <dd className="text-right tabular-nums">
+          {stats.pendingCount > 0 ? (
+            <Skeleton className="h-4 w-8" />
+          ) : (
+            (releaseStats?.num_for_sale ?? '-')
+          )}
+        </dd>
+      </dl>
+
+      <div>
+        <p className="text-muted-foreground mb-1 text-xs font-semibold tracking-wide uppercase">
+          {t('marketplace.suggested')}
+        </p>
+        {suggestions.pendingCount > 0 ? (
+          <Skeleton className="h-24 w-full" />
+        ) : null}
+        {suggestions.pendingCount === 0 && releaseSuggestions ? (
+          <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1">
+            {MARKETPLACE.CONDITIONS.map(({ grade, short }) => {
+              const suggestion = releaseSuggestions[grade]
+              return (
+                <div key={grade} className="contents">
+                  <dt className="text-muted-foreground" title={grade}>
+                    {short}
+                  </dt>
+                  <dd className="text-right tabular-nums">
+                    {suggestion ? formatPrice(suggestion, i18n.language) : '-'}
+                  </dd>
+                </div>
+              )
+            })}
+          </dl>
+        ) : null}
+        {suggestions.pendingCount === 0 && !releaseSuggestions ? (
+          <p className="text-muted-foreground text-xs">
+            {t('marketplace.noSuggestions')}
+          </p>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Price button for a release card. Lookups only start when the popover is
+ * opened, so browsing the grid costs no marketplace requests.
+ */
+export function MarketPricePopover({
+  releaseId,
+  className
+}: MarketPricePopoverProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label={t('marketplace.showPrices')}
+          title={t('marketplace.showPrices')}
+          className={cn(
+            'focus-visible:ring-ring flex h-7 w-7 items-center justify-center rounded-full bg-black/70 text-white shadow-lg ring-1 ring-white/30 backdrop-blur-sm transition-opacity focus-visible:ring-2 focus-visible:outline-none',
+            className
+          )}
+        >
+          <Tag className="h-3.5 w-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-60" align="start">
+        {open ? <MarketPriceDetails releaseId={releaseId} /> : null}
+      </PopoverContent>
+    </Popover>
+  )
+}
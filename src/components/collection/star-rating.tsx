@@ -0,0 +1,106 @@
+import { Star } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { cn } from '@/lib/utils'
+
+interface StarRatingProps {
+  /** Rating from 0 (unrated) to 5; fractions are rounded for display */
+  value: number
+  /** Makes the stars editable. Choosing the current rating clears it. */
+  onChange?: (rating: number) => void
+  size?: 'sm' | 'md'
+  /** Accessible name; defaults to describing the current rating */
+  label?: string
+  className?: string
+}
+
+const STARS = [1, 2, 3, 4, 5]
+
+/**
+ * Five-star rating display with an optional inline editor.
+ *
+ * Clicks and key presses don't propagate, so the control can sit inside
+ * clickable rows and cards without triggering their navigation.
+ */
+export function StarRating({
+  value,
+  onChange,
+  size = 'md',
+  label,
+  className
+}: StarRatingProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const [hovered, setHovered] = useState<number | null>(null)
+  const rounded = Math.round(value)
+  const shown = hovered ?? rounded
+  const iconClassName = size === 'sm' ? 'h-3.5 w-3.5' : 'h-4 w-4'
+
+  const renderStar = (star: number) => (
+    <Star
+      className={cn(
+        iconClassName,
+        star <= shown
+          ? 'fill-amber-400 text-amber-400'
+          : 'text-muted-foreground/40'
+      )}
+    />
+  )
+
+  if (!onChange) {
+    return (
+      <div
+        className={cn('flex items-center gap-0.5', className)}
+        role="img"
+        aria-label={label ?? t('rating.label', { rating: value })}
+      >
+        {STARS.map((star) => (
+          <span key={star}>{renderStar(star)}</span>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={cn('flex items-center', className)}
+      role="group"
+      aria-label={label ?? t('rating.label', { rating: rounded })}
+    >
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          aria-pressed={star === rounded}
+          aria-label={
+            star === rounded
+              ? t('rating.clear')
+              : t('rating.rate', { count: star })
+          }
+          title={
+            star === rounded
+              ? t('rating.clear')
+              : t('rating.rate', { count: star })
+          }
+          className="focus-visible:ring-ring rounded-sm p-px transition-transform hover:scale-110 focus-visible:ring-2 focus-visible:outline-none"
+          onMouseEnter={() => {
+            setHovered(star)
+          }}
+          onMouseLeave={() => {
+            setHovered(null)
+          }}
+          onClick={(event) => {
+            event.preventDefault()
+            event.stopPropagation()
+            onChange(star === rounded ? 0 : star)
+          }}
+          onKeyDown={(event) => {
+            event.stopPropagation()
+          }}
+        >
+          {renderStar(star)}
+        </button>
+      ))}
+    </div>
+  )
+}
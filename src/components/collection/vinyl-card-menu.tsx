@@ -0,0 +1,184 @@
+import {
+  CopyPlus,
+  EllipsisVertical,
+  FolderInput,
+  Plus,
+  Trash2
+} from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { cn } from '@/lib/utils'
+import type {
+  DiscogsCollectionFolder,
+  DiscogsCollectionRelease,
+  DiscogsListItem
+} from '@/types/discogs'
+
+/** Collection edits offered from a card's menu; omit one to hide it */
+export interface VinylCardMenuActions {
+  /** Adds a (further) copy of the release to the collection */
+  onAddToCollection?: (release: DiscogsListItem) => void
+  /** Folders offered as move targets; folder 0 ("All") is skipped */
+  folders?: DiscogsCollectionFolder[]
+  onMoveToFolder?: (
+    release: DiscogsCollectionRelease,
+    targetFolderId: number
+  ) => void
+  onRemove?: (release: DiscogsCollectionRelease) => void
+}
+
+interface VinylCardMenuProps extends VinylCardMenuActions {
+  release: DiscogsListItem
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  className?: string
+}
+
+const NO_FOLDERS: DiscogsCollectionFolder[] = []
+
+/**
+ * Kebab menu on a vinyl card for adding, moving and removing collection
+ * instances. The card also opens it on right-click, so it is controlled.
+ */
+export function VinylCardMenu({
+  release,
+  open,
+  onOpenChange,
+  onAddToCollection,
+  folders = NO_FOLDERS,
+  onMoveToFolder,
+  onRemove,
+  className
+}: VinylCardMenuProps): React.JSX.Element | null {
+  const { t } = useTranslation()
+  const [isConfirmingRemove, setIsConfirmingRemove] = useState(false)
+  const instance = 'instance_id' in release ? release : null
+  const moveTargets = folders.filter(
+    (folder) => folder.id !== 0 && folder.id !== (instance?.folder_id ?? 1)
+  )
+  const canMove = instance && onMoveToFolder && moveTargets.length > 0
+  const canRemove = instance && onRemove
+
+  if (!onAddToCollection && !canMove && !canRemove) {
+    return null
+  }
+
+  return (
+    <>
+      <DropdownMenu open={open} onOpenChange={onOpenChange}>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            aria-label={t('collection.actions.menu')}
+            title={t('collection.actions.menu')}
+            className={cn(
+              'focus-visible:ring-ring flex h-7 w-7 items-center justify-center rounded-full bg-black/70 text-white shadow-lg ring-1 ring-white/30 backdrop-blur-sm transition-opacity focus-visible:ring-2 focus-visible:outline-none',
+              className
+            )}
+          >
+            <EllipsisVertical className="h-3.5 w-3.5" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {onAddToCollection ? (
+            <DropdownMenuItem
+              onSelect={() => {
+                onAddToCollection(release)
+              }}
+            >
+              {instance ? <CopyPlus /> : <Plus />}
+              {instance
+                ? t('collection.actions.addCopy')
+                : t('collection.actions.addToCollection')}
+            </DropdownMenuItem>
+          ) : null}
+          {canMove ? (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <FolderInput />
+                {t('collection.actions.moveToFolder')}
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {moveTargets.map((folder) => (
+                  <DropdownMenuItem
+                    key={folder.id}
+                    onSelect={() => {
+                      onMoveToFolder(instance, folder.id)
+                    }}
+                  >
+                    {folder.id === 1 ? t('folders.uncategorized') : folder.name}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          ) : null}
+          {canRemove ? (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                variant="destructive"
+                onSelect={() => {
+                  setIsConfirmingRemove(true)
+                }}
+              >
+                <Trash2 />
+                {t('collection.actions.remove')}
+              </DropdownMenuItem>
+            </>
+          ) : null}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {canRemove ? (
+        <AlertDialog
+          open={isConfirmingRemove}
+          onOpenChange={setIsConfirmingRemove}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {t('collection.actions.removeTitle')}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {t('collection.actions.removeDescription', {
+                  title: instance.basic_information.title
+                })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => {
+                  onRemove(instance)
+                }}
+              >
+                {t('collection.actions.remove')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      ) : null}
+    </>
+  )
+}
@@ -1,15 +1,35 @@
+import { Link } from '@tanstack/react-router'
 import { Disc3 } from 'lucide-react'
 import { useState } from 'react'
 
+import { getNoteValue } from '@/api/discogs'
 import { getLimitedGenreParts } from '@/lib/formatters'
 import { cn } from '@/lib/utils'
-import type { DiscogsCollectionRelease } from '@/types/discogs'
+import type {
+  DiscogsCollectionField,
+  DiscogsCollectionRelease,
+  DiscogsListItem
+} from '@/types/discogs'
+
+import { MarketPricePopover } from './market-price-popover'
+import { StarRating } from './star-rating'
+import { VinylCardMenu } from './vinyl-card-menu'
+
+import type { VinylCardMenuActions } from './vinyl-card-menu'
 
 interface VinylCardProps {
-  release: DiscogsCollectionRelease
+  release: DiscogsListItem
+  /** Custom notes fields; short (non-textarea) values show on hover */
+  customFields?: DiscogsCollectionField[]
+  /** Enables inline rating for collection items */
+  onRatingChange?: (release: DiscogsCollectionRelease, rating: number) => void
+  /** Collection edits offered from the card menu (also on right-click) */
+  actions?: VinylCardMenuActions
   className?: string
 }
 
+const NO_CUSTOM_FIELDS: DiscogsCollectionField[] = []
+
 interface VinylInfo {
   color?: string
   weight?: string
@@ -215,9 +235,13 @@ function extractVinylInfo(
 
 export function VinylCard({
   release,
+  customFields = NO_CUSTOM_FIELDS,
+  onRatingChange,
+  actions,
   className
 }: VinylCardProps): React.JSX.Element {
   const [imageErrored, setImageErrored] = useState(false)
+  const [isMenuOpen, setIsMenuOpen] = useState(false)
   const { basic_information: info } = release
   const artistName = info.artists.map((a) => a.name).join(', ')
   const coverImage = info.cover_image || info.thumb
@@ -239,14 +263,22 @@ export function VinylCard({
     .join(' · ')
   const vinylInfo = extractVinylInfo(info.formats)
   const colorStyles = vinylInfo.color ? getColorStyles(vinylInfo.color) : null
+  const ratableRelease =
+    onRatingChange && 'instance_id' in release ? release : null
+  const fieldDetails = customFields
+    .filter((field) => field.type !== 'textarea')
+    .map((field) => ({
+      id: field.id,
+      name: field.name,
+      value: getNoteValue(release, field.id)
+    }))
+    .filter((detail) => detail.value !== undefined)
 
-  return (
-    <div
-      className={cn(
-        'group bg-card ring-border/40 hover:ring-border/60 relative cursor-pointer overflow-hidden rounded-xl shadow-sm ring-1 transition-all duration-300 hover:-translate-y-1 hover:scale-[1.02] hover:shadow-2xl',
-        className
-      )}
-    >
+  const cardClassName =
+    'group bg-card ring-border/40 hover:ring-border/60 focus-visible:ring-ring relative block cursor-pointer overflow-hidden rounded-xl shadow-sm ring-1 transition-all duration-300 hover:-translate-y-1 hover:scale-[1.02] hover:shadow-2xl focus-visible:ring-2 focus-visible:outline-none'
+
+  const content = (
+    <>
       {/* Cover Art */}
       <div className="relative z-0 aspect-square overflow-hidden">
         {showCoverImage ? (
@@ -310,6 +342,18 @@ export function VinylCard({
                 <span className="line-clamp-1">{metaLine}</span>
               </div>
             ) : null}
+            {fieldDetails.length > 0 ? (
+              <dl className="mt-2 grid grid-cols-[auto_minmax(0,1fr)] gap-x-2 text-xs">
+                {fieldDetails.map((detail) => (
+                  <div key={detail.id} className="contents">
+                    <dt className="text-gray-400">{detail.name}</dt>
+                    <dd className="truncate text-gray-200" title={detail.value}>
+                      {detail.value}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            ) : null}
           </div>
         </div>
       </div>
@@ -323,12 +367,70 @@ export function VinylCard({
           {info.title}
         </h3>
         <p
-          className="text-muted-foreground mt-0.5 truncate text-xs"
+          className={cn(
+            'text-muted-foreground mt-0.5 truncate text-xs',
+            // Leave room for the rating stars overlaid on this line
+            ratableRelease && 'pr-20'
+          )}
           title={artistName}
         >
           {artistName}
         </p>
       </div>
+    </>
+  )
+
+  return (
+    // eslint-disable-next-line jsx-a11y/no-static-element-interactions -- right-click is a shortcut only; the menu button is the keyboard-accessible path
+    <div
+      className={cn('group/card relative', className)}
+      onContextMenu={
+        actions
+          ? (event) => {
+              event.preventDefault()
+              setIsMenuOpen(true)
+            }
+          : undefined
+      }
+    >
+      {/* Only collection items have a detail page; wants render as plain cards */}
+      {'instance_id' in release ? (
+        <Link
+          to="/collection/$instanceId"
+          params={{ instanceId: String(release.instance_id) }}
+          search={{ release: release.id }}
+          viewTransition
+          className={cardClassName}
+        >
+          {content}
+        </Link>
+      ) : (
+        <div className={cardClassName}>{content}</div>
+      )}
+      {/* Siblings of the link so rating, prices and the menu never navigate */}
+      {ratableRelease ? (
+        <StarRating
+          value={ratableRelease.rating}
+          size="sm"
+          onChange={(rating) => {
+            onRatingChange?.(ratableRelease, rating)
+          }}
+          className="absolute right-2 bottom-2.5 z-30"
+        />
+      ) : null}
+      <MarketPricePopover
+        releaseId={release.id}
+        className="absolute top-2 left-2 z-30 opacity-0 group-focus-within/card:opacity-100 group-hover/card:opacity-100 data-[state=open]:opacity-100"
+      />
+      {actions ? (
+        <VinylCardMenu
+          release={release}
+          open={isMenuOpen}
+          onOpenChange={setIsMenuOpen}
+          {...actions}
+          className="absolute top-2 left-10 z-30 opacity-0 group-focus-within/card:opacity-100 group-hover/card:opacity-100 data-[state=open]:opacity-100"
+        />
+      ) : null}
     </div>
   )
 }
@@ -1,22 +1,100 @@
-import type { DiscogsCollectionRelease } from '@/types/discogs'
+import { useRouterState } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+
+import { getListItemKey } from '@/api/discogs'
+import { useWindowVirtualizer } from '@/hooks/use-window-virtualizer'
+import type { JumpSection } from '@/lib/release-filters'
+import type {
+  DiscogsCollectionField,
+  DiscogsCollectionRelease,
+  DiscogsListItem
+} from '@/types/discogs'
 
 import { CollectionEmptyState } from './collection-empty-state'
+import { JumpRail } from './jump-rail'
 import { VinylCard } from './vinyl-card'
 import { VinylCardSkeleton } from './vinyl-card-skeleton'
 
+import type { VinylCardMenuActions } from './vinyl-card-menu'
+
 interface VinylGridProps {
-  releases: DiscogsCollectionRelease[]
+  releases: DiscogsListItem[]
   isLoading: boolean
   shouldAnimate: boolean
   animationClassName?: string
+  customFields?: DiscogsCollectionField[]
+  onRatingChange?: (release: DiscogsCollectionRelease, rating: number) => void
+  actions?: VinylCardMenuActions
+  /** Renders only the rows on screen, for showing a whole list at once */
+  virtualized?: boolean
+  /** Sections for the jump rail; only shown when virtualized */
+  jumpSections?: JumpSection[]
+}
+
+/** Columns of the grid below, per Tailwind breakpoint (sm, md, lg) */
+const GRID_COLUMN_QUERIES: Array<[query: string, columns: number]> = [
+  ['(min-width: 1024px)', 5],
+  ['(min-width: 768px)', 4],
+  ['(min-width: 640px)', 3]
+]
+
+const getGridColumns = () =>
+  GRID_COLUMN_QUERIES.find(
+    ([query]) => window.matchMedia(query).matches
+  )?.[1] ?? 2
+
+function useGridColumns(): number {
+  const [columns, setColumns] = useState(getGridColumns)
+
+  useEffect(() => {
+    const queries = GRID_COLUMN_QUERIES.map(([query]) =>
+      window.matchMedia(query)
+    )
+    const onChange = () => {
+      setColumns(getGridColumns())
+    }
+    for (const mql of queries) mql.addEventListener('change', onChange)
+    return () => {
+      for (const mql of queries) mql.removeEventListener('change', onChange)
+    }
+  }, [])
+
+  return columns
 }
 
 export function VinylGrid({
   releases,
   isLoading,
   shouldAnimate,
-  animationClassName
+  animationClassName,
+  customFields,
+  onRatingChange,
+  actions,
+  virtualized = false,
+  jumpSections
 }: VinylGridProps): React.JSX.Element {
+  const columns = useGridColumns()
+  const restoreKey = useRouterState({
+    select: (state) => state.location.state.__TSR_key
+  })
+  const {
+    listRef,
+    measureRef,
+    startIndex,
+    endIndex,
+    firstVisibleIndex,
+    paddingTop,
+    paddingBottom,
+    scrollToIndex
+  } = useWindowVirtualizer<HTMLDivElement>({
+    enabled: virtualized,
+    count: releases.length,
+    columns,
+    estimateRowHeight: 320,
+    rowGap: 24,
+    restoreKey
+  })
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-2 gap-6 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
@@ -33,24 +111,50 @@ export function VinylGrid({
   }
 
   return (
-    <div className="grid grid-cols-2 gap-6 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
-      {releases.map((release, index) => (
-        <div
-          key={release.instance_id}
-          className={
-            shouldAnimate
-              ? (animationClassName ?? 'animate-card-pop')
-              : undefined
-          }
-          style={
-            shouldAnimate
-              ? { animationDelay: `${Math.min(index * 30, 300)}ms` }
-              : undefined
-          }
-        >
-          <VinylCard release={release} />
-        </div>
-      ))}
-    </div>
+    <>
+      <div
+        ref={listRef}
+        className="grid grid-cols-2 gap-6 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5"
+        style={
+          virtualized
+            ? {
+                paddingTop,
+                paddingBottom
+              }
+            : undefined
+        }
+      >
+        {releases.slice(startIndex, endIndex).map((release, offset) => (
+          <div
+            key={getListItemKey(release)}
+            ref={offset === 0 ? measureRef : undefined}
+            className={
+              shouldAnimate
+                ? (animationClassName ?? 'animate-card-pop')
+                : undefined
+            }
+            style={
+              shouldAnimate
+                ? { animationDelay: `${Math.min(offset * 30, 300)}ms` }
+                : undefined
+            }
+          >
+            <VinylCard
+              release={release}
+              {...(customFields && { customFields })}
+              {...(onRatingChange && { onRatingChange })}
+              {...(actions && { actions })}
+            />
+          </div>
+        ))}
+      </div>
+      {virtualized && jumpSections ? (
+        <JumpRail
+          sections={jumpSections}
+          currentIndex={firstVisibleIndex}
+          onJump={scrollToIndex}
+        />
+      ) : null}
+    </>
   )
 }
@@ -1,7 +1,18 @@
-import { Disc3 } from 'lucide-react'
+import { useNavigate, useRouterState } from '@tanstack/react-router'
+import { Columns3, Disc3 } from 'lucide-react'
 import { useState } from 'react'
 import { useTranslation } from 'react-i18next'
 
+import { getListItemKey, getNoteValue } from '@/api/discogs'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
 import {
   Table,
   TableBody,
@@ -10,20 +21,69 @@ import {
   TableHeader,
   TableRow
 } from '@/components/ui/table'
-import { getLimitedGenreParts } from '@/lib/formatters'
-import type { DiscogsCollectionRelease, DiscogsFormat } from '@/types/discogs'
+import {
+  useMarketplaceStats,
+  usePriceSuggestions
+} from '@/hooks/use-marketplace'
+import { useWindowVirtualizer } from '@/hooks/use-window-virtualizer'
+import { MARKETPLACE } from '@/lib/constants'
+import { formatPrice, getLimitedGenreParts } from '@/lib/formatters'
+import type { JumpSection } from '@/lib/release-filters'
+import { cn } from '@/lib/utils'
+import type {
+  DiscogsCollectionField,
+  DiscogsCollectionRelease,
+  DiscogsFormat,
+  DiscogsListItem,
+  DiscogsMarketplaceStats,
+  DiscogsPriceSuggestionsResponse
+} from '@/types/discogs'
+import type { MarketplaceColumn } from '@/types/preferences'
 
 import { CollectionEmptyState } from './collection-empty-state'
+import { JumpRail } from './jump-rail'
+import { StarRating } from './star-rating'
 import { VinylTableSkeleton } from './vinyl-table-skeleton'
 
 import type { TFunction } from 'i18next'
 
 interface VinylTableProps {
-  releases: DiscogsCollectionRelease[]
+  releases: DiscogsListItem[]
   isLoading: boolean
   shouldAnimate: boolean
+  /** Optional marketplace columns; lookups run only for visible columns */
+  marketplaceColumns?: MarketplaceColumn[]
+  onMarketplaceColumnsChange?: (columns: MarketplaceColumn[]) => void
+  /** Custom notes fields shown as columns (textarea fields are skipped) */
+  customFields?: DiscogsCollectionField[]
+  /** Adds an editable rating column for collection items */
+  onRatingChange?: (release: DiscogsCollectionRelease, rating: number) => void
+  /**
+   * Renders only the rows on screen, for showing a whole list at once;
+   * marketplace lookups then run for those rows only
+   */
+  virtualized?: boolean
+  /** Sections for the jump rail; only shown when virtualized */
+  jumpSections?: JumpSection[]
 }
 
+/** Columns besides ratings, custom fields and marketplace data */
+const BASE_COLUMN_COUNT = 6
+
+const NO_MARKETPLACE_COLUMNS: MarketplaceColumn[] = []
+const NO_CUSTOM_FIELDS: DiscogsCollectionField[] = []
+
+/** Column order follows this list, not the order columns were enabled in */
+const MARKETPLACE_COLUMN_ORDER: MarketplaceColumn[] = [
+  'lowestPrice',
+  'numForSale',
+  ...MARKETPLACE.CONDITIONS.map((condition) => condition.grade)
+]
+
+const getConditionShort = (column: MarketplaceColumn) =>
+  MARKETPLACE.CONDITIONS.find((condition) => condition.grade === column)
+    ?.short ?? column
+
 const formatFormats = (formats: DiscogsFormat[]) => {
   const unique = Array.from(
     new Set(formats.map((format) => format.name).filter(Boolean))
@@ -32,19 +92,56 @@ const formatFormats = (formats: DiscogsFormat[]) => {
 }
 
 interface VinylTableRowProps {
-  release: DiscogsCollectionRelease
+  release: DiscogsListItem
   index: number
   shouldAnimate: boolean
+  marketplaceColumns: MarketplaceColumn[]
+  fieldColumns: DiscogsCollectionField[]
+  onRatingChange:
+    | ((release: DiscogsCollectionRelease, rating: number) => void)
+    | undefined
+  stats: DiscogsMarketplaceStats | undefined
+  suggestions: DiscogsPriceSuggestionsResponse | undefined
+  locale: string
+  /** Empty cell under the column picker in the header */
+  hasTrailingCell: boolean
+  /** Measures the row height for virtualized tables */
+  rowRef: ((element: HTMLElement | null) => void) | undefined
   t: TFunction
 }
 
+function getMarketplaceCellText(
+  column: MarketplaceColumn,
+  stats: DiscogsMarketplaceStats | undefined,
+  suggestions: DiscogsPriceSuggestionsResponse | undefined,
+  locale: string
+): string {
+  if (column === 'lowestPrice') {
+    return stats?.lowest_price ? formatPrice(stats.lowest_price, locale) : '-'
+  }
+  if (column === 'numForSale') {
+    return stats?.num_for_sale != null ? String(stats.num_for_sale) : '-'
+  }
+  const suggestion = suggestions?.[column]
+  return suggestion ? formatPrice(suggestion, locale) : '-'
+}
+
 function VinylTableRow({
   release,
   index,
   shouldAnimate,
+  marketplaceColumns,
+  fieldColumns,
+  onRatingChange,
+  stats,
+  suggestions,
+  locale,
+  hasTrailingCell,
+  rowRef,
   t
 }: VinylTableRowProps) {
   const [imageError, setImageError] = useState(false)
+  const navigate = useNavigate()
   const info = release.basic_information
   const artistName = info.artists.length
     ? info.artists.map((artist) => artist.name).join(', ')
@@ -58,14 +155,40 @@ function VinylTableRow({
   const animationDelay = Math.min(index * 30, 300)
   const showImage = Boolean(coverImage) && !imageError
 
+  // Only collection items have a detail page; wants render as plain rows
+  const openDetails =
+    'instance_id' in release
+      ? () => {
+          void navigate({
+            to: '/collection/$instanceId',
+            params: { instanceId: String(release.instance_id) },
+            search: { release: release.id },
+            viewTransition: true
+          })
+        }
+      : undefined
+
   return (
     <TableRow
-      className={
-        shouldAnimate ? 'animate-view-switch cursor-pointer' : 'cursor-pointer'
-      }
+      ref={rowRef}
+      className={cn(
+        shouldAnimate && 'animate-view-switch',
+        openDetails &&
+          'focus-visible:bg-muted/50 cursor-pointer focus-visible:outline-none'
+      )}
       style={
         shouldAnimate ? { animationDelay: `${animationDelay}ms` } : undefined
       }
+      {...(openDetails && {
+        role: 'link',
+        tabIndex: 0,
+        onClick: openDetails,
+        onKeyDown: (event: React.KeyboardEvent) => {
+          if (event.key === 'Enter') {
+            openDetails()
+          }
+        }
+      })}
     >
       <TableCell className="w-16 min-w-[64px]">
         {showImage ? (
@@ -119,6 +242,40 @@ function VinylTableRow({
       >
         {formatText || '-'}
       </TableCell>
+      {onRatingChange ? (
+        <TableCell className="hidden w-28 sm:table-cell">
+          {'instance_id' in release ? (
+            <StarRating
+              value={release.rating}
+              size="sm"
+              onChange={(rating) => {
+                onRatingChange(release, rating)
+              }}
+            />
+          ) : null}
+        </TableCell>
+      ) : null}
+      {fieldColumns.map((field) => {
+        const value = getNoteValue(release, field.id)
+        return (
+          <TableCell
+            key={field.id}
+            className="hidden max-w-[160px] truncate lg:table-cell"
+            title={value}
+          >
+            {value ?? '-'}
+          </TableCell>
+        )
+      })}
+      {marketplaceColumns.map((column) => (
+        <TableCell
+          key={column}
+          className="hidden text-right tabular-nums md:table-cell"
+        >
+          {getMarketplaceCellText(column, stats, suggestions, locale)}
+        </TableCell>
+      ))}
+      {hasTrailingCell ? <TableCell /> : null}
     </TableRow>
   )
 }
@@ -126,9 +283,71 @@ function VinylTableRow({
 export function VinylTable({
   releases,
   isLoading,
-  shouldAnimate
+  shouldAnimate,
+  marketplaceColumns = NO_MARKETPLACE_COLUMNS,
+  onMarketplaceColumnsChange,
+  customFields = NO_CUSTOM_FIELDS,
+  onRatingChange,
+  virtualized = false,
+  jumpSections
 }: VinylTableProps): React.JSX.Element {
-  const { t } = useTranslation()
+  const { t, i18n } = useTranslation()
+  const restoreKey = useRouterState({
+    select: (state) => state.location.state.__TSR_key
+  })
+  const {
+    listRef,
+    measureRef,
+    startIndex,
+    endIndex,
+    firstVisibleIndex,
+    paddingTop,
+    paddingBottom,
+    scrollToIndex
+  } = useWindowVirtualizer<HTMLTableSectionElement>({
+    enabled: virtualized,
+    count: releases.length,
+    columns: 1,
+    estimateRowHeight: 73,
+    overscan: 10,
+    restoreKey
+  })
+  const visibleReleases = releases.slice(startIndex, endIndex)
+  const fieldColumns = customFields.filter((field) => field.type !== 'textarea')
+  const visibleColumns = MARKETPLACE_COLUMN_ORDER.filter((column) =>
+    marketplaceColumns.includes(column)
+  )
+  const columnCount =
+    BASE_COLUMN_COUNT +
+    (onRatingChange ? 1 : 0) +
+    fieldColumns.length +
+    visibleColumns.length +
+    (onMarketplaceColumnsChange ? 1 : 0)
+  const releaseIds = visibleReleases.map((release) => release.id)
+  const needsStats = visibleColumns.some(
+    (column) => column === 'lowestPrice' || column === 'numForSale'
+  )
+  const needsSuggestions = visibleColumns.some(
+    (column) => column !== 'lowestPrice' && column !== 'numForSale'
+  )
+  const stats = useMarketplaceStats(needsStats ? releaseIds : [])
+  const suggestions = usePriceSuggestions(needsSuggestions ? releaseIds : [])
+
+  const getColumnLabel = (column: MarketplaceColumn) => {
+    if (column === 'lowestPrice') return t('marketplace.lowestPrice')
+    if (column === 'numForSale') return t('marketplace.forSale')
+    return t('marketplace.suggestedFor', {
+      grade: getConditionShort(column)
+    })
+  }
+
+  const toggleColumn = (column: MarketplaceColumn, checked: boolean) => {
+    onMarketplaceColumnsChange?.(
+      checked
+        ? [...marketplaceColumns, column]
+        : marketplaceColumns.filter((item) => item !== column)
+    )
+  }
 
   if (isLoading) {
     return (
@@ -143,40 +362,129 @@ export function VinylTable({
   }
 
   return (
-    <div className="bg-card/60 overflow-hidden rounded-xl border shadow-sm backdrop-blur">
-      <Table className="table-fixed">
-        <TableHeader className="bg-muted/30">
-          <TableRow>
-            <TableHead className="w-16 min-w-[64px]">
-              <span className="sr-only">{t('collection.table.cover')}</span>
-            </TableHead>
-            <TableHead className="w-auto sm:w-[40%] sm:min-w-[240px]">
-              {t('collection.table.titleArtist')}
-            </TableHead>
-            <TableHead className="w-16">{t('collection.table.year')}</TableHead>
-            <TableHead className="hidden md:table-cell">
-              {t('collection.table.genre')}
-            </TableHead>
-            <TableHead className="hidden sm:table-cell">
-              {t('collection.table.label')}
-            </TableHead>
-            <TableHead className="hidden lg:table-cell">
-              {t('collection.table.format')}
-            </TableHead>
-          </TableRow>
-        </TableHeader>
-        <TableBody>
-          {releases.map((release, index) => (
-            <VinylTableRow
-              key={release.instance_id}
-              release={release}
-              index={index}
-              shouldAnimate={shouldAnimate}
-              t={t}
-            />
-          ))}
-        </TableBody>
-      </Table>
-    </div>
+    <>
+      <div className="bg-card/60 overflow-hidden rounded-xl border shadow-sm backdrop-blur">
+        <Table className="table-fixed">
+          <TableHeader className="bg-muted/30">
+            <TableRow>
+              <TableHead className="w-16 min-w-[64px]">
+                <span className="sr-only">{t('collection.table.cover')}</span>
+              </TableHead>
+              <TableHead className="w-auto sm:w-[40%] sm:min-w-[240px]">
+                {t('collection.table.titleArtist')}
+              </TableHead>
+              <TableHead className="w-16">
+                {t('collection.table.year')}
+              </TableHead>
+              <TableHead className="hidden md:table-cell">
+                {t('collection.table.genre')}
+              </TableHead>
+              <TableHead className="hidden sm:table-cell">
+                {t('collection.table.label')}
+              </TableHead>
+              <TableHead className="hidden lg:table-cell">
+                {t('collection.table.format')}
+              </TableHead>
+              {onRatingChange ? (
+                <TableHead className="hidden w-28 sm:table-cell">
+                  {t('collection.table.rating')}
+                </TableHead>
+              ) : null}
+              {fieldColumns.map((field) => (
+                <TableHead
+                  key={field.id}
+                  className="hidden truncate lg:table-cell"
+                  title={field.name}
+                >
+                  {field.name}
+                </TableHead>
+              ))}
+              {visibleColumns.map((column) => (
+                <TableHead
+                  key={column}
+                  className="hidden w-24 text-right md:table-cell"
+                  title={column}
+                >
+                  {getColumnLabel(column)}
+                </TableHead>
+              ))}
+              {onMarketplaceColumnsChange ? (
+                <TableHead className="w-12 text-right">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon-sm"
+                        aria-label={t('marketplace.columns')}
+                        title={t('marketplace.columns')}
+                      >
+                        <Columns3 />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-56">
+                      <DropdownMenuLabel>
+                        {t('marketplace.columns')}
+                      </DropdownMenuLabel>
+                      <DropdownMenuSeparator />
+                      {MARKETPLACE_COLUMN_ORDER.map((column) => (
+                        <DropdownMenuCheckboxItem
+                          key={column}
+                          checked={marketplaceColumns.includes(column)}
+                          onCheckedChange={(checked) => {
+                            toggleColumn(column, checked)
+                          }}
+                          onSelect={(event) => {
+                            // Keep the menu open while picking several columns
+                            event.preventDefault()
+                          }}
+                        >
+                          {getColumnLabel(column)}
+                        </DropdownMenuCheckboxItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </TableHead>
+              ) : null}
+            </TableRow>
+          </TableHeader>
+          <TableBody ref={listRef}>
+            {paddingTop > 0 ? (
+              <tr aria-hidden="true" style={{ height: paddingTop }}>
+                <td colSpan={columnCount} className="p-0" />
+              </tr>
+            ) : null}
+            {visibleReleases.map((release, offset) => (
+              <VinylTableRow
+                key={getListItemKey(release)}
+                release={release}
+                index={offset}
+                shouldAnimate={shouldAnimate}
+                marketplaceColumns={visibleColumns}
+                fieldColumns={fieldColumns}
+                onRatingChange={onRatingChange}
+                stats={stats.byReleaseId.get(release.id)}
+                suggestions={suggestions.byReleaseId.get(release.id)}
+                locale={i18n.language}
+                hasTrailingCell={Boolean(onMarketplaceColumnsChange)}
+                rowRef={offset === 0 ? measureRef : undefined}
+                t={t}
+              />
+            ))}
+            {paddingBottom > 0 ? (
+              <tr aria-hidden="true" style={{ height: paddingBottom }}>
+                <td colSpan={columnCount} className="p-0" />
+              </tr>
+            ) : null}
+          </TableBody>
+        </Table>
+      </div>
+      {virtualized && jumpSections ? (
+        <JumpRail
+          sections={jumpSections}
+          currentIndex={firstVisibleIndex}
+          onJump={scrollToIndex}
+        />
+      ) : null}
+    </>
   )
 }
@@ -5,6 +5,7 @@ import {
   DollarSign,
   Disc3,
   Heart,
+  Search,
   Shuffle
 } from 'lucide-react'
 import { useTranslation } from 'react-i18next'
@@ -120,12 +121,35 @@ export function AppSidebar(): React.JSX.Element {
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                   <SidebarMenuItem>
-                    <SidebarMenuButton disabled>
-                      <Heart />
-                      <span>{t('nav.wantlist')}</span>
-                      <Badge variant="outline" className="ml-auto text-[10px]">
-                        {t('common.soon')}
-                      </Badge>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={isActive('/wantlist')}
+                      tooltip={t('nav.wantlist')}
+                    >
+                      <Link
+                        to="/wantlist"
+                        viewTransition
+                        onClick={handleNavClick('/wantlist')}
+                      >
+                        <Heart />
+                        <span>{t('nav.wantlist')}</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                  <SidebarMenuItem>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={isActive('/search')}
+                      tooltip={t('nav.search')}
+                    >
+                      <Link
+                        to="/search"
+                        viewTransition
+                        onClick={handleNavClick('/search')}
+                      >
+                        <Search />
+                        <span>{t('nav.search')}</span>
+                      </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                   <SidebarMenuItem>
@@ -156,12 +180,19 @@ export function AppSidebar(): React.JSX.Element {
               <SidebarGroupContent>
                 <SidebarMenu>
                   <SidebarMenuItem>
-                    <SidebarMenuButton disabled>
-                      <DollarSign />
-                      <span>{t('nav.collectionValue')}</span>
-                      <Badge variant="outline" className="ml-auto text-[10px]">
-                        {t('common.soon')}
-                      </Badge>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={isActive('/collection-value')}
+                      tooltip={t('nav.collectionValue')}
+                    >
+                      <Link
+                        to="/collection-value"
+                        viewTransition
+                        onClick={handleNavClick('/collection-value')}
+                      >
+                        <DollarSign />
+                        <span>{t('nav.collectionValue')}</span>
+                      </Link>
                     </SidebarMenuButton>
                   </SidebarMenuItem>
                   <SidebarMenuItem>
@@ -0,0 +1,150 @@
+import { Link } from '@tanstack/react-router'
+import { Check, Disc3, ExternalLink } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { cn } from '@/lib/utils'
+import type {
+  DiscogsCollectionRelease,
+  DiscogsMasterVersion
+} from '@/types/discogs'
+
+interface MasterVersionsTableProps {
+  versions: DiscogsMasterVersion[]
+  /** Cached collection instance per owned release ID */
+  getOwnedInstance: (
+    version: DiscogsMasterVersion
+  ) => DiscogsCollectionRelease | undefined
+  /** Whether Discogs reports the version in the collection */
+  isOwned: (version: DiscogsMasterVersion) => boolean
+}
+
+const DISCOGS_RELEASE_URL = 'https://www.discogs.com/release/'
+
+/**
+ * Pressings of a master release, with owned versions highlighted. Owned
+ * versions link to their collection page when cached; the rest link to
+ * Discogs.
+ */
+export function MasterVersionsTable({
+  versions,
+  getOwnedInstance,
+  isOwned
+}: MasterVersionsTableProps): React.JSX.Element {
+  const { t } = useTranslation()
+
+  return (
+    <div className="bg-card/60 overflow-hidden rounded-xl border shadow-sm backdrop-blur">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-14" />
+            <TableHead>{t('master.table.title')}</TableHead>
+            <TableHead className="hidden sm:table-cell">
+              {t('collection.table.format')}
+            </TableHead>
+            <TableHead className="hidden md:table-cell">
+              {t('collection.table.label')}
+            </TableHead>
+            <TableHead>{t('collection.table.country')}</TableHead>
+            <TableHead className="w-16">{t('collection.table.year')}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {versions.map((version) => {
+            const instance = getOwnedInstance(version)
+            const owned = Boolean(instance) || isOwned(version)
+            const labelText = [
+              version.label,
+              version.catno && version.catno !== 'none' ? version.catno : null
+            ]
+              .filter(Boolean)
+              .join(' – ')
+
+            return (
+              <TableRow
+                key={version.id}
+                className={cn(owned && 'bg-primary/10 hover:bg-primary/15')}
+                data-state={owned ? 'selected' : undefined}
+              >
+                <TableCell>
+                  {version.thumb ? (
+                    <img
+                      src={version.thumb}
+                      alt=""
+                      className="h-10 w-10 rounded object-cover"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <div className="bg-muted flex h-10 w-10 items-center justify-center rounded">
+                      <Disc3 className="text-muted-foreground h-5 w-5 opacity-50" />
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="max-w-[260px]">
+                  <div className="flex items-center gap-2">
+                    {instance ? (
+                      <Link
+                        to="/collection/$instanceId"
+                        params={{ instanceId: String(instance.instance_id) }}
+                        search={{ release: version.id }}
+                        viewTransition
+                        className="truncate font-medium hover:underline"
+                        title={version.title}
+                      >
+                        {version.title}
+                      </Link>
+                    ) : (
+                      <a
+                        href={`${DISCOGS_RELEASE_URL}${version.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex min-w-0 items-center gap-1 hover:underline"
+                        title={version.title}
+                      >
+                        <span className="truncate">{version.title}</span>
+                        <ExternalLink className="text-muted-foreground h-3 w-3 shrink-0" />
+                      </a>
+                    )}
+                    {owned ? (
+                      <Badge className="shrink-0">
+                        <Check />
+                        {t('search.owned')}
+                      </Badge>
+                    ) : null}
+                  </div>
+                </TableCell>
+                <TableCell
+                  className="hidden max-w-[220px] truncate sm:table-cell"
+                  title={version.format}
+                >
+                  {version.format || '-'}
+                </TableCell>
+                <TableCell
+                  className="hidden max-w-[220px] truncate md:table-cell"
+                  title={labelText}
+                >
+                  {labelText || '-'}
+                </TableCell>
+                <TableCell>{version.country || '-'}</TableCell>
+                <TableCell className="tabular-nums">
+                  {version.released && version.released !== '0'
+                    ? version.released.slice(0, 4)
+                    : '-'}
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+import { Link } from '@tanstack/react-router'
+import { LogIn, RotateCw } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+import { Button } from '@/components/ui/button'
+import { useAuth } from '@/hooks/use-auth'
+import { getErrorDetails, getRequestId } from '@/lib/errors'
+import { cn } from '@/lib/utils'
+import type { ErrorKind } from '@/types/errors'
+
+/** Translation keys under `errors.kinds`; `unknown` uses the screen's message */
+const KIND_KEYS: Record<Exclude<ErrorKind, 'unknown'>, string> = {
+  'auth-expired': 'authExpired',
+  'rate-limited': 'rateLimited',
+  'discogs-down': 'discogsDown',
+  'not-found': 'notFound',
+  network: 'network'
+}
+
+interface QueryErrorStateProps {
+  /** The failed query's error */
+  error: unknown
+  /** Shown for errors without a more specific message */
+  fallbackMessage: string
+  onRetry: () => void
+  isRetrying: boolean
+  /** `page` replaces the whole screen; `inline` sits within its content */
+  variant?: 'page' | 'inline'
+  className?: string
+}
+
+/**
+ * Error state for a failed query, explaining what went wrong and offering
+ * the recovery action that fits: signing in again for an expired session,
+ * going back to the collection for something missing on Discogs, and
+ * otherwise trying again.
+ *
+ * @param props - Component props
+ * @returns The error message and recovery action
+ */
+export function QueryErrorState({
+  error,
+  fallbackMessage,
+  onRetry,
+  isRetrying,
+  variant = 'page',
+  className
+}: QueryErrorStateProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const { disconnect } = useAuth()
+  const { kind, retryAfter } = getErrorDetails(error)
+  const requestId = getRequestId(error)
+
+  const key = kind === 'unknown' ? null : `errors.kinds.${KIND_KEYS[kind]}`
+  const title = key ? t(`${key}.title`) : t('errors.generic')
+  const description = key
+    ? t(`${key}.description`, retryAfter ? { count: retryAfter } : {})
+    : fallbackMessage
+
+  const retryButton = (
+    <Button variant="outline" onClick={onRetry} disabled={isRetrying}>
+      <RotateCw className={isRetrying ? 'animate-spin' : ''} />
+      {t('errors.tryAgain')}
+    </Button>
+  )
+
+  let action = retryButton
+  if (kind === 'auth-expired') {
+    action = (
+      <Button variant="outline" onClick={disconnect}>
+        <LogIn />
+        {t('errors.kinds.authExpired.action')}
+      </Button>
+    )
+  } else if (kind === 'not-found') {
+    action = (
+      <Button asChild variant="outline">
+        <Link to="/collection" viewTransition>
+          {t('errors.backHome')}
+        </Link>
+      </Button>
+    )
+  }
+
+  // Lets a bug report point at the server's log entry
+  const reference = requestId ? (
+    <p className="text-muted-foreground/70 mt-4 font-mono text-xs select-all">
+      {t('errors.reference', { id: requestId })}
+    </p>
+  ) : null
+
+  if (variant === 'inline') {
+    return (
+      <div className={cn('flex flex-col items-center text-center', className)}>
+        <p className="font-medium">{title}</p>
+        <p className="text-muted-foreground mt-1 text-sm whitespace-pre-line">
+          {description}
+        </p>
+        <div className="mt-6">{action}</div>
+        {reference}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={cn(
+        'animate-in fade-in zoom-in-95 flex h-[calc(100svh-3.5rem)] flex-col items-center justify-center p-6 text-center duration-300',
+        className
+      )}
+    >
+      <h1 className="text-7xl font-bold tracking-tighter opacity-20">!</h1>
+      <h2 className="mt-4 text-xl font-semibold">{title}</h2>
+      <p className="text-muted-foreground mt-3 max-w-md text-sm whitespace-pre-line">
+        {description}
+      </p>
+      <div className="mt-8">{action}</div>
+      {reference}
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import { useNavigate } from '@tanstack/react-router'
+import { CopyPlus, Trash2 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { useCollectionFolders } from '@/hooks/use-collection-folders'
+import {
+  useAddToCollection,
+  useMoveInstance,
+  useRemoveInstance
+} from '@/hooks/use-collection-mutations'
+import type { DiscogsCollectionRelease } from '@/types/discogs'
+
+interface InstanceActionsProps {
+  instance: DiscogsCollectionRelease
+}
+
+/**
+ * Collection edits for one instance on the release page: add another copy,
+ * move it to a folder, or remove it (which returns to the collection).
+ */
+export function InstanceActions({
+  instance
+}: InstanceActionsProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const navigate = useNavigate()
+  const { folders } = useCollectionFolders()
+  const addToCollection = useAddToCollection()
+  const moveInstance = useMoveInstance()
+  const removeInstance = useRemoveInstance()
+  const [isConfirmingRemove, setIsConfirmingRemove] = useState(false)
+  // Folder 0 ("All") is a view, not somewhere an instance can live
+  const folderOptions = folders.filter((folder) => folder.id !== 0)
+  const currentFolderId = instance.folder_id ?? 1
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {folderOptions.length > 1 ? (
+        <Select
+          value={String(currentFolderId)}
+          onValueChange={(value) => {
+            moveInstance({ instance, targetFolderId: Number(value) })
+          }}
+        >
+          <SelectTrigger
+            size="sm"
+            className="w-48"
+            aria-label={t('collection.actions.moveToFolder')}
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {folderOptions.map((folder) => (
+              <SelectItem key={folder.id} value={String(folder.id)}>
+                {folder.id === 1 ? t('folders.uncategorized') : folder.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : null}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => {
+          addToCollection({
+            releaseId: instance.id,
+            basicInformation: instance.basic_information,
+            folderId: currentFolderId
+          })
+        }}
+      >
+        <CopyPlus />
+        {t('collection.actions.addCopy')}
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        className="text-destructive"
+        onClick={() => {
+          setIsConfirmingRemove(true)
+        }}
+      >
+        <Trash2 />
+        {t('collection.actions.remove')}
+      </Button>
+
+      <AlertDialog
+        open={isConfirmingRemove}
+        onOpenChange={setIsConfirmingRemove}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t('collection.actions.removeTitle')}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('collection.actions.removeDescription', {
+                title: instance.basic_information.title
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                removeInstance(instance, {
+                  onSuccess: () => {
+                    void navigate({ to: '/collection' })
+                  }
+                })
+              }}
+            >
+              {t('collection.actions.remove')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
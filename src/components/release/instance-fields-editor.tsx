@@ -0,0 +1,134 @@
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { getNoteValue } from '@/api/discogs'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { useEditInstanceField } from '@/hooks/use-collection-fields'
+import { cn } from '@/lib/utils'
+import type {
+  DiscogsCollectionField,
+  DiscogsCollectionRelease
+} from '@/types/discogs'
+
+interface InstanceFieldsEditorProps {
+  instance: DiscogsCollectionRelease
+  fields: DiscogsCollectionField[]
+}
+
+/** Radix Select reserves the empty string, so "no value" needs a sentinel */
+const NO_VALUE = '__none__'
+
+const TEXTAREA_CLASS_NAME =
+  'placeholder:text-muted-foreground dark:bg-input/30 border-input focus-visible:border-ring focus-visible:ring-ring/50 w-full min-w-0 rounded-md border bg-transparent px-3 py-2 text-base shadow-xs transition-[color,box-shadow] outline-none focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 md:text-sm'
+
+/**
+ * Editors for the user's custom notes fields on one collection instance.
+ * Dropdowns save on change; text fields save when they lose focus.
+ */
+export function InstanceFieldsEditor({
+  instance,
+  fields
+}: InstanceFieldsEditorProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const { editField, isPending } = useEditInstanceField()
+
+  const save = async (fieldId: number, value: string) => {
+    if (value === (getNoteValue(instance, fieldId) ?? '')) return
+
+    try {
+      await editField({ instance, fieldId, value })
+    } catch {
+      toast.error(t('release.fields.saveFailed'))
+    }
+  }
+
+  return (
+    <dl className="grid gap-4 text-sm sm:grid-cols-2">
+      {fields.map((field) => {
+        const value = getNoteValue(instance, field.id)
+        const id = `instance-field-${field.id}`
+
+        return (
+          <div
+            key={field.id}
+            className={cn(
+              'flex flex-col gap-1.5',
+              field.type === 'textarea' && 'sm:col-span-2'
+            )}
+          >
+            <dt>
+              <label htmlFor={id} className="text-muted-foreground">
+                {field.name}
+              </label>
+            </dt>
+            <dd>
+              {field.type === 'dropdown' ? (
+                <Select
+                  value={value ?? NO_VALUE}
+                  onValueChange={(next) => {
+                    void save(field.id, next === NO_VALUE ? '' : next)
+                  }}
+                  disabled={isPending}
+                >
+                  <SelectTrigger id={id} size="sm" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_VALUE}>
+                      {t('release.fields.none')}
+                    </SelectItem>
+                    {/* Keep values that were removed from the dropdown */}
+                    {value && !field.options?.includes(value) ? (
+                      <SelectItem value={value}>{value}</SelectItem>
+                    ) : null}
+                    {(field.options ?? []).map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : null}
+              {field.type === 'text' ? (
+                <Input
+                  // Remount when the saved value changes so the draft resets
+                  key={value ?? ''}
+                  id={id}
+                  defaultValue={value ?? ''}
+                  className="h-8"
+                  onBlur={(event) => {
+                    void save(field.id, event.target.value.trim())
+                  }}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') {
+                      event.currentTarget.blur()
+                    }
+                  }}
+                />
+              ) : null}
+              {field.type === 'textarea' ? (
+                <textarea
+                  key={value ?? ''}
+                  id={id}
+                  defaultValue={value ?? ''}
+                  rows={field.lines ?? 3}
+                  className={TEXTAREA_CLASS_NAME}
+                  onBlur={(event) => {
+                    void save(field.id, event.target.value.trim())
+                  }}
+                />
+              ) : null}
+            </dd>
+          </div>
+        )
+      })}
+    </dl>
+  )
+}
@@ -0,0 +1,78 @@
+import { useTranslation } from 'react-i18next'
+
+import { formatArtistCredit } from '@/lib/formatters'
+import type { DiscogsRelease } from '@/types/discogs'
+
+interface ReleaseCreditsProps {
+  release: DiscogsRelease
+}
+
+interface CreditEntry {
+  label: string
+  value: string
+}
+
+interface CreditListProps {
+  title: string
+  entries: CreditEntry[]
+}
+
+function CreditList({ title, entries }: CreditListProps) {
+  if (entries.length === 0) {
+    return null
+  }
+
+  return (
+    <section>
+      <h3 className="text-muted-foreground mb-2 text-xs font-semibold tracking-wide uppercase">
+        {title}
+      </h3>
+      <dl className="grid grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-x-4 gap-y-1.5 text-sm">
+        {entries.map((entry, index) => (
+          // eslint-disable-next-line react/no-array-index-key -- the same role or identifier type can appear many times
+          <div key={index} className="contents">
+            <dt className="text-muted-foreground">{entry.label}</dt>
+            <dd className="break-words">{entry.value}</dd>
+          </div>
+        ))}
+      </dl>
+    </section>
+  )
+}
+
+/**
+ * Release-level credits, companies and identifiers (barcodes, matrix/runout,
+ * rights society). Sections without data are omitted.
+ */
+export function ReleaseCredits({
+  release
+}: ReleaseCreditsProps): React.JSX.Element {
+  const { t } = useTranslation()
+
+  const credits = (release.extraartists ?? []).map((artist) => ({
+    label: artist.role ?? '',
+    value: artist.tracks
+      ? `${formatArtistCredit([artist])} (${artist.tracks})`
+      : formatArtistCredit([artist])
+  }))
+
+  const companies = (release.companies ?? []).map((company) => ({
+    label: company.entity_type_name,
+    value: company.catno ? `${company.name} – ${company.catno}` : company.name
+  }))
+
+  const identifiers = (release.identifiers ?? []).map((identifier) => ({
+    label: identifier.description
+      ? `${identifier.type} (${identifier.description})`
+      : identifier.type,
+    value: identifier.value
+  }))
+
+  return (
+    <div className="flex flex-col gap-6">
+      <CreditList title={t('release.credits')} entries={credits} />
+      <CreditList title={t('release.companies')} entries={companies} />
+      <CreditList title={t('release.identifiers')} entries={identifiers} />
+    </div>
+  )
+}
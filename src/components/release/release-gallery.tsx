@@ -0,0 +1,97 @@
+import { Disc3 } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { cn } from '@/lib/utils'
+import type { DiscogsImage } from '@/types/discogs'
+
+interface ReleaseGalleryProps {
+  images: DiscogsImage[]
+  /** Cover from the collection item, shown before release details load */
+  fallbackImage?: string
+  alt: string
+}
+
+export function ReleaseGallery({
+  images,
+  fallbackImage,
+  alt
+}: ReleaseGalleryProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const [selectedIndex, setSelectedIndex] = useState(0)
+  const [erroredUris, setErroredUris] = useState<Set<string>>(() => new Set())
+
+  // Primary image first, then the rest in Discogs order
+  const orderedImages = [
+    ...images.filter((image) => image.type === 'primary'),
+    ...images.filter((image) => image.type !== 'primary')
+  ]
+  const selectedImage =
+    orderedImages[Math.min(selectedIndex, orderedImages.length - 1)]
+  const mainSrc = selectedImage?.uri ?? fallbackImage
+  const showMainImage = Boolean(mainSrc) && !erroredUris.has(mainSrc ?? '')
+
+  const markErrored = (uri: string) => {
+    setErroredUris((previous) => new Set(previous).add(uri))
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="bg-muted ring-border/40 aspect-square overflow-hidden rounded-xl shadow-sm ring-1">
+        {showMainImage ? (
+          <img
+            src={mainSrc}
+            alt={alt}
+            className="h-full w-full object-contain"
+            onError={() => {
+              if (mainSrc) markErrored(mainSrc)
+            }}
+          />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center">
+            <Disc3 className="text-muted-foreground h-20 w-20 opacity-30" />
+          </div>
+        )}
+      </div>
+
+      {orderedImages.length > 1 ? (
+        <div className="grid grid-cols-5 gap-2">
+          {orderedImages.map((image, index) => (
+            <button
+              key={image.uri}
+              type="button"
+              onClick={() => {
+                setSelectedIndex(index)
+              }}
+              aria-label={t('release.gallery.showImage', {
+                index: index + 1,
+                total: orderedImages.length
+              })}
+              aria-pressed={image === selectedImage}
+              className={cn(
+                'bg-muted ring-border/40 focus-visible:ring-ring aspect-square overflow-hidden rounded-md ring-1 transition-opacity focus-visible:ring-2 focus-visible:outline-none',
+                image === selectedImage
+                  ? 'ring-primary ring-2'
+                  : 'opacity-70 hover:opacity-100'
+              )}
+            >
+              {erroredUris.has(image.uri150) ? (
+                <Disc3 className="text-muted-foreground m-auto h-5 w-5 opacity-40" />
+              ) : (
+                <img
+                  src={image.uri150}
+                  alt=""
+                  className="h-full w-full object-cover"
+                  loading="lazy"
+                  onError={() => {
+                    markErrored(image.uri150)
+                  }}
+                />
+              )}
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  )
+}
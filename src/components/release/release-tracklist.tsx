@@ -0,0 +1,68 @@
+import { formatArtistCredit } from '@/lib/formatters'
+import { cn } from '@/lib/utils'
+import type { DiscogsTrack } from '@/types/discogs'
+
+interface ReleaseTracklistProps {
+  tracks: DiscogsTrack[]
+}
+
+export function ReleaseTracklist({
+  tracks
+}: ReleaseTracklistProps): React.JSX.Element {
+  return (
+    <ol className="divide-border/60 divide-y text-sm">
+      {tracks.map((track, index) => {
+        // Headings split sides or discs ("Side A", "Bonus Tracks")
+        if (track.type_ === 'heading') {
+          return (
+            <li
+              // eslint-disable-next-line react/no-array-index-key -- headings have no position and titles can repeat
+              key={`heading-${index}`}
+              className="text-muted-foreground pt-4 pb-2 text-xs font-semibold tracking-wide uppercase first:pt-0"
+            >
+              {track.title}
+            </li>
+          )
+        }
+
+        const credits = track.extraartists?.length
+          ? track.extraartists
+              .map((artist) =>
+                artist.role
+                  ? `${artist.role}: ${formatArtistCredit([artist])}`
+                  : formatArtistCredit([artist])
+              )
+              .join(' · ')
+          : null
+
+        return (
+          <li
+            // eslint-disable-next-line react/no-array-index-key -- positions can be empty or repeat across index tracks
+            key={`${track.position}-${index}`}
+            className={cn(
+              'flex items-baseline gap-3 py-2',
+              track.type_ === 'index' && 'font-medium'
+            )}
+          >
+            <span className="text-muted-foreground w-8 shrink-0 tabular-nums">
+              {track.position}
+            </span>
+            <div className="min-w-0 flex-1">
+              <p className="leading-snug">{track.title}</p>
+              {credits ? (
+                <p className="text-muted-foreground mt-0.5 text-xs">
+                  {credits}
+                </p>
+              ) : null}
+            </div>
+            {track.duration ? (
+              <span className="text-muted-foreground shrink-0 tabular-nums">
+                {track.duration}
+              </span>
+            ) : null}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,150 @@
+import { ChevronDown, Search } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { Button } from '@/components/ui/button'
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger
+} from '@/components/ui/collapsible'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import type { SearchCriteria, SearchType } from '@/hooks/use-search'
+
+type SearchFormValues = Omit<SearchCriteria, 'page'>
+
+interface SearchFormProps {
+  /** Initial values; remount the form (via `key`) to reset it */
+  criteria: SearchFormValues
+  onSubmit: (values: SearchFormValues) => void
+  isSearching: boolean
+}
+
+const SEARCH_TYPES: SearchType[] = ['release', 'master', 'artist', 'label']
+
+/** Radix Select reserves the empty string, so "any type" needs a sentinel */
+const ANY_TYPE = 'all'
+
+const ADVANCED_FIELDS = ['barcode', 'catno', 'format', 'year'] as const
+type AdvancedField = (typeof ADVANCED_FIELDS)[number]
+
+/**
+ * Database search form: free text and type, plus barcode, catalog number,
+ * format and year behind an "advanced" toggle (open when any is in use).
+ */
+export function SearchForm({
+  criteria,
+  onSubmit,
+  isSearching
+}: SearchFormProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const [query, setQuery] = useState(criteria.query ?? '')
+  const [type, setType] = useState<string>(criteria.type ?? ANY_TYPE)
+  const [advanced, setAdvanced] = useState<Record<AdvancedField, string>>({
+    barcode: criteria.barcode ?? '',
+    catno: criteria.catno ?? '',
+    format: criteria.format ?? '',
+    year: criteria.year ?? ''
+  })
+  const [isAdvancedOpen, setIsAdvancedOpen] = useState(() =>
+    ADVANCED_FIELDS.some((field) => Boolean(criteria[field]))
+  )
+
+  const handleSubmit = () => {
+    const values: SearchFormValues = {}
+    if (query.trim()) values.query = query.trim()
+    if (type !== ANY_TYPE) values.type = type as SearchType
+    for (const field of ADVANCED_FIELDS) {
+      const value = advanced[field].trim()
+      if (value) values[field] = value
+    }
+    onSubmit(values)
+  }
+
+  return (
+    <form
+      role="search"
+      className="flex flex-col gap-3"
+      onSubmit={(event) => {
+        event.preventDefault()
+        handleSubmit()
+      }}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative min-w-48 flex-1">
+          <Search className="text-muted-foreground pointer-events-none absolute top-1/2 left-2.5 h-4 w-4 -translate-y-1/2" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(event) => {
+              setQuery(event.target.value)
+            }}
+            placeholder={t('search.placeholder')}
+            aria-label={t('search.placeholder')}
+            maxLength={200}
+            className="pl-8"
+          />
+        </div>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="w-36" aria-label={t('search.type')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_TYPE}>{t('search.types.all')}</SelectItem>
+            {SEARCH_TYPES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {t(`search.types.${option}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={isSearching}>
+          {t('search.submit')}
+        </Button>
+      </div>
+
+      <Collapsible open={isAdvancedOpen} onOpenChange={setIsAdvancedOpen}>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="-ml-2">
+            {t('search.advanced')}
+            <ChevronDown
+              className={
+                isAdvancedOpen ? 'rotate-180 transition' : 'transition'
+              }
+            />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="grid gap-3 pt-2 sm:grid-cols-2 lg:grid-cols-4">
+          {ADVANCED_FIELDS.map((field) => (
+            <div key={field} className="flex flex-col gap-1.5">
+              <Label htmlFor={`search-${field}`}>
+                {t(`search.fields.${field}`)}
+              </Label>
+              <Input
+                id={`search-${field}`}
+                value={advanced[field]}
+                onChange={(event) => {
+                  setAdvanced((current) => ({
+                    ...current,
+                    [field]: event.target.value
+                  }))
+                }}
+                {...(field === 'year'
+                  ? { inputMode: 'numeric', pattern: '\\d{4}', maxLength: 4 }
+                  : { maxLength: 200 })}
+              />
+            </div>
+          ))}
+        </CollapsibleContent>
+      </Collapsible>
+    </form>
+  )
+}
@@ -0,0 +1,172 @@
+import { Link } from '@tanstack/react-router'
+import { Check, Disc3, ExternalLink, Heart, Layers, Plus } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import type { SearchResultOwnership } from '@/hooks/use-search'
+import type { DiscogsSearchResult } from '@/types/discogs'
+
+interface SearchResultCardProps {
+  result: DiscogsSearchResult
+  ownership: SearchResultOwnership
+  isWanted: boolean
+  onAddToCollection: (result: DiscogsSearchResult) => void
+  onAddToWantlist: (result: DiscogsSearchResult) => void
+}
+
+const DISCOGS_URL = 'https://www.discogs.com'
+
+/**
+ * One database search result with its collection status. Only releases can
+ * be added to the collection or wantlist; masters, artists and labels just
+ * link to Discogs.
+ */
+export function SearchResultCard({
+  result,
+  ownership,
+  isWanted,
+  onAddToCollection,
+  onAddToWantlist
+}: SearchResultCardProps): React.JSX.Element {
+  const { t } = useTranslation()
+  const [imageErrored, setImageErrored] = useState(false)
+  const image = result.cover_image || result.thumb
+  const details = [
+    result.year,
+    result.format?.join(', '),
+    result.country,
+    result.label?.[0]
+  ].filter(Boolean)
+  const isRelease = result.type === 'release'
+  const masterId = result.type === 'master' ? result.id : result.master_id
+
+  return (
+    <article className="bg-card ring-border/40 flex flex-col overflow-hidden rounded-xl shadow-sm ring-1">
+      <div className="relative aspect-square">
+        {image && !imageErrored ? (
+          <img
+            src={image}
+            alt={result.title}
+            className="h-full w-full object-cover"
+            loading="lazy"
+            onError={() => {
+              setImageErrored(true)
+            }}
+          />
+        ) : (
+          <div className="bg-muted flex h-full w-full items-center justify-center">
+            <Disc3 className="text-muted-foreground h-16 w-16 opacity-30" />
+          </div>
+        )}
+        <div className="absolute top-2 left-2 flex flex-col items-start gap-1.5">
+          {result.type === 'release' ? null : (
+            <Badge variant="secondary">
+              {t(`search.types.${result.type}`)}
+            </Badge>
+          )}
+          {ownership === 'release' ? (
+            <Badge>
+              <Check />
+              {t('search.owned')}
+            </Badge>
+          ) : null}
+          {ownership === 'master' ? (
+            <Badge variant="secondary">
+              {isRelease ? t('search.otherVersionOwned') : t('search.owned')}
+            </Badge>
+          ) : null}
+          {isWanted ? (
+            <Badge variant="secondary">
+              <Heart />
+              {t('search.wanted')}
+            </Badge>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="flex flex-1 flex-col gap-2 p-3">
+        <div className="min-w-0">
+          <h3
+            className="line-clamp-2 text-sm leading-tight font-medium"
+            title={result.title}
+          >
+            {result.title}
+          </h3>
+          {details.length > 0 ? (
+            <p className="text-muted-foreground mt-1 line-clamp-2 text-xs">
+              {details.join(' · ')}
+            </p>
+          ) : null}
+          {result.catno && result.catno !== 'none' ? (
+            <p className="text-muted-foreground mt-0.5 truncate text-xs">
+              {result.catno}
+            </p>
+          ) : null}
+        </div>
+
+        <div className="mt-auto flex flex-wrap items-center gap-1.5">
+          {isRelease ? (
+            <Button
+              size="sm"
+              variant={ownership === 'release' ? 'outline' : 'default'}
+              onClick={() => {
+                onAddToCollection(result)
+              }}
+            >
+              <Plus />
+              {ownership === 'release'
+                ? t('collection.actions.addCopy')
+                : t('search.addToCollection')}
+            </Button>
+          ) : null}
+          {isRelease && !isWanted ? (
+            <Button
+              size="icon-sm"
+              variant="outline"
+              aria-label={t('search.addToWantlist')}
+              title={t('search.addToWantlist')}
+              onClick={() => {
+                onAddToWantlist(result)
+              }}
+            >
+              <Heart />
+            </Button>
+          ) : null}
+          {masterId ? (
+            <Button
+              asChild
+              size="icon-sm"
+              variant="outline"
+              aria-label={t('master.versions')}
+              title={t('master.versions')}
+            >
+              <Link
+                to="/master/$masterId"
+                params={{ masterId: String(masterId) }}
+              >
+                <Layers />
+              </Link>
+            </Button>
+          ) : null}
+          <Button
+            asChild
+            size="icon-sm"
+            variant="ghost"
+            aria-label={t('release.viewOnDiscogs')}
+            title={t('release.viewOnDiscogs')}
+          >
+            <a
+              href={`${DISCOGS_URL}${result.uri}`}
+              target="_blank"
+              rel="noopener noreferrer"
+            >
+              <ExternalLink />
+            </a>
+          </Button>
+        </div>
+      </div>
+    </article>
+  )
+}
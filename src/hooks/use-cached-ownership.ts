@@ -0,0 +1,77 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { useMemo, useSyncExternalStore } from 'react'
+
+import { useUserProfile } from '@/hooks/use-user-profile'
+import type {
+  DiscogsCollectionRelease,
+  DiscogsCollectionResponse,
+  DiscogsWantlistItem
+} from '@/types/discogs'
+
+export interface CachedOwnership {
+  /** First cached instance per release ID */
+  instancesByReleaseId: Map<number, DiscogsCollectionRelease>
+  /** Master IDs of every cached collection item that has one */
+  masterIds: Set<number>
+  /** Release IDs in the cached wantlist */
+  wantedIds: Set<number>
+}
+
+/**
+ * Indexes what the user owns and wants from the cached collection and
+ * wantlist queries, without fetching either. Every cached collection query
+ * counts (all folders, pages and sorts), so coverage grows as more of the
+ * collection has been browsed.
+ *
+ * @returns Release, master and wantlist lookups, rebuilt when the cache changes
+ */
+export function useCachedOwnership(): CachedOwnership {
+  const queryClient = useQueryClient()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryCache = queryClient.getQueryCache()
+
+  // A string snapshot keeps useSyncExternalStore stable between renders;
+  // the index is rebuilt only when a relevant query's data changes
+  const cacheVersion = useSyncExternalStore(
+    (onStoreChange) => queryCache.subscribe(onStoreChange),
+    () =>
+      queryCache
+        .findAll({ queryKey: ['collection', username] })
+        .concat(queryCache.findAll({ queryKey: ['wantlist', username] }))
+        .map((query) => query.state.dataUpdatedAt)
+        .join('|')
+  )
+
+  return useMemo<CachedOwnership>(() => {
+    const instancesByReleaseId = new Map<number, DiscogsCollectionRelease>()
+    const masterIds = new Set<number>()
+    const wantedIds = new Set<number>()
+    // cacheVersion changes whenever the data below does
+    void cacheVersion
+
+    const collectionQueries =
+      queryClient.getQueriesData<DiscogsCollectionResponse>({
+        queryKey: ['collection', username]
+      })
+    for (const [, data] of collectionQueries) {
+      for (const release of data?.releases ?? []) {
+        if (!instancesByReleaseId.has(release.id)) {
+          instancesByReleaseId.set(release.id, release)
+        }
+        if (release.basic_information.master_id) {
+          masterIds.add(release.basic_information.master_id)
+        }
+      }
+    }
+
+    const wantlist = queryClient.getQueryData<{
+      wants: DiscogsWantlistItem[]
+    }>(['wantlist', username])
+    for (const want of wantlist?.wants ?? []) {
+      wantedIds.add(want.id)
+    }
+
+    return { instancesByReleaseId, masterIds, wantedIds }
+  }, [queryClient, username, cacheVersion])
+}
@@ -0,0 +1,134 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useHydrationGuard } from '@/hooks/use-hydration-guard'
+import { useUserProfile } from '@/hooks/use-user-profile'
+import { updateCachedInstance } from '@/lib/collection-cache'
+import { trpc } from '@/lib/trpc'
+import type {
+  DiscogsCollectionField,
+  DiscogsCollectionRelease
+} from '@/types/discogs'
+
+interface UseCollectionFieldsReturn {
+  /** Custom notes fields, ordered by position */
+  fields: DiscogsCollectionField[]
+  isLoading: boolean
+}
+
+/**
+ * Fetches the user's custom collection notes fields.
+ * Field definitions rarely change, so they are refreshed after an hour.
+ *
+ * @returns The field definitions in display order
+ */
+export function useCollectionFields(): UseCollectionFieldsReturn {
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const trpcUtils = trpc.useUtils()
+  const isQueryEnabled = useHydrationGuard(!!username && isAuthenticated)
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['collectionFields', username],
+    queryFn: async () => {
+      if (!username) {
+        throw new Error('Username is required')
+      }
+
+      const result = await trpcUtils.client.discogs.getCollectionFields.query({
+        username
+      })
+
+      // Cache hits carry no rateLimit: they didn't reach Discogs
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result.fields
+    },
+    enabled: isQueryEnabled,
+    staleTime: 1000 * 60 * 60
+  })
+
+  return {
+    fields: data ?? [],
+    isLoading
+  }
+}
+
+interface EditInstanceFieldVariables {
+  instance: DiscogsCollectionRelease
+  fieldId: number
+  value: string
+}
+
+interface UseEditInstanceFieldReturn {
+  editField: (variables: EditInstanceFieldVariables) => Promise<void>
+  isPending: boolean
+}
+
+/**
+ * Mutation for setting a custom notes field on a collection instance.
+ *
+ * On success the new value is written into every cached
+ * `['collection', username, ...]` query holding the instance, so lists and
+ * the detail page update without refetching the collection.
+ *
+ * @returns The edit function and its pending state
+ */
+export function useEditInstanceField(): UseEditInstanceFieldReturn {
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+
+  const mutation = useMutation({
+    mutationFn: async ({
+      instance,
+      fieldId,
+      value
+    }: EditInstanceFieldVariables) => {
+      if (!username || !isAuthenticated) {
+        throw new Error('Username and an active session are required')
+      }
+
+      const result = await trpcUtils.client.discogs.editInstanceField.mutate({
+        username,
+        // Instances always live in a concrete folder; 1 is "Uncategorized"
+        folderId: instance.folder_id ?? 1,
+        releaseId: instance.id,
+        instanceId: instance.instance_id,
+        fieldId,
+        value
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result
+    },
+    onSuccess: ({ instanceId, fieldId, value }) => {
+      updateCachedInstance(queryClient, username, instanceId, (release) => {
+        const notes = (release.notes ?? []).filter(
+          (note) => note.field_id !== fieldId
+        )
+        return {
+          ...release,
+          notes: value ? [...notes, { field_id: fieldId, value }] : notes
+        }
+      })
+    }
+  })
+
+  return {
+    editField: async (variables) => {
+      await mutation.mutateAsync(variables)
+    },
+    isPending: mutation.isPending
+  }
+}
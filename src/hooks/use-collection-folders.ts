@@ -0,0 +1,167 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useHydrationGuard } from '@/hooks/use-hydration-guard'
+import { useUserProfile } from '@/hooks/use-user-profile'
+import { trpc } from '@/lib/trpc'
+import type { DiscogsCollectionFolder } from '@/types/discogs'
+
+interface UseCollectionFoldersReturn {
+  folders: DiscogsCollectionFolder[]
+  isLoading: boolean
+  isError: boolean
+  createFolder: (name: string) => Promise<DiscogsCollectionFolder>
+  renameFolder: (
+    folderId: number,
+    name: string
+  ) => Promise<DiscogsCollectionFolder>
+  deleteFolder: (folderId: number) => Promise<void>
+  isMutating: boolean
+}
+
+/**
+ * Lists the user's collection folders (with item counts) and exposes
+ * create/rename/delete mutations.
+ *
+ * Mutations patch the `['collectionFolders', username]` cache with the
+ * server response instead of refetching. Deleting a folder also drops its
+ * cached `['collection', username, folderId]` pages.
+ *
+ * @returns Folders in Discogs order and the folder mutations
+ */
+export function useCollectionFolders(): UseCollectionFoldersReturn {
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+  const isQueryEnabled = useHydrationGuard(!!username && isAuthenticated)
+  const foldersKey = ['collectionFolders', username]
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['collectionFolders', username],
+    queryFn: async () => {
+      if (!username) {
+        throw new Error('Username is required')
+      }
+
+      const result = await trpcUtils.client.discogs.getFolders.query({
+        username
+      })
+
+      // Cache hits carry no rateLimit: they didn't reach Discogs
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result.folders
+    },
+    enabled: isQueryEnabled,
+    // Counts change whenever items are added or moved on Discogs
+    staleTime: 1000 * 60 * 5
+  })
+
+  const requireCredentials = () => {
+    if (!username || !isAuthenticated) {
+      throw new Error('Username and an active session are required')
+    }
+    return {
+      username
+    }
+  }
+
+  const updateFolders = (
+    updater: (folders: DiscogsCollectionFolder[]) => DiscogsCollectionFolder[]
+  ) => {
+    queryClient.setQueryData<DiscogsCollectionFolder[]>(
+      foldersKey,
+      (current) => (current ? updater(current) : current)
+    )
+  }
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const result = await trpcUtils.client.discogs.createFolder.mutate({
+        ...requireCredentials(),
+        name
+      })
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+      return result.folder
+    },
+    onSuccess: (folder) => {
+      updateFolders((folders) => [...folders, folder])
+    }
+  })
+
+  const renameMutation = useMutation({
+    mutationFn: async ({
+      folderId,
+      name
+    }: {
+      folderId: number
+      name: string
+    }) => {
+      const result = await trpcUtils.client.discogs.renameFolder.mutate({
+        ...requireCredentials(),
+        folderId,
+        name
+      })
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+      return result.folder
+    },
+    onSuccess: (folder) => {
+      updateFolders((folders) =>
+        folders.map((existing) =>
+          existing.id === folder.id
+            ? { ...existing, name: folder.name }
+            : existing
+        )
+      )
+    }
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: async (folderId: number) => {
+      const result = await trpcUtils.client.discogs.deleteFolder.mutate({
+        ...requireCredentials(),
+        folderId
+      })
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+      return result.folderId
+    },
+    onSuccess: (folderId) => {
+      updateFolders((folders) =>
+        folders.filter((folder) => folder.id !== folderId)
+      )
+      queryClient.removeQueries({
+        queryKey: ['collection', username, folderId]
+      })
+    }
+  })
+
+  return {
+    folders: data ?? [],
+    isLoading,
+    isError,
+    createFolder: (name) => createMutation.mutateAsync(name),
+    renameFolder: (folderId, name) =>
+      renameMutation.mutateAsync({ folderId, name }),
+    deleteFolder: async (folderId) => {
+      await deleteMutation.mutateAsync(folderId)
+    },
+    isMutating:
+      createMutation.isPending ||
+      renameMutation.isPending ||
+      deleteMutation.isPending
+  }
+}
@@ -0,0 +1,50 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { useCallback, useSyncExternalStore } from 'react'
+
+import type { DiscogsCollectionRelease } from '@/types/discogs'
+
+interface CachedCollectionPage {
+  releases?: DiscogsCollectionRelease[]
+}
+
+/**
+ * Looks up a single collection item by instance ID in any cached collection
+ * query (every page, sort and filter variant), without fetching.
+ *
+ * Discogs has no endpoint for fetching an instance by ID, so deep links to
+ * `/collection/$instanceId` resolve from the persisted cache. Subscribes to
+ * the query cache so the item appears once IndexedDB hydration completes.
+ *
+ * @param instanceId - Collection instance ID from the URL
+ * @returns The matching collection item, or undefined if not cached
+ */
+export function useCollectionInstance(
+  instanceId: number
+): DiscogsCollectionRelease | undefined {
+  const queryClient = useQueryClient()
+  const queryCache = queryClient.getQueryCache()
+
+  const subscribe = useCallback(
+    (onChange: () => void) => queryCache.subscribe(onChange),
+    [queryCache]
+  )
+
+  // Returns the cached object itself, so the snapshot is referentially
+  // stable until the underlying query data changes
+  const getSnapshot = useCallback(() => {
+    const cached = queryClient.getQueriesData<CachedCollectionPage>({
+      queryKey: ['collection']
+    })
+    for (const [, data] of cached) {
+      const match = data?.releases?.find(
+        (release) => release.instance_id === instanceId
+      )
+      if (match) {
+        return match
+      }
+    }
+    return undefined
+  }, [queryClient, instanceId])
+
+  return useSyncExternalStore(subscribe, getSnapshot)
+}
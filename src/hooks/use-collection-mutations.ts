@@ -0,0 +1,401 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useUserProfile } from '@/hooks/use-user-profile'
+import {
+  adjustCachedFolderCounts,
+  insertCachedInstance,
+  moveCachedInstance,
+  removeCachedInstance,
+  restoreCollectionCache,
+  snapshotCollectionCache,
+  updateCachedInstance
+} from '@/lib/collection-cache'
+import { trpc } from '@/lib/trpc'
+import type {
+  DiscogsBasicInformation,
+  DiscogsCollectionRelease
+} from '@/types/discogs'
+
+interface SetInstanceRatingVariables {
+  instance: DiscogsCollectionRelease
+  /** 1-5, or 0 to clear */
+  rating: number
+}
+
+/**
+ * Mutation for rating a collection instance.
+ *
+ * The new rating is written into every cached `['collection', username, ...]`
+ * query before the request is sent, so stars update instantly (and survive a
+ * reload through the persisted cache). On failure the previous cache is
+ * restored and an error toast is shown.
+ *
+ * @returns A function that rates an instance
+ */
+export function useSetInstanceRating(): (
+  variables: SetInstanceRatingVariables
+) => void {
+  const { t } = useTranslation()
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+
+  const mutation = useMutation({
+    mutationFn: async ({ instance, rating }: SetInstanceRatingVariables) => {
+      if (!username || !isAuthenticated) {
+        throw new Error('Username and an active session are required')
+      }
+
+      const result = await trpcUtils.client.discogs.setInstanceRating.mutate({
+        username,
+        // Instances always live in a concrete folder; 1 is "Uncategorized"
+        folderId: instance.folder_id ?? 1,
+        releaseId: instance.id,
+        instanceId: instance.instance_id,
+        rating
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result
+    },
+    onMutate: async ({ instance, rating }) => {
+      // A collection fetch finishing mid-mutation would overwrite the new rating
+      await queryClient.cancelQueries({ queryKey: ['collection', username] })
+      const snapshot = snapshotCollectionCache(queryClient, username)
+      updateCachedInstance(
+        queryClient,
+        username,
+        instance.instance_id,
+        (release) => ({ ...release, rating })
+      )
+      return { snapshot }
+    },
+    onError: (_error, _variables, context) => {
+      if (context) {
+        restoreCollectionCache(queryClient, context.snapshot)
+      }
+      toast.error(t('rating.saveFailed'))
+    }
+  })
+
+  return mutation.mutate
+}
+
+/**
+ * Shifts the cached `getCollectionMetadata` total that useCollectionSync
+ * compares against, so it agrees with the patched collection cache until
+ * the next metadata poll confirms the new count.
+ */
+const adjustCachedMetadataCount = (
+  trpcUtils: ReturnType<typeof trpc.useUtils>,
+  input: { username: string },
+  delta: number
+) => {
+  trpcUtils.discogs.getCollectionMetadata.setData(
+    input,
+    (meta) => meta && { ...meta, totalCount: meta.totalCount + delta }
+  )
+}
+
+/** Per-call callbacks, e.g. for closing a dialog or navigating away */
+interface MutationCallbacks {
+  onSuccess?: () => void
+}
+
+interface AddToCollectionVariables {
+  releaseId: number
+  /** Used to build the cached instance without refetching the collection */
+  basicInformation: DiscogsBasicInformation
+  /** Defaults to 1 ("Uncategorized") */
+  folderId?: number
+}
+
+/**
+ * Mutation for adding a copy of a release to the collection.
+ *
+ * The new instance is inserted into the cached collection queries (and the
+ * folder counts bumped) once Discogs returns its instance ID, so
+ * useCollectionSync sees matching totals and doesn't announce our own
+ * addition as a new item.
+ *
+ * @returns A function that adds a release; pass `onSuccess` per call to react
+ */
+export function useAddToCollection(): (
+  variables: AddToCollectionVariables,
+  callbacks?: MutationCallbacks
+) => void {
+  const { t } = useTranslation()
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+
+  const mutation = useMutation({
+    mutationFn: async ({ releaseId, folderId }: AddToCollectionVariables) => {
+      if (!username || !isAuthenticated) {
+        throw new Error('Username and an active session are required')
+      }
+
+      const result =
+        await trpcUtils.client.discogs.addReleaseToCollection.mutate({
+          username,
+          releaseId,
+          ...(folderId !== undefined && { folderId })
+        })
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result
+    },
+    onSuccess: (result, { basicInformation }) => {
+      insertCachedInstance(queryClient, username, {
+        id: result.releaseId,
+        instance_id: result.instanceId,
+        date_added: new Date().toISOString(),
+        rating: 0,
+        folder_id: result.folderId,
+        basic_information: basicInformation,
+        notes: []
+      })
+      adjustCachedFolderCounts(queryClient, username, {
+        0: 1,
+        [result.folderId]: 1
+      })
+      if (username && isAuthenticated) {
+        adjustCachedMetadataCount(
+          trpcUtils,
+          {
+            username
+          },
+          1
+        )
+      }
+      toast.success(
+        t('collection.actions.added', { title: basicInformation.title })
+      )
+    },
+    onError: () => {
+      toast.error(t('collection.actions.addFailed'))
+    }
+  })
+
+  return mutation.mutate
+}
+
+/**
+ * Mutation for removing one instance from the collection.
+ *
+ * The instance is dropped from the cached collection queries and folder
+ * counts on success, keeping useCollectionSync's totals in step.
+ *
+ * @returns A function that removes an instance; pass `onSuccess` per call to react
+ */
+export function useRemoveInstance(): (
+  variables: DiscogsCollectionRelease,
+  callbacks?: MutationCallbacks
+) => void {
+  const { t } = useTranslation()
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+
+  const mutation = useMutation({
+    mutationFn: async (instance: DiscogsCollectionRelease) => {
+      if (!username || !isAuthenticated) {
+        throw new Error('Username and an active session are required')
+      }
+
+      const result = await trpcUtils.client.discogs.removeInstance.mutate({
+        username,
+        // Instances always live in a concrete folder; 1 is "Uncategorized"
+        folderId: instance.folder_id ?? 1,
+        releaseId: instance.id,
+        instanceId: instance.instance_id
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result
+    },
+    onSuccess: (_result, instance) => {
+      removeCachedInstance(queryClient, username, instance)
+      adjustCachedFolderCounts(queryClient, username, {
+        0: -1,
+        [instance.folder_id ?? 1]: -1
+      })
+      if (username && isAuthenticated) {
+        adjustCachedMetadataCount(
+          trpcUtils,
+          {
+            username
+          },
+          -1
+        )
+      }
+      toast.success(
+        t('collection.actions.removed', {
+          title: instance.basic_information.title
+        })
+      )
+    },
+    onError: () => {
+      toast.error(t('collection.actions.removeFailed'))
+    }
+  })
+
+  return mutation.mutate
+}
+
+interface MoveInstanceVariables {
+  instance: DiscogsCollectionRelease
+  targetFolderId: number
+}
+
+/**
+ * Mutation for moving a collection instance to another folder.
+ *
+ * On success the instance moves between the cached folder queries and the
+ * folder counts are adjusted; folder 0 ("All") keeps the same total.
+ *
+ * @returns A function that moves an instance; pass `onSuccess` per call to react
+ */
+export function useMoveInstance(): (
+  variables: MoveInstanceVariables,
+  callbacks?: MutationCallbacks
+) => void {
+  const { t } = useTranslation()
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+
+  const mutation = useMutation({
+    mutationFn: async ({ instance, targetFolderId }: MoveInstanceVariables) => {
+      if (!username || !isAuthenticated) {
+        throw new Error('Username and an active session are required')
+      }
+
+      const result = await trpcUtils.client.discogs.moveInstanceToFolder.mutate(
+        {
+          username,
+          folderId: instance.folder_id ?? 1,
+          releaseId: instance.id,
+          instanceId: instance.instance_id,
+          targetFolderId
+        }
+      )
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result
+    },
+    onSuccess: (_result, { instance, targetFolderId }) => {
+      moveCachedInstance(queryClient, username, instance, targetFolderId)
+      adjustCachedFolderCounts(queryClient, username, {
+        [instance.folder_id ?? 1]: -1,
+        [targetFolderId]: 1
+      })
+      toast.success(t('collection.actions.moved'))
+    },
+    onError: () => {
+      toast.error(t('collection.actions.moveFailed'))
+    }
+  })
+
+  return mutation.mutate
+}
+
+interface AddSearchResultVariables {
+  releaseId: number
+  /** Shown in the confirmation toast */
+  title: string
+}
+
+/**
+ * Mutation for adding a database search result to the collection.
+ *
+ * Unlike {@link useAddToCollection}, the caller has no `basic_information`
+ * to build the cached instance from, so the server reads the new instance
+ * back from Discogs before it is inserted into the cache.
+ *
+ * @returns A function that adds a search result to the collection
+ */
+export function useAddSearchResultToCollection(): (
+  variables: AddSearchResultVariables,
+  callbacks?: MutationCallbacks
+) => void {
+  const { t } = useTranslation()
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+
+  const mutation = useMutation({
+    mutationFn: async ({ releaseId }: AddSearchResultVariables) => {
+      if (!username || !isAuthenticated) {
+        throw new Error('Username and an active session are required')
+      }
+
+      const result =
+        await trpcUtils.client.discogs.addSearchResultToCollection.mutate({
+          username,
+          releaseId
+        })
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result
+    },
+    onSuccess: ({ instance }, { title }) => {
+      // Without the instance the cache can't be patched; the sync banner
+      // will then offer a refresh, which is the honest outcome
+      if (instance && username && isAuthenticated) {
+        insertCachedInstance(queryClient, username, instance)
+        adjustCachedFolderCounts(queryClient, username, {
+          0: 1,
+          [instance.folder_id ?? 1]: 1
+        })
+        adjustCachedMetadataCount(
+          trpcUtils,
+          {
+            username
+          },
+          1
+        )
+      }
+      toast.success(t('collection.actions.added', { title }))
+    },
+    onError: () => {
+      toast.error(t('collection.actions.addFailed'))
+    }
+  })
+
+  return mutation.mutate
+}
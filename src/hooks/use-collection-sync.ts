@@ -1,102 +1,208 @@
 // src/hooks/use-collection-sync.ts
-import { useQueryClient } from '@tanstack/react-query'
+import { type Query, useQuery, useQueryClient } from '@tanstack/react-query'
 import { useSyncExternalStore } from 'react'
 
+import { rateLimiter } from '@/api/rate-limiter'
 import { useUserProfile } from '@/hooks/use-user-profile'
+import { applyCollectionDiff } from '@/lib/collection-cache'
+import { diffCollection } from '@/lib/collection-sync'
+import { COLLECTION } from '@/lib/constants'
 import { trpc } from '@/lib/trpc'
 import { useAuthStore } from '@/stores/auth-store'
-import type { DiscogsCollectionResponse } from '@/types/discogs'
+import type {
+  DiscogsCollectionRelease,
+  DiscogsCollectionResponse
+} from '@/types/discogs'
+
+/**
+ * Whether a cached folder 0 query holds every instance (fetched with all
+ * pages, or small enough to fit on one), which the diff needs as its base.
+ */
+const isCompleteQuery = (query: Query) => {
+  const data = query.state.data as DiscogsCollectionResponse
+  return query.queryKey[3] === true || data.pagination.pages <= 1
+}
+
+const findLatestQuery = (queries: Query[]) => {
+  let latestQuery: Query | undefined
+  for (const query of queries) {
+    if (
+      !latestQuery ||
+      query.state.dataUpdatedAt > latestQuery.state.dataUpdatedAt
+    ) {
+      latestQuery = query
+    }
+  }
+  return latestQuery
+}
 
 /**
  * Detects changes in user's Discogs collection by comparing
  * cached data with live metadata.
  *
  * Runs fast metadata check (1 API call) on window focus to detect
- * new/deleted items without refetching expensive full collection.
+ * new/deleted items without refetching expensive full collection. The
+ * metadata also names the newest instance, so an addition offset by a
+ * removal is caught too.
  *
- * @returns Change detection state and counts
+ * When a change is found and the whole of folder 0 is cached, the exact
+ * added and removed instances are worked out with `diffCollection` (a few
+ * pages instead of all of them), and refreshing merges them into the cache.
+ * Otherwise refreshing refetches every collection query.
+ *
+ * @returns Change detection state, counts and the changed releases
  */
 export function useCollectionSync(): {
   hasChanges: boolean
   newItemsCount: number
   deletedItemsCount: number
+  /** Exact additions, once the diff has loaded */
+  addedReleases: DiscogsCollectionRelease[]
+  /** Exact removals, once the diff has loaded */
+  removedReleases: DiscogsCollectionRelease[]
   refreshCollection: () => void
 } {
   const queryClient = useQueryClient()
-  const tokens = useAuthStore((state) => state.tokens)
+  const hasSession = useAuthStore((state) => state.hasSession)
   const { profile } = useUserProfile()
   const username = profile?.username
+  const trpcUtils = trpc.useUtils()
 
   // Fast metadata check (auto-refetches on window focus)
   const { data: meta, isSuccess: isMetaSuccess } =
     trpc.discogs.getCollectionMetadata.useQuery(
-      tokens && username
-        ? {
-            accessToken: tokens.accessToken,
-            accessTokenSecret: tokens.accessTokenSecret,
-            username
-          }
-        : { accessToken: '', accessTokenSecret: '', username: '' },
+      { username: username ?? '' },
       {
-        enabled: Boolean(tokens && username),
+        enabled: hasSession && Boolean(username),
         refetchOnWindowFocus: true,
         refetchInterval: 60 * 1000,
         staleTime: 30 * 1000 // 30 sec debounce for tab-switch detection
       }
     )
 
-  // Critical: Must match on stable prefix ['collection', username] not ['collection', username, 'all']
-  // because the query key varies based on filters (page number vs 'all'). The subscription ensures
-  // reactivity when cache updates. Changing this can miss cached data or cause stale comparisons.
+  const liveNewestId = isMetaSuccess ? meta.newestInstanceId : null
+
+  const findCachedQueries = () =>
+    queryClient.getQueryCache().findAll({
+      queryKey: ['collection', username, 0],
+      exact: false,
+      predicate: (query) => query.state.data !== undefined
+    })
+
+  // Critical: Must match on stable prefix ['collection', username, 0] not ['collection', username, 0, 'all']
+  // because the query key varies based on filters (page number vs 'all'). Only folder 0 ("All") is
+  // compared, since the metadata count covers the whole collection, not a single folder. The
+  // subscription ensures reactivity when cache updates. Changing this can miss cached data or cause
+  // stale comparisons.
   const cachedState = useSyncExternalStore(
     (onStoreChange) => queryClient.getQueryCache().subscribe(onStoreChange),
     () => {
-      if (!username) return '0|0'
-
-      const queries = queryClient.getQueryCache().findAll({
-        queryKey: ['collection', username],
-        exact: false,
-        predicate: (query) => query.state.data !== undefined
-      })
+      if (!username) return '0|0|1|0'
 
-      let latestQuery: (typeof queries)[number] | undefined
-      for (const query of queries) {
-        if (
-          !latestQuery ||
-          query.state.dataUpdatedAt > latestQuery.state.dataUpdatedAt
-        ) {
-          latestQuery = query
-        }
-      }
+      const queries = findCachedQueries()
+      const latestQuery = findLatestQuery(queries)
+      const completeQuery = findLatestQuery(queries.filter(isCompleteQuery))
 
       const cachedCollection = latestQuery?.state.data as
         | DiscogsCollectionResponse
         | undefined
+      const completeCollection = completeQuery?.state.data as
+        | DiscogsCollectionResponse
+        | undefined
       const cachedCount = cachedCollection?.pagination.items ?? 0
       const hasCachedData = cachedCollection !== undefined
-      return `${hasCachedData ? 1 : 0}|${cachedCount}`
+      // Without a complete cache we can't tell whether the newest instance
+      // is one we know, so only the count is compared
+      const knowsNewest =
+        liveNewestId === null ||
+        !completeCollection ||
+        completeCollection.releases.some(
+          (release) => release.instance_id === liveNewestId
+        )
+      // The diff runs against the complete query, so it has to agree with
+      // the count being compared
+      const diffBase =
+        completeCollection?.pagination.items === cachedCount
+          ? (completeQuery?.state.dataUpdatedAt ?? 0)
+          : 0
+      return `${hasCachedData ? 1 : 0}|${cachedCount}|${knowsNewest ? 1 : 0}|${diffBase}`
     },
-    () => '0|0'
+    () => '0|0|1|0'
   )
 
-  const [hasCachedDataToken, cachedCountToken] = cachedState.split('|')
+  const [
+    hasCachedDataToken,
+    cachedCountToken,
+    knowsNewestToken,
+    diffBaseToken
+  ] = cachedState.split('|')
   const hasCachedData = hasCachedDataToken === '1'
   const cachedCount = Number(cachedCountToken)
+  const knowsNewest = knowsNewestToken === '1'
+  const diffBase = Number(diffBaseToken)
 
   const hasLiveCount = isMetaSuccess && typeof meta.totalCount === 'number'
   const liveCount = hasLiveCount ? meta.totalCount : cachedCount
 
-  const hasChanges = hasCachedData && hasLiveCount && liveCount !== cachedCount
-  const newItemsCount =
-    hasCachedData && hasLiveCount ? Math.max(0, liveCount - cachedCount) : 0
-  const deletedItemsCount =
-    hasCachedData && hasLiveCount ? Math.max(0, cachedCount - liveCount) : 0
+  const hasChanges =
+    hasCachedData && hasLiveCount && (liveCount !== cachedCount || !knowsNewest)
+
+  const { data: diff } = useQuery({
+    queryKey: ['collectionSync', username, liveCount, liveNewestId, diffBase],
+    queryFn: async () => {
+      const completeQuery = findLatestQuery(
+        findCachedQueries().filter(isCompleteQuery)
+      )
+      const completeCollection = completeQuery?.state.data as
+        | DiscogsCollectionResponse
+        | undefined
+      if (!completeCollection || !username) {
+        return null
+      }
+
+      return diffCollection(completeCollection.releases, async (page) => {
+        await rateLimiter.waitIfNeeded()
+        const result = await trpcUtils.client.discogs.getCollection.query({
+          username,
+          folderId: 0,
+          page,
+          perPage: COLLECTION.PER_PAGE,
+          sort: 'added',
+          sortOrder: 'desc',
+          // Cached pages could predate the change being diffed
+          fresh: true
+        })
+
+        // Cache hits carry no rateLimit: they didn't reach Discogs
+        if (result.rateLimit) {
+          rateLimiter.updateFromRateLimit(result.rateLimit)
+        }
+
+        return result
+      })
+    },
+    enabled: hasChanges && diffBase > 0 && hasSession,
+    staleTime: Infinity
+  })
+
+  const countDelta = hasCachedData && hasLiveCount ? liveCount - cachedCount : 0
+  const newItemsCount = diff ? diff.added.length : Math.max(0, countDelta)
+  const deletedItemsCount = diff
+    ? diff.removed.length
+    : Math.max(0, -countDelta)
 
   return {
     hasChanges,
     newItemsCount,
     deletedItemsCount,
+    addedReleases: diff?.added ?? [],
+    removedReleases: diff?.removed ?? [],
     refreshCollection: () => {
+      if (hasChanges && diff) {
+        applyCollectionDiff(queryClient, username, diff)
+        return
+      }
+
       // Invalidate and refetch all collection queries, including inactive ones
       // (e.g., when user clicks refresh from Settings page)
       void queryClient.invalidateQueries({
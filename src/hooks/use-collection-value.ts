@@ -0,0 +1,101 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useHydrationGuard } from '@/hooks/use-hydration-guard'
+import { useUserProfile } from '@/hooks/use-user-profile'
+import { trpc } from '@/lib/trpc'
+import {
+  appendValueSnapshot,
+  readValueHistory,
+  type ValueSnapshot
+} from '@/lib/value-history'
+import type { DiscogsCollectionValue, DiscogsCurrency } from '@/types/discogs'
+
+interface UseCollectionValueReturn {
+  value: DiscogsCollectionValue | undefined
+  currency: DiscogsCurrency | null
+  history: ValueSnapshot[]
+  isLoading: boolean
+  isFetching: boolean
+  isError: boolean
+  error: Error | null
+  dataUpdatedAt: number
+  refetch: () => Promise<unknown>
+}
+
+/**
+ * Fetches the collection's estimated value and its locally recorded history.
+ *
+ * Every successful fetch is snapshotted into IndexedDB (see value-history.ts),
+ * so the history grows each time the value is refreshed. Discogs recomputes
+ * the value infrequently, so the query is refreshed after an hour.
+ *
+ * @returns Current value, the user's currency and the snapshot history
+ */
+export function useCollectionValue(): UseCollectionValueReturn {
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const currency = profile?.curr_abbr ?? null
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+  const isQueryEnabled = useHydrationGuard(!!username && isAuthenticated)
+
+  const {
+    data,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    dataUpdatedAt,
+    refetch
+  } = useQuery({
+    // eslint-disable-next-line @tanstack/query/exhaustive-deps -- currency only labels the snapshot
+    queryKey: ['collectionValue', username],
+    queryFn: async () => {
+      if (!username || !isAuthenticated) {
+        throw new Error('Username and an active session are required')
+      }
+
+      await rateLimiter.waitIfNeeded()
+      const result = await trpcUtils.client.discogs.getCollectionValue.query({
+        username
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      await appendValueSnapshot(username, result.value, currency)
+      await queryClient.invalidateQueries({
+        queryKey: ['collectionValueHistory', username]
+      })
+
+      return result.value
+    },
+    enabled: isQueryEnabled,
+    staleTime: 1000 * 60 * 60
+  })
+
+  // History lives in its own IndexedDB key, so it is excluded from the
+  // persisted query cache (see query-provider.tsx)
+  const { data: history } = useQuery({
+    queryKey: ['collectionValueHistory', username],
+    queryFn: () => (username ? readValueHistory(username) : []),
+    enabled: !!username
+  })
+
+  return {
+    value: data,
+    currency,
+    history: history ?? [],
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    dataUpdatedAt,
+    refetch
+  }
+}
@@ -0,0 +1,127 @@
+// @vitest-environment happy-dom
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { createElement, type ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { useCollection } from '@/hooks/use-collection'
+import {
+  createReleaseViewHandler,
+  type ReleaseViewRequest,
+  type ReleaseViewResponse
+} from '@/lib/release-view'
+import { createRelease } from '@/test/fixtures'
+
+const client = vi.hoisted(() => ({
+  discogs: {
+    getFullCollection: { query: vi.fn() },
+    getMarketplaceStats: { query: vi.fn() }
+  }
+}))
+
+vi.mock('@/lib/trpc', () => ({ trpc: { useUtils: () => ({ client }) } }))
+vi.mock('@/hooks/use-auth', () => ({
+  useAuth: () => ({ isAuthenticated: true })
+}))
+vi.mock('@/hooks/use-user-profile', () => ({
+  useUserProfile: () => ({ profile: { username: 'vinyldeck-demo' } })
+}))
+vi.mock('@/hooks/use-hydration-guard', () => ({
+  useHydrationGuard: (enabled: boolean) => enabled
+}))
+vi.mock('@/hooks/use-collection-fields', () => {
+  const fields: never[] = []
+  return { useCollectionFields: () => ({ fields }) }
+})
+
+/** Every request sent to a release view worker */
+let posts: ReleaseViewRequest[] = []
+
+/** Answers like the real worker, a task later */
+class FakeWorker {
+  onmessage: ((event: { data: ReleaseViewResponse }) => void) | null = null
+  onerror = null
+  onmessageerror = null
+  private handleRequest = createReleaseViewHandler()
+
+  postMessage(request: ReleaseViewRequest) {
+    posts.push(request)
+    const response = this.handleRequest(request)
+    if (response) {
+      setTimeout(() => {
+        this.onmessage?.({ data: response })
+      }, 0)
+    }
+  }
+
+  terminate() {
+    this.onmessage = null
+  }
+}
+
+const releases = [createRelease(), createRelease(), createRelease()]
+
+async function* streamCollection() {
+  yield await Promise.resolve({
+    type: 'complete' as const,
+    releases,
+    pagination: { page: 1, pages: 1, per_page: 100, items: 3, urls: {} },
+    nextPage: null
+  })
+}
+
+describe('useCollection', () => {
+  beforeEach(() => {
+    posts = []
+    vi.stubGlobal('Worker', FakeWorker)
+    client.discogs.getFullCollection.query.mockImplementation(() =>
+      Promise.resolve(streamCollection())
+    )
+    client.discogs.getMarketplaceStats.query.mockImplementation(
+      ({ releaseId }: { releaseId: number }) =>
+        Promise.resolve({
+          stats: {
+            lowest_price: { value: releaseId, currency: 'EUR' },
+            num_for_sale: 1,
+            blocked_from_sale: false
+          }
+        })
+    )
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sends the worker one query once the value sort has every price', async () => {
+    const queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false } }
+    })
+    const wrapper = ({ children }: { children: ReactNode }) =>
+      createElement(QueryClientProvider, { client: queryClient }, children)
+
+    const { result, rerender } = renderHook(
+      () => useCollection({ sort: 'value' }),
+      { wrapper }
+    )
+
+    const pricedQueries = () =>
+      posts.filter(
+        (request) =>
+          request.type === 'query' && request.query.sortValues?.size === 3
+      )
+
+    await waitFor(() => {
+      expect(
+        result.current.filteredReleases.map((release) => release.id)
+      ).toEqual(releases.map((release) => release.id).reverse())
+    })
+    const postCount = posts.length
+
+    rerender()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    expect(posts).toHaveLength(postCount)
+    expect(pricedQueries()).toHaveLength(1)
+  })
+})
@@ -3,7 +3,7 @@ import { useEffect, type Dispatch, type SetStateAction } from 'react'
 import type { AuthState } from '@/providers/auth-context'
 
 interface CrossTabAuthSyncParams {
-  authTokens: { accessToken: string; accessTokenSecret: string } | null
+  hasSession: boolean
   sessionActive: boolean
   isRestoring: boolean
   state: AuthState
@@ -19,7 +19,7 @@ interface CrossTabAuthSyncParams {
  * propagated via Zustand's localStorage sync.
  *
  * @param params - The sync parameters from {@link CrossTabAuthSyncParams}
- * @param params.authTokens - Current OAuth tokens from Zustand store (null if disconnected)
+ * @param params.hasSession - Whether a session cookie was issued, per the Zustand store (false if disconnected)
  * @param params.sessionActive - Whether the session is active in Zustand store
  * @param params.isRestoring - Whether IndexedDB cache is still being restored
  * @param params.state - Current AuthState from the provider
@@ -27,7 +27,7 @@ interface CrossTabAuthSyncParams {
  * @param params.onCrossTabDisconnect - Callback to clear caches on cross-tab disconnect
  */
 export function useCrossTabAuthSync({
-  authTokens,
+  hasSession,
   sessionActive,
   isRestoring,
   state,
@@ -45,17 +45,16 @@ export function useCrossTabAuthSync({
       return
     }
 
-    // Tokens cleared (disconnect from another tab)
-    if (!authTokens) {
+    // Session cleared (disconnect from another tab)
+    if (!hasSession) {
       setState((prev) => {
-        // Only clear caches if we were previously authenticated or had stored tokens
-        if (prev.isAuthenticated || prev.hasStoredTokens) {
+        // Only clear caches if we were previously authenticated or had a stored session
+        if (prev.isAuthenticated || prev.hasStoredSession) {
           onCrossTabDisconnect()
           return {
             ...prev,
             isAuthenticated: false,
-            hasStoredTokens: false,
-            oauthTokens: null
+            hasStoredSession: false
           }
         }
         return prev
@@ -63,16 +62,15 @@ export function useCrossTabAuthSync({
       return
     }
 
-    // Session ended but tokens kept (sign out from another tab)
+    // Session ended but cookie kept (sign out from another tab)
     if (!sessionActive && state.isAuthenticated) {
       setState((prev) => ({
         ...prev,
-        isAuthenticated: false,
-        oauthTokens: null
+        isAuthenticated: false
       }))
     }
   }, [
-    authTokens,
+    hasSession,
     sessionActive,
     isRestoring,
     state.isLoading,
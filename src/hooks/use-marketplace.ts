@@ -0,0 +1,145 @@
+import { useQueries } from '@tanstack/react-query'
+import { useCallback, useMemo } from 'react'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useHydrationGuard } from '@/hooks/use-hydration-guard'
+import { MARKETPLACE } from '@/lib/constants'
+import { trpc } from '@/lib/trpc'
+import type {
+  DiscogsMarketplaceStats,
+  DiscogsPriceSuggestionsResponse
+} from '@/types/discogs'
+
+interface MarketplaceLookup<T> {
+  /** Results keyed by release ID (only releases that have loaded) */
+  byReleaseId: Map<number, T>
+  /** Lookups still waiting for the rate limit budget or the network */
+  pendingCount: number
+}
+
+/**
+ * Fetches marketplace stats (lowest price, copies for sale) for a set of
+ * releases, one cached query per release under `['marketplaceStats', id]`.
+ *
+ * Every lookup is a separate Discogs request, so they are released through
+ * the shared RateLimiter and persisted for {@link MARKETPLACE.STALE_TIME}.
+ * Large sets load progressively; results appear as they arrive.
+ *
+ * @param releaseIds - Release IDs to look up (duplicates are ignored)
+ * @returns Loaded stats keyed by release ID and the number still pending
+ */
+export function useMarketplaceStats(
+  releaseIds: number[]
+): MarketplaceLookup<DiscogsMarketplaceStats> {
+  const { isAuthenticated } = useAuth()
+  const trpcUtils = trpc.useUtils()
+  const isQueryEnabled = useHydrationGuard(isAuthenticated)
+  const uniqueIds = useMemo(() => Array.from(new Set(releaseIds)), [releaseIds])
+  // A stable combine keeps `byReleaseId` the same object until a result
+  // changes, so callers can depend on it
+  const combine = useCallback(
+    (
+      results: Array<{
+        data: DiscogsMarketplaceStats | undefined
+        isPending: boolean
+      }>
+    ) => combineLookups(uniqueIds, results),
+    [uniqueIds]
+  )
+
+  return useQueries({
+    queries: uniqueIds.map((releaseId) => ({
+      queryKey: ['marketplaceStats', releaseId],
+      queryFn: async () => {
+        const result = await rateLimiter.schedule(() =>
+          trpcUtils.client.discogs.getMarketplaceStats.query({
+            releaseId
+          })
+        )
+
+        // Cache hits carry no rateLimit: they didn't reach Discogs
+        if (result.rateLimit) {
+          rateLimiter.updateFromRateLimit(result.rateLimit)
+        }
+
+        return result.stats
+      },
+      enabled: isQueryEnabled,
+      staleTime: MARKETPLACE.STALE_TIME
+    })),
+    combine
+  })
+}
+
+/**
+ * Fetches suggested prices per condition grade for a set of releases, one
+ * cached query per release under `['priceSuggestions', id]`.
+ *
+ * Suggestions require the user to have seller settings on Discogs. Without
+ * them every call fails, so failures are not retried to save the budget.
+ *
+ * @param releaseIds - Release IDs to look up (duplicates are ignored)
+ * @returns Loaded suggestions keyed by release ID and the number still pending
+ */
+export function usePriceSuggestions(
+  releaseIds: number[]
+): MarketplaceLookup<DiscogsPriceSuggestionsResponse> {
+  const { isAuthenticated } = useAuth()
+  const trpcUtils = trpc.useUtils()
+  const isQueryEnabled = useHydrationGuard(isAuthenticated)
+  const uniqueIds = useMemo(() => Array.from(new Set(releaseIds)), [releaseIds])
+  const combine = useCallback(
+    (
+      results: Array<{
+        data: DiscogsPriceSuggestionsResponse | undefined
+        isPending: boolean
+      }>
+    ) => combineLookups(uniqueIds, results),
+    [uniqueIds]
+  )
+
+  return useQueries({
+    queries: uniqueIds.map((releaseId) => ({
+      queryKey: ['priceSuggestions', releaseId],
+      queryFn: async () => {
+        const result = await rateLimiter.schedule(() =>
+          trpcUtils.client.discogs.getPriceSuggestions.query({
+            releaseId
+          })
+        )
+
+        // Cache hits carry no rateLimit: they didn't reach Discogs
+        if (result.rateLimit) {
+          rateLimiter.updateFromRateLimit(result.rateLimit)
+        }
+
+        return result.suggestions
+      },
+      enabled: isQueryEnabled,
+      staleTime: MARKETPLACE.STALE_TIME,
+      retry: false
+    })),
+    combine
+  })
+}
+
+function combineLookups<T>(
+  releaseIds: number[],
+  results: Array<{ data: T | undefined; isPending: boolean }>
+): MarketplaceLookup<T> {
+  const byReleaseId = new Map<number, T>()
+  let pendingCount = 0
+
+  results.forEach((result, index) => {
+    const releaseId = releaseIds[index]
+    if (releaseId !== undefined && result.data !== undefined) {
+      byReleaseId.set(releaseId, result.data)
+    }
+    if (result.isPending) {
+      pendingCount += 1
+    }
+  })
+
+  return { byReleaseId, pendingCount }
+}
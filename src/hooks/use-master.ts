@@ -0,0 +1,126 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useHydrationGuard } from '@/hooks/use-hydration-guard'
+import { trpc } from '@/lib/trpc'
+import type {
+  DiscogsMasterRelease,
+  DiscogsMasterVersion
+} from '@/types/discogs'
+
+interface UseMasterReturn {
+  master: DiscogsMasterRelease | undefined
+  isLoading: boolean
+  isError: boolean
+}
+
+/**
+ * Fetches a master release. Like releases, masters rarely change, so the
+ * result keeps the default infinite staleTime and is persisted under
+ * `['master', masterId]`.
+ *
+ * @param masterId - Discogs master ID
+ * @returns Master details and query state
+ */
+export function useMaster(masterId: number): UseMasterReturn {
+  const { isAuthenticated } = useAuth()
+  const trpcUtils = trpc.useUtils()
+  // NaN (from a malformed URL) fails the check too
+  const isQueryEnabled = useHydrationGuard(masterId > 0 && isAuthenticated)
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ['master', masterId],
+    queryFn: async () => {
+      await rateLimiter.waitIfNeeded()
+      const result = await trpcUtils.client.discogs.getMaster.query({
+        masterId
+      })
+
+      // Cache hits carry no rateLimit: they didn't reach Discogs
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result.master
+    },
+    enabled: isQueryEnabled,
+    placeholderData: () => undefined
+  })
+
+  return { master: data, isLoading, isError }
+}
+
+interface UseMasterVersionsReturn {
+  versions: DiscogsMasterVersion[]
+  isLoading: boolean
+  isFetching: boolean
+  isError: boolean
+  error: Error | null
+  refetch: () => Promise<unknown>
+}
+
+const VERSIONS_PER_PAGE = 100
+
+/**
+ * Fetches every version of a master release, oldest first.
+ *
+ * All pages are loaded up front (100 per request) so versions can be
+ * filtered by vinyl descriptors locally; Discogs can only filter versions
+ * by format name and country. New pressings appear rarely, so the list is
+ * refreshed after a day.
+ *
+ * @param masterId - Discogs master ID
+ * @returns All versions and query state
+ */
+export function useMasterVersions(masterId: number): UseMasterVersionsReturn {
+  const { isAuthenticated } = useAuth()
+  const trpcUtils = trpc.useUtils()
+  // NaN (from a malformed URL) fails the check too
+  const isQueryEnabled = useHydrationGuard(masterId > 0 && isAuthenticated)
+
+  const { data, isLoading, isFetching, isError, error, refetch } = useQuery({
+    queryKey: ['masterVersions', masterId],
+    queryFn: async () => {
+      const fetchPage = async (page: number) => {
+        await rateLimiter.waitIfNeeded()
+        const result = await trpcUtils.client.discogs.getMasterVersions.query({
+          masterId,
+          page,
+          perPage: VERSIONS_PER_PAGE,
+          sort: 'released',
+          sortOrder: 'asc'
+        })
+
+        // Cache hits carry no rateLimit: they didn't reach Discogs
+        if (result.rateLimit) {
+          rateLimiter.updateFromRateLimit(result.rateLimit)
+        }
+
+        return result
+      }
+
+      const firstPage = await fetchPage(1)
+      const versions = [...firstPage.versions]
+
+      for (let page = 2; page <= firstPage.pagination.pages; page += 1) {
+        const response = await fetchPage(page)
+        versions.push(...response.versions)
+      }
+
+      return versions
+    },
+    enabled: isQueryEnabled,
+    placeholderData: () => undefined,
+    staleTime: 1000 * 60 * 60 * 24
+  })
+
+  return {
+    versions: data ?? [],
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch
+  }
+}
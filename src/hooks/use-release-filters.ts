@@ -0,0 +1,458 @@
+import { useEffect, useMemo, useState } from 'react'
+
+import { getListItemKey, isVinylRecord } from '@/api/discogs'
+import { useReleaseView } from '@/hooks/use-release-view'
+import {
+  clampYearRange,
+  type CollectionFilterOptions,
+  type CollectionSelectedFilters,
+  countFacetValues,
+  EMPTY_FACET_FILTER,
+  type FacetFilter,
+  getFilterSearchParams,
+  getNonVinylBreakdown,
+  type NonVinylBreakdownItem,
+  readFiltersFromParams,
+  SEARCH_PARAM_KEY
+} from '@/lib/release-filters'
+import type { ReleaseViewQuery } from '@/lib/release-view'
+import { parseSearchQuery, type SearchQueryIssue } from '@/lib/search-query'
+import { readSearchParams, updateSearchParams } from '@/lib/url-state'
+import type {
+  CollectionSortKey,
+  CollectionSortOrder,
+  DiscogsCollectionField,
+  DiscogsListItem
+} from '@/types/discogs'
+
+const readFiltersFromUrl = (): CollectionSelectedFilters =>
+  readFiltersFromParams(readSearchParams())
+
+const readSearchFromUrl = (): string =>
+  readSearchParams().get(SEARCH_PARAM_KEY) ?? ''
+
+interface UseReleaseFilterStateOptions {
+  sort?: CollectionSortKey
+  sortOrder?: CollectionSortOrder
+}
+
+export interface ReleaseFilterState {
+  search: string
+  setSearch: (search: string) => void
+  sort: CollectionSortKey
+  setSort: (sort: CollectionSortKey) => void
+  sortOrder: CollectionSortOrder
+  setSortOrder: (order: CollectionSortOrder) => void
+  randomSeed: number
+  reshuffleRandom: () => void
+  selected: CollectionSelectedFilters
+  setSelectedGenres: (filter: FacetFilter) => void
+  setSelectedStyles: (filter: FacetFilter) => void
+  setSelectedLabels: (filter: FacetFilter) => void
+  setSelectedTypes: (filter: FacetFilter) => void
+  setSelectedSizes: (filter: FacetFilter) => void
+  setSelectedCountries: (filter: FacetFilter) => void
+  setYearRange: (range: [number, number] | null) => void
+  setMinRating: (rating: number | null) => void
+  setSelectedFieldValues: (fieldId: number, filter: FacetFilter) => void
+  clearFilters: () => void
+  hasSearch: boolean
+  hasActiveFilters: boolean
+}
+
+/**
+ * Holds search, sort and facet filter state for a release list.
+ * The search and filters are initialized from the URL and re-read on
+ * back/forward navigation. Starting a search switches to the `relevance`
+ * sort; without a search, that sort falls back to the one used before.
+ *
+ * @param options - Initial sort key and order
+ * @returns Current filter state with setters
+ */
+export function useReleaseFilterState(
+  options: UseReleaseFilterStateOptions = {}
+): ReleaseFilterState {
+  const urlFilters = useMemo(() => readFiltersFromUrl(), [])
+  const [search, setSearchState] = useState(readSearchFromUrl)
+  const [sort, setSort] = useState<CollectionSortKey>(() =>
+    readSearchFromUrl().trim() ? 'relevance' : (options.sort ?? 'added')
+  )
+  const [sortBeforeSearch, setSortBeforeSearch] = useState<CollectionSortKey>(
+    options.sort ?? 'added'
+  )
+  const [sortOrder, setSortOrder] = useState<CollectionSortOrder>(
+    options.sortOrder ?? 'desc'
+  )
+  const [selectedGenres, setSelectedGenres] = useState<FacetFilter>(
+    urlFilters.genres
+  )
+  const [selectedStyles, setSelectedStyles] = useState<FacetFilter>(
+    urlFilters.styles
+  )
+  const [selectedLabels, setSelectedLabels] = useState<FacetFilter>(
+    urlFilters.labels
+  )
+  const [selectedTypes, setSelectedTypes] = useState<FacetFilter>(
+    urlFilters.types
+  )
+  const [selectedSizes, setSelectedSizes] = useState<FacetFilter>(
+    urlFilters.sizes
+  )
+  const [selectedCountries, setSelectedCountries] = useState<FacetFilter>(
+    urlFilters.countries
+  )
+  const [yearRangeSelection, setYearRangeSelection] = useState<
+    [number, number] | null
+  >(urlFilters.yearRange)
+  const [minRating, setMinRating] = useState<number | null>(
+    urlFilters.minRating
+  )
+  const [selectedFields, setSelectedFields] = useState<
+    Record<number, FacetFilter>
+  >(urlFilters.fields)
+  const [randomSeed, setRandomSeed] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+
+    const handlePopState = () => {
+      const nextFilters = readFiltersFromUrl()
+      setSearchState(readSearchFromUrl())
+      setSelectedGenres(nextFilters.genres)
+      setSelectedStyles(nextFilters.styles)
+      setSelectedLabels(nextFilters.labels)
+      setSelectedTypes(nextFilters.types)
+      setSelectedSizes(nextFilters.sizes)
+      setSelectedCountries(nextFilters.countries)
+      setYearRangeSelection(nextFilters.yearRange)
+      setMinRating(nextFilters.minRating)
+      setSelectedFields(nextFilters.fields)
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => {
+      window.removeEventListener('popstate', handlePopState)
+    }
+  }, [])
+
+  const hasSearch = search.trim().length > 0
+  const activeSort =
+    sort === 'relevance' && !hasSearch ? sortBeforeSearch : sort
+
+  const setSearch = (nextSearch: string) => {
+    if (!hasSearch && nextSearch.trim() && activeSort !== 'relevance') {
+      setSortBeforeSearch(activeSort)
+      setSort('relevance')
+    }
+    setSearchState(nextSearch)
+  }
+
+  const setSortWithRandom = (nextSort: CollectionSortKey) => {
+    if (nextSort === 'random' && activeSort !== 'random') {
+      setRandomSeed((seed) => seed + 1)
+    }
+    setSort(nextSort)
+  }
+
+  const setSortOrderWithRandom = (nextOrder: CollectionSortOrder) => {
+    if (activeSort === 'random' && nextOrder !== sortOrder) {
+      setRandomSeed((seed) => seed + 1)
+    }
+    setSortOrder(nextOrder)
+  }
+
+  const reshuffleRandom = () => {
+    if (activeSort === 'random') {
+      setRandomSeed((seed) => seed + 1)
+    }
+  }
+
+  const setSelectedFieldValues = (fieldId: number, filter: FacetFilter) => {
+    setSelectedFields((current) => {
+      const next = Object.fromEntries(
+        Object.entries(current).filter(([id]) => Number(id) !== fieldId)
+      )
+      return countFacetValues(filter) > 0
+        ? { ...next, [fieldId]: filter }
+        : next
+    })
+  }
+
+  const clearFilters = () => {
+    setSelectedGenres(EMPTY_FACET_FILTER)
+    setSelectedStyles(EMPTY_FACET_FILTER)
+    setSelectedLabels(EMPTY_FACET_FILTER)
+    setSelectedTypes(EMPTY_FACET_FILTER)
+    setSelectedSizes(EMPTY_FACET_FILTER)
+    setSelectedCountries(EMPTY_FACET_FILTER)
+    setYearRangeSelection(null)
+    setMinRating(null)
+    setSelectedFields({})
+  }
+
+  const hasActiveFilters =
+    countFacetValues(selectedGenres) > 0 ||
+    countFacetValues(selectedStyles) > 0 ||
+    countFacetValues(selectedLabels) > 0 ||
+    countFacetValues(selectedTypes) > 0 ||
+    countFacetValues(selectedSizes) > 0 ||
+    countFacetValues(selectedCountries) > 0 ||
+    yearRangeSelection !== null ||
+    minRating !== null ||
+    Object.values(selectedFields).some((filter) => countFacetValues(filter) > 0)
+
+  return {
+    search,
+    setSearch,
+    sort: activeSort,
+    setSort: setSortWithRandom,
+    sortOrder,
+    setSortOrder: setSortOrderWithRandom,
+    randomSeed,
+    reshuffleRandom,
+    selected: {
+      genres: selectedGenres,
+      styles: selectedStyles,
+      labels: selectedLabels,
+      types: selectedTypes,
+      sizes: selectedSizes,
+      countries: selectedCountries,
+      yearRange: yearRangeSelection,
+      minRating,
+      fields: selectedFields
+    },
+    setSelectedGenres,
+    setSelectedStyles,
+    setSelectedLabels,
+    setSelectedTypes,
+    setSelectedSizes,
+    setSelectedCountries,
+    setYearRange: setYearRangeSelection,
+    setMinRating,
+    setSelectedFieldValues,
+    clearFilters,
+    hasSearch,
+    hasActiveFilters
+  }
+}
+
+interface UseFilteredReleasesOptions<T extends DiscogsListItem> {
+  /**
+   * Sort every key on the client. When false, only `genre`, `value`,
+   * `random` and `relevance` are sorted locally and the input order is
+   * trusted for the rest.
+   */
+  sortLocally?: boolean
+  /**
+   * Numeric value for the `value` sort (e.g. lowest marketplace price).
+   * Releases without a value yet are kept at the end in either order.
+   */
+  getSortValue?: (release: T) => number | undefined
+  /** Custom dropdown fields to offer as facets (collection items only) */
+  filterFields?: DiscogsCollectionField[]
+}
+
+const NO_FILTER_FIELDS: DiscogsCollectionField[] = []
+
+const NO_FILTER_OPTIONS: CollectionFilterOptions = {
+  genres: [],
+  styles: [],
+  labels: [],
+  types: [],
+  sizes: [],
+  countries: [],
+  yearBounds: null,
+  fields: []
+}
+
+interface UseFilteredReleasesReturn<T extends DiscogsListItem> {
+  vinylOnly: T[]
+  sortedReleases: T[]
+  /** True until the first view of the releases has been derived */
+  isPending: boolean
+  filterOptions: CollectionFilterOptions
+  selectedFilters: CollectionSelectedFilters
+  activeFilterCount: number
+  nonVinylCount: number
+  nonVinylBreakdown: NonVinylBreakdownItem[]
+  /** Problems in the search query, for hints under the search box */
+  searchIssues: SearchQueryIssue[]
+}
+
+/**
+ * Derives the vinyl-only, searched, filtered and sorted view of a release list
+ * and keeps the search and active filters mirrored in the URL. Searching,
+ * filtering and sorting run in a Web Worker (see {@link useReleaseView}), so
+ * the view trails the filter state by a moment.
+ *
+ * @param releases - Releases to derive from (collection items or wants)
+ * @param state - Filter state from {@link useReleaseFilterState}
+ * @param options - Sorting behavior
+ * @returns Filtered releases, facet options and filter summary
+ */
+export function useFilteredReleases<T extends DiscogsListItem>(
+  releases: T[] | undefined,
+  state: ReleaseFilterState,
+  options: UseFilteredReleasesOptions<T> = {}
+): UseFilteredReleasesReturn<T> {
+  const { search, sort, sortOrder, randomSeed, selected } = state
+  const sortLocally = options.sortLocally ?? false
+  const { getSortValue } = options
+  const filterFields = options.filterFields ?? NO_FILTER_FIELDS
+  const selectedGenres = selected.genres
+  const selectedStyles = selected.styles
+  const selectedLabels = selected.labels
+  const selectedTypes = selected.types
+  const selectedSizes = selected.sizes
+  const selectedCountries = selected.countries
+  const yearRangeSelection = selected.yearRange
+  const minRating = selected.minRating
+  const selectedFields = selected.fields
+
+  // Filter to vinyl only
+  const vinylOnly = useMemo(() => {
+    if (!releases) return []
+    return releases.filter((release) =>
+      isVinylRecord(release.basic_information.formats)
+    )
+  }, [releases])
+
+  const nonVinylStats = useMemo(
+    () => getNonVinylBreakdown(releases ?? []),
+    [releases]
+  )
+
+  // Marketplace values are looked up here; the worker only gets the numbers
+  const sortValues = useMemo(() => {
+    if (sort !== 'value' || !getSortValue) return null
+    const values = new Map<number, number>()
+    for (const release of vinylOnly) {
+      const value = getSortValue(release)
+      if (value !== undefined) values.set(getListItemKey(release), value)
+    }
+    return values
+  }, [vinylOnly, sort, getSortValue])
+
+  const query = useMemo<ReleaseViewQuery>(
+    () => ({
+      search,
+      selected: {
+        genres: selectedGenres,
+        styles: selectedStyles,
+        labels: selectedLabels,
+        types: selectedTypes,
+        sizes: selectedSizes,
+        countries: selectedCountries,
+        yearRange: yearRangeSelection,
+        minRating,
+        fields: selectedFields
+      },
+      sort,
+      sortOrder,
+      randomSeed,
+      sortLocally,
+      sortValues
+    }),
+    [
+      search,
+      selectedGenres,
+      selectedStyles,
+      selectedLabels,
+      selectedTypes,
+      selectedSizes,
+      selectedCountries,
+      yearRangeSelection,
+      minRating,
+      selectedFields,
+      sort,
+      sortOrder,
+      randomSeed,
+      sortLocally,
+      sortValues
+    ]
+  )
+
+  const view = useReleaseView(vinylOnly, filterFields, query)
+  const filterOptions = view?.filterOptions ?? NO_FILTER_OPTIONS
+  const yearRange = useMemo(
+    () => clampYearRange(yearRangeSelection, filterOptions.yearBounds),
+    [filterOptions.yearBounds, yearRangeSelection]
+  )
+  const searchIssues = useMemo(() => parseSearchQuery(search).issues, [search])
+
+  const yearRangeActive =
+    !!yearRange &&
+    (!filterOptions.yearBounds ||
+      yearRange[0] !== filterOptions.yearBounds[0] ||
+      yearRange[1] !== filterOptions.yearBounds[1])
+
+  useEffect(() => {
+    updateSearchParams(
+      getFilterSearchParams(
+        {
+          genres: selectedGenres,
+          styles: selectedStyles,
+          labels: selectedLabels,
+          types: selectedTypes,
+          sizes: selectedSizes,
+          countries: selectedCountries,
+          yearRange,
+          minRating,
+          fields: selectedFields
+        },
+        { yearRangeActive, currentParams: readSearchParams() }
+      )
+    )
+  }, [
+    selectedGenres,
+    selectedStyles,
+    selectedLabels,
+    selectedTypes,
+    selectedSizes,
+    selectedCountries,
+    minRating,
+    selectedFields,
+    yearRange,
+    yearRangeActive
+  ])
+
+  useEffect(() => {
+    updateSearchParams({ [SEARCH_PARAM_KEY]: search.trim() ? search : null })
+  }, [search])
+
+  const activeFilterCount =
+    countFacetValues(selectedGenres) +
+    countFacetValues(selectedStyles) +
+    countFacetValues(selectedLabels) +
+    countFacetValues(selectedTypes) +
+    countFacetValues(selectedSizes) +
+    countFacetValues(selectedCountries) +
+    Object.values(selectedFields).reduce(
+      (total, filter) => total + countFacetValues(filter),
+      0
+    ) +
+    (minRating === null ? 0 : 1) +
+    (yearRangeActive ? 1 : 0)
+
+  return {
+    vinylOnly,
+    sortedReleases: view?.releases ?? [],
+    isPending: !view && vinylOnly.length > 0,
+    filterOptions,
+    selectedFilters: {
+      genres: selectedGenres,
+      styles: selectedStyles,
+      labels: selectedLabels,
+      types: selectedTypes,
+      sizes: selectedSizes,
+      countries: selectedCountries,
+      yearRange,
+      minRating,
+      fields: selectedFields
+    },
+    activeFilterCount,
+    nonVinylCount: nonVinylStats.total,
+    nonVinylBreakdown: nonVinylStats.breakdown,
+    searchIssues
+  }
+}
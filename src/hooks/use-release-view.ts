@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from 'react'
+
+import { getListItemKey } from '@/api/discogs'
+import type { CollectionFilterOptions } from '@/lib/release-filters'
+import {
+  createReleaseViewChannel,
+  type ReleaseViewQuery,
+  type ReleaseViewRequest
+} from '@/lib/release-view'
+import type { DiscogsCollectionField, DiscogsListItem } from '@/types/discogs'
+
+interface ReleaseViewResult<T extends DiscogsListItem> {
+  /** Releases to show, in display order */
+  releases: T[]
+  filterOptions: CollectionFilterOptions
+}
+
+/**
+ * Derives the searched, filtered and sorted view of a release list in a Web
+ * Worker (see `src/lib/release-view.ts`). The list is sent whenever it
+ * changes; each query then sends only the search, filters and sort, and
+ * gets back release keys and facet counts. Views for an outdated list or
+ * query are dropped. If the worker fails, views are derived on the main
+ * thread instead.
+ *
+ * @param releases - Vinyl releases to derive from
+ * @param filterFields - Custom dropdown fields to offer as facets
+ * @param query - Search, filters and sort; keep the object stable between
+ * renders, since every new one is sent to the worker
+ * @returns The latest view, or null until the first one arrives
+ */
+export function useReleaseView<T extends DiscogsListItem>(
+  releases: T[],
+  filterFields: DiscogsCollectionField[],
+  query: ReleaseViewQuery
+): ReleaseViewResult<T> | null {
+  const channelRef = useRef<ReturnType<typeof createReleaseViewChannel> | null>(
+    null
+  )
+  const datasetRef = useRef({ id: 0, releasesByKey: new Map<number, T>() })
+  const queryIdRef = useRef(0)
+  const appliedQueryIdRef = useRef(0)
+  const [view, setView] = useState<ReleaseViewResult<T> | null>(null)
+
+  useEffect(() => {
+    const channel = createReleaseViewChannel(
+      () =>
+        new Worker(
+          new URL('../workers/release-view.worker.ts', import.meta.url),
+          { type: 'module' }
+        ),
+      ({ datasetId, queryId, view: nextView }) => {
+        const dataset = datasetRef.current
+        if (datasetId !== dataset.id || queryId <= appliedQueryIdRef.current) {
+          return
+        }
+
+        appliedQueryIdRef.current = queryId
+        setView({
+          releases: nextView.keys.flatMap(
+            (key) => dataset.releasesByKey.get(key) ?? []
+          ),
+          filterOptions: nextView.filterOptions
+        })
+      }
+    )
+    channelRef.current = channel
+
+    return () => {
+      channel.close()
+      channelRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const datasetId = datasetRef.current.id + 1
+    datasetRef.current = {
+      id: datasetId,
+      releasesByKey: new Map(
+        releases.map((release) => [getListItemKey(release), release])
+      )
+    }
+    const request: ReleaseViewRequest = {
+      type: 'load',
+      datasetId,
+      releases,
+      filterFields
+    }
+    channelRef.current?.post(request)
+  }, [releases, filterFields])
+
+  useEffect(() => {
+    queryIdRef.current += 1
+    const request: ReleaseViewRequest = {
+      type: 'query',
+      datasetId: datasetRef.current.id,
+      queryId: queryIdRef.current,
+      query
+    }
+    channelRef.current?.post(request)
+  }, [releases, filterFields, query])
+
+  return view
+}
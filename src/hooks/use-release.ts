@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useHydrationGuard } from '@/hooks/use-hydration-guard'
+import { trpc } from '@/lib/trpc'
+import type { DiscogsRelease } from '@/types/discogs'
+
+interface UseReleaseReturn {
+  release: DiscogsRelease | undefined
+  isLoading: boolean
+  isFetching: boolean
+  isError: boolean
+  error: Error | null
+  refetch: () => Promise<unknown>
+}
+
+/**
+ * Fetches full details for a single release.
+ *
+ * Release data rarely changes, so it keeps the default infinite staleTime and
+ * is persisted to IndexedDB under `['release', releaseId]`. Detail pages that
+ * were opened once keep working offline.
+ *
+ * @param releaseId - Discogs release ID, or undefined while it is unknown
+ * @returns Release details and query state
+ */
+export function useRelease(releaseId: number | undefined): UseReleaseReturn {
+  const { isAuthenticated } = useAuth()
+  const trpcUtils = trpc.useUtils()
+  const isQueryEnabled = useHydrationGuard(
+    releaseId !== undefined && isAuthenticated
+  )
+
+  const { data, isLoading, isFetching, isError, error, refetch } = useQuery({
+    queryKey: ['release', releaseId],
+    queryFn: async () => {
+      if (releaseId === undefined) {
+        throw new Error('Release ID is required')
+      }
+
+      await rateLimiter.waitIfNeeded()
+      const result = await trpcUtils.client.discogs.getRelease.query({
+        releaseId
+      })
+
+      // Cache hits carry no rateLimit: they didn't reach Discogs
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result.release
+    },
+    enabled: isQueryEnabled,
+    // Never show the previous release while navigating between detail pages
+    placeholderData: () => undefined,
+    refetchOnMount: false,
+    refetchOnReconnect: false,
+    refetchOnWindowFocus: false
+  })
+
+  return {
+    release: data,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch
+  }
+}
@@ -0,0 +1,165 @@
+import { useQuery } from '@tanstack/react-query'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useCachedOwnership } from '@/hooks/use-cached-ownership'
+import { useHydrationGuard } from '@/hooks/use-hydration-guard'
+import { trpc } from '@/lib/trpc'
+import type { DiscogsSearchResult } from '@/types/discogs'
+
+export type SearchType = 'release' | 'master' | 'artist' | 'label'
+
+/** Search criteria as stored in the `/search` URL */
+export interface SearchCriteria {
+  query?: string
+  type?: SearchType
+  barcode?: string
+  catno?: string
+  format?: string
+  year?: string
+  page: number
+}
+
+interface UseDiscogsSearchReturn {
+  results: DiscogsSearchResult[]
+  pagination: {
+    page: number
+    pages: number
+    total: number
+    perPage: number
+  } | null
+  /** False until at least one criterion is entered */
+  hasCriteria: boolean
+  isLoading: boolean
+  isFetching: boolean
+  isError: boolean
+  error: Error | null
+  refetch: () => Promise<unknown>
+}
+
+const SEARCH_PER_PAGE = 50
+
+/**
+ * Whether any criterion other than the type filter is set. The server
+ * requires one, so an empty form never spends a request.
+ */
+const hasSearchCriteria = (criteria: SearchCriteria): boolean =>
+  Boolean(
+    criteria.query ||
+    criteria.barcode ||
+    criteria.catno ||
+    criteria.format ||
+    criteria.year
+  )
+
+/**
+ * Searches the Discogs database.
+ *
+ * Results are cached under `['search', criteria]` for 5 minutes so paging
+ * back and forth doesn't repeat requests. The catalogue changes slowly, but
+ * searches are cheap to repeat and not worth keeping offline forever.
+ *
+ * @param criteria - Search text, filters and page
+ * @returns Search results and query state
+ */
+export function useDiscogsSearch(
+  criteria: SearchCriteria
+): UseDiscogsSearchReturn {
+  const { isAuthenticated } = useAuth()
+  const trpcUtils = trpc.useUtils()
+  const hasCriteria = hasSearchCriteria(criteria)
+  const isQueryEnabled = useHydrationGuard(hasCriteria && isAuthenticated)
+
+  const { data, isLoading, isFetching, isError, error, refetch } = useQuery({
+    queryKey: ['search', criteria],
+    queryFn: async () => {
+      await rateLimiter.waitIfNeeded()
+      const result = await trpcUtils.client.discogs.search.query({
+        ...(criteria.query && { query: criteria.query }),
+        ...(criteria.type && { type: criteria.type }),
+        ...(criteria.barcode && { barcode: criteria.barcode }),
+        ...(criteria.catno && { catno: criteria.catno }),
+        ...(criteria.format && { format: criteria.format }),
+        ...(criteria.year && { year: criteria.year }),
+        page: criteria.page,
+        perPage: SEARCH_PER_PAGE
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result
+    },
+    enabled: isQueryEnabled,
+    staleTime: 1000 * 60 * 5
+  })
+
+  return {
+    results: hasCriteria ? (data?.results ?? []) : [],
+    pagination:
+      hasCriteria && data
+        ? {
+            page: data.pagination.page,
+            pages: data.pagination.pages,
+            total: data.pagination.items,
+            perPage: data.pagination.per_page
+          }
+        : null,
+    hasCriteria,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch
+  }
+}
+
+/**
+ * How a search result relates to the user's collection:
+ * - `release`: this exact release is in the collection
+ * - `master`: another version of the same master is in the collection
+ */
+export type SearchResultOwnership = 'release' | 'master' | null
+
+interface UseOwnershipReturn {
+  getOwnership: (result: DiscogsSearchResult) => SearchResultOwnership
+  isWanted: (result: DiscogsSearchResult) => boolean
+}
+
+/**
+ * Matches search results against the cached collection (by release and
+ * master ID) and wantlist via {@link useCachedOwnership}. A result's own
+ * `user_data` fills the gaps for whatever isn't cached.
+ *
+ * @returns Lookups for a result's collection and wantlist status
+ */
+export function useSearchResultOwnership(): UseOwnershipReturn {
+  const { instancesByReleaseId, masterIds, wantedIds } = useCachedOwnership()
+
+  return {
+    getOwnership: (result) => {
+      if (result.type === 'release') {
+        if (
+          instancesByReleaseId.has(result.id) ||
+          result.user_data?.in_collection
+        ) {
+          return 'release'
+        }
+        return result.master_id && masterIds.has(result.master_id)
+          ? 'master'
+          : null
+      }
+      if (result.type === 'master') {
+        return masterIds.has(result.id) || result.user_data?.in_collection
+          ? 'master'
+          : null
+      }
+      return null
+    },
+    isWanted: (result) =>
+      result.type === 'release' &&
+      (wantedIds.has(result.id) || Boolean(result.user_data?.in_wantlist))
+  }
+}
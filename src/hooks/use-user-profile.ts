@@ -2,12 +2,15 @@ import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { useState } from 'react'
 
 import { trpc } from '@/lib/trpc'
+import type { DiscogsCurrency } from '@/types/discogs'
 
 export interface UserProfile {
   id: number
   username: string
   avatar_url?: string
   email?: string
+  /** Marketplace currency; missing on profiles cached by older versions */
+  curr_abbr?: DiscogsCurrency
 }
 
 /** Query key for user profile cache */
@@ -28,10 +31,7 @@ export function useUserProfile(): {
   profile: UserProfile | undefined
   isFetching: boolean
   error: Error | null
-  fetchProfile: (
-    username: string,
-    tokens: { accessToken: string; accessTokenSecret: string }
-  ) => Promise<UserProfile>
+  fetchProfile: (username: string) => Promise<UserProfile>
   clearProfile: () => void
 } {
   const queryClient = useQueryClient()
@@ -57,22 +57,16 @@ export function useUserProfile(): {
 
   /**
    * Fetches profile from API and caches it.
-   * Call after successful token validation.
+   * Call after successful session validation.
    *
    * @param username - The username to fetch profile for
-   * @param tokens - OAuth tokens to use for the request (passed directly to avoid store timing issues)
    * @returns The fetched user profile
    */
-  const fetchProfile = async (
-    username: string,
-    tokens: { accessToken: string; accessTokenSecret: string }
-  ): Promise<UserProfile> => {
+  const fetchProfile = async (username: string): Promise<UserProfile> => {
     setIsFetching(true)
     setError(null)
     try {
       const { profile } = await trpcUtils.client.discogs.getUserProfile.query({
-        accessToken: tokens.accessToken,
-        accessTokenSecret: tokens.accessTokenSecret,
         username
       })
 
@@ -81,7 +75,8 @@ export function useUserProfile(): {
         username: profile.username,
         avatar_url: profile.avatar_url,
         // Only include email if defined (exactOptionalPropertyTypes compliance)
-        ...(profile.email !== undefined && { email: profile.email })
+        ...(profile.email !== undefined && { email: profile.email }),
+        curr_abbr: profile.curr_abbr
       }
 
       queryClient.setQueryData(USER_PROFILE_QUERY_KEY, userProfile)
@@ -0,0 +1,254 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useMemo } from 'react'
+import { useTranslation } from 'react-i18next'
+import { toast } from 'sonner'
+
+import { rateLimiter } from '@/api/rate-limiter'
+import { useAuth } from '@/hooks/use-auth'
+import { useHydrationGuard } from '@/hooks/use-hydration-guard'
+import { useMarketplaceStats } from '@/hooks/use-marketplace'
+import {
+  type ReleaseFilterState,
+  useFilteredReleases,
+  useReleaseFilterState
+} from '@/hooks/use-release-filters'
+import { useUserProfile } from '@/hooks/use-user-profile'
+import { COLLECTION, MARKETPLACE } from '@/lib/constants'
+import {
+  type CollectionFilterOptions,
+  type CollectionSelectedFilters,
+  getValueSortReleaseIds
+} from '@/lib/release-filters'
+import type { SearchQueryIssue } from '@/lib/search-query'
+import { trpc } from '@/lib/trpc'
+import type { DiscogsPagination, DiscogsWantlistItem } from '@/types/discogs'
+
+interface UseWantlistOptions {
+  page?: number
+  /** Set to false to return the whole wantlist in one list */
+  paginate?: boolean
+}
+
+interface UseWantlistReturn {
+  wants: DiscogsWantlistItem[]
+  filteredWants: DiscogsWantlistItem[]
+  isLoading: boolean
+  isFetching: boolean
+  isError: boolean
+  error: Error | null
+  refetch: () => Promise<unknown>
+  pagination: {
+    page: number
+    pages: number
+    total: number
+    perPage: number
+  } | null
+  filterState: ReleaseFilterState
+  filterOptions: CollectionFilterOptions
+  selectedFilters: CollectionSelectedFilters
+  activeFilterCount: number
+  /** Problems with the search syntax, for hints under the search box */
+  searchIssues: SearchQueryIssue[]
+  /** Marketplace lookups still outstanding for the value sort */
+  valuePendingCount: number
+  /** Older vinyl wants the value sort leaves unpriced */
+  valueSkippedCount: number
+}
+
+/**
+ * Fetches the user's full wantlist and applies the same search, filters and
+ * sorting as the collection view. Wantlists are small compared to collections,
+ * so every page is fetched up front and sorting happens on the client.
+ *
+ * Results are persisted to IndexedDB under `['wantlist', username]` and
+ * refreshed after 5 minutes (light endpoint).
+ *
+ * @param options - Current page for client-side pagination, or no paging
+ * @returns Wantlist data, filter state and pagination info
+ */
+export function useWantlist(
+  options: UseWantlistOptions = {}
+): UseWantlistReturn {
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const trpcUtils = trpc.useUtils()
+  const filterState = useReleaseFilterState()
+  const page = options.page ?? 1
+  const isQueryEnabled = useHydrationGuard(!!username && isAuthenticated)
+
+  const { data, isLoading, isError, error, isFetching, refetch } = useQuery({
+    queryKey: ['wantlist', username],
+    queryFn: async () => {
+      if (!username) {
+        throw new Error('Username is required')
+      }
+
+      const fetchPage = async (pageNumber: number) => {
+        const result = await trpcUtils.client.discogs.getWantlist.query({
+          username,
+          page: pageNumber,
+          perPage: COLLECTION.PER_PAGE
+        })
+
+        // Cache hits carry no rateLimit: they didn't reach Discogs
+        if (result.rateLimit) {
+          rateLimiter.updateFromRateLimit(result.rateLimit)
+        }
+
+        return result
+      }
+
+      const firstPage = await fetchPage(1)
+      const wants = [...firstPage.wants]
+
+      for (
+        let pageNumber = 2;
+        pageNumber <= firstPage.pagination.pages;
+        pageNumber += 1
+      ) {
+        await rateLimiter.waitIfNeeded()
+        const response = await fetchPage(pageNumber)
+        wants.push(...response.wants)
+      }
+
+      return { ...firstPage, wants }
+    },
+    enabled: isQueryEnabled,
+    staleTime: 1000 * 60 * 5
+  })
+
+  // One Discogs request per want, so only the newest ones are priced
+  const valueSort = useMemo(
+    () =>
+      getValueSortReleaseIds(
+        filterState.sort === 'value' ? (data?.wants ?? []) : [],
+        MARKETPLACE.VALUE_SORT_LIMIT
+      ),
+    [filterState.sort, data]
+  )
+  const { byReleaseId: valuesByReleaseId, pendingCount: valuePendingCount } =
+    useMarketplaceStats(valueSort.releaseIds)
+  const getSortValue = useCallback(
+    (want: DiscogsWantlistItem) =>
+      valuesByReleaseId.get(want.id)?.lowest_price?.value,
+    [valuesByReleaseId]
+  )
+
+  const {
+    sortedReleases,
+    isPending,
+    filterOptions,
+    selectedFilters,
+    activeFilterCount,
+    searchIssues
+  } = useFilteredReleases(data?.wants, filterState, {
+    sortLocally: true,
+    getSortValue
+  })
+
+  const perPage =
+    (options.paginate ?? true)
+      ? COLLECTION.PER_PAGE
+      : Math.max(1, sortedReleases.length)
+  const totalPages = Math.max(1, Math.ceil(sortedReleases.length / perPage))
+  const safePage = Math.min(page, totalPages)
+  const pagedWants = useMemo(() => {
+    const startIndex = (safePage - 1) * perPage
+    return sortedReleases.slice(startIndex, startIndex + perPage)
+  }, [sortedReleases, safePage, perPage])
+
+  return {
+    wants: data?.wants ?? [],
+    filteredWants: pagedWants,
+    isLoading: isLoading || isPending,
+    isFetching,
+    isError,
+    error,
+    refetch,
+    pagination: data
+      ? {
+          page: safePage,
+          pages: totalPages,
+          total: sortedReleases.length,
+          perPage
+        }
+      : null,
+    filterState,
+    filterOptions,
+    selectedFilters,
+    activeFilterCount,
+    searchIssues,
+    valuePendingCount,
+    valueSkippedCount: valueSort.skippedCount
+  }
+}
+
+interface CachedWantlist {
+  wants: DiscogsWantlistItem[]
+  pagination: DiscogsPagination
+}
+
+/**
+ * Mutation for adding a release to the wantlist.
+ *
+ * The returned want is appended to the cached `['wantlist', username]`
+ * query, so the wantlist page and "wanted" badges update without a refetch.
+ *
+ * @returns A function that adds a release by ID
+ */
+export function useAddToWantlist(): (releaseId: number) => void {
+  const { t } = useTranslation()
+  const { isAuthenticated } = useAuth()
+  const { profile } = useUserProfile()
+  const username = profile?.username
+  const queryClient = useQueryClient()
+  const trpcUtils = trpc.useUtils()
+
+  const mutation = useMutation({
+    mutationFn: async (releaseId: number) => {
+      if (!username || !isAuthenticated) {
+        throw new Error('Username and an active session are required')
+      }
+
+      const result = await trpcUtils.client.discogs.addToWantlist.mutate({
+        username,
+        releaseId
+      })
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- defensive: rateLimit headers may be absent in edge cases (proxies, maintenance) despite library types
+      if (result.rateLimit) {
+        rateLimiter.updateFromRateLimit(result.rateLimit)
+      }
+
+      return result.want
+    },
+    onSuccess: (want) => {
+      queryClient.setQueryData<CachedWantlist>(
+        ['wantlist', username],
+        (current) =>
+          current && !current.wants.some((item) => item.id === want.id)
+            ? {
+                ...current,
+                wants: [
+                  ...current.wants,
+                  { ...want, date_added: new Date().toISOString() }
+                ],
+                pagination: {
+                  ...current.pagination,
+                  items: current.pagination.items + 1
+                }
+              }
+            : current
+      )
+      toast.success(
+        t('wantlist.added', { title: want.basic_information.title })
+      )
+    },
+    onError: () => {
+      toast.error(t('wantlist.addFailed'))
+    }
+  })
+
+  return mutation.mutate
+}
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+
+import { readListPosition, saveListPosition } from '@/lib/list-positions'
+
+/** Room left above an item scrolled to, in px */
+const SCROLL_MARGIN = 16
+
+interface UseWindowVirtualizerOptions {
+  /** When false, every item is rendered and the window is left alone */
+  enabled?: boolean
+  /** Number of items in the list */
+  count: number
+  /** Items per row: grid columns, or 1 for a table */
+  columns: number
+  /** Row height to assume until a row has been measured, in px */
+  estimateRowHeight: number
+  /** Space between rows, in px */
+  rowGap?: number
+  /** Rows rendered beyond each edge of the viewport */
+  overscan?: number
+  /**
+   * Remembers the first visible item under this key and scrolls back to it
+   * when a list with the same key mounts; omit to always start at the top
+   */
+  restoreKey?: string | undefined
+}
+
+interface WindowVirtualizer<TList extends HTMLElement> {
+  /** Attach to the element holding the rows, to find its page offset */
+  listRef: React.RefObject<TList | null>
+  /** Attach to the first rendered item, to measure the row height */
+  measureRef: (element: HTMLElement | null) => void
+  /** First item to render */
+  startIndex: number
+  /** Item after the last one to render */
+  endIndex: number
+  /** First item in the row at the top of the viewport */
+  firstVisibleIndex: number
+  /** Space to leave above the rendered items, in px */
+  paddingTop: number
+  /** Space to leave below the rendered items, in px */
+  paddingBottom: number
+  scrollToIndex: (index: number) => void
+}
+
+/**
+ * Renders only the rows of a long list that are on screen (plus `overscan`
+ * rows either side), for lists that scroll with the page. Rows are assumed
+ * to be the same height, measured from the first rendered item.
+ *
+ * @param options - List size, layout and scroll restoration
+ * @returns The item range to render, the space around it and refs to attach
+ */
+export function useWindowVirtualizer<TList extends HTMLElement>({
+  enabled = true,
+  count,
+  columns,
+  estimateRowHeight,
+  rowGap = 0,
+  overscan = 3,
+  restoreKey
+}: UseWindowVirtualizerOptions): WindowVirtualizer<TList> {
+  const listRef = useRef<TList | null>(null)
+  const observerRef = useRef<ResizeObserver | null>(null)
+  const firstVisibleRef = useRef(0)
+  const [rowHeight, setRowHeight] = useState<number | null>(null)
+  const [rows, setRows] = useState({ start: 0, end: 0, first: 0 })
+
+  const rowCount = Math.ceil(count / columns)
+  const rowStride = (rowHeight ?? estimateRowHeight) + rowGap
+
+  const getListTop = () =>
+    (listRef.current?.getBoundingClientRect().top ?? 0) + window.scrollY
+
+  const scrollToIndex = (index: number) => {
+    const row = Math.floor(index / columns)
+    window.scrollTo({ top: getListTop() + row * rowStride - SCROLL_MARGIN })
+  }
+
+  useEffect(() => {
+    if (!enabled) return
+    let frame: number | null = null
+
+    const update = () => {
+      frame = null
+      const offset = window.scrollY - getListTop()
+      const firstRow = Math.max(0, Math.floor(offset / rowStride))
+      const lastRow = Math.ceil((offset + window.innerHeight) / rowStride)
+      firstVisibleRef.current = Math.min(firstRow * columns, count)
+
+      const first = Math.min(firstRow, rowCount)
+      const start = Math.min(rowCount, Math.max(0, firstRow - overscan))
+      const end = Math.min(rowCount, Math.max(start, lastRow + overscan))
+      setRows((current) =>
+        current.start === start &&
+        current.end === end &&
+        current.first === first
+          ? current
+          : { start, end, first }
+      )
+    }
+    const scheduleUpdate = () => {
+      frame ??= window.requestAnimationFrame(update)
+    }
+
+    update()
+    window.addEventListener('scroll', scheduleUpdate, { passive: true })
+    window.addEventListener('resize', scheduleUpdate)
+    return () => {
+      if (frame !== null) window.cancelAnimationFrame(frame)
+      window.removeEventListener('scroll', scheduleUpdate)
+      window.removeEventListener('resize', scheduleUpdate)
+    }
+  }, [enabled, count, columns, rowCount, rowStride, overscan])
+
+  // Scroll back once the rows are measured, so the offset is accurate
+  const hasRestoredRef = useRef(false)
+  useEffect(() => {
+    if (!enabled || !restoreKey || hasRestoredRef.current) return
+    if (count === 0 || rowHeight === null || !listRef.current) return
+    hasRestoredRef.current = true
+    const index = readListPosition(restoreKey)
+    if (index !== null && index > 0) scrollToIndex(Math.min(index, count - 1))
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- scrollToIndex only reads refs and the measured layout
+  }, [enabled, restoreKey, count, rowHeight])
+
+  useEffect(() => {
+    if (!enabled || !restoreKey) return
+    const save = () => {
+      // Leaving before the list was restored must not lose the position
+      if (!hasRestoredRef.current) return
+      saveListPosition(restoreKey, firstVisibleRef.current)
+    }
+    window.addEventListener('pagehide', save)
+    return () => {
+      window.removeEventListener('pagehide', save)
+      save()
+    }
+  }, [enabled, restoreKey])
+
+  useEffect(
+    () => () => {
+      observerRef.current?.disconnect()
+    },
+    []
+  )
+
+  // Stable, so React doesn't re-attach it (and re-measure) on every render
+  const measureRef = useCallback(
+    (element: HTMLElement | null) => {
+      observerRef.current?.disconnect()
+      observerRef.current = null
+      if (!enabled || !element) return
+
+      const measure = () => {
+        const height = element.getBoundingClientRect().height
+        if (height > 0) setRowHeight(height)
+      }
+      measure()
+      observerRef.current = new ResizeObserver(measure)
+      observerRef.current.observe(element)
+    },
+    [enabled]
+  )
+
+  if (!enabled) {
+    return {
+      listRef,
+      measureRef,
+      startIndex: 0,
+      endIndex: count,
+      firstVisibleIndex: 0,
+      paddingTop: 0,
+      paddingBottom: 0,
+      scrollToIndex
+    }
+  }
+
+  return {
+    listRef,
+    measureRef,
+    startIndex: rows.start * columns,
+    endIndex: Math.min(count, rows.end * columns),
+    firstVisibleIndex: Math.min(rows.first * columns, count),
+    paddingTop: rows.start * rowStride,
+    paddingBottom: Math.max(0, rowCount - rows.end) * rowStride,
+    scrollToIndex
+  }
+}
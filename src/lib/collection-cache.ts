@@ -0,0 +1,297 @@
+// src/lib/collection-cache.ts
+import type { CollectionDiff } from '@/lib/collection-sync'
+import type {
+  DiscogsCollectionFolder,
+  DiscogsCollectionRelease,
+  DiscogsCollectionResponse
+} from '@/types/discogs'
+
+import type { QueryClient, QueryKey } from '@tanstack/react-query'
+
+type InstanceUpdater = (
+  release: DiscogsCollectionRelease
+) => DiscogsCollectionRelease
+
+/** Cached collection queries as returned by `queryClient.getQueriesData` */
+export type CollectionCacheSnapshot = Array<
+  [QueryKey, DiscogsCollectionResponse | undefined]
+>
+
+/**
+ * Applies an update to one collection instance in every cached
+ * `['collection', username, ...]` query (all folders, pages and sorts).
+ * Queries that don't contain the instance are left untouched.
+ *
+ * @param queryClient - The app's QueryClient
+ * @param username - Collection owner
+ * @param instanceId - Instance to update
+ * @param updater - Returns the updated instance
+ */
+export function updateCachedInstance(
+  queryClient: QueryClient,
+  username: string | undefined,
+  instanceId: number,
+  updater: InstanceUpdater
+): void {
+  queryClient.setQueriesData<DiscogsCollectionResponse>(
+    { queryKey: ['collection', username] },
+    (current) => {
+      if (
+        !current?.releases.some((release) => release.instance_id === instanceId)
+      ) {
+        return current
+      }
+
+      return {
+        ...current,
+        releases: current.releases.map((release) =>
+          release.instance_id === instanceId ? updater(release) : release
+        )
+      }
+    }
+  )
+}
+
+/**
+ * Captures every cached collection query for a user so an optimistic update
+ * can be rolled back with {@link restoreCollectionCache}.
+ *
+ * @param queryClient - The app's QueryClient
+ * @param username - Collection owner
+ * @returns The cached data per query key
+ */
+export function snapshotCollectionCache(
+  queryClient: QueryClient,
+  username: string | undefined
+): CollectionCacheSnapshot {
+  return queryClient.getQueriesData<DiscogsCollectionResponse>({
+    queryKey: ['collection', username]
+  })
+}
+
+/**
+ * Writes back data captured by {@link snapshotCollectionCache}.
+ *
+ * @param queryClient - The app's QueryClient
+ * @param snapshot - Previously captured cache data
+ */
+export function restoreCollectionCache(
+  queryClient: QueryClient,
+  snapshot: CollectionCacheSnapshot
+): void {
+  for (const [queryKey, data] of snapshot) {
+    queryClient.setQueryData(queryKey, data)
+  }
+}
+
+type CollectionQueryKey = readonly [
+  'collection',
+  string | undefined,
+  number,
+  boolean,
+  ...unknown[]
+]
+
+/**
+ * Whether a cached collection query holds a whole folder rather than a
+ * single server page. New instances are only inserted into those; paged
+ * queries just get their item count adjusted.
+ */
+const holdsWholeFolder = (
+  queryKey: CollectionQueryKey,
+  data: DiscogsCollectionResponse
+) => queryKey[3] || data.pagination.pages <= 1
+
+const withItemDelta = (
+  data: DiscogsCollectionResponse,
+  releases: DiscogsCollectionRelease[],
+  delta: number
+): DiscogsCollectionResponse => ({
+  ...data,
+  releases,
+  pagination: {
+    ...data.pagination,
+    items: Math.max(0, data.pagination.items + delta)
+  }
+})
+
+const forEachCollectionQuery = (
+  queryClient: QueryClient,
+  username: string | undefined,
+  callback: (
+    queryKey: CollectionQueryKey,
+    data: DiscogsCollectionResponse
+  ) => DiscogsCollectionResponse | undefined
+) => {
+  for (const [queryKey, data] of snapshotCollectionCache(
+    queryClient,
+    username
+  )) {
+    if (!data) continue
+    const next = callback(queryKey as unknown as CollectionQueryKey, data)
+    if (next) {
+      queryClient.setQueryData(queryKey, next)
+    }
+  }
+}
+
+/**
+ * Adds a newly created instance to the cached queries of folder 0 ("All")
+ * and of its own folder, bumping their item counts. Keeping the folder 0
+ * count in step stops useCollectionSync from reporting our own addition
+ * as a remote change.
+ *
+ * @param queryClient - The app's QueryClient
+ * @param username - Collection owner
+ * @param instance - The new instance (must carry its `folder_id`)
+ */
+export function insertCachedInstance(
+  queryClient: QueryClient,
+  username: string | undefined,
+  instance: DiscogsCollectionRelease
+): void {
+  forEachCollectionQuery(queryClient, username, (queryKey, data) => {
+    const folderId = queryKey[2]
+    if (folderId !== 0 && folderId !== instance.folder_id) return undefined
+    return withItemDelta(
+      data,
+      holdsWholeFolder(queryKey, data)
+        ? [instance, ...data.releases]
+        : data.releases,
+      1
+    )
+  })
+}
+
+/**
+ * Removes an instance from the cached queries of folder 0 and of its own
+ * folder, decrementing their item counts.
+ *
+ * @param queryClient - The app's QueryClient
+ * @param username - Collection owner
+ * @param instance - The removed instance
+ */
+export function removeCachedInstance(
+  queryClient: QueryClient,
+  username: string | undefined,
+  instance: DiscogsCollectionRelease
+): void {
+  forEachCollectionQuery(queryClient, username, (queryKey, data) => {
+    const folderId = queryKey[2]
+    if (folderId !== 0 && folderId !== instance.folder_id) return undefined
+    return withItemDelta(
+      data,
+      data.releases.filter(
+        (release) => release.instance_id !== instance.instance_id
+      ),
+      -1
+    )
+  })
+}
+
+/**
+ * Moves an instance between folders in the cache: it leaves the source
+ * folder's queries, joins the target folder's and keeps its place in
+ * folder 0 with an updated `folder_id`.
+ *
+ * @param queryClient - The app's QueryClient
+ * @param username - Collection owner
+ * @param instance - The instance as it was before the move
+ * @param targetFolderId - Folder the instance moved to
+ */
+export function moveCachedInstance(
+  queryClient: QueryClient,
+  username: string | undefined,
+  instance: DiscogsCollectionRelease,
+  targetFolderId: number
+): void {
+  const moved = { ...instance, folder_id: targetFolderId }
+
+  forEachCollectionQuery(queryClient, username, (queryKey, data) => {
+    const folderId = queryKey[2]
+    if (folderId === 0) {
+      return {
+        ...data,
+        releases: data.releases.map((release) =>
+          release.instance_id === instance.instance_id ? moved : release
+        )
+      }
+    }
+    if (folderId === instance.folder_id) {
+      return withItemDelta(
+        data,
+        data.releases.filter(
+          (release) => release.instance_id !== instance.instance_id
+        ),
+        -1
+      )
+    }
+    if (folderId === targetFolderId) {
+      return withItemDelta(
+        data,
+        holdsWholeFolder(queryKey, data)
+          ? [moved, ...data.releases]
+          : data.releases,
+        1
+      )
+    }
+    return undefined
+  })
+}
+
+/**
+ * Adjusts the cached item counts in `['collectionFolders', username]`.
+ *
+ * @param queryClient - The app's QueryClient
+ * @param username - Collection owner
+ * @param deltas - Count change per folder ID
+ */
+export function adjustCachedFolderCounts(
+  queryClient: QueryClient,
+  username: string | undefined,
+  deltas: Record<number, number>
+): void {
+  queryClient.setQueryData<DiscogsCollectionFolder[]>(
+    ['collectionFolders', username],
+    (folders) =>
+      folders?.map((folder) => ({
+        ...folder,
+        count: Math.max(0, folder.count + (deltas[folder.id] ?? 0))
+      }))
+  )
+}
+
+/**
+ * Merges changes made on Discogs (found by `diffCollection`) into the
+ * cached collection queries and folder counts, instead of refetching every
+ * page.
+ *
+ * @param queryClient - The app's QueryClient
+ * @param username - Collection owner
+ * @param diff - Instances added and removed since the cache was filled
+ */
+export function applyCollectionDiff(
+  queryClient: QueryClient,
+  username: string | undefined,
+  diff: CollectionDiff
+): void {
+  const deltas: Record<number, number> = {
+    0: diff.added.length - diff.removed.length
+  }
+  const addDelta = (release: DiscogsCollectionRelease, delta: number) => {
+    const folderId = release.folder_id ?? 1
+    deltas[folderId] = (deltas[folderId] ?? 0) + delta
+  }
+
+  // Oldest first, so the newest addition ends up at the top
+  for (const release of [...diff.added].reverse()) {
+    insertCachedInstance(queryClient, username, release)
+    addDelta(release, 1)
+  }
+  for (const release of diff.removed) {
+    removeCachedInstance(queryClient, username, release)
+    addDelta(release, -1)
+  }
+
+  adjustCachedFolderCounts(queryClient, username, deltas)
+}
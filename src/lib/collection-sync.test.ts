@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { diffCollection } from '@/lib/collection-sync'
+import { createRelease } from '@/test/fixtures'
+import type { DiscogsCollectionRelease } from '@/types/discogs'
+
+const PER_PAGE = 3
+
+/** A release added on the given day of January 2024 */
+const addedOn = (day: number) =>
+  createRelease(
+    {},
+    { date_added: new Date(Date.UTC(2024, 0, day)).toISOString() }
+  )
+
+/** Serves `live` (newest first) as Discogs pages of {@link PER_PAGE} */
+const servePages = (live: DiscogsCollectionRelease[]) =>
+  vi.fn((page: number) =>
+    Promise.resolve({
+      releases: live.slice((page - 1) * PER_PAGE, page * PER_PAGE),
+      pagination: {
+        page,
+        pages: Math.max(1, Math.ceil(live.length / PER_PAGE)),
+        per_page: PER_PAGE,
+        items: live.length,
+        urls: {}
+      }
+    })
+  )
+
+describe('diffCollection', () => {
+  // Newest first, spread over four pages
+  const cached = Array.from({ length: 10 }, (_, index) => addedOn(20 - index))
+  const without = (...removed: DiscogsCollectionRelease[]) =>
+    cached.filter((release) => !removed.includes(release))
+
+  it('finds releases added since the cache was fetched', async () => {
+    const newer = addedOn(25)
+    const newest = addedOn(26)
+    const fetchPage = servePages([newest, newer, ...cached])
+
+    expect(await diffCollection(cached, fetchPage)).toEqual({
+      added: [newest, newer],
+      removed: []
+    })
+  })
+
+  it('finds removed releases', async () => {
+    const [, second, , , , , , eighth] = cached
+    if (!second || !eighth) throw new Error('fixture too short')
+    const fetchPage = servePages(without(second, eighth))
+
+    expect(await diffCollection(cached, fetchPage)).toEqual({
+      added: [],
+      removed: [second, eighth]
+    })
+  })
+
+  it('only fetches the pages around a removal', async () => {
+    const removed = cached[1]
+    if (!removed) throw new Error('fixture too short')
+    const fetchPage = servePages(without(removed))
+
+    expect(await diffCollection(cached, fetchPage)).toEqual({
+      added: [],
+      removed: [removed]
+    })
+    expect(fetchPage.mock.calls.map(([page]) => page)).toEqual([1, 2])
+  })
+
+  it('finds an addition and a removal that leave the count unchanged', async () => {
+    const newest = addedOn(26)
+    const removed = cached[5]
+    if (!removed) throw new Error('fixture too short')
+    const fetchPage = servePages([newest, ...without(removed)])
+
+    expect(await diffCollection(cached, fetchPage)).toEqual({
+      added: [newest],
+      removed: [removed]
+    })
+  })
+
+  it('orders the cached releases by date added before comparing', async () => {
+    const shuffled = [...cached].sort((a, b) => (a.id % 3) - (b.id % 3))
+    const removed = cached[4]
+    if (!removed) throw new Error('fixture too short')
+    const fetchPage = servePages(without(removed))
+
+    expect(await diffCollection(shuffled, fetchPage)).toEqual({
+      added: [],
+      removed: [removed]
+    })
+  })
+
+  it('gives up when the live list does not line up with the cache', async () => {
+    // Added with a date in the past, so it isn't at the front of the list
+    const backdated = addedOn(15)
+    const live = [...cached]
+    live.splice(5, 0, backdated)
+    const fetchPage = servePages(live)
+
+    expect(await diffCollection(cached, fetchPage)).toBeNull()
+  })
+})
@@ -0,0 +1,153 @@
+// src/lib/collection-sync.ts
+import type {
+  DiscogsCollectionRelease,
+  DiscogsCollectionResponse
+} from '@/types/discogs'
+
+/** Instances added and removed on Discogs since the collection was cached */
+export interface CollectionDiff {
+  added: DiscogsCollectionRelease[]
+  removed: DiscogsCollectionRelease[]
+}
+
+/** Fetches one page of folder 0 sorted by `added`, newest first */
+type FetchAddedPage = (
+  page: number
+) => Promise<Pick<DiscogsCollectionResponse, 'releases' | 'pagination'>>
+
+/**
+ * The first cached instance on a live page, tying a position in the live
+ * list to one in the cached list. Between two anchors the live list holds
+ * every cached instance that wasn't removed, so comparing their distances
+ * counts removals without fetching the pages in between.
+ */
+interface Anchor {
+  page: number
+  cachedIndex: number
+  liveIndex: number
+}
+
+const addedTime = (release: DiscogsCollectionRelease) =>
+  Date.parse(release.date_added)
+
+const byAddedDesc = (
+  a: DiscogsCollectionRelease,
+  b: DiscogsCollectionRelease
+) => addedTime(b) - addedTime(a) || b.instance_id - a.instance_id
+
+/**
+ * Works out which instances were added and removed on Discogs since
+ * `cachedReleases` (the whole of folder 0) was fetched.
+ *
+ * Additions: pages sorted by date added are walked newest first until one
+ * holds a cached instance; everything before it is new. Removals: the live
+ * total tells how many cached instances are gone. Pages are then bisected,
+ * comparing each page's first cached instance with its cached position, so
+ * only pages around a removal are fetched (a handful of requests even for
+ * large collections).
+ *
+ * @param cachedReleases - Every cached instance of folder 0
+ * @param fetchPage - Fetches a live page, sorted by date added descending
+ * @returns The diff, or null when the cache and Discogs can't be reconciled
+ * (the caller should refetch everything instead)
+ */
+export async function diffCollection(
+  cachedReleases: DiscogsCollectionRelease[],
+  fetchPage: FetchAddedPage
+): Promise<CollectionDiff | null> {
+  const cached = [...cachedReleases].sort(byAddedDesc)
+  const cachedIndexById = new Map(
+    cached.map((release, index) => [release.instance_id, index])
+  )
+  const pages = new Map<number, DiscogsCollectionRelease[]>()
+
+  const firstPage = await fetchPage(1)
+  const { items: liveTotal, per_page: perPage } = firstPage.pagination
+  const lastPage = firstPage.pagination.pages
+  pages.set(1, firstPage.releases)
+
+  const loadPage = async (page: number) => {
+    const loaded = pages.get(page)
+    if (loaded) return loaded
+
+    const { releases } = await fetchPage(page)
+    pages.set(page, releases)
+    return releases
+  }
+
+  const findAnchor = async (page: number): Promise<Anchor | null> => {
+    const releases = await loadPage(page)
+    const position = releases.findIndex((release) =>
+      cachedIndexById.has(release.instance_id)
+    )
+    const release = releases[position]
+    if (!release) return null
+
+    return {
+      page,
+      cachedIndex: cachedIndexById.get(release.instance_id) ?? 0,
+      liveIndex: (page - 1) * perPage + position
+    }
+  }
+
+  const added: DiscogsCollectionRelease[] = []
+  let firstAnchor: Anchor | null = null
+  for (let page = 1; page <= lastPage; page += 1) {
+    firstAnchor = await findAnchor(page)
+    if (firstAnchor) {
+      const releases = await loadPage(page)
+      added.push(...releases.slice(0, firstAnchor.liveIndex % perPage))
+      break
+    }
+    added.push(...(await loadPage(page)))
+  }
+
+  if (!firstAnchor) {
+    return { added, removed: cached }
+  }
+
+  const removedCount = cached.length + added.length - liveTotal
+  if (removedCount < 0) return null
+
+  // Cached instances newer than the first anchor can only have been removed
+  const removed = cached.slice(0, firstAnchor.cachedIndex)
+
+  const collectRemoved = async (from: Anchor, to: Anchor): Promise<boolean> => {
+    const missing =
+      to.cachedIndex - from.cachedIndex - (to.liveIndex - from.liveIndex)
+    if (missing === 0) return true
+    if (missing < 0) return false
+
+    if (to.page - from.page <= 1) {
+      const liveIds = new Set(
+        (await loadPage(from.page)).map((release) => release.instance_id)
+      )
+      removed.push(
+        ...cached
+          .slice(from.cachedIndex, to.cachedIndex)
+          .filter((release) => !liveIds.has(release.instance_id))
+      )
+      return true
+    }
+
+    const middle = await findAnchor(Math.floor((from.page + to.page) / 2))
+    if (!middle) return false
+
+    return (
+      (await collectRemoved(from, middle)) && (await collectRemoved(middle, to))
+    )
+  }
+
+  const end: Anchor = {
+    page: lastPage + 1,
+    cachedIndex: cached.length,
+    liveIndex: liveTotal
+  }
+
+  if (!(await collectRemoved(firstAnchor, end))) return null
+  // Instances sharing a date_added may be ordered differently on Discogs,
+  // which can misplace an anchor; a count mismatch means we can't trust it
+  if (removed.length !== removedCount) return null
+
+  return { added, removed }
+}
@@ -45,6 +45,32 @@ export const COLLECTION = {
   PER_PAGE: 100
 } as const
 
+/**
+ * Marketplace lookups (per-release stats and price suggestions).
+ * Each lookup costs one request from the shared rate limit budget,
+ * so results are cached and persisted for half a day.
+ */
+export const MARKETPLACE = {
+  /** How long marketplace stats and price suggestions stay fresh */
+  STALE_TIME: 1000 * 60 * 60 * 12,
+  /**
+   * Most releases the value sort looks up prices for, newest additions
+   * first; the rest sort after them as unpriced
+   */
+  VALUE_SORT_LIMIT: 100,
+  /** Grades shown for price suggestions, best first, with short labels */
+  CONDITIONS: [
+    { grade: 'Mint (M)', short: 'M' },
+    { grade: 'Near Mint (NM or M-)', short: 'NM' },
+    { grade: 'Very Good Plus (VG+)', short: 'VG+' },
+    { grade: 'Very Good (VG)', short: 'VG' },
+    { grade: 'Good Plus (G+)', short: 'G+' },
+    { grade: 'Good (G)', short: 'G' },
+    { grade: 'Fair (F)', short: 'F' },
+    { grade: 'Poor (P)', short: 'P' }
+  ]
+} as const
+
 /**
  * Browser Cache API cache names.
  * Used by service worker (vite.config.ts) and auth-provider for cache management.
@@ -11,7 +11,7 @@ let isSetup = false
  *
  * Handles:
  * - Sign out: sessionActive becomes false → redirect to login
- * - Disconnect: tokens cleared → redirect to login
+ * - Disconnect: session cleared → redirect to login
  *
  * Security: Prevents logged-out tabs from remaining authenticated.
  *
@@ -38,7 +38,7 @@ export function setupCrossTabSync(): () => void {
         try {
           const newState = JSON.parse(event.newValue) as {
             state?: {
-              tokens?: unknown
+              hasSession?: boolean
               sessionActive?: boolean
             }
           }
@@ -46,15 +46,15 @@ export function setupCrossTabSync(): () => void {
 
           // Update store with new values from other tab
           if (newState.state) {
-            const { tokens, sessionActive } = newState.state
+            const { hasSession, sessionActive } = newState.state
 
-            if (!tokens) {
-              // Tokens cleared = disconnect in other tab
+            if (!hasSession) {
+              // Session cleared = disconnect in other tab
               // Call disconnect() to run side effects (reset avatar preferences, etc.)
               // Side effects are idempotent so safe to run in each tab
               store.disconnect()
             } else if (!sessionActive) {
-              // Session ended but tokens kept = sign out
+              // Session ended but cookie kept = sign out
               store.signOut()
             }
           }
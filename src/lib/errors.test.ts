@@ -0,0 +1,50 @@
+import { TRPCClientError } from '@trpc/client'
+import { describe, expect, it } from 'vitest'
+
+import { getErrorDetails, isAuthError } from '@/lib/errors'
+
+function clientError(data: Record<string, unknown>) {
+  return TRPCClientError.from({
+    error: { message: 'Failed', code: -32600, data }
+  })
+}
+
+describe('getErrorDetails', () => {
+  it('reads the details the server sent', () => {
+    const error = clientError({
+      code: 'TOO_MANY_REQUESTS',
+      kind: 'rate-limited',
+      upstreamStatus: 429,
+      retryAfter: 4
+    })
+
+    expect(getErrorDetails(error)).toEqual({
+      kind: 'rate-limited',
+      upstreamStatus: 429,
+      retryAfter: 4
+    })
+  })
+
+  it('treats tRPC errors without a response as network errors', () => {
+    const error = TRPCClientError.from(new TypeError('Failed to fetch'))
+
+    expect(getErrorDetails(error).kind).toBe('network')
+  })
+
+  it('treats other errors as unknown', () => {
+    expect(getErrorDetails(new Error('boom'))).toEqual({
+      kind: 'unknown',
+      upstreamStatus: null,
+      retryAfter: null
+    })
+  })
+})
+
+describe('isAuthError', () => {
+  it('recognizes UNAUTHORIZED and FORBIDDEN only', () => {
+    expect(isAuthError(clientError({ code: 'UNAUTHORIZED' }))).toBe(true)
+    expect(isAuthError(clientError({ code: 'FORBIDDEN' }))).toBe(true)
+    expect(isAuthError(clientError({ code: 'NOT_FOUND' }))).toBe(false)
+    expect(isAuthError(new Error('UNAUTHORIZED'))).toBe(false)
+  })
+})
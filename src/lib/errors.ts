@@ -1,5 +1,8 @@
 import { TRPCClientError } from '@trpc/client'
 
+import type { AppRouter } from '@/server/trpc/index.ts'
+import type { ErrorDetails } from '@/types/errors'
+
 /**
  * Custom error for offline state without cached profile.
  * Thrown when user tries to continue session while offline
@@ -23,7 +26,7 @@ export class OfflineNoCacheError extends Error {
  * Extracts the tRPC error code from a TRPCClientError.
  * Returns undefined if the error is not a TRPCClientError or has no code.
  */
-function getTRPCErrorCode(error: unknown): string | undefined {
+export function getTRPCErrorCode(error: unknown): string | undefined {
   if (!(error instanceof TRPCClientError)) {
     return undefined
   }
@@ -35,6 +38,40 @@ function getTRPCErrorCode(error: unknown): string | undefined {
   return undefined
 }
 
+/**
+ * Reads the error details the server attaches to every tRPC error.
+ *
+ * A tRPC error without data never got an answer from the API server
+ * (offline, DNS, a gateway error page), so it counts as `network`. Errors
+ * from anywhere else are `unknown`.
+ *
+ * @param error - Any error from a query or mutation
+ * @returns What went wrong, for picking a message and recovery action
+ */
+export function getErrorDetails(error: unknown): ErrorDetails {
+  if (error instanceof TRPCClientError) {
+    const data = (error as TRPCClientError<AppRouter>).data
+    return {
+      kind: data?.kind ?? 'network',
+      upstreamStatus: data?.upstreamStatus ?? null,
+      retryAfter: data?.retryAfter ?? null
+    }
+  }
+  return { kind: 'unknown', upstreamStatus: null, retryAfter: null }
+}
+
+/**
+ * Reads the ID of the API request that failed, which the server also logs
+ * and sends as `X-Request-Id`.
+ *
+ * @param error - Any error from a query or mutation
+ * @returns The request ID, or null for errors the server didn't answer
+ */
+export function getRequestId(error: unknown): string | null {
+  if (!(error instanceof TRPCClientError)) return null
+  return (error as TRPCClientError<AppRouter>).data?.requestId ?? null
+}
+
 /**
  * Checks if an error indicates invalid OAuth tokens.
  * Returns true for UNAUTHORIZED (401) and FORBIDDEN (403) errors.
@@ -54,7 +91,7 @@ export function isAuthError(error: unknown): boolean {
  * - UNAUTHORIZED (401) - Invalid credentials
  * - FORBIDDEN (403) - Insufficient permissions
  * - NOT_FOUND (404) - Resource doesn't exist
- * - TOO_MANY_REQUESTS (429) - Rate limited
+ * - TOO_MANY_REQUESTS (429) - Rate limited (the server already retried until its deadline)
  *
  * @param error - The error to check
  * @returns True if retrying would not resolve the error
@@ -4,3 +4,48 @@ export function getLimitedGenreParts(genres: string[], limit = 2): string[] {
     .filter(Boolean)
     .slice(0, limit)
 }
+
+/**
+ * Joins release artists the way Discogs credits them, honoring name
+ * variations (anv) and join strings such as "&" or "Feat.".
+ * Strips the numeric disambiguation suffix Discogs adds to duplicate names.
+ *
+ * @param artists - Artists from a release or track
+ * @returns Display string, e.g. "Simon & Garfunkel"
+ */
+export function formatArtistCredit(
+  artists: Array<{ name: string; anv?: string; join?: string }>
+): string {
+  return artists
+    .map((artist, index) => {
+      const name = (artist.anv || artist.name).replace(/\s\(\d+\)$/, '')
+      const isLast = index === artists.length - 1
+      const join = artist.join?.trim()
+      if (isLast) return name
+      if (!join || join === ',') return `${name}, `
+      return `${name} ${join} `
+    })
+    .join('')
+}
+
+/**
+ * Formats a marketplace price in its own currency for the active locale.
+ *
+ * @param price - Amount and ISO currency code from the marketplace API
+ * @param locale - BCP 47 locale, usually i18n.language
+ * @returns Localized price, e.g. "€24.99" or "24,99 €"
+ */
+export function formatPrice(
+  price: { value: number; currency: string },
+  locale: string
+): string {
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: price.currency
+    }).format(price.value)
+  } catch {
+    // Unknown currency code - fall back to the plain amount
+    return `${price.value.toFixed(2)} ${price.currency}`
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { loadFullCollection } from '@/lib/full-collection'
+import { createRelease } from '@/test/fixtures'
+import type { DiscogsPagination } from '@/types/discogs'
+
+const PAGINATION: DiscogsPagination = {
+  page: 1,
+  pages: 3,
+  per_page: 100,
+  items: 3,
+  urls: {}
+}
+
+async function* stream<T>(events: T[]) {
+  for (const event of events) {
+    yield await Promise.resolve(event)
+  }
+}
+
+describe('loadFullCollection', () => {
+  it('resumes from the cursor until every page is loaded', async () => {
+    const [first, second, third] = [
+      createRelease(),
+      createRelease(),
+      createRelease()
+    ]
+    const streamPages = vi.fn((startPage: number) =>
+      Promise.resolve(
+        startPage === 1
+          ? stream([
+              { type: 'progress' as const, page: 1, pages: 3 },
+              { type: 'progress' as const, page: 2, pages: 3 },
+              {
+                type: 'complete' as const,
+                releases: [first, second],
+                pagination: PAGINATION,
+                nextPage: 3
+              }
+            ])
+          : stream([
+              { type: 'progress' as const, page: 3, pages: 3 },
+              {
+                type: 'complete' as const,
+                releases: [third],
+                pagination: { ...PAGINATION, page: 3 },
+                nextPage: null
+              }
+            ])
+      )
+    )
+    const onProgress = vi.fn()
+
+    const result = await loadFullCollection(streamPages, onProgress)
+
+    expect(streamPages.mock.calls).toEqual([[1], [3]])
+    expect(result.releases).toEqual([first, second, third])
+    expect(result.pagination).toBe(PAGINATION)
+    expect(onProgress.mock.calls).toEqual([
+      [{ page: 1, pages: 3 }],
+      [{ page: 2, pages: 3 }],
+      [{ page: 3, pages: 3 }],
+      [null]
+    ])
+  })
+
+  it('fails when a stream ends early, clearing the progress', async () => {
+    const onProgress = vi.fn()
+
+    await expect(
+      loadFullCollection(
+        () =>
+          Promise.resolve(
+            stream([{ type: 'progress' as const, page: 1, pages: 2 }])
+          ),
+        onProgress
+      )
+    ).rejects.toThrow('Collection stream ended before all pages loaded')
+    expect(onProgress).toHaveBeenLastCalledWith(null)
+  })
+})
@@ -0,0 +1,93 @@
+// src/lib/full-collection.ts
+import { rateLimiter } from '@/api/rate-limiter'
+import type {
+  DiscogsCollectionRelease,
+  DiscogsPagination
+} from '@/types/discogs'
+
+type StreamRateLimit =
+  | Parameters<typeof rateLimiter.updateFromRateLimit>[0]
+  | undefined
+
+/** Events of the `discogs.getFullCollection` stream */
+type FullCollectionEvent =
+  | {
+      type: 'progress'
+      page: number
+      pages: number
+      rateLimit?: StreamRateLimit
+    }
+  | {
+      type: 'complete'
+      releases: DiscogsCollectionRelease[]
+      pagination: DiscogsPagination
+      /** Page to resume from, or null once every page was sent */
+      nextPage: number | null
+      rateLimit?: StreamRateLimit
+    }
+
+export interface LoadProgress {
+  /** Last page the server has fetched */
+  page: number
+  pages: number
+}
+
+/**
+ * Loads every page of a collection folder through the streamed
+ * `getFullCollection` procedure. The server stops each stream at a time
+ * budget, so streams are started again from its cursor until none is left.
+ *
+ * Kept out of `useCollection`: the React Compiler can't compile `for await`
+ * loops, and would skip the whole hook.
+ *
+ * @param streamPages - Starts a stream at the given page
+ * @param onProgress - Receives each page fetched, then null once done
+ * @returns Every release, with the pagination of the first page
+ */
+export async function loadFullCollection(
+  streamPages: (
+    startPage: number
+  ) => Promise<AsyncIterable<FullCollectionEvent>>,
+  onProgress: (progress: LoadProgress | null) => void
+): Promise<{
+  releases: DiscogsCollectionRelease[]
+  pagination: DiscogsPagination
+  rateLimit: StreamRateLimit
+}> {
+  const loadPages = async (startPage: number) => {
+    await rateLimiter.waitIfNeeded()
+
+    for await (const event of await streamPages(startPage)) {
+      // Cached pages carry no rateLimit: they didn't reach Discogs
+      if (event.rateLimit) {
+        rateLimiter.updateFromRateLimit(event.rateLimit)
+      }
+
+      if (event.type === 'complete') {
+        return event
+      }
+
+      onProgress({ page: event.page, pages: event.pages })
+    }
+
+    throw new Error('Collection stream ended before all pages loaded')
+  }
+
+  try {
+    const first = await loadPages(1)
+    const releases = [...first.releases]
+    let last = first
+    while (last.nextPage !== null) {
+      last = await loadPages(last.nextPage)
+      releases.push(...last.releases)
+    }
+
+    return {
+      releases,
+      pagination: first.pagination,
+      rateLimit: last.rateLimit
+    }
+  } finally {
+    onProgress(null)
+  }
+}
@@ -0,0 +1,57 @@
+// src/lib/list-positions.ts
+import { SESSION_KEYS } from '@/lib/storage-keys'
+
+/** Older entries are dropped; nobody goes back this far */
+const MAX_ENTRIES = 20
+
+type ListPositions = Record<string, number>
+
+function readPositions(): ListPositions {
+  try {
+    const stored = sessionStorage.getItem(SESSION_KEYS.LIST_POSITIONS)
+    const parsed: unknown = stored ? JSON.parse(stored) : null
+    return typeof parsed === 'object' && parsed !== null
+      ? (parsed as ListPositions)
+      : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Remembers the first visible item of a scrolling list, so going back to
+ * it can scroll there again.
+ *
+ * @param key - Identifies the visit, e.g. the history entry's key
+ * @param index - Index of the first visible item
+ */
+export function saveListPosition(key: string, index: number): void {
+  // Re-adding the key moves it last, so the oldest visits are dropped first
+  const entries = Object.entries(readPositions()).filter(
+    ([savedKey]) => savedKey !== key
+  )
+  entries.push([key, index])
+  const positions = Object.fromEntries(entries.slice(-MAX_ENTRIES))
+
+  try {
+    sessionStorage.setItem(
+      SESSION_KEYS.LIST_POSITIONS,
+      JSON.stringify(positions)
+    )
+  } catch {
+    // Storage full or unavailable: the list just starts at the top
+  }
+}
+
+/**
+ * Reads the position saved by {@link saveListPosition}.
+ *
+ * @param key - Identifies the visit
+ * @returns Index of the first visible item, or null if none was saved
+ */
+export function readListPosition(key: string): number | null {
+  const index = readPositions()[key]
+  return typeof index === 'number' && Number.isInteger(index) && index >= 0
+    ? index
+    : null
+}
@@ -1,7 +1,7 @@
 // src/lib/oauth-session.ts
 /**
  * Temporary OAuth session helpers (sessionStorage only).
- * Access tokens are managed by Zustand auth-store.
+ * Access tokens are kept server-side in an encrypted HttpOnly session cookie.
  *
  * sessionStorage is appropriate for these temporary tokens because:
  * - They're short-lived (only during OAuth flow)
@@ -9,7 +9,7 @@
  * - Isolated per tab (prevents cross-tab interference during OAuth)
  */
 import { SESSION_KEYS } from '@/lib/storage-keys'
-import type { OAuthRequestTokens } from '@/types/discogs'
+import type { OAuthRequestTokens, OAuthStatePayload } from '@/types/discogs'
 
 export function getOAuthRequestTokens(): OAuthRequestTokens | null {
   try {
@@ -17,12 +17,13 @@ export function getOAuthRequestTokens(): OAuthRequestTokens | null {
     const requestTokenSecret = sessionStorage.getItem(
       SESSION_KEYS.OAUTH_REQUEST_SECRET
     )
+    const state = sessionStorage.getItem(SESSION_KEYS.OAUTH_STATE)
 
-    if (!requestToken || !requestTokenSecret) {
+    if (!requestToken || !requestTokenSecret || !state) {
       return null
     }
 
-    return { requestToken, requestTokenSecret }
+    return { requestToken, requestTokenSecret, state }
   } catch {
     // sessionStorage may throw in private browsing mode
     return null
@@ -36,6 +37,7 @@ export function setOAuthRequestTokens(tokens: OAuthRequestTokens): void {
       SESSION_KEYS.OAUTH_REQUEST_SECRET,
       tokens.requestTokenSecret
     )
+    sessionStorage.setItem(SESSION_KEYS.OAUTH_STATE, tokens.state)
   } catch {
     // Ignore storage errors (private browsing, quota exceeded)
   }
@@ -45,7 +47,61 @@ export function clearOAuthRequestTokens(): void {
   try {
     sessionStorage.removeItem(SESSION_KEYS.OAUTH_REQUEST)
     sessionStorage.removeItem(SESSION_KEYS.OAUTH_REQUEST_SECRET)
+    sessionStorage.removeItem(SESSION_KEYS.OAUTH_STATE)
   } catch {
     // Ignore storage errors
   }
 }
+
+/**
+ * Records that a request token has been exchanged, so reloading or
+ * revisiting its callback URL can be told apart from a lost session.
+ */
+export function markOAuthRequestTokenUsed(requestToken: string): void {
+  try {
+    sessionStorage.setItem(SESSION_KEYS.OAUTH_USED_TOKEN, requestToken)
+  } catch {
+    // Ignore storage errors
+  }
+}
+
+export function isOAuthRequestTokenUsed(requestToken: string): boolean {
+  try {
+    return (
+      sessionStorage.getItem(SESSION_KEYS.OAUTH_USED_TOKEN) === requestToken
+    )
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Reads the payload of signed OAuth state without checking the signature
+ * (the server does that). Lets the callback reject stale or mismatched
+ * callbacks before calling the server.
+ *
+ * @returns The payload, or null if the state is malformed
+ */
+export function readOAuthState(state: string): OAuthStatePayload | null {
+  const [body] = state.split('.')
+  if (!body) return null
+
+  try {
+    const payload: unknown = JSON.parse(
+      atob(body.replace(/-/g, '+').replace(/_/g, '/'))
+    )
+    if (
+      typeof payload === 'object' &&
+      payload !== null &&
+      'requestToken' in payload &&
+      'exp' in payload &&
+      typeof payload.requestToken === 'string' &&
+      typeof payload.exp === 'number'
+    ) {
+      return payload as OAuthStatePayload
+    }
+    return null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+
+import { isValidRedirectUrl } from '@/lib/redirect-utils'
+
+describe('isValidRedirectUrl', () => {
+  it('allows internal paths with query and hash', () => {
+    expect(isValidRedirectUrl('/collection')).toBe(true)
+    expect(isValidRedirectUrl('/collection?style=Rock')).toBe(true)
+    expect(isValidRedirectUrl('/settings#appearance')).toBe(true)
+    expect(isValidRedirectUrl('/login-help')).toBe(true)
+  })
+
+  it('rejects absolute and protocol-relative URLs', () => {
+    expect(isValidRedirectUrl('https://evil.com')).toBe(false)
+    expect(isValidRedirectUrl('//evil.com')).toBe(false)
+    expect(isValidRedirectUrl('/%2f%2fevil.com')).toBe(false)
+  })
+
+  it('rejects backslash tricks and bad encoding', () => {
+    expect(isValidRedirectUrl('/\\evil.com')).toBe(false)
+    expect(isValidRedirectUrl('/%5Cevil.com')).toBe(false)
+    expect(isValidRedirectUrl('/%E0%A4%A')).toBe(false)
+  })
+
+  it('rejects the login page to avoid redirect loops', () => {
+    expect(isValidRedirectUrl('/login')).toBe(false)
+    expect(isValidRedirectUrl('/login?next=1')).toBe(false)
+    expect(isValidRedirectUrl('/%6Cogin')).toBe(false)
+  })
+})
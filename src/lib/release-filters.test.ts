@@ -0,0 +1,526 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  clampYearRange,
+  type CollectionSelectedFilters,
+  EMPTY_FACET_FILTER,
+  type FacetFilter,
+  getFilterOptions,
+  getFilterSearchParams,
+  getJumpSections,
+  getNonVinylBreakdown,
+  getValueSortReleaseIds,
+  matchesFilters,
+  readFiltersFromParams,
+  seededShuffle,
+  sortReleases,
+  sortSizes,
+  toggleExcluded,
+  toggleIncluded
+} from '@/lib/release-filters'
+import { createRelease } from '@/test/fixtures'
+
+const NO_FILTERS: CollectionSelectedFilters = {
+  genres: EMPTY_FACET_FILTER,
+  styles: EMPTY_FACET_FILTER,
+  labels: EMPTY_FACET_FILTER,
+  types: EMPTY_FACET_FILTER,
+  sizes: EMPTY_FACET_FILTER,
+  countries: EMPTY_FACET_FILTER,
+  yearRange: null,
+  minRating: null,
+  fields: {}
+}
+
+const include = (...values: string[]): FacetFilter => ({
+  ...EMPTY_FACET_FILTER,
+  included: values
+})
+
+describe('sortSizes', () => {
+  it('orders sizes by their number', () => {
+    expect(sortSizes(['12"', '7"', '10"'])).toEqual(['7"', '10"', '12"'])
+  })
+
+  it('puts sizes without a number after the rest in text order', () => {
+    expect(sortSizes(['Flexi', '12"', 'Cylinder'])).toEqual([
+      '12"',
+      'Cylinder',
+      'Flexi'
+    ])
+  })
+})
+
+describe('matchesFilters', () => {
+  const release = createRelease(
+    {
+      genres: ['Jazz'],
+      styles: ['Hard Bop'],
+      country: 'US',
+      year: 1957,
+      formats: [{ name: 'Vinyl', qty: '1', descriptions: ['12"', 'LP'] }]
+    },
+    { rating: 4, notes: [{ field_id: 1, value: 'Mint (M)' }] }
+  )
+
+  it('passes with no filters selected', () => {
+    expect(matchesFilters(release, NO_FILTERS)).toBe(true)
+  })
+
+  it('matches any of the values within a facet', () => {
+    expect(
+      matchesFilters(release, {
+        ...NO_FILTERS,
+        genres: include('Rock', 'Jazz')
+      })
+    ).toBe(true)
+    expect(
+      matchesFilters(release, { ...NO_FILTERS, genres: include('Rock') })
+    ).toBe(false)
+  })
+
+  it('leaves out releases with an excluded value', () => {
+    expect(
+      matchesFilters(release, {
+        ...NO_FILTERS,
+        genres: { ...include('Jazz'), excluded: ['Pop'] }
+      })
+    ).toBe(true)
+    expect(
+      matchesFilters(release, {
+        ...NO_FILTERS,
+        genres: include('Jazz'),
+        styles: { ...EMPTY_FACET_FILTER, excluded: ['Hard Bop'] }
+      })
+    ).toBe(false)
+    expect(
+      matchesFilters(release, {
+        ...NO_FILTERS,
+        fields: { 1: { ...EMPTY_FACET_FILTER, excluded: ['Mint (M)'] } }
+      })
+    ).toBe(false)
+  })
+
+  it('requires every included value in all mode', () => {
+    const fusion = createRelease({ genres: ['Jazz', 'Funk / Soul'] })
+    const jazzAndFunk: FacetFilter = {
+      ...include('Jazz', 'Funk / Soul'),
+      mode: 'all'
+    }
+
+    expect(matchesFilters(fusion, { ...NO_FILTERS, genres: jazzAndFunk })).toBe(
+      true
+    )
+    expect(
+      matchesFilters(release, { ...NO_FILTERS, genres: jazzAndFunk })
+    ).toBe(false)
+  })
+
+  it('requires every facet to match', () => {
+    expect(
+      matchesFilters(release, {
+        ...NO_FILTERS,
+        genres: include('Jazz'),
+        countries: include('UK')
+      })
+    ).toBe(false)
+  })
+
+  it('matches vinyl types and sizes from the format descriptions', () => {
+    expect(
+      matchesFilters(release, {
+        ...NO_FILTERS,
+        types: include('LP'),
+        sizes: include('12"')
+      })
+    ).toBe(true)
+    expect(
+      matchesFilters(release, { ...NO_FILTERS, sizes: include('7"') })
+    ).toBe(false)
+  })
+
+  it('filters by minimum rating and custom field values', () => {
+    expect(matchesFilters(release, { ...NO_FILTERS, minRating: 4 })).toBe(true)
+    expect(matchesFilters(release, { ...NO_FILTERS, minRating: 5 })).toBe(false)
+    expect(
+      matchesFilters(release, {
+        ...NO_FILTERS,
+        fields: { 1: include('Mint (M)') }
+      })
+    ).toBe(true)
+    expect(
+      matchesFilters(release, {
+        ...NO_FILTERS,
+        fields: { 2: include('Mint (M)') }
+      })
+    ).toBe(false)
+  })
+
+  it('leaves out releases without a year when a year range is set', () => {
+    const undated = createRelease({ year: 0 })
+    const range: [number, number] = [1950, 1960]
+
+    expect(matchesFilters(release, { ...NO_FILTERS, yearRange: range })).toBe(
+      true
+    )
+    expect(matchesFilters(undated, { ...NO_FILTERS, yearRange: range })).toBe(
+      false
+    )
+  })
+})
+
+describe('clampYearRange', () => {
+  it('fits the selection into the bounds', () => {
+    expect(clampYearRange([1900, 1980], [1960, 2020])).toEqual([1960, 1980])
+  })
+
+  it('falls back to the bounds for a selection outside them', () => {
+    expect(clampYearRange([1900, 1950], [1960, 2020])).toEqual([1960, 2020])
+  })
+
+  it('uses the bounds without a selection, and the selection without bounds', () => {
+    expect(clampYearRange(null, [1960, 2020])).toEqual([1960, 2020])
+    expect(clampYearRange([1970, 1980], null)).toEqual([1970, 1980])
+  })
+})
+
+describe('getFilterOptions', () => {
+  it('counts facet values and keeps selected values without releases', () => {
+    const releases = [
+      createRelease({ genres: ['Jazz'], year: 1960 }),
+      createRelease({ genres: ['Jazz', 'Funk / Soul'], year: 1975 }),
+      createRelease({ genres: ['Rock'], year: 0 })
+    ]
+
+    const options = getFilterOptions(
+      releases,
+      { ...NO_FILTERS, genres: include('Classical') },
+      []
+    )
+
+    expect(options.genres).toEqual([
+      { value: 'Classical', count: 0 },
+      { value: 'Funk / Soul', count: 1 },
+      { value: 'Jazz', count: 2 },
+      { value: 'Rock', count: 1 }
+    ])
+    expect(options.yearBounds).toEqual([1960, 1975])
+  })
+
+  it('keeps custom dropdown options in their defined order', () => {
+    const releases = [
+      createRelease({}, { notes: [{ field_id: 1, value: 'Good (G)' }] }),
+      createRelease({}, { notes: [{ field_id: 1, value: 'Renamed' }] })
+    ]
+
+    const [field] = getFilterOptions(releases, NO_FILTERS, [
+      {
+        id: 1,
+        name: 'Media Condition',
+        position: 1,
+        type: 'dropdown',
+        public: true,
+        options: ['Mint (M)', 'Good (G)']
+      }
+    ]).fields
+
+    expect(field?.options).toEqual([
+      { value: 'Mint (M)', count: 0 },
+      { value: 'Good (G)', count: 1 },
+      { value: 'Renamed', count: 1 }
+    ])
+  })
+})
+
+describe('getNonVinylBreakdown', () => {
+  it('counts non-vinyl releases by format, most common first', () => {
+    const cd = { name: 'CD', qty: '1' }
+    const breakdown = getNonVinylBreakdown([
+      createRelease(),
+      createRelease({ formats: [cd] }),
+      createRelease({ formats: [cd] }),
+      createRelease({ formats: [{ name: 'Cassette', qty: '1' }] })
+    ])
+
+    expect(breakdown).toEqual({
+      total: 3,
+      breakdown: [
+        { format: 'CD', count: 2 },
+        { format: 'Cassette', count: 1 }
+      ]
+    })
+  })
+})
+
+describe('seededShuffle', () => {
+  const items = Array.from({ length: 20 }, (_, index) => index)
+
+  it('gives the same order for the same seed', () => {
+    expect(seededShuffle(items, 42)).toEqual(seededShuffle(items, 42))
+    expect(seededShuffle(items, 42)).not.toEqual(seededShuffle(items, 43))
+  })
+
+  it('keeps every item and leaves the input alone', () => {
+    const shuffled = seededShuffle(items, 7)
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items)
+    expect(items[0]).toBe(0)
+  })
+})
+
+describe('sortReleases', () => {
+  const a = createRelease({ title: 'Alpha', year: 1980 }, { rating: 3 })
+  const b = createRelease({ title: 'beta', year: 1970 }, { rating: 5 })
+  const c = createRelease({ title: 'Gamma', year: 1990 }, { rating: 3 })
+  const options = {
+    sortOrder: 'asc',
+    randomSeed: 1,
+    sortLocally: true
+  } as const
+
+  it('sorts by title ignoring case', () => {
+    expect(sortReleases([c, b, a], { ...options, sort: 'title' })).toEqual([
+      a,
+      b,
+      c
+    ])
+  })
+
+  it('breaks rating ties by title and honors the order', () => {
+    expect(
+      sortReleases([c, a, b], {
+        ...options,
+        sort: 'rating',
+        sortOrder: 'desc'
+      })
+    ).toEqual([b, c, a])
+  })
+
+  it('trusts the input order when not sorting locally', () => {
+    expect(
+      sortReleases([c, a, b], {
+        ...options,
+        sort: 'releaseYear',
+        sortLocally: false
+      })
+    ).toEqual([c, a, b])
+  })
+
+  it('keeps releases without a value last', () => {
+    const values = new Map([
+      [a.id, 10],
+      [c.id, 5]
+    ])
+    expect(
+      sortReleases([b, a, c], {
+        ...options,
+        sort: 'value',
+        sortOrder: 'desc',
+        getSortValue: (release) => values.get(release.id)
+      })
+    ).toEqual([a, c, b])
+  })
+
+  it('puts the best matches first for relevance, whatever the order', () => {
+    const scores = new Map([
+      [a, 1],
+      [b, 3],
+      [c, 1]
+    ])
+    expect(
+      sortReleases([c, a, b], {
+        ...options,
+        sort: 'relevance',
+        sortLocally: false,
+        getRelevance: (release) => scores.get(release) ?? 0
+      })
+    ).toEqual([b, c, a])
+  })
+})
+
+describe('getValueSortReleaseIds', () => {
+  it('picks the most recently added vinyl, whatever the order', () => {
+    const older = createRelease({}, { date_added: '2021-03-01T00:00:00-08:00' })
+    const newest = createRelease(
+      {},
+      { date_added: '2024-06-01T00:00:00-08:00' }
+    )
+    const newer = createRelease({}, { date_added: '2023-01-01T00:00:00-08:00' })
+    const cd = createRelease(
+      { formats: [{ name: 'CD', qty: '1' }] },
+      { date_added: '2025-01-01T00:00:00-08:00' }
+    )
+
+    expect(getValueSortReleaseIds([older, newest, cd, newer], 2)).toEqual({
+      releaseIds: [newest.id, newer.id],
+      skippedCount: 1
+    })
+  })
+})
+
+describe('getJumpSections', () => {
+  it('starts a section at each new first letter', () => {
+    const releases = [
+      createRelease({ title: 'Abbey Road' }),
+      createRelease({ title: 'Animals' }),
+      createRelease({ title: 'Ænima' }),
+      createRelease({ title: 'élan' }),
+      createRelease({ title: '1999' })
+    ]
+
+    expect(getJumpSections(releases, 'title')).toEqual([
+      { label: 'A', index: 0 },
+      { label: 'Æ', index: 2 },
+      { label: 'E', index: 3 },
+      { label: '#', index: 4 }
+    ])
+  })
+
+  it('lists each label once when the order only roughly matches', () => {
+    const releases = [
+      createRelease({ artists: [{ id: 1, name: 'Björk' }] }),
+      createRelease({ artists: [{ id: 2, name: 'Can' }] }),
+      createRelease({ artists: [{ id: 3, name: 'Blur' }] })
+    ]
+
+    expect(getJumpSections(releases, 'artist')).toEqual([
+      { label: 'B', index: 0 },
+      { label: 'C', index: 1 }
+    ])
+  })
+
+  it('uses release years, or decades when there are many', () => {
+    const years = [1959, 1959, 1977, 0]
+    expect(
+      getJumpSections(
+        years.map((year) => createRelease({ year })),
+        'releaseYear'
+      )
+    ).toEqual([
+      { label: '1959', index: 0 },
+      { label: '1977', index: 2 },
+      { label: '#', index: 3 }
+    ])
+
+    const manyYears = Array.from({ length: 40 }, (_, i) =>
+      createRelease({ year: 1950 + i })
+    )
+    expect(
+      getJumpSections(manyYears, 'releaseYear').map((section) => section.label)
+    ).toEqual(['1950s', '1960s', '1970s', '1980s'])
+  })
+
+  it('uses the year a release was added for the added sort', () => {
+    const releases = [
+      createRelease({}, { date_added: '2024-03-01T00:00:00-08:00' }),
+      createRelease({}, { date_added: '2021-06-01T00:00:00-08:00' })
+    ]
+
+    expect(getJumpSections(releases, 'added')).toEqual([
+      { label: '2024', index: 0 },
+      { label: '2021', index: 1 }
+    ])
+  })
+
+  it('has no sections for sorts without a natural grouping', () => {
+    const releases = [createRelease(), createRelease()]
+    expect(getJumpSections(releases, 'rating')).toEqual([])
+    expect(getJumpSections(releases, 'random')).toEqual([])
+  })
+})
+
+describe('filter URL params', () => {
+  /** The params a URL would hold after applying the updates */
+  const toParams = (updates: ReturnType<typeof getFilterSearchParams>) => {
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(updates)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item) params.append(key, item)
+      }
+    }
+    return params
+  }
+
+  it('reads filters and drops invalid values', () => {
+    const filters = readFiltersFromParams(
+      new URLSearchParams(
+        'genre=Jazz&genre=Rock&year=1990-1970&rating=9&field2=Mint%20(M)'
+      )
+    )
+
+    expect(filters).toEqual({
+      ...NO_FILTERS,
+      genres: include('Jazz', 'Rock'),
+      yearRange: [1970, 1990],
+      fields: { 2: include('Mint (M)') }
+    })
+  })
+
+  it('round-trips through the search params it writes', () => {
+    const filters: CollectionSelectedFilters = {
+      ...NO_FILTERS,
+      styles: include('Hard Bop'),
+      yearRange: [1955, 1965],
+      minRating: 3,
+      fields: { 1: include('Near Mint (NM or M-)') }
+    }
+    const updates = getFilterSearchParams(filters, {
+      yearRangeActive: true,
+      currentParams: new URLSearchParams('field4=Poor%20(P)')
+    })
+
+    expect(updates['field4']).toBeNull()
+
+    expect(readFiltersFromParams(toParams(updates))).toEqual(filters)
+  })
+
+  it('round-trips exclusions and the all mode', () => {
+    const filters: CollectionSelectedFilters = {
+      ...NO_FILTERS,
+      genres: { ...include('Rock'), excluded: ['Pop'] },
+      types: { ...include('LP', 'Gatefold'), mode: 'all' },
+      fields: { 1: { ...EMPTY_FACET_FILTER, excluded: ['Poor (P)'] } }
+    }
+    const updates = getFilterSearchParams(filters, {
+      yearRangeActive: false,
+      currentParams: new URLSearchParams('field4-not=Fair%20(F)')
+    })
+
+    expect(updates).toMatchObject({
+      genre: ['Rock'],
+      'genre-not': ['Pop'],
+      type: ['LP', 'Gatefold'],
+      'type-mode': 'all',
+      'field1-not': ['Poor (P)'],
+      'field4-not': null
+    })
+
+    expect(readFiltersFromParams(toParams(updates))).toEqual(filters)
+  })
+
+  it('keeps the match mode in step with the URL as values are toggled', () => {
+    const roundTrip = (types: FacetFilter) => {
+      const updates = getFilterSearchParams(
+        { ...NO_FILTERS, types },
+        { yearRangeActive: false, currentParams: new URLSearchParams() }
+      )
+      return readFiltersFromParams(toParams(updates)).types
+    }
+
+    const both = { ...include('LP', 'Gatefold'), mode: 'all' as const }
+    const one = toggleIncluded(both, 'LP')
+    const none = toggleExcluded(one, 'Gatefold')
+
+    expect(roundTrip(one)).toEqual(one)
+    expect(none).toEqual({ ...EMPTY_FACET_FILTER, excluded: ['Gatefold'] })
+    expect(roundTrip(none)).toEqual(none)
+    expect(toggleIncluded(none, 'LP').mode).toBe('any')
+  })
+
+  it('leaves an inactive year range out of the URL', () => {
+    const updates = getFilterSearchParams(
+      { ...NO_FILTERS, yearRange: [1960, 2020] },
+      { yearRangeActive: false, currentParams: new URLSearchParams() }
+    )
+    expect(updates['year']).toBeNull()
+  })
+})
@@ -0,0 +1,807 @@
+// src/lib/release-filters.ts
+import {
+  extractVinylDescriptors,
+  getNoteValue,
+  isVinylRecord
+} from '@/api/discogs'
+import {
+  readParamInteger,
+  readParamList,
+  readParamRange,
+  type SearchParamValue
+} from '@/lib/url-state'
+import type {
+  CollectionSortKey,
+  CollectionSortOrder,
+  DiscogsCollectionField,
+  DiscogsListItem
+} from '@/types/discogs'
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: 'base'
+})
+
+const sortValues = (values: Set<string>) =>
+  Array.from(values).sort((a, b) => collator.compare(a, b))
+
+/**
+ * Sorts vinyl sizes by their number (7" before 10" before 12"), falling
+ * back to natural text order for the rest.
+ *
+ * @param values - Size descriptors; sorted in place
+ * @returns The same array
+ */
+export const sortSizes = (values: string[]): string[] =>
+  values.sort((a, b) => {
+    const aNumber = Number.parseFloat(a)
+    const bNumber = Number.parseFloat(b)
+    if (
+      !Number.isNaN(aNumber) &&
+      !Number.isNaN(bNumber) &&
+      aNumber !== bNumber
+    ) {
+      return aNumber - bNumber
+    }
+    return collator.compare(a, b)
+  })
+
+const FILTER_PARAM_KEYS = {
+  genres: 'genre',
+  styles: 'style',
+  labels: 'label',
+  types: 'type',
+  sizes: 'size',
+  countries: 'country',
+  yearRange: 'year',
+  minRating: 'rating'
+} as const
+
+/** The search box query (see `search-query.ts`) is stored as `q` */
+export const SEARCH_PARAM_KEY = 'q'
+
+/**
+ * Excluded facet values go in a `-not` param next to the facet's own, e.g.
+ * `genre=Rock&genre-not=Pop`; facets matching all of their values add
+ * `-mode=all`, e.g. `type=LP&type=Gatefold&type-mode=all`
+ */
+const EXCLUDED_PARAM_SUFFIX = '-not'
+const MODE_PARAM_SUFFIX = '-mode'
+
+/** Custom field filters are stored as `field<id>` params, e.g. `field1=Mint (M)` */
+const FIELD_PARAM_PATTERN = /^field(\d+)(?:-not|-mode)?$/
+
+const getFieldParamKey = (fieldId: number) => `field${fieldId}`
+
+export interface FilterOption {
+  value: string
+  count: number
+}
+
+/** Facet options for one custom dropdown field */
+export interface CustomFieldFilterOption {
+  id: number
+  name: string
+  options: FilterOption[]
+}
+
+export interface CollectionFilterOptions {
+  genres: FilterOption[]
+  styles: FilterOption[]
+  labels: FilterOption[]
+  types: FilterOption[]
+  sizes: FilterOption[]
+  countries: FilterOption[]
+  yearBounds: [number, number] | null
+  fields: CustomFieldFilterOption[]
+}
+
+/** Whether a release needs any or all of a facet's included values */
+export type FacetMatchMode = 'any' | 'all'
+
+/** Selection within one facet, e.g. "Rock but not Pop" for genres */
+export interface FacetFilter {
+  /** Values a release must have (one of them, or all, per `mode`) */
+  included: string[]
+  /** Values that leave a release out, whatever the mode */
+  excluded: string[]
+  mode: FacetMatchMode
+}
+
+export const EMPTY_FACET_FILTER: FacetFilter = {
+  included: [],
+  excluded: [],
+  mode: 'any'
+}
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value]
+
+/**
+ * The match mode only applies to included values and only they write it
+ * to the URL, so it goes back to `any` once the last one is removed.
+ */
+const withIncluded = (
+  filter: FacetFilter,
+  included: string[]
+): FacetFilter => ({
+  ...filter,
+  included,
+  mode: included.length > 0 ? filter.mode : 'any'
+})
+
+/**
+ * Includes a facet value, or removes it if included. A value is either
+ * included or excluded, so this also un-excludes it.
+ */
+export const toggleIncluded = (
+  filter: FacetFilter,
+  value: string
+): FacetFilter => ({
+  ...withIncluded(filter, toggleValue(filter.included, value)),
+  excluded: filter.excluded.filter((item) => item !== value)
+})
+
+/** Excludes a facet value, or removes the exclusion; see {@link toggleIncluded} */
+export const toggleExcluded = (
+  filter: FacetFilter,
+  value: string
+): FacetFilter => ({
+  ...withIncluded(
+    filter,
+    filter.included.filter((item) => item !== value)
+  ),
+  excluded: toggleValue(filter.excluded, value)
+})
+
+export interface CollectionSelectedFilters {
+  genres: FacetFilter
+  styles: FacetFilter
+  labels: FacetFilter
+  types: FacetFilter
+  sizes: FacetFilter
+  countries: FacetFilter
+  yearRange: [number, number] | null
+  /** Minimum star rating (1-5), or null for any rating */
+  minRating: number | null
+  /** Selection per custom field ID */
+  fields: Record<number, FacetFilter>
+}
+
+/** Vinyl types and sizes of a release (see `extractVinylDescriptors`) */
+export interface VinylDescriptors {
+  types: string[]
+  sizes: string[]
+}
+
+/**
+ * Reads a release's vinyl descriptors from its formats. Lists that are
+ * filtered repeatedly look them up from a precomputed index instead.
+ */
+const getVinylDescriptors = (release: DiscogsListItem): VinylDescriptors =>
+  extractVinylDescriptors(release.basic_information.formats)
+
+export interface NonVinylBreakdownItem {
+  format: string
+  count: number
+}
+
+/**
+ * Number of values picked in a facet, included or excluded.
+ *
+ * @param filter - Facet selection
+ * @returns Count for the active filter badge; 0 when the facet is unused
+ */
+export const countFacetValues = (filter: FacetFilter): number =>
+  filter.included.length + filter.excluded.length
+
+const readFacetFilter = (
+  params: URLSearchParams,
+  key: string
+): FacetFilter => ({
+  included: readParamList(params, key),
+  excluded: readParamList(params, `${key}${EXCLUDED_PARAM_SUFFIX}`),
+  mode: params.get(`${key}${MODE_PARAM_SUFFIX}`) === 'all' ? 'all' : 'any'
+})
+
+const getFacetSearchParams = (
+  key: string,
+  filter: FacetFilter
+): Record<string, SearchParamValue> => ({
+  [key]: filter.included,
+  [`${key}${EXCLUDED_PARAM_SUFFIX}`]: filter.excluded,
+  [`${key}${MODE_PARAM_SUFFIX}`]:
+    filter.mode === 'all' && filter.included.length > 0 ? 'all' : null
+})
+
+const readFieldFilters = (params: URLSearchParams) => {
+  const fields: Record<number, FacetFilter> = {}
+  for (const key of new Set(params.keys())) {
+    const match = FIELD_PARAM_PATTERN.exec(key)
+    if (!match) continue
+    const fieldId = Number(match[1])
+    const filter = readFacetFilter(params, getFieldParamKey(fieldId))
+    if (countFacetValues(filter) > 0) {
+      fields[fieldId] = filter
+    }
+  }
+  return fields
+}
+
+const readMinRating = (params: URLSearchParams) => {
+  const rating = readParamInteger(params, FILTER_PARAM_KEYS.minRating)
+  return rating !== null && rating >= 1 && rating <= 5 ? rating : null
+}
+
+/**
+ * Reads the facet filters from URL search params.
+ *
+ * @param params - Current search params
+ * @returns Selected filters; invalid values are dropped
+ */
+export function readFiltersFromParams(
+  params: URLSearchParams
+): CollectionSelectedFilters {
+  return {
+    genres: readFacetFilter(params, FILTER_PARAM_KEYS.genres),
+    styles: readFacetFilter(params, FILTER_PARAM_KEYS.styles),
+    labels: readFacetFilter(params, FILTER_PARAM_KEYS.labels),
+    types: readFacetFilter(params, FILTER_PARAM_KEYS.types),
+    sizes: readFacetFilter(params, FILTER_PARAM_KEYS.sizes),
+    countries: readFacetFilter(params, FILTER_PARAM_KEYS.countries),
+    yearRange: readParamRange(params, FILTER_PARAM_KEYS.yearRange),
+    minRating: readMinRating(params),
+    fields: readFieldFilters(params)
+  }
+}
+
+/**
+ * Builds the search param updates that mirror the filters in the URL, the
+ * inverse of {@link readFiltersFromParams}. Field params that are no longer
+ * selected are cleared.
+ *
+ * @param filters - Filters to write, with the effective year range
+ * @param options.yearRangeActive - Whether the year range narrows anything
+ * (a range equal to the collection's bounds is left out of the URL)
+ * @param options.currentParams - Params in the URL now
+ * @returns Updates for `updateSearchParams`
+ */
+export function getFilterSearchParams(
+  filters: CollectionSelectedFilters,
+  {
+    yearRangeActive,
+    currentParams
+  }: { yearRangeActive: boolean; currentParams: URLSearchParams }
+): Record<string, SearchParamValue> {
+  // Clear field params that are no longer selected before writing the rest
+  const fieldParams: Record<string, SearchParamValue> = {}
+  for (const key of currentParams.keys()) {
+    if (FIELD_PARAM_PATTERN.test(key)) fieldParams[key] = null
+  }
+  for (const [fieldId, filter] of Object.entries(filters.fields)) {
+    Object.assign(
+      fieldParams,
+      getFacetSearchParams(getFieldParamKey(Number(fieldId)), filter)
+    )
+  }
+
+  const { yearRange, minRating } = filters
+  return {
+    ...fieldParams,
+    ...getFacetSearchParams(FILTER_PARAM_KEYS.genres, filters.genres),
+    ...getFacetSearchParams(FILTER_PARAM_KEYS.styles, filters.styles),
+    ...getFacetSearchParams(FILTER_PARAM_KEYS.labels, filters.labels),
+    ...getFacetSearchParams(FILTER_PARAM_KEYS.types, filters.types),
+    ...getFacetSearchParams(FILTER_PARAM_KEYS.sizes, filters.sizes),
+    ...getFacetSearchParams(FILTER_PARAM_KEYS.countries, filters.countries),
+    [FILTER_PARAM_KEYS.yearRange]:
+      yearRangeActive && yearRange ? `${yearRange[0]}-${yearRange[1]}` : null,
+    [FILTER_PARAM_KEYS.minRating]: minRating === null ? null : String(minRating)
+  }
+}
+
+/**
+ * Counts the releases that aren't vinyl, grouped by their first non-vinyl
+ * format.
+ *
+ * @param releases - All releases, vinyl or not
+ * @returns Total and per-format counts, most common first
+ */
+export function getNonVinylBreakdown(releases: DiscogsListItem[]): {
+  total: number
+  breakdown: NonVinylBreakdownItem[]
+} {
+  const counts = new Map<string, number>()
+  let total = 0
+
+  for (const release of releases) {
+    const formats = release.basic_information.formats
+    if (isVinylRecord(formats)) continue
+    total += 1
+    const formatName =
+      formats.find((format) => format.name && format.name !== 'Vinyl')?.name ??
+      'Unknown'
+    counts.set(formatName, (counts.get(formatName) ?? 0) + 1)
+  }
+
+  const breakdown = Array.from(counts.entries())
+    .map(([format, count]) => ({ format, count }))
+    .sort((a, b) => b.count - a.count || a.format.localeCompare(b.format))
+
+  return { total, breakdown }
+}
+
+/**
+ * Builds the facet options (with counts) for a list of vinyl releases.
+ * Selected values stay in the options with a count of 0 when no release
+ * has them, so they can still be deselected.
+ *
+ * @param releases - Vinyl releases to count
+ * @param selected - Currently selected facet values
+ * @param filterFields - Custom dropdown fields to offer as facets
+ * @param getDescriptors - Vinyl types and sizes of a release
+ * @returns Options per facet and the range of known release years
+ */
+export function getFilterOptions<T extends DiscogsListItem>(
+  releases: T[],
+  selected: Omit<CollectionSelectedFilters, 'yearRange' | 'minRating'>,
+  filterFields: DiscogsCollectionField[],
+  getDescriptors: (release: T) => VinylDescriptors = getVinylDescriptors
+): CollectionFilterOptions {
+  const genreCounts = new Map<string, number>()
+  const styleCounts = new Map<string, number>()
+  const labelCounts = new Map<string, number>()
+  const typeCounts = new Map<string, number>()
+  const sizeCounts = new Map<string, number>()
+  const countryCounts = new Map<string, number>()
+  let minYear = Number.POSITIVE_INFINITY
+  let maxYear = 0
+
+  for (const release of releases) {
+    const info = release.basic_information
+    for (const genre of info.genres) {
+      genreCounts.set(genre, (genreCounts.get(genre) ?? 0) + 1)
+    }
+    for (const style of info.styles) {
+      styleCounts.set(style, (styleCounts.get(style) ?? 0) + 1)
+    }
+    for (const label of info.labels) {
+      labelCounts.set(label.name, (labelCounts.get(label.name) ?? 0) + 1)
+    }
+    const { types: releaseTypes, sizes: releaseSizes } = getDescriptors(release)
+    for (const type of releaseTypes) {
+      typeCounts.set(type, (typeCounts.get(type) ?? 0) + 1)
+    }
+    for (const size of releaseSizes) {
+      sizeCounts.set(size, (sizeCounts.get(size) ?? 0) + 1)
+    }
+    if (info.country) {
+      countryCounts.set(
+        info.country,
+        (countryCounts.get(info.country) ?? 0) + 1
+      )
+    }
+    if (info.year && info.year > 0) {
+      minYear = Math.min(minYear, info.year)
+      maxYear = Math.max(maxYear, info.year)
+    }
+  }
+
+  // Ensure selected filters are in the options even if they have 0 count
+  const keepSelected = (
+    counts: Map<string, number>,
+    filter: FacetFilter | undefined
+  ) => {
+    if (!filter) return
+    for (const value of [...filter.included, ...filter.excluded]) {
+      if (!counts.has(value)) counts.set(value, 0)
+    }
+  }
+  keepSelected(genreCounts, selected.genres)
+  keepSelected(styleCounts, selected.styles)
+  keepSelected(labelCounts, selected.labels)
+  keepSelected(typeCounts, selected.types)
+  keepSelected(sizeCounts, selected.sizes)
+  keepSelected(countryCounts, selected.countries)
+
+  const createFilterOptions = (
+    counts: Map<string, number>,
+    sortFn: (values: string[]) => string[]
+  ): FilterOption[] => {
+    const values = sortFn(Array.from(counts.keys()))
+    return values.map((value) => ({
+      value,
+      count: counts.get(value) ?? 0
+    }))
+  }
+
+  const yearBounds: [number, number] | null =
+    Number.isFinite(minYear) && maxYear > 0 ? [minYear, maxYear] : null
+
+  // Dropdown options keep the order the user defined on Discogs; values
+  // no longer in the dropdown (renamed options) are appended
+  const fields = filterFields.map((field) => {
+    const counts = new Map<string, number>(
+      (field.options ?? []).map((option) => [option, 0])
+    )
+    for (const release of releases) {
+      const value = getNoteValue(release, field.id)
+      if (value !== undefined) {
+        counts.set(value, (counts.get(value) ?? 0) + 1)
+      }
+    }
+    keepSelected(counts, selected.fields[field.id])
+    return {
+      id: field.id,
+      name: field.name,
+      options: createFilterOptions(counts, (vals) => vals)
+    }
+  })
+
+  return {
+    genres: createFilterOptions(genreCounts, (vals) =>
+      sortValues(new Set(vals))
+    ),
+    styles: createFilterOptions(styleCounts, (vals) =>
+      sortValues(new Set(vals))
+    ),
+    labels: createFilterOptions(labelCounts, (vals) =>
+      sortValues(new Set(vals))
+    ),
+    types: createFilterOptions(typeCounts, (vals) => sortValues(new Set(vals))),
+    sizes: createFilterOptions(sizeCounts, sortSizes),
+    countries: createFilterOptions(countryCounts, (vals) =>
+      sortValues(new Set(vals))
+    ),
+    yearBounds,
+    fields
+  }
+}
+
+/**
+ * Fits a selected year range into the years the releases span. A selection
+ * entirely outside the bounds falls back to the full bounds.
+ *
+ * @param selection - Range from the URL or slider, null for none
+ * @param bounds - Known release years, null when no release has a year
+ * @returns The range to filter by, null for no year filter
+ */
+export function clampYearRange(
+  selection: [number, number] | null,
+  bounds: [number, number] | null
+): [number, number] | null {
+  if (!bounds) return selection
+  if (!selection) return bounds
+  const [minYear, maxYear] = bounds
+  const next: [number, number] = [
+    Math.max(selection[0], minYear),
+    Math.min(selection[1], maxYear)
+  ]
+  if (next[0] > next[1]) return bounds
+  return next
+}
+
+const matchesFacet = (filter: FacetFilter, values: string[]): boolean => {
+  if (filter.excluded.some((value) => values.includes(value))) return false
+  if (filter.included.length === 0) return true
+  return filter.mode === 'all'
+    ? filter.included.every((value) => values.includes(value))
+    : filter.included.some((value) => values.includes(value))
+}
+
+/**
+ * Whether a release passes every facet filter. Within a facet, a release
+ * needs any of the included values (or all of them, in `all` mode) and
+ * none of the excluded ones; facets are combined (all must match). With a
+ * year range, releases without a year are left out.
+ *
+ * @param release - Release to test
+ * @param filters - Selection, with the effective (clamped) year range
+ * @param descriptors - The release's vinyl types and sizes, if known
+ */
+export function matchesFilters(
+  release: DiscogsListItem,
+  filters: CollectionSelectedFilters,
+  descriptors: VinylDescriptors = getVinylDescriptors(release)
+): boolean {
+  const info = release.basic_information
+  const { types: releaseTypes, sizes: releaseSizes } = descriptors
+  const { yearRange, minRating } = filters
+
+  const matchesGenres = matchesFacet(filters.genres, info.genres)
+  const matchesStyles = matchesFacet(filters.styles, info.styles)
+  const matchesLabels = matchesFacet(
+    filters.labels,
+    info.labels.map((label) => label.name)
+  )
+  const matchesTypes = matchesFacet(filters.types, releaseTypes)
+  const matchesSizes = matchesFacet(filters.sizes, releaseSizes)
+  const matchesCountries = matchesFacet(
+    filters.countries,
+    info.country ? [info.country] : []
+  )
+
+  const matchesRating = minRating === null || release.rating >= minRating
+  const matchesFields = Object.entries(filters.fields).every(
+    ([fieldId, filter]) => {
+      const value = getNoteValue(release, Number(fieldId))
+      return matchesFacet(filter, value === undefined ? [] : [value])
+    }
+  )
+
+  let matchesYear = true
+  if (yearRange) {
+    if (!info.year || info.year <= 0) {
+      matchesYear = false
+    } else {
+      matchesYear = info.year >= yearRange[0] && info.year <= yearRange[1]
+    }
+  }
+
+  return (
+    matchesGenres &&
+    matchesStyles &&
+    matchesLabels &&
+    matchesTypes &&
+    matchesSizes &&
+    matchesCountries &&
+    matchesRating &&
+    matchesFields &&
+    matchesYear
+  )
+}
+
+/**
+ * Fisher-Yates shuffle driven by a seeded PRNG (mulberry32), so the same
+ * seed always gives the same order.
+ *
+ * @param items - Items to shuffle; not modified
+ * @param seed - Any integer
+ * @returns A shuffled copy
+ */
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  let state = seed
+  const next = () => {
+    let t = (state += 0x6d2b79f5)
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const copy = [...items]
+  for (let i = copy.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(next() * (i + 1))
+    const itemI = copy[i]
+    const itemJ = copy[j]
+    if (itemI !== undefined && itemJ !== undefined) {
+      copy[i] = itemJ
+      copy[j] = itemI
+    }
+  }
+  return copy
+}
+
+const getSortText = (
+  release: DiscogsListItem,
+  sort: CollectionSortKey
+): string => {
+  const info = release.basic_information
+  switch (sort) {
+    case 'artist':
+      return info.artists[0]?.name ?? ''
+    case 'label':
+      return info.labels[0]?.name ?? ''
+    case 'format':
+      return info.formats[0]?.name ?? ''
+    case 'genre':
+      return info.genres[0] ?? ''
+    default:
+      return info.title
+  }
+}
+
+const compareReleases = (
+  a: DiscogsListItem,
+  b: DiscogsListItem,
+  sort: CollectionSortKey
+): number => {
+  if (sort === 'added') {
+    return (a.date_added ?? '').localeCompare(b.date_added ?? '')
+  }
+  if (sort === 'releaseYear') {
+    return a.basic_information.year - b.basic_information.year
+  }
+  if (sort === 'rating' && a.rating !== b.rating) {
+    return a.rating - b.rating
+  }
+  const primaryCompare = getSortText(a, sort).localeCompare(
+    getSortText(b, sort),
+    undefined,
+    { sensitivity: 'base' }
+  )
+  if (primaryCompare !== 0 || sort === 'title') return primaryCompare
+  return a.basic_information.title.localeCompare(
+    b.basic_information.title,
+    undefined,
+    { sensitivity: 'base' }
+  )
+}
+
+export interface SortReleasesOptions<T extends DiscogsListItem> {
+  sort: CollectionSortKey
+  sortOrder: CollectionSortOrder
+  /** Seed for the `random` sort */
+  randomSeed: number
+  /**
+   * Sort every key on the client. When false, only `genre`, `value`,
+   * `random` and `relevance` are sorted locally and the input order is
+   * trusted for the rest.
+   */
+  sortLocally: boolean
+  /**
+   * Numeric value for the `value` sort (e.g. lowest marketplace price).
+   * Releases without a value yet are kept at the end in either order.
+   */
+  getSortValue?: ((release: T) => number | undefined) | undefined
+  /** Search score for the `relevance` sort; higher is better */
+  getRelevance?: ((release: T) => number) | undefined
+}
+
+/**
+ * Orders releases for display. Ties on the sort key fall back to the title.
+ *
+ * @param releases - Releases to sort; not modified
+ * @param options - Sort key, order and local sorting behavior
+ * @returns The releases in display order
+ */
+export function sortReleases<T extends DiscogsListItem>(
+  releases: T[],
+  {
+    sort,
+    sortOrder,
+    randomSeed,
+    sortLocally,
+    getSortValue,
+    getRelevance
+  }: SortReleasesOptions<T>
+): T[] {
+  if (sort === 'random') {
+    return seededShuffle(releases, randomSeed)
+  }
+
+  // Best matches always come first; ties keep the input order
+  if (sort === 'relevance') {
+    if (!getRelevance) return releases
+    return [...releases].sort((a, b) => getRelevance(b) - getRelevance(a))
+  }
+
+  const order = sortOrder === 'asc' ? 1 : -1
+
+  if (sort === 'value') {
+    const valued: Array<{ release: T; value: number }> = []
+    const unvalued: T[] = []
+    for (const release of releases) {
+      const value = getSortValue?.(release)
+      if (value === undefined) {
+        unvalued.push(release)
+      } else {
+        valued.push({ release, value })
+      }
+    }
+    valued.sort((a, b) => (a.value - b.value) * order)
+    return [...valued.map((item) => item.release), ...unvalued]
+  }
+
+  if (sort === 'genre' || sortLocally) {
+    return [...releases].sort((a, b) => compareReleases(a, b, sort) * order)
+  }
+
+  return releases
+}
+
+/**
+ * Picks the vinyl releases the `value` sort looks up prices for: the most
+ * recently added ones, up to a limit.
+ *
+ * @param releases - Releases in any order; not modified
+ * @param limit - Most release IDs to return
+ * @returns Release IDs, newest first, and how many vinyl releases were left out
+ */
+export function getValueSortReleaseIds(
+  releases: DiscogsListItem[],
+  limit: number
+): { releaseIds: number[]; skippedCount: number } {
+  const vinyl = releases.filter((release) =>
+    isVinylRecord(release.basic_information.formats)
+  )
+  const newest = vinyl.sort((a, b) =>
+    (b.date_added ?? '').localeCompare(a.date_added ?? '')
+  )
+
+  return {
+    releaseIds: newest.slice(0, limit).map((release) => release.id),
+    skippedCount: Math.max(0, vinyl.length - limit)
+  }
+}
+
+/** Section title for releases that have no letter or year to go by */
+const OTHER_SECTION = '#'
+
+/** Above this many years, the jump rail groups them into decades */
+const MAX_YEAR_SECTIONS = 30
+
+export interface JumpSection {
+  /** Letter, year or decade shown on the jump rail */
+  label: string
+  /** Index of the first release in the section */
+  index: number
+}
+
+const getLetterSection = (text: string) => {
+  const letter = text.trim().normalize('NFD').charAt(0).toUpperCase()
+  return /\p{L}/u.test(letter) ? letter : OTHER_SECTION
+}
+
+const getReleaseYear = (
+  release: DiscogsListItem,
+  sort: CollectionSortKey
+): number | null => {
+  const year =
+    sort === 'added'
+      ? Number.parseInt(release.date_added?.slice(0, 4) ?? '', 10)
+      : release.basic_information.year
+  return Number.isInteger(year) && year > 0 ? year : null
+}
+
+const collectSections = (labels: string[]): JumpSection[] => {
+  const seen = new Set<string>()
+  const sections: JumpSection[] = []
+  labels.forEach((label, index) => {
+    if (seen.has(label)) return
+    seen.add(label)
+    sections.push({ label, index })
+  })
+  return sections
+}
+
+/**
+ * Splits a sorted list into sections for the jump rail: first letters for
+ * text sorts, years (or decades, for long spans) for date sorts. A label
+ * seen again further down is not repeated, so the rail stays short when
+ * the order is only roughly alphabetical (e.g. sorted by Discogs).
+ *
+ * @param releases - Releases in display order
+ * @param sort - Sort the releases are in
+ * @returns Sections in list order; empty for sorts without natural sections
+ */
+export function getJumpSections(
+  releases: DiscogsListItem[],
+  sort: CollectionSortKey
+): JumpSection[] {
+  if (sort === 'added' || sort === 'releaseYear') {
+    const years = releases.map((release) => getReleaseYear(release, sort))
+    const useDecades =
+      new Set(years.filter((year) => year !== null)).size > MAX_YEAR_SECTIONS
+    return collectSections(
+      years.map((year) => {
+        if (year === null) return OTHER_SECTION
+        return useDecades ? `${Math.floor(year / 10) * 10}s` : String(year)
+      })
+    )
+  }
+
+  if (
+    sort === 'rating' ||
+    sort === 'value' ||
+    sort === 'random' ||
+    sort === 'relevance'
+  ) {
+    return []
+  }
+
+  return collectSections(
+    releases.map((release) => getLetterSection(getSortText(release, sort)))
+  )
+}
@@ -0,0 +1,243 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import {
+  type CollectionSelectedFilters,
+  EMPTY_FACET_FILTER
+} from '@/lib/release-filters'
+import {
+  createReleaseDataset,
+  createReleaseViewChannel,
+  createReleaseViewHandler,
+  deriveReleaseView,
+  type ReleaseViewQuery,
+  type ReleaseViewRequest,
+  type ReleaseViewResponse
+} from '@/lib/release-view'
+import { createRelease } from '@/test/fixtures'
+
+/** The sizes filter tests need a size descriptor */
+const TWELVE_INCH_LP = [
+  { name: 'Vinyl', qty: '1', descriptions: ['LP', '12"'] }
+]
+
+const NO_FILTERS: CollectionSelectedFilters = {
+  genres: EMPTY_FACET_FILTER,
+  styles: EMPTY_FACET_FILTER,
+  labels: EMPTY_FACET_FILTER,
+  types: EMPTY_FACET_FILTER,
+  sizes: EMPTY_FACET_FILTER,
+  countries: EMPTY_FACET_FILTER,
+  yearRange: null,
+  minRating: null,
+  fields: {}
+}
+
+const QUERY: ReleaseViewQuery = {
+  search: '',
+  selected: NO_FILTERS,
+  sort: 'added',
+  sortOrder: 'desc',
+  randomSeed: 1,
+  sortLocally: false,
+  sortValues: null
+}
+
+describe('deriveReleaseView', () => {
+  const kind = createRelease({
+    title: 'Kind of Blue',
+    year: 1959,
+    formats: TWELVE_INCH_LP
+  })
+  const single = createRelease({
+    title: 'So What',
+    year: 1960,
+    formats: [{ name: 'Vinyl', qty: '1', descriptions: ['Single', '7"'] }]
+  })
+  const rumours = createRelease({
+    title: 'Rumours',
+    year: 1977,
+    formats: TWELVE_INCH_LP
+  })
+  const dataset = createReleaseDataset([kind, single, rumours], [])
+
+  it('returns list item keys in the input order when not sorting locally', () => {
+    expect(deriveReleaseView(dataset, QUERY).keys).toEqual([
+      kind.instance_id,
+      single.instance_id,
+      rumours.instance_id
+    ])
+  })
+
+  it('searches, filters by the indexed descriptors and sorts', () => {
+    const view = deriveReleaseView(dataset, {
+      ...QUERY,
+      selected: {
+        ...NO_FILTERS,
+        sizes: { ...EMPTY_FACET_FILTER, included: ['12"'] }
+      },
+      sort: 'title',
+      sortOrder: 'asc',
+      sortLocally: true
+    })
+
+    expect(view.keys).toEqual([kind.instance_id, rumours.instance_id])
+    expect(
+      deriveReleaseView(dataset, { ...QUERY, search: 'kind OR rumours' }).keys
+    ).toEqual([kind.instance_id, rumours.instance_id])
+  })
+
+  it('counts facets across the whole list', () => {
+    const view = deriveReleaseView(dataset, {
+      ...QUERY,
+      search: 'rumours',
+      selected: {
+        ...NO_FILTERS,
+        types: { ...EMPTY_FACET_FILTER, included: ['Single'] }
+      }
+    })
+
+    expect(view.keys).toEqual([])
+    expect(view.filterOptions.types).toEqual([
+      { value: 'LP', count: 2 },
+      { value: 'Single', count: 1 }
+    ])
+    expect(view.filterOptions.yearBounds).toEqual([1959, 1977])
+  })
+
+  it('clamps the year range to the known years', () => {
+    const view = deriveReleaseView(dataset, {
+      ...QUERY,
+      selected: { ...NO_FILTERS, yearRange: [1970, 2020] }
+    })
+
+    expect(view.keys).toEqual([rumours.instance_id])
+  })
+
+  it('sorts by the values sent for the value sort', () => {
+    const view = deriveReleaseView(dataset, {
+      ...QUERY,
+      sort: 'value',
+      sortValues: new Map([
+        [single.instance_id, 5],
+        [rumours.instance_id, 20]
+      ])
+    })
+
+    expect(view.keys).toEqual([
+      rumours.instance_id,
+      single.instance_id,
+      kind.instance_id
+    ])
+  })
+
+  it('ranks search results for the relevance sort', () => {
+    const blue = createRelease({ title: 'Blue', year: 1971 })
+    const view = deriveReleaseView(createReleaseDataset([kind, blue], []), {
+      ...QUERY,
+      search: 'blue',
+      sort: 'relevance'
+    })
+
+    expect(view.keys).toEqual([blue.instance_id, kind.instance_id])
+  })
+})
+
+describe('createReleaseViewHandler', () => {
+  const releases = [createRelease(), createRelease()]
+
+  it('answers queries on the latest list only', () => {
+    const handleRequest = createReleaseViewHandler()
+    const query = (datasetId: number): ReleaseViewRequest => ({
+      type: 'query',
+      datasetId,
+      queryId: 1,
+      query: QUERY
+    })
+
+    expect(handleRequest(query(1))).toBeNull()
+    handleRequest({ type: 'load', datasetId: 1, releases, filterFields: [] })
+    expect(handleRequest(query(1))?.view.keys).toEqual(
+      releases.map((release) => release.instance_id)
+    )
+    handleRequest({ type: 'load', datasetId: 2, releases, filterFields: [] })
+    expect(handleRequest(query(1))).toBeNull()
+  })
+})
+
+describe('createReleaseViewChannel', () => {
+  const releases = [createRelease(), createRelease()]
+  const load: ReleaseViewRequest = {
+    type: 'load',
+    datasetId: 1,
+    releases,
+    filterFields: []
+  }
+  const query: ReleaseViewRequest = {
+    type: 'query',
+    datasetId: 1,
+    queryId: 1,
+    query: QUERY
+  }
+
+  function createFakeWorker() {
+    return {
+      onmessage: null,
+      onerror: null as (() => void) | null,
+      onmessageerror: null,
+      postMessage: vi.fn(),
+      terminate: vi.fn()
+    }
+  }
+
+  it('posts requests to the worker while it works', () => {
+    const worker = createFakeWorker()
+    const onResponse = vi.fn()
+    const channel = createReleaseViewChannel(
+      () => worker as unknown as Worker,
+      onResponse
+    )
+
+    channel.post(load)
+    channel.post(query)
+
+    expect(worker.postMessage).toHaveBeenCalledTimes(2)
+    expect(onResponse).not.toHaveBeenCalled()
+  })
+
+  it('replays the latest list and query on the main thread when the worker fails', () => {
+    const worker = createFakeWorker()
+    const responses: ReleaseViewResponse[] = []
+    const channel = createReleaseViewChannel(
+      () => worker as unknown as Worker,
+      (response) => responses.push(response)
+    )
+
+    channel.post(load)
+    channel.post(query)
+    worker.onerror?.()
+
+    expect(worker.terminate).toHaveBeenCalled()
+    expect(responses.map((response) => response.queryId)).toEqual([1])
+
+    channel.post({ ...query, queryId: 2 })
+    expect(worker.postMessage).toHaveBeenCalledTimes(2)
+    expect(responses.map((response) => response.queryId)).toEqual([1, 2])
+  })
+
+  it('runs on the main thread when the worker cannot start', () => {
+    const responses: ReleaseViewResponse[] = []
+    const channel = createReleaseViewChannel(
+      () => {
+        throw new Error('Workers are not supported')
+      },
+      (response) => responses.push(response)
+    )
+
+    channel.post(load)
+    channel.post(query)
+
+    expect(responses[0]?.view.keys).toEqual(
+      releases.map((release) => release.instance_id)
+    )
+  })
+})
@@ -0,0 +1,259 @@
+// src/lib/release-view.ts
+import { extractVinylDescriptors, getListItemKey } from '@/api/discogs'
+import {
+  clampYearRange,
+  type CollectionFilterOptions,
+  type CollectionSelectedFilters,
+  getFilterOptions,
+  matchesFilters,
+  sortReleases,
+  type VinylDescriptors
+} from '@/lib/release-filters'
+import {
+  createSearchIndex,
+  rankReleases,
+  type SearchIndex
+} from '@/lib/search-index'
+import { parseSearchQuery } from '@/lib/search-query'
+import type {
+  CollectionSortKey,
+  CollectionSortOrder,
+  DiscogsCollectionField,
+  DiscogsListItem
+} from '@/types/discogs'
+
+/**
+ * The searched, filtered and sorted view of a release list. It is derived
+ * in a Web Worker (`src/workers/release-view.worker.ts`) so typing and
+ * filtering stay responsive for large collections: the releases cross over
+ * once per list, and after that queries and views carry only release keys
+ * (see `getListItemKey`) and facet counts.
+ */
+
+/** A vinyl release list prepared for {@link deriveReleaseView} */
+export interface ReleaseDataset {
+  releases: DiscogsListItem[]
+  /** Vinyl types and sizes per release, read once rather than per query */
+  descriptors: Map<DiscogsListItem, VinylDescriptors>
+  searchIndex: SearchIndex<DiscogsListItem>
+  /** Custom dropdown fields to offer as facets (collection items only) */
+  filterFields: DiscogsCollectionField[]
+}
+
+/**
+ * Indexes a release list for repeated queries.
+ *
+ * @param releases - Vinyl releases, in the order to trust for unsorted keys
+ * @param filterFields - Custom dropdown fields to offer as facets
+ * @returns The dataset for {@link deriveReleaseView}
+ */
+export function createReleaseDataset(
+  releases: DiscogsListItem[],
+  filterFields: DiscogsCollectionField[]
+): ReleaseDataset {
+  return {
+    releases,
+    descriptors: new Map(
+      releases.map((release) => [
+        release,
+        extractVinylDescriptors(release.basic_information.formats)
+      ])
+    ),
+    searchIndex: createSearchIndex(releases),
+    filterFields
+  }
+}
+
+export interface ReleaseViewQuery {
+  search: string
+  selected: CollectionSelectedFilters
+  sort: CollectionSortKey
+  sortOrder: CollectionSortOrder
+  randomSeed: number
+  /** See `SortReleasesOptions.sortLocally` */
+  sortLocally: boolean
+  /** Values for the `value` sort by release key; null for other sorts */
+  sortValues: Map<number, number> | null
+}
+
+export interface ReleaseView {
+  /** Keys of the releases to show, in display order */
+  keys: number[]
+  filterOptions: CollectionFilterOptions
+}
+
+/**
+ * Searches, filters and sorts a dataset. Facet counts cover the whole
+ * dataset, not just the matches.
+ *
+ * @param dataset - Dataset from {@link createReleaseDataset}
+ * @param query - Search, filters and sort to apply
+ * @returns Keys of the matching releases in display order, and the facets
+ */
+export function deriveReleaseView(
+  dataset: ReleaseDataset,
+  query: ReleaseViewQuery
+): ReleaseView {
+  const { selected, sortValues } = query
+  const getDescriptors = (release: DiscogsListItem) =>
+    dataset.descriptors.get(release) ??
+    extractVinylDescriptors(release.basic_information.formats)
+
+  const filterOptions = getFilterOptions(
+    dataset.releases,
+    selected,
+    dataset.filterFields,
+    getDescriptors
+  )
+  const filters: CollectionSelectedFilters = {
+    ...selected,
+    yearRange: clampYearRange(selected.yearRange, filterOptions.yearBounds)
+  }
+
+  const scores = rankReleases(
+    dataset.searchIndex,
+    parseSearchQuery(query.search)
+  )
+  const filtered = dataset.releases.filter(
+    (release) =>
+      scores.has(release) &&
+      matchesFilters(release, filters, getDescriptors(release))
+  )
+
+  const sorted = sortReleases(filtered, {
+    sort: query.sort,
+    sortOrder: query.sortOrder,
+    randomSeed: query.randomSeed,
+    sortLocally: query.sortLocally,
+    getSortValue: sortValues
+      ? (release) => sortValues.get(getListItemKey(release))
+      : undefined,
+    getRelevance: (release) => scores.get(release) ?? 0
+  })
+
+  return { keys: sorted.map(getListItemKey), filterOptions }
+}
+
+/** Messages to the release view worker */
+export type ReleaseViewRequest =
+  | {
+      type: 'load'
+      /** Increases with every list sent */
+      datasetId: number
+      releases: DiscogsListItem[]
+      filterFields: DiscogsCollectionField[]
+    }
+  | {
+      type: 'query'
+      /** The list to query; queries for an older list are dropped */
+      datasetId: number
+      /** Increases with every query sent */
+      queryId: number
+      query: ReleaseViewQuery
+    }
+
+/** The worker's answer to a `query` request */
+export interface ReleaseViewResponse {
+  datasetId: number
+  queryId: number
+  view: ReleaseView
+}
+
+/**
+ * Answers release view requests: keeps the latest list and derives views
+ * for queries on it. Queries for any other list get no answer.
+ *
+ * @returns A function taking each request, returning the view for queries
+ */
+export function createReleaseViewHandler(): (
+  request: ReleaseViewRequest
+) => ReleaseViewResponse | null {
+  let dataset: { id: number; data: ReleaseDataset } | null = null
+
+  return (request) => {
+    if (request.type === 'load') {
+      dataset = {
+        id: request.datasetId,
+        data: createReleaseDataset(request.releases, request.filterFields)
+      }
+      return null
+    }
+
+    if (!dataset || request.datasetId !== dataset.id) return null
+    return {
+      datasetId: request.datasetId,
+      queryId: request.queryId,
+      view: deriveReleaseView(dataset.data, request.query)
+    }
+  }
+}
+
+interface ReleaseViewChannel {
+  /** Sends a request to the worker, or runs it here once the worker failed */
+  post: (request: ReleaseViewRequest) => void
+  /** Stops the worker */
+  close: () => void
+}
+
+/**
+ * Talks to the release view worker. If the worker can't be created, fails
+ * to load or throws, requests run on the main thread instead (slower for
+ * large lists, but the view still arrives); the latest list and query are
+ * replayed there, since the worker may have dropped them.
+ *
+ * @param createWorker - Starts the worker
+ * @param onResponse - Receives views, from the worker or the main thread
+ */
+export function createReleaseViewChannel(
+  createWorker: () => Worker,
+  onResponse: (response: ReleaseViewResponse) => void
+): ReleaseViewChannel {
+  let worker: Worker | null = null
+  let handleRequest: ReturnType<typeof createReleaseViewHandler> | null = null
+  let lastLoad: ReleaseViewRequest | null = null
+  let lastQuery: ReleaseViewRequest | null = null
+
+  const runHere = (request: ReleaseViewRequest) => {
+    handleRequest ??= createReleaseViewHandler()
+    const response = handleRequest(request)
+    if (response) onResponse(response)
+  }
+
+  const fallBack = () => {
+    worker?.terminate()
+    worker = null
+    if (lastLoad) runHere(lastLoad)
+    if (lastQuery) runHere(lastQuery)
+  }
+
+  try {
+    worker = createWorker()
+    worker.onmessage = (event: MessageEvent<ReleaseViewResponse>) => {
+      onResponse(event.data)
+    }
+    worker.onerror = fallBack
+    worker.onmessageerror = fallBack
+  } catch {
+    worker = null
+  }
+
+  return {
+    post: (request) => {
+      if (request.type === 'load') {
+        lastLoad = request
+      } else {
+        lastQuery = request
+      }
+
+      if (worker) {
+        worker.postMessage(request)
+      } else {
+        runHere(request)
+      }
+    },
+    close: () => {
+      worker?.terminate()
+      worker = null
+    }
+  }
+}
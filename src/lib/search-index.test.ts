@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest'
+
+import { createSearchIndex, rankReleases } from '@/lib/search-index'
+import { parseSearchQuery } from '@/lib/search-query'
+import { createRelease } from '@/test/fixtures'
+import type {
+  DiscogsBasicInformation,
+  DiscogsCollectionRelease,
+  DiscogsWantlistItem
+} from '@/types/discogs'
+
+const BLUE_TRAIN_INFO: DiscogsBasicInformation = {
+  id: 1,
+  title: 'Blue Train',
+  year: 1957,
+  resource_url: '',
+  thumb: '',
+  cover_image: '',
+  formats: [
+    { name: 'Vinyl', qty: '1', text: 'Blue Marbled', descriptions: ['LP'] }
+  ],
+  labels: [{ name: 'Blue Note', catno: 'BLP 1577' }],
+  artists: [{ id: 1, name: 'John Coltrane', anv: 'Trane' }],
+  country: 'US',
+  genres: ['Jazz'],
+  styles: ['Hard Bop']
+}
+
+const blueTrain = createRelease(BLUE_TRAIN_INFO, {
+  rating: 4,
+  notes: [{ field_id: 3, value: 'Bought in Oslo' }]
+})
+
+const rank = (query: string, releases: DiscogsCollectionRelease[]) =>
+  rankReleases(createSearchIndex(releases), parseSearchQuery(query))
+
+const matches = (
+  query: string,
+  release: DiscogsCollectionRelease = blueTrain
+) => rank(query, [release]).has(release)
+
+describe('rankReleases', () => {
+  it('matches artist or title case-insensitively', () => {
+    expect(matches('coltrane')).toBe(true)
+    expect(matches('BLUE')).toBe(true)
+    expect(matches('miles')).toBe(false)
+  })
+
+  it('matches everything for a blank query', () => {
+    expect(matches('   ')).toBe(true)
+  })
+
+  it('requires every word but allows them in different fields', () => {
+    expect(matches('coltrane train')).toBe(true)
+    expect(matches('coltrane giant')).toBe(false)
+  })
+
+  it('matches phrases as a whole', () => {
+    expect(matches('"blue train"')).toBe(true)
+    expect(matches('"train blue"')).toBe(false)
+  })
+
+  it('searches name variations, labels, catalog numbers and styles as free text', () => {
+    expect(matches('trane')).toBe(true)
+    expect(matches('"blue note"')).toBe(true)
+    expect(matches('blp-1577')).toBe(true)
+    expect(matches('hard bop')).toBe(true)
+    expect(matches('oslo')).toBe(false)
+  })
+
+  it('ignores accents and punctuation', () => {
+    const homogenic = createRelease({
+      title: 'Homogenic',
+      artists: [{ id: 2, name: 'Björk' }]
+    })
+    const takk = createRelease({
+      title: 'Takk...',
+      artists: [{ id: 3, name: 'Sigur Rós' }]
+    })
+    const melody = createRelease({
+      title: 'Melody A.M.',
+      artists: [{ id: 4, name: 'Røyksopp' }]
+    })
+
+    expect(matches('Bjork', homogenic)).toBe(true)
+    expect(matches('sigur ros takk', takk)).toBe(true)
+    expect(matches('royksopp "melody am"', melody)).toBe(true)
+  })
+
+  it('tolerates typos in longer words only', () => {
+    const okComputer = createRelease({
+      title: 'OK Computer',
+      artists: [{ id: 5, name: 'Radiohead' }]
+    })
+
+    expect(matches('Radiohad', okComputer)).toBe(true)
+    expect(matches('raidohead', okComputer)).toBe(true)
+    expect(matches('computr', okComputer)).toBe(true)
+    expect(matches('radiohat', okComputer)).toBe(false)
+    expect(matches('bleu', okComputer)).toBe(false)
+  })
+
+  it('searches the named field only', () => {
+    expect(matches('label:"blue note"')).toBe(true)
+    expect(matches('artist:blue')).toBe(false)
+    expect(matches('style:bop country:us color:marbled')).toBe(true)
+    expect(matches('notes:oslo')).toBe(true)
+    expect(matches('format:lp')).toBe(true)
+  })
+
+  it('ignores spacing and punctuation in catalog numbers', () => {
+    expect(matches('catno:blp1577')).toBe(true)
+    expect(matches('catno:BLP-1577')).toBe(true)
+    expect(matches('catno:blp1578')).toBe(false)
+  })
+
+  it('compares years and ratings numerically', () => {
+    expect(matches('year:1950..1959')).toBe(true)
+    expect(matches('year:1957')).toBe(true)
+    expect(matches('year:<1957')).toBe(false)
+    expect(matches('year:1958..')).toBe(false)
+    expect(matches('rating:>=4')).toBe(true)
+    expect(matches('rating:5')).toBe(false)
+  })
+
+  it('never matches a year range for releases without a year', () => {
+    const undated = createRelease({ year: 0 })
+
+    expect(matches('year:..2000', undated)).toBe(false)
+    expect(matches('-year:1950..1959', undated)).toBe(true)
+  })
+
+  it('leaves out negated matches, without typo tolerance', () => {
+    expect(matches('-coltrane')).toBe(false)
+    expect(matches('blue -style:"free jazz"')).toBe(true)
+    expect(matches('-coltrain')).toBe(true)
+  })
+
+  it('matches when any OR group matches', () => {
+    expect(matches('miles OR coltrane')).toBe(true)
+    expect(matches('miles OR davis')).toBe(false)
+  })
+
+  it('ranks exact and artist matches above partial, style and typo matches', () => {
+    const bopCity = createRelease({ title: 'Bop City', styles: ['Bebop'] })
+    const bebop = createRelease({ title: 'Groove', styles: ['Bebop'] })
+    const hardBop = createRelease({ title: 'Blues', styles: ['Hard Bop'] })
+    const scores = rank('bop', [bebop, hardBop, bopCity])
+
+    expect(scores.get(bopCity)).toBeGreaterThan(scores.get(hardBop) ?? 0)
+    expect(scores.get(hardBop)).toBeGreaterThan(scores.get(bebop) ?? 0)
+
+    const exact = createRelease({ artists: [{ id: 6, name: 'Coltrane' }] })
+    const typo = createRelease({ artists: [{ id: 7, name: 'Coltrain' }] })
+    const typoScores = rank('coltrane', [typo, exact])
+
+    expect(typoScores.get(exact)).toBeGreaterThan(typoScores.get(typo) ?? 0)
+  })
+
+  it('searches wantlist notes', () => {
+    const want: DiscogsWantlistItem = {
+      id: 1,
+      resource_url: '',
+      rating: 0,
+      basic_information: BLUE_TRAIN_INFO,
+      notes: 'Original pressing only'
+    }
+    const index = createSearchIndex([want])
+
+    expect(
+      rankReleases(index, parseSearchQuery('notes:original')).has(want)
+    ).toBe(true)
+  })
+})
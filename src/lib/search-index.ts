@@ -0,0 +1,334 @@
+// src/lib/search-index.ts
+import type {
+  ParsedSearchQuery,
+  SearchTerm,
+  TextField
+} from '@/lib/search-query'
+import type { DiscogsListItem } from '@/types/discogs'
+
+/**
+ * Free-text search covers these fields. Hits count for more in the fields
+ * people usually search by.
+ */
+const KEYWORD_WEIGHTS: ReadonlyArray<[TextField, number]> = [
+  ['artist', 3],
+  ['title', 3],
+  ['label', 2],
+  ['catno', 2],
+  ['style', 1]
+]
+
+/** How well a needle matched a value, before the field weight */
+const MATCH_QUALITY = {
+  exact: 1,
+  wordStart: 0.8,
+  substring: 0.5,
+  /** Divided by the number of typos */
+  typo: 0.4
+} as const
+
+/** Letters that don't decompose into a base letter and an accent */
+const SPECIAL_LETTERS: Record<string, string> = {
+  ø: 'o',
+  æ: 'ae',
+  œ: 'oe',
+  ß: 'ss',
+  đ: 'd',
+  ð: 'd',
+  ł: 'l',
+  þ: 'th',
+  ı: 'i'
+}
+
+/**
+ * Lowercases, strips accents (`Björk` → `bjork`, `Røyksopp` → `royksopp`),
+ * drops apostrophes and dots between letters (`A.M.` → `am`) and turns
+ * other punctuation into single spaces.
+ */
+const foldText = (value: string): string =>
+  value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[øæœßđðłþı]/g, (letter) => SPECIAL_LETTERS[letter] ?? letter)
+    .replace(/['’]|(?<=\p{L})\.(?=\p{L})/gu, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+
+/** Catalog numbers match regardless of spacing and punctuation */
+const compactText = (value: string) => foldText(value).replaceAll(' ', '')
+
+/** Typos allowed in a free-text word; short words must be spelled right */
+const getMaxTypos = (word: string) => {
+  if (word.length < 5) return 0
+  return word.length < 9 ? 1 : 2
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and swaps of
+ * neighboring letters as one edit each. Gives up early once the distance
+ * is above `max`.
+ *
+ * @returns The distance, or `max + 1` if it is larger than `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+
+  const at = (row: number[], index: number) =>
+    row[index] ?? Number.POSITIVE_INFINITY
+  let rowBeforePrevious: number[] = []
+  let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index)
+
+  for (let i = 1; i <= a.length; i += 1) {
+    const row = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1
+      let distance = Math.min(
+        at(previousRow, j) + 1,
+        at(row, j - 1) + 1,
+        at(previousRow, j - 1) + cost
+      )
+      if (
+        i > 1 &&
+        j > 1 &&
+        a.charAt(i - 1) === b.charAt(j - 2) &&
+        a.charAt(i - 2) === b.charAt(j - 1)
+      ) {
+        distance = Math.min(distance, at(rowBeforePrevious, j - 2) + 1)
+      }
+      row.push(distance)
+      rowMin = Math.min(rowMin, distance)
+    }
+    if (rowMin > max) return max + 1
+    rowBeforePrevious = previousRow
+    previousRow = row
+  }
+
+  return Math.min(at(previousRow, b.length), max + 1)
+}
+
+function getFieldTexts(release: DiscogsListItem, field: TextField): string[] {
+  const info = release.basic_information
+  switch (field) {
+    case 'artist':
+      return info.artists.flatMap((artist) =>
+        artist.anv ? [artist.name, artist.anv] : [artist.name]
+      )
+    case 'title':
+      return [info.title]
+    case 'label':
+      return info.labels.map((label) => label.name)
+    case 'catno':
+      return info.labels.map((label) => label.catno)
+    case 'genre':
+      return info.genres
+    case 'style':
+      return info.styles
+    case 'country':
+      return info.country ? [info.country] : []
+    case 'color':
+      return info.formats.flatMap((format) =>
+        format.text ? [format.text] : []
+      )
+    case 'format':
+      return info.formats.flatMap((format) => [
+        format.name,
+        ...(format.descriptions ?? [])
+      ])
+    case 'notes':
+      if ('instance_id' in release) {
+        return (release.notes ?? []).map((note) => note.value)
+      }
+      return release.notes ? [release.notes] : []
+  }
+}
+
+interface IndexedRelease<T extends DiscogsListItem> {
+  release: T
+  /** Folded values of each field; catalog numbers are compacted */
+  fields: Map<TextField, string[]>
+  /** Distinct folded words of the free-text fields, with their best weight */
+  words: Map<string, number>
+}
+
+/** Releases prepared for {@link rankReleases}; build once per list */
+export interface SearchIndex<T extends DiscogsListItem> {
+  entries: IndexedRelease<T>[]
+}
+
+const TEXT_FIELDS: readonly TextField[] = [
+  ...KEYWORD_WEIGHTS.map(([field]) => field),
+  'genre',
+  'country',
+  'color',
+  'format',
+  'notes'
+]
+
+function indexRelease<T extends DiscogsListItem>(
+  release: T
+): IndexedRelease<T> {
+  const fields = new Map<TextField, string[]>()
+  for (const field of TEXT_FIELDS) {
+    const fold = field === 'catno' ? compactText : foldText
+    fields.set(field, getFieldTexts(release, field).map(fold))
+  }
+
+  const words = new Map<string, number>()
+  for (const [field, weight] of KEYWORD_WEIGHTS) {
+    for (const value of fields.get(field) ?? []) {
+      for (const word of value.split(' ')) {
+        if (word && (words.get(word) ?? 0) < weight) words.set(word, weight)
+      }
+    }
+  }
+
+  return { release, fields, words }
+}
+
+/**
+ * Folds the searchable text of every release up front, so each keystroke
+ * only compares strings.
+ *
+ * @param releases - Releases to search, in display order
+ * @returns The index for {@link rankReleases}
+ */
+export function createSearchIndex<T extends DiscogsListItem>(
+  releases: readonly T[]
+): SearchIndex<T> {
+  return { entries: releases.map(indexRelease) }
+}
+
+const getMatchQuality = (value: string, needle: string): number => {
+  if (value === needle) return MATCH_QUALITY.exact
+  if (value.startsWith(needle) || value.includes(` ${needle}`)) {
+    return MATCH_QUALITY.wordStart
+  }
+  return value.includes(needle) ? MATCH_QUALITY.substring : 0
+}
+
+/** A term with its text folded the way the index stores each field */
+interface PreparedTerm {
+  term: SearchTerm
+  needle: string
+  compactNeedle: string
+}
+
+function prepareTerm(term: SearchTerm): PreparedTerm | null {
+  if (term.kind === 'range') return { term, needle: '', compactNeedle: '' }
+
+  const needle = foldText(term.text)
+  const compactNeedle = compactText(term.text)
+  // Nothing left after folding (e.g. a lone `"!"`): leave the term out
+  const fieldNeedle = term.field === 'catno' ? compactNeedle : needle
+  return fieldNeedle ? { term, needle, compactNeedle } : null
+}
+
+/**
+ * Scores free text against the keyword fields. Single words may also
+ * match with typos, unless `fuzzy` is off: a negated term should only
+ * leave out what it names.
+ */
+function scoreFreeText(
+  entry: IndexedRelease<DiscogsListItem>,
+  { needle, compactNeedle }: PreparedTerm,
+  fuzzy: boolean
+): number {
+  let best = 0
+  for (const [field, weight] of KEYWORD_WEIGHTS) {
+    const fieldNeedle = field === 'catno' ? compactNeedle : needle
+    if (!fieldNeedle) continue
+    for (const value of entry.fields.get(field) ?? []) {
+      best = Math.max(best, weight * getMatchQuality(value, fieldNeedle))
+    }
+  }
+
+  const maxTypos = getMaxTypos(needle)
+  if (best > 0 || !fuzzy || maxTypos === 0 || needle.includes(' ')) {
+    return best
+  }
+
+  for (const [word, weight] of entry.words) {
+    const typos = editDistance(needle, word, maxTypos)
+    if (typos <= maxTypos) {
+      best = Math.max(best, (weight * MATCH_QUALITY.typo) / typos)
+    }
+  }
+  return best
+}
+
+/** Field and range terms filter without adding to the relevance */
+const FILTER_TERM_SCORE = 1
+
+/** Scores one term; 0 means no match */
+function scoreTerm(
+  entry: IndexedRelease<DiscogsListItem>,
+  prepared: PreparedTerm
+): number {
+  const { term, needle, compactNeedle } = prepared
+  const { release } = entry
+
+  if (term.kind === 'range') {
+    const value =
+      term.field === 'year' ? release.basic_information.year : release.rating
+    // Unknown years are stored as 0 and never match a year range
+    if (term.field === 'year' && value <= 0) return 0
+    return value >= term.min && value <= term.max ? FILTER_TERM_SCORE : 0
+  }
+
+  if (term.field === null) {
+    return scoreFreeText(entry, prepared, !term.negated)
+  }
+
+  const fieldNeedle = term.field === 'catno' ? compactNeedle : needle
+  const values = entry.fields.get(term.field) ?? []
+  return values.some((value) => value.includes(fieldNeedle))
+    ? FILTER_TERM_SCORE
+    : 0
+}
+
+/**
+ * Finds the releases matching a parsed query and scores their relevance.
+ * Matching ignores case and accents. Free text searches artists (with name
+ * variations), titles, labels, catalog numbers and styles, and tolerates
+ * typos in longer words. A release matches when every term of one of the
+ * OR groups matches (negated terms must not); its score is the best group's
+ * total.
+ *
+ * @param index - Index from {@link createSearchIndex}
+ * @param query - Result of `parseSearchQuery`
+ * @returns Matching releases, in index order, with their relevance; every
+ *   release scores 0 for an empty query
+ */
+export function rankReleases<T extends DiscogsListItem>(
+  index: SearchIndex<T>,
+  query: ParsedSearchQuery
+): Map<T, number> {
+  const groups = query.groups.map((group) =>
+    group.flatMap((term) => prepareTerm(term) ?? [])
+  )
+  const scores = new Map<T, number>()
+
+  for (const entry of index.entries) {
+    if (groups.length === 0) {
+      scores.set(entry.release, 0)
+      continue
+    }
+
+    let best: number | null = null
+    for (const group of groups) {
+      let total = 0
+      const matched = group.every((prepared) => {
+        const score = scoreTerm(entry, prepared)
+        if (prepared.term.negated) return score === 0
+        total += score
+        return score > 0
+      })
+      if (matched && (best === null || total > best)) best = total
+    }
+    if (best !== null) scores.set(entry.release, best)
+  }
+
+  return scores
+}
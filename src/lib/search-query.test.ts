@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseSearchQuery } from '@/lib/search-query'
+
+describe('parseSearchQuery', () => {
+  it('reads fields, phrases, negation and OR', () => {
+    expect(
+      parseSearchQuery('label:"blue note" -live year:1955..1960 OR bebop')
+    ).toEqual({
+      groups: [
+        [
+          { kind: 'text', field: 'label', text: 'blue note', negated: false },
+          { kind: 'text', field: null, text: 'live', negated: true },
+          { kind: 'range', field: 'year', min: 1955, max: 1960, negated: false }
+        ],
+        [{ kind: 'text', field: null, text: 'bebop', negated: false }]
+      ],
+      issues: []
+    })
+  })
+
+  it('keeps quotes inside words literal', () => {
+    expect(parseSearchQuery('12"').groups).toEqual([
+      [{ kind: 'text', field: null, text: '12"', negated: false }]
+    ])
+  })
+
+  it('reports problems and keeps the rest of the query', () => {
+    const { groups, issues } = parseSearchQuery(
+      'OR color: year:19x0 mood:calm "blue'
+    )
+
+    expect(issues).toEqual([
+      { type: 'unclosedQuote' },
+      { type: 'danglingOr' },
+      { type: 'missingValue', field: 'color' },
+      { type: 'invalidRange', field: 'year', value: '19x0' },
+      { type: 'unknownField', field: 'mood' }
+    ])
+    expect(groups).toEqual([
+      [
+        { kind: 'text', field: null, text: 'mood:calm', negated: false },
+        { kind: 'text', field: null, text: 'blue', negated: false }
+      ]
+    ])
+  })
+
+  it('rejects ratings outside 0-5', () => {
+    expect(parseSearchQuery('rating:>=7').issues).toEqual([
+      { type: 'invalidRange', field: 'rating', value: '>=7' }
+    ])
+  })
+})
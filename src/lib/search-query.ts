@@ -0,0 +1,252 @@
+// src/lib/search-query.ts
+/**
+ * Collection search syntax:
+ *
+ * - `blue train` - every word must appear in the artist or title
+ * - `"blue train"` - the exact phrase
+ * - `label:"blue note"`, `catno:`, `style:`, `genre:`, `country:`,
+ *   `color:`, `format:`, `notes:`, `artist:`, `title:` - search one field
+ * - `year:1970..1979`, `year:>=1970`, `year:..1969`, `rating:>=4`,
+ *   `rating:5` - numeric ranges (`..` is inclusive)
+ * - `-live`, `-style:"free jazz"` - leave out matches
+ * - `bebop OR hard bop` - either side; binds looser than the implicit AND,
+ *   so this is `bebop` or (`hard` and `bop`)
+ *
+ * Matching (see `search-index.ts`) ignores case and accents. Problems (an
+ * unknown field, an unclosed quote) are reported as issues, and the rest of
+ * the query still applies.
+ */
+
+const TEXT_FIELDS = [
+  'artist',
+  'title',
+  'label',
+  'catno',
+  'genre',
+  'style',
+  'country',
+  'color',
+  'format',
+  'notes'
+] as const
+
+const NUMERIC_FIELDS = ['year', 'rating'] as const
+
+export type TextField = (typeof TEXT_FIELDS)[number]
+type NumericField = (typeof NUMERIC_FIELDS)[number]
+
+/** Every field prefix the syntax knows, for hints */
+export const SEARCH_FIELDS: readonly string[] = [
+  ...TEXT_FIELDS,
+  ...NUMERIC_FIELDS
+]
+
+export type SearchTerm =
+  | {
+      kind: 'text'
+      /** Null searches artist and title */
+      field: TextField | null
+      text: string
+      negated: boolean
+    }
+  | {
+      kind: 'range'
+      field: NumericField
+      min: number
+      max: number
+      negated: boolean
+    }
+
+export type SearchQueryIssue =
+  | { type: 'unclosedQuote' }
+  | { type: 'danglingOr' }
+  | { type: 'unknownField'; field: string }
+  | { type: 'missingValue'; field: string }
+  | { type: 'invalidRange'; field: string; value: string }
+
+export interface ParsedSearchQuery {
+  /** Alternatives (OR) of terms that must all match (AND); empty matches all */
+  groups: SearchTerm[][]
+  issues: SearchQueryIssue[]
+}
+
+interface RawToken {
+  text: string
+  /** Field prefix, lowercased, if the token had one */
+  field: string | null
+  negated: boolean
+  quoted: boolean
+}
+
+const FIELD_PREFIX = /^([a-z]+):/i
+
+const isTextField = (field: string): field is TextField =>
+  (TEXT_FIELDS as readonly string[]).includes(field)
+
+const isNumericField = (field: string): field is NumericField =>
+  (NUMERIC_FIELDS as readonly string[]).includes(field)
+
+/**
+ * Splits a query into tokens. A `"` opens a phrase at the start of a word
+ * or right after a field prefix; elsewhere it is literal, so sizes like
+ * `12"` need no quoting.
+ */
+function tokenize(query: string, issues: SearchQueryIssue[]): RawToken[] {
+  const tokens: RawToken[] = []
+  let index = 0
+
+  while (index < query.length) {
+    while (index < query.length && /\s/.test(query.charAt(index))) index += 1
+    if (index >= query.length) break
+
+    let negated = false
+    if (query.charAt(index) === '-' && index + 1 < query.length) {
+      negated = !/\s/.test(query.charAt(index + 1))
+      if (negated) index += 1
+    }
+
+    let bare = ''
+    while (
+      index < query.length &&
+      !/\s/.test(query.charAt(index)) &&
+      !(query.charAt(index) === '"' && (bare === '' || bare.endsWith(':')))
+    ) {
+      bare += query.charAt(index)
+      index += 1
+    }
+
+    const prefix = FIELD_PREFIX.exec(bare)
+    const field = prefix?.[1]?.toLowerCase() ?? null
+    let text = prefix ? bare.slice(prefix[0].length) : bare
+    let quoted = false
+
+    if (query.charAt(index) === '"') {
+      const end = query.indexOf('"', index + 1)
+      if (end === -1) {
+        issues.push({ type: 'unclosedQuote' })
+        text = query.slice(index + 1)
+        index = query.length
+      } else {
+        text = query.slice(index + 1, end)
+        index = end + 1
+      }
+      quoted = true
+    }
+
+    tokens.push({ text, field, negated, quoted })
+  }
+
+  return tokens
+}
+
+/**
+ * Parses `1970`, `1970..1979`, `1970..`, `..1979`, `>=4`, `>3`, `<=1979`
+ * or `<1980` into an inclusive range.
+ */
+function parseRange(value: string): [number, number] | null {
+  const integer = (text: string) => (/^\d+$/.test(text) ? Number(text) : null)
+
+  const comparison = /^(>=|<=|>|<|=)?(\d+)$/.exec(value)
+  if (comparison) {
+    const number = Number(comparison[2])
+    switch (comparison[1]) {
+      case '>=':
+        return [number, Number.POSITIVE_INFINITY]
+      case '>':
+        return [number + 1, Number.POSITIVE_INFINITY]
+      case '<=':
+        return [Number.NEGATIVE_INFINITY, number]
+      case '<':
+        return [Number.NEGATIVE_INFINITY, number - 1]
+      default:
+        return [number, number]
+    }
+  }
+
+  const [start, end, ...rest] = value.split('..')
+  if (start === undefined || end === undefined || rest.length > 0) return null
+  if (start === '' && end === '') return null
+  const min = start === '' ? Number.NEGATIVE_INFINITY : integer(start)
+  const max = end === '' ? Number.POSITIVE_INFINITY : integer(end)
+  if (min === null || max === null) return null
+  return min <= max ? [min, max] : [max, min]
+}
+
+function toTerm(
+  token: RawToken,
+  issues: SearchQueryIssue[]
+): SearchTerm | null {
+  const { field, negated } = token
+  const text = token.text.trim()
+
+  if (field === null) {
+    return text ? { kind: 'text', field: null, text, negated } : null
+  }
+
+  if (!isTextField(field) && !isNumericField(field)) {
+    issues.push({ type: 'unknownField', field })
+    // Most likely a title with a colon ("Vol. 2: Live"); search it as text
+    const fullText = `${field}:${text}`
+    return { kind: 'text', field: null, text: fullText, negated }
+  }
+
+  if (!text) {
+    issues.push({ type: 'missingValue', field })
+    return null
+  }
+
+  if (isTextField(field)) {
+    return { kind: 'text', field, text, negated }
+  }
+
+  const range = parseRange(text)
+  if (!range || (field === 'rating' && (range[0] > 5 || range[1] < 0))) {
+    issues.push({ type: 'invalidRange', field, value: text })
+    return null
+  }
+  return { kind: 'range', field, min: range[0], max: range[1], negated }
+}
+
+/**
+ * Parses a collection search query (see the syntax at the top of this
+ * file). Never throws: malformed parts are reported in `issues` and left
+ * out or searched as plain text.
+ *
+ * @param query - Text from the search box
+ * @returns Terms to match with `rankReleases`, and any issues
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const issues: SearchQueryIssue[] = []
+  const groups: SearchTerm[][] = []
+  let group: SearchTerm[] = []
+  let pendingOr = false
+
+  for (const token of tokenize(query, issues)) {
+    const isOr =
+      token.text === 'OR' && !token.field && !token.negated && !token.quoted
+    if (isOr) {
+      if (group.length === 0 || pendingOr) {
+        issues.push({ type: 'danglingOr' })
+      } else {
+        groups.push(group)
+        group = []
+      }
+      pendingOr = true
+      continue
+    }
+
+    const term = toTerm(token, issues)
+    if (term) {
+      group.push(term)
+      pendingOr = false
+    }
+  }
+
+  if (group.length > 0) {
+    groups.push(group)
+  } else if (pendingOr) {
+    issues.push({ type: 'danglingOr' })
+  }
+
+  return { groups, issues }
+}
@@ -4,7 +4,7 @@
  * All storage keys should be defined here for consistency.
  */
 export const STORAGE_KEYS = {
-  /** localStorage (via Zustand): OAuth tokens, session state, username, userId, cachedProfile */
+  /** localStorage (via Zustand): session flags (tokens live in an HttpOnly cookie) */
   AUTH: 'vinyldeck-auth',
   /** localStorage (via Zustand): viewMode, avatarSource, gravatarEmail */
   PREFERENCES: 'vinyldeck-prefs',
@@ -19,17 +19,25 @@ export const STORAGE_KEYS = {
  */
 export const IDB_KEYS = {
   /** TanStack Query cache persistence */
-  QUERY_CACHE: 'vinyldeck-query-cache'
+  QUERY_CACHE: 'vinyldeck-query-cache',
+  /** Collection value snapshots for the value-over-time chart */
+  VALUE_HISTORY: 'vinyldeck-value-history'
 } as const
 
 /**
- * Session storage keys for temporary OAuth flow state.
+ * Session storage keys for temporary OAuth flow and navigation state.
  */
 export const SESSION_KEYS = {
   /** Temporary OAuth request token during authorization */
   OAUTH_REQUEST: 'vinyldeck-oauth-request',
   /** Temporary OAuth request token secret during authorization */
   OAUTH_REQUEST_SECRET: 'vinyldeck-oauth-request-secret',
+  /** Signed OAuth state issued with the request token */
+  OAUTH_STATE: 'vinyldeck-oauth-state',
+  /** Last request token exchanged, to recognise a replayed callback */
+  OAUTH_USED_TOKEN: 'vinyldeck-oauth-used-token',
   /** Post-login redirect URL preservation */
-  REDIRECT_URL: 'vinyldeck-redirect'
+  REDIRECT_URL: 'vinyldeck-redirect',
+  /** First visible item of scrolling lists, per history entry */
+  LIST_POSITIONS: 'vinyldeck-list-positions'
 } as const
@@ -1,4 +1,9 @@
-import { createTRPCReact, httpBatchLink } from '@trpc/react-query'
+import {
+  createTRPCReact,
+  httpBatchLink,
+  httpBatchStreamLink,
+  splitLink
+} from '@trpc/react-query'
 
 import type { AppRouter } from '@/server/trpc/index.ts'
 
@@ -14,6 +19,13 @@ import type { AppRouter } from '@/server/trpc/index.ts'
  */
 export const trpc = createTRPCReact<AppRouter>()
 
+/**
+ * Procedures that stream their result (async generators). They go through
+ * httpBatchStreamLink; everything else stays on httpBatchLink, which can set
+ * response headers and status codes per request.
+ */
+const STREAMING_PROCEDURES = new Set(['discogs.getFullCollection'])
+
 /**
  * Get the tRPC client links configuration.
  * Uses httpBatchLink to batch multiple requests together.
@@ -29,15 +41,17 @@ function getBaseUrl() {
  * Creates a tRPC client for use outside of React components.
  * This is useful for calling tRPC procedures in non-React contexts.
  *
- * Uses methodOverride: 'POST' to send all queries as POST requests,
- * keeping OAuth tokens in request body instead of URL parameters.
+ * Requests carry no credentials of their own: the server reads the OAuth
+ * tokens from the HttpOnly session cookie, which same-origin fetches send
+ * automatically.
  */
 export function createTRPCClient(): ReturnType<typeof trpc.createClient> {
   return trpc.createClient({
     links: [
-      httpBatchLink({
-        url: `${getBaseUrl()}/api/trpc`,
-        methodOverride: 'POST' // Send all queries as POST for security
+      splitLink({
+        condition: (op) => STREAMING_PROCEDURES.has(op.path),
+        true: httpBatchStreamLink({ url: `${getBaseUrl()}/api/trpc` }),
+        false: httpBatchLink({ url: `${getBaseUrl()}/api/trpc` })
       })
     ]
   })
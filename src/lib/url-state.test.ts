@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+
+import { readParamInteger, readParamRange } from '@/lib/url-state'
+
+const params = (search: string) => new URLSearchParams(search)
+
+describe('readParamRange', () => {
+  it('reads a start-end range', () => {
+    expect(readParamRange(params('year=1970-1989'), 'year')).toEqual([
+      1970, 1989
+    ])
+  })
+
+  it('swaps a reversed range', () => {
+    expect(readParamRange(params('year=1989-1970'), 'year')).toEqual([
+      1970, 1989
+    ])
+  })
+
+  it('reads signed and decimal bounds', () => {
+    expect(readParamRange(params('price=-1.5-2.25'), 'price')).toEqual([
+      -1.5, 2.25
+    ])
+  })
+
+  it('returns null for missing or malformed values', () => {
+    expect(readParamRange(params(''), 'year')).toBeNull()
+    expect(readParamRange(params('year=1970'), 'year')).toBeNull()
+    expect(readParamRange(params('year=1970-'), 'year')).toBeNull()
+    expect(readParamRange(params('year=abc-def'), 'year')).toBeNull()
+  })
+})
+
+describe('readParamInteger', () => {
+  it('reads non-negative integers only', () => {
+    expect(readParamInteger(params('page=3'), 'page')).toBe(3)
+    expect(readParamInteger(params('page=-3'), 'page')).toBeNull()
+    expect(readParamInteger(params('page=1.5'), 'page')).toBeNull()
+    expect(readParamInteger(params(''), 'page')).toBeNull()
+  })
+})
@@ -8,6 +8,15 @@ export const readSearchParams = (): URLSearchParams =>
 export const readParamList = (params: URLSearchParams, key: string): string[] =>
   params.getAll(key)
 
+export const readParamInteger = (
+  params: URLSearchParams,
+  key: string
+): number | null => {
+  const value = params.get(key)
+  if (!value || !/^\d+$/.test(value)) return null
+  return Number(value)
+}
+
 export const readParamRange = (
   params: URLSearchParams,
   key: string
@@ -49,6 +58,10 @@ export const updateSearchParams = (
   const nextUrl = search
     ? `${window.location.pathname}?${search}${window.location.hash}`
     : `${window.location.pathname}${window.location.hash}`
-  const method = options.replace === false ? 'pushState' : 'replaceState'
-  window.history[method](null, '', nextUrl)
+  if (options.replace === false) {
+    window.history.pushState(null, '', nextUrl)
+  } else {
+    // Keep the router's entry key, which scroll positions are saved under
+    window.history.replaceState(window.history.state, '', nextUrl)
+  }
 }
@@ -0,0 +1,102 @@
+// src/lib/value-history.ts
+import { del, get, update } from 'idb-keyval'
+
+import type { DiscogsCollectionValue, DiscogsCurrency } from '@/types/discogs'
+
+import { IDB_KEYS } from './storage-keys'
+
+/**
+ * A single collection value reading, stored in IndexedDB.
+ * Figures are parsed to numbers so they can be charted.
+ */
+export interface ValueSnapshot {
+  username: string
+  /** Epoch milliseconds when the value was fetched */
+  takenAt: number
+  currency: DiscogsCurrency | null
+  minimum: number
+  median: number
+  maximum: number
+}
+
+/** Upper bound on stored snapshots across all users (oldest dropped first) */
+const MAX_SNAPSHOTS = 1000
+
+/**
+ * Parses a Discogs collection value string such as "$1,234.56" or
+ * "€1,234.56". Discogs always uses comma thousands separators and a dot
+ * decimal separator, independent of currency.
+ *
+ * @param value - Preformatted value string from the API
+ * @returns The numeric value, or 0 if it cannot be parsed
+ */
+export function parseCollectionValue(value: string): number {
+  const parsed = Number.parseFloat(value.replace(/[^\d.-]/g, ''))
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+/**
+ * Reads the stored value snapshots for a user, oldest first.
+ * Errors (private browsing, corrupted storage) yield an empty history.
+ *
+ * @param username - Discogs username
+ * @returns Snapshots sorted by takenAt ascending
+ */
+export async function readValueHistory(
+  username: string
+): Promise<ValueSnapshot[]> {
+  try {
+    const snapshots = await get<ValueSnapshot[]>(IDB_KEYS.VALUE_HISTORY)
+    return (snapshots ?? [])
+      .filter((snapshot) => snapshot.username === username)
+      .sort((a, b) => a.takenAt - b.takenAt)
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Stores a snapshot of a freshly fetched collection value.
+ * Errors are ignored; the value page still works without history.
+ *
+ * @param username - Discogs username the value belongs to
+ * @param value - Collection value as returned by the API
+ * @param currency - The user's marketplace currency, if known
+ * @returns The snapshot that was stored
+ */
+export async function appendValueSnapshot(
+  username: string,
+  value: DiscogsCollectionValue,
+  currency: DiscogsCurrency | null
+): Promise<ValueSnapshot> {
+  const snapshot: ValueSnapshot = {
+    username,
+    takenAt: Date.now(),
+    currency,
+    minimum: parseCollectionValue(value.minimum),
+    median: parseCollectionValue(value.median),
+    maximum: parseCollectionValue(value.maximum)
+  }
+
+  try {
+    await update<ValueSnapshot[]>(IDB_KEYS.VALUE_HISTORY, (existing) =>
+      [...(existing ?? []), snapshot].slice(-MAX_SNAPSHOTS)
+    )
+  } catch {
+    // Ignore persistence errors - the current value is still shown
+  }
+
+  return snapshot
+}
+
+/**
+ * Removes all stored value snapshots. Called when caches are cleared on
+ * disconnect.
+ */
+export async function clearValueHistory(): Promise<void> {
+  try {
+    await del(IDB_KEYS.VALUE_HISTORY)
+  } catch {
+    // Ignore removal errors
+  }
+}
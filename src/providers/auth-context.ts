@@ -1,7 +1,5 @@
 import { createContext } from 'react'
 
-import type { OAuthTokens } from '@/types/discogs'
-
 /**
  * Authentication state managed by AuthProvider.
  *
@@ -14,10 +12,8 @@ export interface AuthState {
   isLoading: boolean
   /** Whether the browser is currently online */
   isOnline: boolean
-  /** Whether OAuth tokens exist in storage (even if session inactive) */
-  hasStoredTokens: boolean
-  /** Current OAuth tokens if authenticated, null otherwise */
-  oauthTokens: OAuthTokens | null
+  /** Whether a session cookie was issued (even if session inactive) */
+  hasStoredSession: boolean
 }
 
 /**
@@ -27,29 +23,27 @@ export interface AuthState {
  */
 export interface AuthContextValue extends AuthState {
   /**
-   * Validates OAuth tokens only (does not fetch profile).
+   * Validates the session cookie only (does not fetch profile).
    * Use for page load validation when online.
    *
-   * @param tokens - Optional tokens to validate. If not provided, reads from storage.
    * @returns Promise that resolves when validation completes
    */
-  validateOAuthTokens: (tokens?: OAuthTokens) => Promise<void>
+  validateSession: () => Promise<void>
   /**
-   * Establishes a full session: validates tokens and fetches profile.
-   * Use for login, "Continue" click, and reconnect scenarios.
+   * Establishes a full session: validates the session cookie and fetches
+   * profile. Use for login, "Continue" click, and reconnect scenarios.
    *
-   * @param tokens - Optional tokens to use. If not provided, reads from storage.
    * @returns Promise that resolves when session is established
    */
-  establishSession: (tokens?: OAuthTokens) => Promise<void>
+  establishSession: () => Promise<void>
   /**
-   * Sign out - ends session but preserves OAuth tokens.
+   * Sign out - ends session but preserves the session cookie.
    * User will see "Welcome back" flow on next login.
    */
   signOut: () => void
   /**
    * Disconnect - fully removes Discogs authorization.
-   * Clears all tokens, profile cache, and IndexedDB data.
+   * Clears the session cookie, profile cache, and IndexedDB data.
    * User will need to re-authorize with Discogs on next login.
    */
   disconnect: () => void
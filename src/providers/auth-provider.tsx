@@ -20,6 +20,7 @@ import { CACHE_NAMES } from '@/lib/constants'
 import { isAuthError, OfflineNoCacheError } from '@/lib/errors'
 import { queryPersister } from '@/lib/query-persister'
 import { trpc } from '@/lib/trpc'
+import { clearValueHistory } from '@/lib/value-history'
 import { useAuthStore } from '@/stores/auth-store'
 
 import { AuthContext, type AuthState } from './auth-context'
@@ -30,7 +31,7 @@ interface AuthProviderProps {
 
 /**
  * Provides authentication state and methods to the app.
- * Handles OAuth token validation, session management, and cross-tab sync.
+ * Handles session validation, session management, and cross-tab sync.
  *
  * @param props - Component props
  * @param props.children - The app component tree
@@ -50,9 +51,9 @@ export function AuthProvider({
   const latestGravatarEmailRef = useRef(gravatarEmail)
 
   // Subscribe to Zustand auth store
-  const authTokens = useAuthStore((state) => state.tokens)
+  const hasSession = useAuthStore((state) => state.hasSession)
   const sessionActive = useAuthStore((state) => state.sessionActive)
-  const setTokens = useAuthStore((state) => state.setTokens)
+  const setHasSession = useAuthStore((state) => state.setHasSession)
   const setSessionActive = useAuthStore((state) => state.setSessionActive)
   const signOutStore = useAuthStore((state) => state.signOut)
   const disconnectStore = useAuthStore((state) => state.disconnect)
@@ -64,14 +65,11 @@ export function AuthProvider({
   const isRestoring = useIsRestoring()
 
   // User profile from TanStack Query
-  const { fetchProfile, clearProfile } = useUserProfile()
+  const { fetchProfile } = useUserProfile()
 
   // Query client for cache management
   const queryClient = useQueryClient()
 
-  // Track previous tokens to detect changes (for cross-account leakage prevention)
-  const prevTokensRef = useRef(authTokens)
-
   // Track if we've completed initialization to avoid repeated network validation
   const hasInitializedRef = useRef(false)
 
@@ -88,8 +86,7 @@ export function AuthProvider({
     isAuthenticated: false,
     isLoading: true,
     isOnline: true,
-    hasStoredTokens: false,
-    oauthTokens: null
+    hasStoredSession: false
   })
 
   // Get tRPC utils for direct client access
@@ -104,45 +101,32 @@ export function AuthProvider({
     setState((prev) => ({ ...prev, isOnline }))
   }, [isOnline])
 
-  // Update hasStoredTokens in state
+  // Update hasStoredSession in state
   useEffect(() => {
-    setState((prev) => ({ ...prev, hasStoredTokens: authTokens !== null }))
-  }, [authTokens])
-
-  // Clear stale profile if tokens change without disconnect (prevents cross-account leakage)
-  useEffect(() => {
-    if (
-      prevTokensRef.current &&
-      authTokens &&
-      (prevTokensRef.current.accessToken !== authTokens.accessToken ||
-        prevTokensRef.current.accessTokenSecret !==
-          authTokens.accessTokenSecret)
-    ) {
-      // Tokens changed without disconnect - clear stale profile and require re-validation
-      clearProfile()
-      hasInitializedRef.current = false
-    }
-    prevTokensRef.current = authTokens
-  }, [authTokens, clearProfile])
+    setState((prev) => ({ ...prev, hasStoredSession: hasSession }))
+  }, [hasSession])
 
   /**
-   * Validates OAuth tokens by fetching identity from the server.
+   * Validates the session cookie by fetching identity from the server.
    * Does NOT fetch profile - use establishSession for that.
    */
-  const validateTokens = useCallback(
-    async (tokens: {
-      accessToken: string
-      accessTokenSecret: string
-    }): Promise<{ username: string; id: number }> => {
-      const identityResult = await trpcUtils.client.discogs.getIdentity.query({
-        accessToken: tokens.accessToken,
-        accessTokenSecret: tokens.accessTokenSecret
-      })
+  const fetchIdentity = useCallback(async (): Promise<{
+    username: string
+    id: number
+  }> => {
+    const identityResult = await trpcUtils.client.discogs.getIdentity.query()
+    return identityResult.identity
+  }, [trpcUtils.client.discogs.getIdentity])
 
-      return identityResult.identity
-    },
-    [trpcUtils.client.discogs.getIdentity]
-  )
+  /**
+   * Expires the session cookie on the server. Best effort: the cookie is
+   * unusable without the local session anyway.
+   */
+  const clearSessionCookie = useCallback(() => {
+    trpcUtils.client.oauth.clearSession.mutate().catch(() => {
+      // Ignore - e.g. offline; the next sign-in replaces the cookie
+    })
+  }, [trpcUtils.client.oauth.clearSession])
 
   /**
    * Clears all cached data: TanStack Query, IndexedDB, and browser caches.
@@ -160,6 +144,7 @@ export function AuthProvider({
 
       // Clear IndexedDB via the persister (errors handled internally)
       void queryPersister.removeClient()
+      void clearValueHistory()
 
       // Clear browser caches for sensitive data
       if ('caches' in window) {
@@ -173,94 +158,87 @@ export function AuthProvider({
   }, [queryClient])
 
   /**
-   * Validates OAuth tokens in the background without affecting loading state.
+   * Validates the session in the background without affecting loading state.
    * Used for optimistic auth - user sees authenticated UI immediately,
    * validation happens silently. Only disconnects on definitive auth errors (401/403).
    */
-  const validateTokensInBackground = useCallback(
-    (tokens: { accessToken: string; accessTokenSecret: string }) => {
-      void (async () => {
-        try {
-          const identity = await validateTokens(tokens)
-          // Tokens valid - ensure profile is cached
-          const cachedProfile = queryClient.getQueryData<UserProfile>(
-            USER_PROFILE_QUERY_KEY
-          )
-          if (!cachedProfile) {
-            try {
-              const userProfile = await fetchProfile(identity.username, tokens)
-              if (!latestGravatarEmailRef.current && userProfile.email) {
-                latestGravatarEmailRef.current = userProfile.email
-                setGravatarEmail(userProfile.email)
-              }
-            } catch {
-              // Profile fetch failed but tokens are valid - set minimal profile
-              const minimalProfile: UserProfile = {
-                id: identity.id,
-                username: identity.username
-              }
-              queryClient.setQueryData(USER_PROFILE_QUERY_KEY, minimalProfile)
+  const validateSessionInBackground = useCallback(() => {
+    void (async () => {
+      try {
+        const identity = await fetchIdentity()
+        // Session valid - ensure profile is cached
+        const cachedProfile = queryClient.getQueryData<UserProfile>(
+          USER_PROFILE_QUERY_KEY
+        )
+        if (!cachedProfile) {
+          try {
+            const userProfile = await fetchProfile(identity.username)
+            if (!latestGravatarEmailRef.current && userProfile.email) {
+              latestGravatarEmailRef.current = userProfile.email
+              setGravatarEmail(userProfile.email)
             }
+          } catch {
+            // Profile fetch failed but session is valid - set minimal profile
+            const minimalProfile: UserProfile = {
+              id: identity.id,
+              username: identity.username
+            }
+            queryClient.setQueryData(USER_PROFILE_QUERY_KEY, minimalProfile)
           }
-        } catch (error: unknown) {
-          // Only disconnect on auth errors (401/403) - tokens are definitively invalid
-          if (isAuthError(error)) {
-            disconnectStore()
-            clearAllCaches()
-            setState({
-              isAuthenticated: false,
-              isLoading: false,
-              isOnline: isOnlineRef.current,
-              hasStoredTokens: false,
-              oauthTokens: null
-            })
-          }
-          // Transient errors are silently ignored - user stays authenticated
-          // and we'll retry on next opportunity (window focus, etc.)
         }
-      })()
-    },
-    [
-      validateTokens,
-      queryClient,
-      fetchProfile,
-      setGravatarEmail,
-      disconnectStore,
-      clearAllCaches
-    ]
-  )
+      } catch (error: unknown) {
+        // Only disconnect on auth errors (401/403) - session is definitively invalid
+        if (isAuthError(error)) {
+          disconnectStore()
+          clearSessionCookie()
+          clearAllCaches()
+          setState({
+            isAuthenticated: false,
+            isLoading: false,
+            isOnline: isOnlineRef.current,
+            hasStoredSession: false
+          })
+        }
+        // Transient errors are silently ignored - user stays authenticated
+        // and we'll retry on next opportunity (window focus, etc.)
+      }
+    })()
+  }, [
+    fetchIdentity,
+    queryClient,
+    fetchProfile,
+    setGravatarEmail,
+    disconnectStore,
+    clearSessionCookie,
+    clearAllCaches
+  ])
 
   /**
-   * Core auth validation flow shared by validateOAuthTokens and establishSession.
-   * Validates tokens, handles errors, fetches profile, and updates session state.
+   * Core auth validation flow shared by validateSession and establishSession.
+   * Validates the session, handles errors, fetches profile, and updates session state.
    *
-   * @param tokens - OAuth tokens to validate
    * @param options.forceProfileRefresh - Always fetch profile even if cached
-   * @param options.storeTokens - Whether to persist tokens to store
    */
   const performAuthValidation = useCallback(
-    async (
-      tokens: { accessToken: string; accessTokenSecret: string },
-      options: { forceProfileRefresh: boolean; storeTokens: boolean }
-    ): Promise<void> => {
-      // Step 1: Validate tokens
+    async (options: { forceProfileRefresh: boolean }): Promise<void> => {
+      // Step 1: Validate session
       let identity: { username: string; id: number }
       try {
-        identity = await validateTokens(tokens)
+        identity = await fetchIdentity()
       } catch (error) {
-        // Only disconnect on auth errors (401/403) - tokens are definitively invalid
+        // Only disconnect on auth errors (401/403) - session is definitively invalid
         if (isAuthError(error)) {
           disconnectStore()
+          clearSessionCookie()
           clearAllCaches()
           setState({
             isAuthenticated: false,
             isLoading: false,
             isOnline: isOnlineRef.current,
-            hasStoredTokens: false,
-            oauthTokens: null
+            hasStoredSession: false
           })
         } else {
-          // Transient error (network, 5xx) - keep tokens, try to use cached state
+          // Transient error (network, 5xx) - keep session, try to use cached state
           console.warn(
             'Token validation failed due to transient error, will retry later:',
             error
@@ -271,24 +249,22 @@ export function AuthProvider({
             USER_PROFILE_QUERY_KEY
           )
           if (cachedProfile) {
-            if (options.storeTokens) {
-              setTokens(tokens)
-            }
+            setHasSession(true)
             setSessionActive(true)
             setState((prev) => ({
               ...prev,
               isAuthenticated: true,
-              isLoading: false,
-              oauthTokens: tokens
+              isLoading: false
             }))
             return
           }
 
-          // No cached profile - can't authenticate, but keep tokens for retry
+          // No cached profile - can't authenticate, but keep session for retry
+          setHasSession(true)
           setState((prev) => ({
             ...prev,
             isLoading: false,
-            hasStoredTokens: true
+            hasStoredSession: true
           }))
         }
         throw error
@@ -300,13 +276,13 @@ export function AuthProvider({
       )
       if (options.forceProfileRefresh || !cachedProfile) {
         try {
-          const userProfile = await fetchProfile(identity.username, tokens)
+          const userProfile = await fetchProfile(identity.username)
           if (!latestGravatarEmailRef.current && userProfile.email) {
             latestGravatarEmailRef.current = userProfile.email
             setGravatarEmail(userProfile.email)
           }
         } catch (profileError) {
-          // Profile fetch failed but tokens are valid - set minimal profile
+          // Profile fetch failed but session is valid - set minimal profile
           console.warn(
             'Profile fetch failed, using identity data:',
             profileError
@@ -320,140 +296,100 @@ export function AuthProvider({
       }
 
       // Step 3: Finalize session
-      if (options.storeTokens) {
-        setTokens(tokens)
-      }
+      setHasSession(true)
       setSessionActive(true)
       setState((prev) => ({
         ...prev,
         isAuthenticated: true,
-        isLoading: false,
-        oauthTokens: tokens
+        isLoading: false
       }))
     },
     [
-      validateTokens,
+      fetchIdentity,
       disconnectStore,
+      clearSessionCookie,
       clearAllCaches,
       queryClient,
       fetchProfile,
       setGravatarEmail,
-      setTokens,
+      setHasSession,
       setSessionActive
     ]
   )
 
   /**
-   * Validates OAuth tokens in the background.
-   * Called on page load when online to verify tokens are still valid.
+   * Validates the session cookie.
+   * Called on page load when online to verify the session is still valid.
    * Only fetches profile if not already cached.
    */
-  const validateOAuthTokens = useCallback(
-    async (tokens?: {
-      accessToken: string
-      accessTokenSecret: string
-    }): Promise<void> => {
-      const tokensToValidate = tokens ?? authTokens
-      if (!tokensToValidate) {
-        throw new Error('No OAuth tokens found')
-      }
-
-      setState((prev) => ({ ...prev, isLoading: true }))
-      await performAuthValidation(tokensToValidate, {
-        forceProfileRefresh: false,
-        storeTokens: Boolean(tokens)
-      })
-    },
-    [authTokens, performAuthValidation]
-  )
+  const validateSession = useCallback(async (): Promise<void> => {
+    setState((prev) => ({ ...prev, isLoading: true }))
+    await performAuthValidation({ forceProfileRefresh: false })
+  }, [performAuthValidation])
 
   /**
-   * Establishes a full session: validates tokens and fetches fresh profile.
-   * Called on login, "Continue" click, and reconnect.
+   * Establishes a full session: validates the session cookie and fetches
+   * fresh profile. Called on login (once the OAuth callback has set the
+   * cookie), "Continue" click, and reconnect.
    *
    * OFFLINE BEHAVIOR: If offline and cached profile exists, trusts cached
    * state without network validation. If offline with no cached profile,
    * throws OfflineNoCacheError.
    */
-  const establishSession = useCallback(
-    async (tokens?: {
-      accessToken: string
-      accessTokenSecret: string
-    }): Promise<void> => {
-      const tokensToUse = tokens ?? authTokens
-      if (!tokensToUse) {
-        throw new Error('No OAuth tokens found')
-      }
+  const establishSession = useCallback(async (): Promise<void> => {
+    setState((prev) => ({ ...prev, isLoading: true }))
 
-      setState((prev) => ({ ...prev, isLoading: true }))
-
-      // OFFLINE PATH: trust cached state if available
-      if (!isOnline) {
-        const cachedProfile = queryClient.getQueryData<UserProfile>(
-          USER_PROFILE_QUERY_KEY
-        )
-        if (!cachedProfile) {
-          setState((prev) => ({ ...prev, isLoading: false }))
-          throw new OfflineNoCacheError()
-        }
-
-        if (tokens) setTokens(tokens)
-        setSessionActive(true)
-        setState((prev) => ({
-          ...prev,
-          isAuthenticated: true,
-          isLoading: false,
-          oauthTokens: tokensToUse
-        }))
-        return
+    // OFFLINE PATH: trust cached state if available
+    if (!isOnline) {
+      const cachedProfile = queryClient.getQueryData<UserProfile>(
+        USER_PROFILE_QUERY_KEY
+      )
+      if (!cachedProfile) {
+        setState((prev) => ({ ...prev, isLoading: false }))
+        throw new OfflineNoCacheError()
       }
 
-      // ONLINE PATH: validate and fetch fresh profile
-      await performAuthValidation(tokensToUse, {
-        forceProfileRefresh: true,
-        storeTokens: Boolean(tokens)
-      })
-    },
-    [
-      authTokens,
-      isOnline,
-      queryClient,
-      setTokens,
-      setSessionActive,
-      performAuthValidation
-    ]
-  )
+      setSessionActive(true)
+      setState((prev) => ({
+        ...prev,
+        isAuthenticated: true,
+        isLoading: false
+      }))
+      return
+    }
+
+    // ONLINE PATH: validate and fetch fresh profile
+    await performAuthValidation({ forceProfileRefresh: true })
+  }, [isOnline, queryClient, setSessionActive, performAuthValidation])
 
   // Initialize auth - Zustand hydrates synchronously from localStorage,
-  // so we can be optimistic immediately if tokens + sessionActive exist
+  // so we can be optimistic immediately if hasSession + sessionActive exist
   useEffect(() => {
     // Skip re-initialization if already initialized
     if (hasInitializedRef.current && state.isAuthenticated) {
       return
     }
 
-    // No tokens - user is not authenticated
-    if (!authTokens) {
+    // No session - user is not authenticated
+    if (!hasSession) {
       hasInitializedRef.current = false
       setState({
         isAuthenticated: false,
         isLoading: false,
         isOnline,
-        hasStoredTokens: false,
-        oauthTokens: null
+        hasStoredSession: false
       })
       return
     }
 
-    // Tokens exist but session not active - show "Welcome back" flow
+    // Session cookie exists but session not active - show "Welcome back" flow
     if (!sessionActive) {
       hasInitializedRef.current = false
       setState({
         isAuthenticated: false,
         isLoading: false,
         isOnline,
-        hasStoredTokens: true,
-        oauthTokens: null
+        hasStoredSession: true
       })
       return
     }
@@ -478,35 +414,33 @@ export function AuthProvider({
           isAuthenticated: false,
           isLoading: false,
           isOnline,
-          hasStoredTokens: true,
-          oauthTokens: null
+          hasStoredSession: true
         })
         return
       }
     }
 
-    // OPTIMISTIC AUTH: tokens + sessionActive = authenticate immediately
+    // OPTIMISTIC AUTH: hasSession + sessionActive = authenticate immediately
     // Profile will load from IndexedDB in background, components handle their own loading
     hasInitializedRef.current = true
     setState({
       isAuthenticated: true,
       isLoading: false,
       isOnline,
-      hasStoredTokens: true,
-      oauthTokens: authTokens
+      hasStoredSession: true
     })
 
-    // If online, validate tokens in background (user won't see a loader)
+    // If online, validate session in background (user won't see a loader)
     // If validation fails (401/403), user will be disconnected
     if (isOnline) {
-      validateTokensInBackground(authTokens)
+      validateSessionInBackground()
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps -- Network validation guarded by hasInitializedRef; isRestoring and queryClient are stable refs
-  }, [authTokens, sessionActive, isOnline, isRestoring])
+  }, [hasSession, sessionActive, isOnline, isRestoring])
 
   // Sync derived auth state when Zustand store changes (cross-tab sync)
   useCrossTabAuthSync({
-    authTokens,
+    hasSession,
     sessionActive,
     isRestoring,
     state,
@@ -514,7 +448,7 @@ export function AuthProvider({
     onCrossTabDisconnect: clearAllCaches
   })
 
-  // Revalidate tokens when coming back online (background validation, no loader)
+  // Revalidate session when coming back online (background validation, no loader)
   useEffect(() => {
     const wasOffline = !wasOnlineRef.current
     wasOnlineRef.current = isOnline
@@ -525,20 +459,20 @@ export function AuthProvider({
       isOnline &&
       sessionActive &&
       state.isAuthenticated &&
-      authTokens
+      hasSession
     ) {
-      validateTokensInBackground(authTokens)
+      validateSessionInBackground()
     }
   }, [
     isOnline,
     sessionActive,
     state.isAuthenticated,
-    authTokens,
-    validateTokensInBackground
+    hasSession,
+    validateSessionInBackground
   ])
 
   /**
-   * Sign out - ends session but preserves OAuth tokens.
+   * Sign out - ends session but preserves the session cookie.
    * User will see "Welcome back" flow on next login.
    */
   const signOut = useCallback((): void => {
@@ -547,38 +481,37 @@ export function AuthProvider({
     setState((prev) => ({
       ...prev,
       isAuthenticated: false,
-      isLoading: false,
-      oauthTokens: null
+      isLoading: false
     }))
   }, [signOutStore])
 
   /**
    * Disconnect - fully removes Discogs authorization.
-   * Clears all tokens, profile cache, and IndexedDB data.
+   * Clears the session cookie, profile cache, and IndexedDB data.
    */
   const disconnect = useCallback((): void => {
-    // Store's disconnect() handles token and preference cleanup
+    // Store's disconnect() handles session flag and preference cleanup
     disconnectStore()
+    clearSessionCookie()
     clearAllCaches()
 
     setState({
       isAuthenticated: false,
       isLoading: false,
       isOnline: isOnlineRef.current,
-      hasStoredTokens: false,
-      oauthTokens: null
+      hasStoredSession: false
     })
-  }, [disconnectStore, clearAllCaches])
+  }, [disconnectStore, clearSessionCookie, clearAllCaches])
 
   const value = useMemo(
     () => ({
       ...state,
-      validateOAuthTokens,
+      validateSession,
       establishSession,
       signOut,
       disconnect
     }),
-    [state, validateOAuthTokens, establishSession, signOut, disconnect]
+    [state, validateSession, establishSession, signOut, disconnect]
   )
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
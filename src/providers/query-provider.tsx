@@ -54,6 +54,16 @@ const persistOptions = {
       if (Array.isArray(key) && key[1] === 'getCollectionMetadata') {
         return false
       }
+
+      // Exclude value history - it has its own IndexedDB key
+      if (key === 'collectionValueHistory') {
+        return false
+      }
+
+      // Exclude sync diffs - derived from the metadata poll, which isn't persisted
+      if (key === 'collectionSync') {
+        return false
+      }
       return true
     }
   }
@@ -13,8 +13,13 @@ import { Route as OauthCallbackRouteImport } from './routes/oauth-callback'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as AuthenticatedRouteImport } from './routes/_authenticated'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as AuthenticatedWantlistRouteImport } from './routes/_authenticated/wantlist'
 import { Route as AuthenticatedSettingsRouteImport } from './routes/_authenticated/settings'
+import { Route as AuthenticatedSearchRouteImport } from './routes/_authenticated/search'
+import { Route as AuthenticatedCollectionValueRouteImport } from './routes/_authenticated/collection-value'
 import { Route as AuthenticatedCollectionRouteImport } from './routes/_authenticated/collection'
+import { Route as AuthenticatedMasterMasterIdRouteImport } from './routes/_authenticated/master.$masterId'
+import { Route as AuthenticatedCollectionInstanceIdRouteImport } from './routes/_authenticated/collection_.$instanceId'
 
 const OauthCallbackRoute = OauthCallbackRouteImport.update({
   id: '/oauth-callback',
@@ -35,30 +40,68 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AuthenticatedWantlistRoute = AuthenticatedWantlistRouteImport.update({
+  id: '/wantlist',
+  path: '/wantlist',
+  getParentRoute: () => AuthenticatedRoute,
+} as any)
 const AuthenticatedSettingsRoute = AuthenticatedSettingsRouteImport.update({
   id: '/settings',
   path: '/settings',
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const AuthenticatedSearchRoute = AuthenticatedSearchRouteImport.update({
+  id: '/search',
+  path: '/search',
+  getParentRoute: () => AuthenticatedRoute,
+} as any)
+const AuthenticatedCollectionValueRoute =
+  AuthenticatedCollectionValueRouteImport.update({
+    id: '/collection-value',
+    path: '/collection-value',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 const AuthenticatedCollectionRoute = AuthenticatedCollectionRouteImport.update({
   id: '/collection',
   path: '/collection',
   getParentRoute: () => AuthenticatedRoute,
 } as any)
+const AuthenticatedMasterMasterIdRoute =
+  AuthenticatedMasterMasterIdRouteImport.update({
+    id: '/master/$masterId',
+    path: '/master/$masterId',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
+const AuthenticatedCollectionInstanceIdRoute =
+  AuthenticatedCollectionInstanceIdRouteImport.update({
+    id: '/collection_/$instanceId',
+    path: '/collection/$instanceId',
+    getParentRoute: () => AuthenticatedRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/login': typeof LoginRoute
   '/oauth-callback': typeof OauthCallbackRoute
   '/collection': typeof AuthenticatedCollectionRoute
+  '/collection-value': typeof AuthenticatedCollectionValueRoute
+  '/search': typeof AuthenticatedSearchRoute
   '/settings': typeof AuthenticatedSettingsRoute
+  '/wantlist': typeof AuthenticatedWantlistRoute
+  '/collection/$instanceId': typeof AuthenticatedCollectionInstanceIdRoute
+  '/master/$masterId': typeof AuthenticatedMasterMasterIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/login': typeof LoginRoute
   '/oauth-callback': typeof OauthCallbackRoute
   '/collection': typeof AuthenticatedCollectionRoute
+  '/collection-value': typeof AuthenticatedCollectionValueRoute
+  '/search': typeof AuthenticatedSearchRoute
   '/settings': typeof AuthenticatedSettingsRoute
+  '/wantlist': typeof AuthenticatedWantlistRoute
+  '/collection/$instanceId': typeof AuthenticatedCollectionInstanceIdRoute
+  '/master/$masterId': typeof AuthenticatedMasterMasterIdRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
@@ -67,13 +110,38 @@ export interface FileRoutesById {
   '/login': typeof LoginRoute
   '/oauth-callback': typeof OauthCallbackRoute
   '/_authenticated/collection': typeof AuthenticatedCollectionRoute
+  '/_authenticated/collection-value': typeof AuthenticatedCollectionValueRoute
+  '/_authenticated/search': typeof AuthenticatedSearchRoute
   '/_authenticated/settings': typeof AuthenticatedSettingsRoute
+  '/_authenticated/wantlist': typeof AuthenticatedWantlistRoute
+  '/_authenticated/collection_/$instanceId': typeof AuthenticatedCollectionInstanceIdRoute
+  '/_authenticated/master/$masterId': typeof AuthenticatedMasterMasterIdRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/login' | '/oauth-callback' | '/collection' | '/settings'
+  fullPaths:
+    | '/'
+    | '/login'
+    | '/oauth-callback'
+    | '/collection'
+    | '/collection-value'
+    | '/search'
+    | '/settings'
+    | '/wantlist'
+    | '/collection/$instanceId'
+    | '/master/$masterId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/login' | '/oauth-callback' | '/collection' | '/settings'
+  to:
+    | '/'
+    | '/login'
+    | '/oauth-callback'
+    | '/collection'
+    | '/collection-value'
+    | '/search'
+    | '/settings'
+    | '/wantlist'
+    | '/collection/$instanceId'
+    | '/master/$masterId'
   id:
     | '__root__'
     | '/'
@@ -81,7 +149,12 @@ export interface FileRouteTypes {
     | '/login'
     | '/oauth-callback'
     | '/_authenticated/collection'
+    | '/_authenticated/collection-value'
+    | '/_authenticated/search'
     | '/_authenticated/settings'
+    | '/_authenticated/wantlist'
+    | '/_authenticated/collection_/$instanceId'
+    | '/_authenticated/master/$masterId'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
@@ -121,6 +194,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/_authenticated/wantlist': {
+      id: '/_authenticated/wantlist'
+      path: '/wantlist'
+      fullPath: '/wantlist'
+      preLoaderRoute: typeof AuthenticatedWantlistRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/settings': {
       id: '/_authenticated/settings'
       path: '/settings'
@@ -128,6 +208,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedSettingsRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/search': {
+      id: '/_authenticated/search'
+      path: '/search'
+      fullPath: '/search'
+      preLoaderRoute: typeof AuthenticatedSearchRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
+    '/_authenticated/collection-value': {
+      id: '/_authenticated/collection-value'
+      path: '/collection-value'
+      fullPath: '/collection-value'
+      preLoaderRoute: typeof AuthenticatedCollectionValueRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
     '/_authenticated/collection': {
       id: '/_authenticated/collection'
       path: '/collection'
@@ -135,17 +229,42 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthenticatedCollectionRouteImport
       parentRoute: typeof AuthenticatedRoute
     }
+    '/_authenticated/master/$masterId': {
+      id: '/_authenticated/master/$masterId'
+      path: '/master/$masterId'
+      fullPath: '/master/$masterId'
+      preLoaderRoute: typeof AuthenticatedMasterMasterIdRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
+    '/_authenticated/collection_/$instanceId': {
+      id: '/_authenticated/collection_/$instanceId'
+      path: '/collection/$instanceId'
+      fullPath: '/collection/$instanceId'
+      preLoaderRoute: typeof AuthenticatedCollectionInstanceIdRouteImport
+      parentRoute: typeof AuthenticatedRoute
+    }
   }
 }
 
 interface AuthenticatedRouteChildren {
   AuthenticatedCollectionRoute: typeof AuthenticatedCollectionRoute
+  AuthenticatedCollectionValueRoute: typeof AuthenticatedCollectionValueRoute
+  AuthenticatedSearchRoute: typeof AuthenticatedSearchRoute
   AuthenticatedSettingsRoute: typeof AuthenticatedSettingsRoute
+  AuthenticatedWantlistRoute: typeof AuthenticatedWantlistRoute
+  AuthenticatedCollectionInstanceIdRoute: typeof AuthenticatedCollectionInstanceIdRoute
+  AuthenticatedMasterMasterIdRoute: typeof AuthenticatedMasterMasterIdRoute
 }
 
 const AuthenticatedRouteChildren: AuthenticatedRouteChildren = {
   AuthenticatedCollectionRoute: AuthenticatedCollectionRoute,
+  AuthenticatedCollectionValueRoute: AuthenticatedCollectionValueRoute,
+  AuthenticatedSearchRoute: AuthenticatedSearchRoute,
   AuthenticatedSettingsRoute: AuthenticatedSettingsRoute,
+  AuthenticatedWantlistRoute: AuthenticatedWantlistRoute,
+  AuthenticatedCollectionInstanceIdRoute:
+    AuthenticatedCollectionInstanceIdRoute,
+  AuthenticatedMasterMasterIdRoute: AuthenticatedMasterMasterIdRoute,
 }
 
 const AuthenticatedRouteWithChildren = AuthenticatedRoute._addFileChildren(
@@ -0,0 +1,150 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { RotateCw, TrendingDown, TrendingUp } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+import { ValueChart } from '@/components/collection-value/value-chart'
+import { QueryErrorState } from '@/components/query-error-state'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useCollectionValue } from '@/hooks/use-collection-value'
+import { cn } from '@/lib/utils'
+import { parseCollectionValue } from '@/lib/value-history'
+
+export const Route = createFileRoute('/_authenticated/collection-value')({
+  component: CollectionValuePage
+})
+
+function CollectionValuePage() {
+  const { t, i18n } = useTranslation()
+  const {
+    value,
+    currency,
+    history,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    dataUpdatedAt,
+    refetch
+  } = useCollectionValue()
+
+  // Without a known currency, fall back to plain numbers; the API strings
+  // already carry the right symbol for the headline figures
+  const numberFormat = new Intl.NumberFormat(i18n.language, {
+    maximumFractionDigits: 0,
+    ...(currency && { style: 'currency', currency })
+  })
+  const formatValue = (amount: number) => numberFormat.format(amount)
+  const formatFigure = (raw: string) =>
+    currency
+      ? new Intl.NumberFormat(i18n.language, {
+          style: 'currency',
+          currency
+        }).format(parseCollectionValue(raw))
+      : raw
+
+  const firstSnapshot = history[0]
+  const lastSnapshot = history[history.length - 1]
+  const medianChange =
+    firstSnapshot && lastSnapshot && history.length > 1
+      ? lastSnapshot.median - firstSnapshot.median
+      : null
+
+  if (isError && !value) {
+    return (
+      <QueryErrorState
+        error={error}
+        fallbackMessage={t('errors.valueLoadFailed')}
+        onRetry={() => void refetch()}
+        isRetrying={isFetching}
+      />
+    )
+  }
+
+  const figures = [
+    { key: 'minimum', label: t('value.minimum'), raw: value?.minimum },
+    { key: 'median', label: t('value.median'), raw: value?.median },
+    { key: 'maximum', label: t('value.maximum'), raw: value?.maximum }
+  ]
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+        <div className="flex flex-wrap items-center justify-between gap-x-4 gap-y-2">
+          <h1 className="text-2xl font-bold">{t('value.title')}</h1>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => void refetch()}
+            disabled={isFetching}
+            aria-label={t('value.refresh')}
+            title={t('value.refresh')}
+          >
+            <RotateCw className={isFetching ? 'animate-spin' : ''} />
+          </Button>
+        </div>
+        <p className="text-muted-foreground mt-2 text-sm">
+          {dataUpdatedAt > 0
+            ? t('value.updatedAt', {
+                time: new Date(dataUpdatedAt).toLocaleString(i18n.language, {
+                  dateStyle: 'medium',
+                  timeStyle: 'short'
+                })
+              })
+            : t('value.subtitle')}
+        </p>
+      </div>
+
+      <div className="animate-in fade-in slide-in-from-bottom-3 fill-mode-backwards grid gap-4 delay-100 duration-500 sm:grid-cols-3">
+        {figures.map((figure) => (
+          <div
+            key={figure.key}
+            className={cn(
+              'bg-card/60 rounded-xl border p-4 shadow-sm backdrop-blur',
+              figure.key === 'median' && 'border-primary/40'
+            )}
+          >
+            <p className="text-muted-foreground text-sm">{figure.label}</p>
+            {isLoading || !figure.raw ? (
+              <Skeleton className="mt-2 h-8 w-2/3" />
+            ) : (
+              <p className="mt-1 text-2xl font-semibold tabular-nums">
+                {formatFigure(figure.raw)}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <section className="animate-in fade-in slide-in-from-bottom-4 fill-mode-backwards bg-card/60 rounded-xl border p-4 shadow-sm backdrop-blur delay-150 duration-500">
+        <div className="mb-4 flex flex-wrap items-baseline justify-between gap-2">
+          <h2 className="font-semibold">{t('value.chart.title')}</h2>
+          {medianChange !== null && medianChange !== 0 ? (
+            <span
+              className={cn(
+                'flex items-center gap-1 text-sm tabular-nums',
+                medianChange > 0 ? 'text-emerald-500' : 'text-red-500'
+              )}
+            >
+              {medianChange > 0 ? (
+                <TrendingUp className="h-4 w-4" />
+              ) : (
+                <TrendingDown className="h-4 w-4" />
+              )}
+              {t('value.chart.change', {
+                change: `${medianChange > 0 ? '+' : ''}${formatValue(medianChange)}`
+              })}
+            </span>
+          ) : null}
+        </div>
+        {history.length > 1 ? (
+          <ValueChart snapshots={history} formatValue={formatValue} />
+        ) : (
+          <p className="text-muted-foreground py-8 text-center text-sm whitespace-pre-line">
+            {t('value.chart.empty')}
+          </p>
+        )}
+      </section>
+    </div>
+  )
+}
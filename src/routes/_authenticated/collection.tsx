@@ -5,12 +5,24 @@ import { useTranslation } from 'react-i18next'
 
 import { CollectionToolbar } from '@/components/collection/collection-toolbar'
 import { PaginationControls } from '@/components/collection/pagination-controls'
+import type { VinylCardMenuActions } from '@/components/collection/vinyl-card-menu'
 import { VinylGrid } from '@/components/collection/vinyl-grid'
 import { VinylTable } from '@/components/collection/vinyl-table'
+import { QueryErrorState } from '@/components/query-error-state'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { useCollection } from '@/hooks/use-collection'
+import { useCollectionFolders } from '@/hooks/use-collection-folders'
+import {
+  useAddToCollection,
+  useMoveInstance,
+  useRemoveInstance,
+  useSetInstanceRating
+} from '@/hooks/use-collection-mutations'
+import { MARKETPLACE } from '@/lib/constants'
+import { type FacetFilter, getJumpSections } from '@/lib/release-filters'
 import { usePreferencesStore } from '@/stores/preferences-store'
+import type { DiscogsCollectionRelease } from '@/types/discogs'
 
 export const Route = createFileRoute('/_authenticated/collection')({
   component: CollectionPage
@@ -22,6 +34,15 @@ function CollectionPage() {
   const [now, setNow] = useState(() => Date.now())
   const viewMode = usePreferencesStore((state) => state.viewMode)
   const setViewMode = usePreferencesStore((state) => state.setViewMode)
+  const marketplaceColumns = usePreferencesStore(
+    (state) => state.marketplaceColumns
+  )
+  const setMarketplaceColumns = usePreferencesStore(
+    (state) => state.setMarketplaceColumns
+  )
+  const isScrolling = usePreferencesStore(
+    (state) => state.paginationMode === 'scroll'
+  )
 
   const toggleView = () => {
     setViewMode(viewMode === 'grid' ? 'table' : 'grid')
@@ -38,12 +59,17 @@ function CollectionPage() {
     refetch,
     shouldAnimateCards,
     isError,
+    error,
+    folderId,
+    setFolderId,
     pagination,
     nonVinylCount,
     nonVinylBreakdown,
     hasCompleteCollection,
+    fields,
     search,
     setSearch,
+    searchIssues,
     sort,
     setSort,
     sortOrder,
@@ -57,10 +83,52 @@ function CollectionPage() {
     setSelectedSizes,
     setSelectedCountries,
     setYearRange,
+    setMinRating,
+    setSelectedFieldValues,
     clearFilters,
     reshuffleRandom,
-    activeFilterCount
-  } = useCollection({ page })
+    activeFilterCount,
+    valuePendingCount,
+    valueSkippedCount,
+    loadProgress
+  } = useCollection({ page, paginate: !isScrolling })
+  const {
+    folders,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    isMutating: isFolderMutating
+  } = useCollectionFolders()
+  const setInstanceRating = useSetInstanceRating()
+  const handleRatingChange = (
+    instance: DiscogsCollectionRelease,
+    rating: number
+  ) => {
+    setInstanceRating({ instance, rating })
+  }
+  const addToCollection = useAddToCollection()
+  const moveInstance = useMoveInstance()
+  const removeInstance = useRemoveInstance()
+  const cardActions: VinylCardMenuActions = {
+    folders,
+    onAddToCollection: (release) => {
+      addToCollection({
+        releaseId: release.id,
+        basicInformation: release.basic_information,
+        // Keep the copy visible in the folder being browsed
+        ...(folderId > 1 && { folderId })
+      })
+    },
+    onMoveToFolder: (instance, targetFolderId) => {
+      moveInstance({ instance, targetFolderId })
+    },
+    onRemove: (instance) => {
+      removeInstance(instance)
+    }
+  }
+  const jumpSections = isScrolling
+    ? getJumpSections(filteredReleases, sort)
+    : undefined
   const visibleCount = filteredReleases.length
   const totalCount = pagination?.total ?? visibleCount
   const perPage = pagination?.perPage ?? visibleCount
@@ -150,6 +218,11 @@ function CollectionPage() {
     setPage(1)
   }
 
+  const handleFolderChange = (nextFolderId: number) => {
+    setFolderId(nextFolderId)
+    setPage(1)
+  }
+
   const handleReshuffle = () => {
     reshuffleRandom()
   }
@@ -159,33 +232,33 @@ function CollectionPage() {
     setPage(1)
   }
 
-  const handleSetSelectedGenres = (values: string[]) => {
-    setSelectedGenres(values)
+  const handleSetSelectedGenres = (filter: FacetFilter) => {
+    setSelectedGenres(filter)
     setPage(1)
   }
 
-  const handleSetSelectedStyles = (values: string[]) => {
-    setSelectedStyles(values)
+  const handleSetSelectedStyles = (filter: FacetFilter) => {
+    setSelectedStyles(filter)
     setPage(1)
   }
 
-  const handleSetSelectedLabels = (values: string[]) => {
-    setSelectedLabels(values)
+  const handleSetSelectedLabels = (filter: FacetFilter) => {
+    setSelectedLabels(filter)
     setPage(1)
   }
 
-  const handleSetSelectedTypes = (values: string[]) => {
-    setSelectedTypes(values)
+  const handleSetSelectedTypes = (filter: FacetFilter) => {
+    setSelectedTypes(filter)
     setPage(1)
   }
 
-  const handleSetSelectedSizes = (values: string[]) => {
-    setSelectedSizes(values)
+  const handleSetSelectedSizes = (filter: FacetFilter) => {
+    setSelectedSizes(filter)
     setPage(1)
   }
 
-  const handleSetSelectedCountries = (values: string[]) => {
-    setSelectedCountries(values)
+  const handleSetSelectedCountries = (filter: FacetFilter) => {
+    setSelectedCountries(filter)
     setPage(1)
   }
 
@@ -194,6 +267,19 @@ function CollectionPage() {
     setPage(1)
   }
 
+  const handleSetMinRating = (rating: number | null) => {
+    setMinRating(rating)
+    setPage(1)
+  }
+
+  const handleSetSelectedFieldValues = (
+    fieldId: number,
+    filter: FacetFilter
+  ) => {
+    setSelectedFieldValues(fieldId, filter)
+    setPage(1)
+  }
+
   const handleClearFilters = () => {
     clearFilters()
     setPage(1)
@@ -219,22 +305,12 @@ function CollectionPage() {
 
   if (isError) {
     return (
-      <div className="animate-in fade-in zoom-in-95 flex h-[calc(100svh-3.5rem)] flex-col items-center justify-center p-6 text-center duration-300">
-        <h1 className="text-7xl font-bold tracking-tighter opacity-20">!</h1>
-        <h2 className="mt-4 text-xl font-semibold">{t('errors.generic')}</h2>
-        <p className="text-muted-foreground mt-3 max-w-md text-sm whitespace-pre-line">
-          {t('errors.collectionLoadFailed')}
-        </p>
-        <Button
-          variant="outline"
-          className="mt-8"
-          onClick={() => void refetch()}
-          disabled={isFetching}
-        >
-          <RotateCw className={isFetching ? 'animate-spin' : ''} />
-          {t('errors.tryAgain')}
-        </Button>
-      </div>
+      <QueryErrorState
+        error={error}
+        fallbackMessage={t('errors.collectionLoadFailed')}
+        onRetry={() => void refetch()}
+        isRetrying={isFetching}
+      />
     )
   }
 
@@ -268,6 +344,26 @@ function CollectionPage() {
               end: rangeEnd,
               total: totalCount
             })}
+            {loadProgress && loadProgress.pages > 1 ? (
+              <span className="ml-2">
+                {t('collection.loadingPages', {
+                  page: loadProgress.page,
+                  pages: loadProgress.pages
+                })}
+              </span>
+            ) : null}
+            {sort === 'value' && valuePendingCount > 0 ? (
+              <span className="ml-2">
+                {t('marketplace.loadingPrices', { count: valuePendingCount })}
+              </span>
+            ) : null}
+            {sort === 'value' && valueSkippedCount > 0 ? (
+              <span className="ml-2">
+                {t('marketplace.pricesLimited', {
+                  count: MARKETPLACE.VALUE_SORT_LIMIT
+                })}
+              </span>
+            ) : null}
           </p>
           {showNonVinyl ? (
             <div className="animate-in fade-in slide-in-from-right flex items-center gap-2 duration-500">
@@ -285,6 +381,7 @@ function CollectionPage() {
           <CollectionToolbar
             search={search}
             onSearchChange={handleSearchChange}
+            searchIssues={searchIssues}
             sort={sort}
             onSortChange={handleSortChange}
             sortOrder={sortOrder}
@@ -292,6 +389,15 @@ function CollectionPage() {
             onReshuffle={handleReshuffle}
             viewMode={viewMode}
             onViewToggle={handleViewToggle}
+            folders={{
+              folders,
+              folderId,
+              onFolderChange: handleFolderChange,
+              onCreateFolder: createFolder,
+              onRenameFolder: renameFolder,
+              onDeleteFolder: deleteFolder,
+              isMutating: isFolderMutating
+            }}
             filters={{
               options: filterOptions,
               selected: selectedFilters,
@@ -302,6 +408,8 @@ function CollectionPage() {
               setSelectedSizes: handleSetSelectedSizes,
               setSelectedCountries: handleSetSelectedCountries,
               setYearRange: handleSetYearRange,
+              setMinRating: handleSetMinRating,
+              setSelectedFieldValues: handleSetSelectedFieldValues,
               clearFilters: handleClearFilters,
               activeFilterCount
             }}
@@ -315,16 +423,27 @@ function CollectionPage() {
           isLoading={isLoading || isFetching}
           shouldAnimate={shouldAnimateItems}
           animationClassName={gridAnimationClassName}
+          customFields={fields}
+          onRatingChange={handleRatingChange}
+          actions={cardActions}
+          virtualized={isScrolling}
+          {...(jumpSections && { jumpSections })}
         />
       ) : (
         <VinylTable
           releases={filteredReleases}
           isLoading={isLoading || isFetching}
           shouldAnimate={shouldAnimateItems}
+          marketplaceColumns={marketplaceColumns}
+          onMarketplaceColumnsChange={setMarketplaceColumns}
+          customFields={fields}
+          onRatingChange={handleRatingChange}
+          virtualized={isScrolling}
+          {...(jumpSections && { jumpSections })}
         />
       )}
 
-      {pagination ? (
+      {pagination && !isScrolling ? (
         <PaginationControls
           page={pagination.page}
           totalPages={pagination.pages}
@@ -0,0 +1,327 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { ArrowLeft, ExternalLink, Layers } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+import { StarRating } from '@/components/collection/star-rating'
+import { QueryErrorState } from '@/components/query-error-state'
+import { InstanceActions } from '@/components/release/instance-actions'
+import { InstanceFieldsEditor } from '@/components/release/instance-fields-editor'
+import { ReleaseCredits } from '@/components/release/release-credits'
+import { ReleaseGallery } from '@/components/release/release-gallery'
+import { ReleaseTracklist } from '@/components/release/release-tracklist'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useCollectionFields } from '@/hooks/use-collection-fields'
+import { useCollectionInstance } from '@/hooks/use-collection-instance'
+import { useSetInstanceRating } from '@/hooks/use-collection-mutations'
+import { useRelease } from '@/hooks/use-release'
+import { formatArtistCredit } from '@/lib/formatters'
+
+interface ReleaseDetailSearch {
+  /** Release ID, so deep links resolve even if the instance isn't cached */
+  release?: number
+}
+
+function parseReleaseId(value: unknown): number | undefined {
+  const id = Number(value)
+  return Number.isInteger(id) && id > 0 ? id : undefined
+}
+
+export const Route = createFileRoute('/_authenticated/collection_/$instanceId')(
+  {
+    validateSearch: (search: Record<string, unknown>): ReleaseDetailSearch => {
+      const release = parseReleaseId(search['release'])
+      return release === undefined ? {} : { release }
+    },
+    component: ReleaseDetailPage
+  }
+)
+
+function ReleaseDetailPage() {
+  const { t, i18n } = useTranslation()
+  const { instanceId } = Route.useParams()
+  const search = Route.useSearch()
+  const instance = useCollectionInstance(Number(instanceId))
+  const releaseId = instance?.id ?? search.release
+  const { release, isFetching, isError, error, refetch } = useRelease(releaseId)
+  const { fields } = useCollectionFields()
+  const setInstanceRating = useSetInstanceRating()
+
+  const info = instance?.basic_information
+  const title = release?.title ?? info?.title
+  const artists = release?.artists ?? info?.artists ?? []
+  const artistName = artists.length
+    ? formatArtistCredit(artists)
+    : t('collection.unknownArtist')
+  const year = release?.year ?? info?.year
+  const labels = release?.labels ?? info?.labels ?? []
+  const formats = release?.formats ?? info?.formats ?? []
+  const genres = release?.genres ?? info?.genres ?? []
+  const styles = release?.styles ?? info?.styles ?? []
+  const country = release?.country ?? info?.country
+  const masterId = release?.master_id ?? info?.master_id
+  const releasedText =
+    release?.released_formatted ?? (year && year > 0 ? String(year) : null)
+  const fallbackImage = info?.cover_image || info?.thumb || release?.thumb
+  const dateAdded = instance?.date_added
+    ? new Date(instance.date_added).toLocaleDateString(i18n.language, {
+        dateStyle: 'medium'
+      })
+    : null
+
+  const backLink = (
+    <Button asChild variant="ghost" size="sm" className="-ml-2 self-start">
+      <Link to="/collection" viewTransition>
+        <ArrowLeft />
+        {t('release.back')}
+      </Link>
+    </Button>
+  )
+
+  // Nothing cached and no release ID to fetch: the link points nowhere
+  if (releaseId === undefined) {
+    return (
+      <div className="flex flex-col gap-6 p-6">
+        {backLink}
+        <div className="flex flex-col items-center py-16 text-center">
+          <h1 className="text-xl font-semibold">{t('release.notFound')}</h1>
+          <p className="text-muted-foreground mt-3 max-w-md text-sm whitespace-pre-line">
+            {t('release.notFoundDescription')}
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const isDetailsLoading = !release && !isError
+  const hasCredits = Boolean(
+    release?.extraartists?.length ||
+    release?.companies?.length ||
+    release?.identifiers?.length
+  )
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      {backLink}
+
+      <div className="animate-in fade-in slide-in-from-bottom-2 grid gap-8 duration-500 md:grid-cols-[minmax(0,320px)_minmax(0,1fr)]">
+        <ReleaseGallery
+          images={release?.images ?? []}
+          alt={`${artistName} - ${title ?? ''}`}
+          {...(fallbackImage && { fallbackImage })}
+        />
+
+        <div className="flex min-w-0 flex-col gap-4">
+          <div>
+            {title ? (
+              <h1 className="text-2xl font-bold sm:text-3xl">{title}</h1>
+            ) : (
+              <Skeleton className="h-8 w-2/3" />
+            )}
+            {title ? (
+              <p className="text-muted-foreground mt-1 text-lg">{artistName}</p>
+            ) : (
+              <Skeleton className="mt-2 h-5 w-1/3" />
+            )}
+          </div>
+
+          <dl className="grid grid-cols-[auto_minmax(0,1fr)] gap-x-6 gap-y-1.5 text-sm">
+            {labels.length > 0 ? (
+              <>
+                <dt className="text-muted-foreground">
+                  {t('collection.table.label')}
+                </dt>
+                <dd>
+                  {labels
+                    .map((label) =>
+                      label.catno && label.catno !== 'none'
+                        ? `${label.name} – ${label.catno}`
+                        : label.name
+                    )
+                    .join(', ')}
+                </dd>
+              </>
+            ) : null}
+            {formats.length > 0 ? (
+              <>
+                <dt className="text-muted-foreground">
+                  {t('collection.table.format')}
+                </dt>
+                <dd>
+                  {formats
+                    .map((format) =>
+                      [
+                        Number(format.qty) > 1
+                          ? `${format.qty} × ${format.name}`
+                          : format.name,
+                        ...(format.descriptions ?? []),
+                        format.text
+                      ]
+                        .filter(Boolean)
+                        .join(', ')
+                    )
+                    .join(' · ')}
+                </dd>
+              </>
+            ) : null}
+            {country ? (
+              <>
+                <dt className="text-muted-foreground">
+                  {t('collection.table.country')}
+                </dt>
+                <dd>{country}</dd>
+              </>
+            ) : null}
+            {releasedText ? (
+              <>
+                <dt className="text-muted-foreground">
+                  {t('release.released')}
+                </dt>
+                <dd>{releasedText}</dd>
+              </>
+            ) : null}
+            {dateAdded ? (
+              <>
+                <dt className="text-muted-foreground">{t('release.added')}</dt>
+                <dd>{dateAdded}</dd>
+              </>
+            ) : null}
+            {instance ? (
+              <>
+                <dt className="text-muted-foreground">
+                  {t('release.yourRating')}
+                </dt>
+                <dd>
+                  <StarRating
+                    value={instance.rating}
+                    onChange={(rating) => {
+                      setInstanceRating({ instance, rating })
+                    }}
+                  />
+                </dd>
+              </>
+            ) : null}
+            {release && release.community.rating.count > 0 ? (
+              <>
+                <dt className="text-muted-foreground">
+                  {t('release.communityRating')}
+                </dt>
+                <dd className="flex flex-wrap items-center gap-2">
+                  <StarRating value={release.community.rating.average} />
+                  <span className="text-muted-foreground tabular-nums">
+                    {t('release.ratingSummary', {
+                      average: release.community.rating.average.toFixed(2),
+                      count: release.community.rating.count
+                    })}
+                  </span>
+                </dd>
+              </>
+            ) : null}
+            {release ? (
+              <>
+                <dt className="text-muted-foreground">
+                  {t('release.community')}
+                </dt>
+                <dd className="tabular-nums">
+                  {t('release.haveWant', {
+                    have: release.community.have,
+                    want: release.community.want
+                  })}
+                </dd>
+              </>
+            ) : null}
+          </dl>
+
+          {genres.length > 0 || styles.length > 0 ? (
+            <div className="flex flex-wrap gap-1.5">
+              {genres.map((genre) => (
+                <Badge key={`genre-${genre}`}>{genre}</Badge>
+              ))}
+              {styles.map((style) => (
+                <Badge key={`style-${style}`} variant="secondary">
+                  {style}
+                </Badge>
+              ))}
+            </div>
+          ) : null}
+
+          {instance ? <InstanceActions instance={instance} /> : null}
+
+          {masterId ? (
+            <Button asChild variant="outline" size="sm" className="self-start">
+              <Link
+                to="/master/$masterId"
+                params={{ masterId: String(masterId) }}
+                viewTransition
+              >
+                <Layers />
+                {t('master.versions')}
+              </Link>
+            </Button>
+          ) : null}
+
+          {release ? (
+            <Button asChild variant="outline" size="sm" className="self-start">
+              <a href={release.uri} target="_blank" rel="noopener noreferrer">
+                <ExternalLink />
+                {t('release.viewOnDiscogs')}
+              </a>
+            </Button>
+          ) : null}
+        </div>
+      </div>
+
+      {instance && fields.length > 0 ? (
+        <section className="animate-in fade-in slide-in-from-bottom-3 fill-mode-backwards bg-card/60 rounded-xl border p-4 shadow-sm backdrop-blur delay-75 duration-500">
+          <h2 className="mb-3 font-semibold">{t('release.fields.title')}</h2>
+          <InstanceFieldsEditor instance={instance} fields={fields} />
+        </section>
+      ) : null}
+
+      {isError && !release ? (
+        <QueryErrorState
+          variant="inline"
+          className="bg-card/60 rounded-xl border p-6 shadow-sm backdrop-blur"
+          error={error}
+          fallbackMessage={t('errors.releaseLoadFailed')}
+          onRetry={() => void refetch()}
+          isRetrying={isFetching}
+        />
+      ) : null}
+
+      {isDetailsLoading ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Skeleton className="h-64 rounded-xl" />
+          <Skeleton className="h-64 rounded-xl" />
+        </div>
+      ) : null}
+
+      {release ? (
+        <div className="animate-in fade-in slide-in-from-bottom-3 fill-mode-backwards grid gap-6 delay-100 duration-500 lg:grid-cols-2">
+          <section className="bg-card/60 rounded-xl border p-4 shadow-sm backdrop-blur">
+            <h2 className="mb-3 font-semibold">{t('release.tracklist')}</h2>
+            <ReleaseTracklist tracks={release.tracklist} />
+          </section>
+
+          <div className="flex flex-col gap-6">
+            {hasCredits ? (
+              <section className="bg-card/60 rounded-xl border p-4 shadow-sm backdrop-blur">
+                <ReleaseCredits release={release} />
+              </section>
+            ) : null}
+
+            {release.notes ? (
+              <section className="bg-card/60 rounded-xl border p-4 shadow-sm backdrop-blur">
+                <h2 className="mb-3 font-semibold">{t('release.notes')}</h2>
+                <p className="text-muted-foreground text-sm break-words whitespace-pre-line">
+                  {release.notes}
+                </p>
+              </section>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  )
+}
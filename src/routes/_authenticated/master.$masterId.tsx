@@ -0,0 +1,284 @@
+import { createFileRoute, useRouter } from '@tanstack/react-router'
+import { ArrowLeft, ExternalLink } from 'lucide-react'
+import { useMemo, useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { extractVinylDescriptors, getVersionFormats } from '@/api/discogs'
+import { VinylTableSkeleton } from '@/components/collection/vinyl-table-skeleton'
+import { MasterVersionsTable } from '@/components/master/master-versions-table'
+import { QueryErrorState } from '@/components/query-error-state'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useCachedOwnership } from '@/hooks/use-cached-ownership'
+import { useMaster, useMasterVersions } from '@/hooks/use-master'
+import { formatArtistCredit } from '@/lib/formatters'
+import type { DiscogsMasterVersion } from '@/types/discogs'
+
+export const Route = createFileRoute('/_authenticated/master/$masterId')({
+  component: MasterVersionsPage
+})
+
+/** Radix Select reserves the empty string, so "any country" needs a sentinel */
+const ANY_COUNTRY = '__any__'
+
+interface DescriptorOption {
+  value: string
+  count: number
+}
+
+const toggleValue = (values: string[], value: string) =>
+  values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value]
+
+const countValues = (lists: string[][]): DescriptorOption[] => {
+  const counts = new Map<string, number>()
+  for (const list of lists) {
+    // Count each version once, even if a descriptor repeats across formats
+    for (const value of new Set(list)) {
+      counts.set(value, (counts.get(value) ?? 0) + 1)
+    }
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+    (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+  )
+}
+
+function MasterVersionsPage() {
+  const { t } = useTranslation()
+  const router = useRouter()
+  const masterId = Number(Route.useParams().masterId)
+  const { master } = useMaster(masterId)
+  const { versions, isLoading, isFetching, isError, error, refetch } =
+    useMasterVersions(masterId)
+  const { instancesByReleaseId } = useCachedOwnership()
+  const [selectedTypes, setSelectedTypes] = useState<string[]>([])
+  const [selectedSizes, setSelectedSizes] = useState<string[]>([])
+  const [country, setCountry] = useState(ANY_COUNTRY)
+  const [ownedOnly, setOwnedOnly] = useState(false)
+
+  const getOwnedInstance = (version: DiscogsMasterVersion) =>
+    instancesByReleaseId.get(version.id)
+  const isOwned = (version: DiscogsMasterVersion) =>
+    instancesByReleaseId.has(version.id) || version.stats.user.in_collection > 0
+
+  const descriptors = useMemo(
+    () =>
+      new Map(
+        versions.map((version) => [
+          version.id,
+          extractVinylDescriptors(getVersionFormats(version))
+        ])
+      ),
+    [versions]
+  )
+
+  const typeOptions = countValues(
+    Array.from(descriptors.values(), (item) => item.types)
+  )
+  const sizeOptions = countValues(
+    Array.from(descriptors.values(), (item) => item.sizes)
+  )
+  const countryOptions = countValues(
+    versions.map((version) => (version.country ? [version.country] : []))
+  )
+
+  const filteredVersions = versions.filter((version) => {
+    const { types, sizes } = descriptors.get(version.id) ?? {
+      types: [],
+      sizes: []
+    }
+    return (
+      (selectedTypes.length === 0 ||
+        selectedTypes.some((type) => types.includes(type))) &&
+      (selectedSizes.length === 0 ||
+        selectedSizes.some((size) => sizes.includes(size))) &&
+      (country === ANY_COUNTRY || version.country === country) &&
+      (!ownedOnly || isOwned(version))
+    )
+  })
+  const ownedCount = versions.filter(isOwned).length
+  const image = master?.images?.[0]?.uri150
+
+  if (!(masterId > 0)) {
+    return (
+      <div className="flex flex-col items-center p-6 py-16 text-center">
+        <h1 className="text-xl font-semibold">{t('master.notFound')}</h1>
+      </div>
+    )
+  }
+
+  const renderChips = (
+    options: DescriptorOption[],
+    selected: string[],
+    onChange: (next: string[]) => void
+  ) =>
+    options.map((option) => {
+      const isSelected = selected.includes(option.value)
+      return (
+        <Button
+          key={option.value}
+          type="button"
+          size="sm"
+          variant={isSelected ? 'default' : 'outline'}
+          aria-pressed={isSelected}
+          className="h-7 rounded-full px-3 text-xs"
+          onClick={() => {
+            onChange(toggleValue(selected, option.value))
+          }}
+        >
+          {option.value}
+          <span className="tabular-nums opacity-70">{option.count}</span>
+        </Button>
+      )
+    })
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="-ml-2 self-start"
+        onClick={() => {
+          router.history.back()
+        }}
+      >
+        <ArrowLeft />
+        {t('master.back')}
+      </Button>
+
+      <div className="animate-in fade-in slide-in-from-bottom-2 flex items-center gap-4 duration-500">
+        {image ? (
+          <img
+            src={image}
+            alt=""
+            className="h-20 w-20 rounded-lg object-cover shadow-sm"
+          />
+        ) : null}
+        <div className="min-w-0">
+          {master ? (
+            <>
+              <h1 className="text-2xl font-bold">{master.title}</h1>
+              <p className="text-muted-foreground mt-1">
+                {formatArtistCredit(master.artists)}
+                {master.year > 0 ? ` · ${master.year}` : ''}
+              </p>
+            </>
+          ) : (
+            <>
+              <Skeleton className="h-8 w-64" />
+              <Skeleton className="mt-2 h-5 w-40" />
+            </>
+          )}
+          {versions.length > 0 ? (
+            <p className="text-muted-foreground mt-2 text-sm tabular-nums">
+              {t('master.summary', {
+                count: versions.length,
+                owned: ownedCount
+              })}
+            </p>
+          ) : null}
+        </div>
+        {master ? (
+          <Button asChild variant="outline" size="sm" className="ml-auto">
+            <a href={master.uri} target="_blank" rel="noopener noreferrer">
+              <ExternalLink />
+              {t('release.viewOnDiscogs')}
+            </a>
+          </Button>
+        ) : null}
+      </div>
+
+      {versions.length > 0 ? (
+        <div className="bg-card/60 flex flex-col gap-3 rounded-xl border p-4 shadow-sm backdrop-blur">
+          {typeOptions.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-muted-foreground mr-1 text-sm">
+                {t('collection.filters.type')}
+              </span>
+              {renderChips(typeOptions, selectedTypes, setSelectedTypes)}
+            </div>
+          ) : null}
+          {sizeOptions.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-1.5">
+              <span className="text-muted-foreground mr-1 text-sm">
+                {t('collection.filters.size')}
+              </span>
+              {renderChips(sizeOptions, selectedSizes, setSelectedSizes)}
+            </div>
+          ) : null}
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={country} onValueChange={setCountry}>
+              <SelectTrigger
+                size="sm"
+                className="w-48"
+                aria-label={t('collection.filters.country')}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_COUNTRY}>
+                  {t('master.anyCountry')}
+                </SelectItem>
+                {countryOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.value} ({option.count})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="master-owned-only"
+                checked={ownedOnly}
+                onCheckedChange={(checked) => {
+                  setOwnedOnly(checked === true)
+                }}
+              />
+              <Label htmlFor="master-owned-only">{t('master.ownedOnly')}</Label>
+            </div>
+            {filteredVersions.length !== versions.length ? (
+              <Badge variant="secondary" className="tabular-nums">
+                {t('master.filteredCount', {
+                  count: filteredVersions.length,
+                  total: versions.length
+                })}
+              </Badge>
+            ) : null}
+          </div>
+        </div>
+      ) : null}
+
+      {isLoading ? <VinylTableSkeleton /> : null}
+
+      {isError && versions.length === 0 ? (
+        <QueryErrorState
+          variant="inline"
+          className="py-16"
+          error={error}
+          fallbackMessage={t('master.loadFailed')}
+          onRetry={() => void refetch()}
+          isRetrying={isFetching}
+        />
+      ) : null}
+
+      {versions.length > 0 ? (
+        <MasterVersionsTable
+          versions={filteredVersions}
+          getOwnedInstance={getOwnedInstance}
+          isOwned={isOwned}
+        />
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { Search } from 'lucide-react'
+import { useTranslation } from 'react-i18next'
+
+import { PaginationControls } from '@/components/collection/pagination-controls'
+import { VinylCardSkeleton } from '@/components/collection/vinyl-card-skeleton'
+import { QueryErrorState } from '@/components/query-error-state'
+import { SearchForm } from '@/components/search/search-form'
+import { SearchResultCard } from '@/components/search/search-result-card'
+import { useAddSearchResultToCollection } from '@/hooks/use-collection-mutations'
+import {
+  type SearchCriteria,
+  type SearchType,
+  useDiscogsSearch,
+  useSearchResultOwnership
+} from '@/hooks/use-search'
+import { useAddToWantlist } from '@/hooks/use-wantlist'
+
+interface SearchPageSearch {
+  q?: string
+  type?: SearchType
+  barcode?: string
+  catno?: string
+  format?: string
+  year?: string
+  page?: number
+}
+
+const SEARCH_TYPES = new Set<unknown>(['release', 'master', 'artist', 'label'])
+
+function parseText(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined
+  const text = String(value).trim()
+  return text ? text.slice(0, 200) : undefined
+}
+
+export const Route = createFileRoute('/_authenticated/search')({
+  validateSearch: (search: Record<string, unknown>): SearchPageSearch => {
+    const q = parseText(search['q'])
+    const barcode = parseText(search['barcode'])
+    const catno = parseText(search['catno'])
+    const format = parseText(search['format'])
+    const year = parseText(search['year'])
+    const page = Number(search['page'])
+
+    return {
+      ...(q && { q }),
+      ...(SEARCH_TYPES.has(search['type']) && {
+        type: search['type'] as SearchType
+      }),
+      ...(barcode && { barcode }),
+      ...(catno && { catno }),
+      ...(format && { format }),
+      ...(year && /^\d{4}$/.test(year) && { year }),
+      ...(Number.isInteger(page) && page > 1 && { page })
+    }
+  },
+  component: SearchPage
+})
+
+function SearchPage() {
+  const { t } = useTranslation()
+  const search = Route.useSearch()
+  const navigate = Route.useNavigate()
+  const criteria: SearchCriteria = {
+    ...(search.q && { query: search.q }),
+    ...(search.type && { type: search.type }),
+    ...(search.barcode && { barcode: search.barcode }),
+    ...(search.catno && { catno: search.catno }),
+    ...(search.format && { format: search.format }),
+    ...(search.year && { year: search.year }),
+    page: search.page ?? 1
+  }
+  const {
+    results,
+    pagination,
+    hasCriteria,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch
+  } = useDiscogsSearch(criteria)
+  const { getOwnership, isWanted } = useSearchResultOwnership()
+  const addToCollection = useAddSearchResultToCollection()
+  const addToWantlist = useAddToWantlist()
+
+  const navigateTo = (values: Omit<SearchCriteria, 'page'>, page = 1) => {
+    void navigate({
+      search: {
+        ...(values.query && { q: values.query }),
+        ...(values.type && { type: values.type }),
+        ...(values.barcode && { barcode: values.barcode }),
+        ...(values.catno && { catno: values.catno }),
+        ...(values.format && { format: values.format }),
+        ...(values.year && { year: values.year }),
+        ...(page > 1 && { page })
+      }
+    })
+  }
+
+  const handlePageChange = (page: number) => {
+    navigateTo(criteria, page)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+        <h1 className="text-2xl font-bold">{t('search.title')}</h1>
+        {pagination ? (
+          <p className="text-muted-foreground mt-2 text-sm tabular-nums">
+            {t('search.resultCount', { count: pagination.total })}
+          </p>
+        ) : null}
+      </div>
+
+      <div className="animate-in fade-in slide-in-from-bottom-3 fill-mode-backwards delay-100 duration-500">
+        <div className="bg-card/60 rounded-xl border p-4 shadow-sm backdrop-blur">
+          <SearchForm
+            // Reset the form when the URL changes (back/forward navigation)
+            key={JSON.stringify(search)}
+            criteria={criteria}
+            onSubmit={(values) => {
+              navigateTo(values)
+            }}
+            isSearching={isFetching}
+          />
+        </div>
+      </div>
+
+      {!hasCriteria ? (
+        <div className="animate-in fade-in flex flex-col items-center py-16 text-center duration-500">
+          <Search className="text-muted-foreground h-16 w-16 opacity-40" />
+          <p className="text-muted-foreground mt-4 max-w-md text-sm">
+            {t('search.prompt')}
+          </p>
+        </div>
+      ) : null}
+
+      {hasCriteria && isError && results.length === 0 ? (
+        <QueryErrorState
+          variant="inline"
+          className="py-16"
+          error={error}
+          fallbackMessage={t('search.failed')}
+          onRetry={() => void refetch()}
+          isRetrying={isFetching}
+        />
+      ) : null}
+
+      {hasCriteria && isLoading ? (
+        <div className="grid grid-cols-2 gap-6 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+          {Array.from({ length: 10 }).map((_, i) => (
+            // eslint-disable-next-line react/no-array-index-key -- Skeleton items have no stable ID; index is safe for static placeholder list
+            <VinylCardSkeleton key={`skeleton-${i}`} />
+          ))}
+        </div>
+      ) : null}
+
+      {hasCriteria && !isLoading && !isError && results.length === 0 ? (
+        <p className="text-muted-foreground py-16 text-center text-sm">
+          {t('search.noResults')}
+        </p>
+      ) : null}
+
+      {results.length > 0 ? (
+        <div className="grid grid-cols-2 gap-6 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5">
+          {results.map((result) => (
+            <SearchResultCard
+              key={`${result.type}-${result.id}`}
+              result={result}
+              ownership={getOwnership(result)}
+              isWanted={isWanted(result)}
+              onAddToCollection={(item) => {
+                addToCollection({ releaseId: item.id, title: item.title })
+              }}
+              onAddToWantlist={(item) => {
+                addToWantlist(item.id)
+              }}
+            />
+          ))}
+        </div>
+      ) : null}
+
+      {pagination ? (
+        <PaginationControls
+          page={pagination.page}
+          totalPages={pagination.pages}
+          onPageChange={handlePageChange}
+          isLoading={isFetching}
+        />
+      ) : null}
+    </div>
+  )
+}
@@ -1,10 +1,12 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { NO, US } from 'country-flag-icons/react/3x2'
 import {
+  BookOpen,
   FileText,
   LogOut,
   Monitor,
   Moon,
+  Rows3,
   Scale,
   Shield,
   Sun
@@ -46,6 +48,7 @@ import { usePreferences } from '@/hooks/use-preferences'
 import { useUserProfile } from '@/hooks/use-user-profile'
 import { APP_VERSION } from '@/lib/constants'
 import { cn } from '@/lib/utils'
+import { usePreferencesStore } from '@/stores/preferences-store'
 export const Route = createFileRoute('/_authenticated/settings')({
   component: SettingsPage
 })
@@ -119,6 +122,10 @@ function SettingsPage() {
   const avatarUrl = profile?.avatar_url
   const { avatarSource, gravatarUrl, setAvatarSource } = usePreferences()
   const { theme, setTheme } = useTheme()
+  const paginationMode = usePreferencesStore((state) => state.paginationMode)
+  const setPaginationMode = usePreferencesStore(
+    (state) => state.setPaginationMode
+  )
   const navigate = useNavigate()
   // i18n.language is always defined as string, normalizeLanguage defaults unknown languages to 'en'
   const currentLanguage = normalizeLanguage(i18n.language)
@@ -367,6 +374,40 @@ function SettingsPage() {
                 />
               </div>
             </div>
+
+            <Separator />
+
+            {/* Browsing Mode */}
+            <div className="space-y-3">
+              <div>
+                <h3 className="text-sm font-medium">
+                  {t('settings.appearance.browsing.title')}
+                </h3>
+                <p className="text-muted-foreground text-sm">
+                  {t('settings.appearance.browsing.description')}
+                </p>
+              </div>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <SelectionCard
+                  selected={paginationMode === 'pages'}
+                  onClick={() => {
+                    setPaginationMode('pages')
+                  }}
+                  icon={<BookOpen className="text-foreground/70 size-5" />}
+                  title={t('settings.appearance.browsing.pages')}
+                  hint={t('settings.appearance.browsing.pagesHint')}
+                />
+                <SelectionCard
+                  selected={paginationMode === 'scroll'}
+                  onClick={() => {
+                    setPaginationMode('scroll')
+                  }}
+                  icon={<Rows3 className="text-foreground/70 size-5" />}
+                  title={t('settings.appearance.browsing.scroll')}
+                  hint={t('settings.appearance.browsing.scrollHint')}
+                />
+              </div>
+            </div>
           </CardContent>
         </Card>
 
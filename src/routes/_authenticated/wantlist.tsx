@@ -0,0 +1,205 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { RotateCw } from 'lucide-react'
+import { useState } from 'react'
+import { useTranslation } from 'react-i18next'
+
+import { CollectionToolbar } from '@/components/collection/collection-toolbar'
+import { PaginationControls } from '@/components/collection/pagination-controls'
+import type { VinylCardMenuActions } from '@/components/collection/vinyl-card-menu'
+import { VinylGrid } from '@/components/collection/vinyl-grid'
+import { VinylTable } from '@/components/collection/vinyl-table'
+import { QueryErrorState } from '@/components/query-error-state'
+import { Button } from '@/components/ui/button'
+import { useAddToCollection } from '@/hooks/use-collection-mutations'
+import { useWantlist } from '@/hooks/use-wantlist'
+import { MARKETPLACE } from '@/lib/constants'
+import { getJumpSections } from '@/lib/release-filters'
+import { usePreferencesStore } from '@/stores/preferences-store'
+
+export const Route = createFileRoute('/_authenticated/wantlist')({
+  component: WantlistPage
+})
+
+function WantlistPage() {
+  const { t } = useTranslation()
+  const [page, setPage] = useState(1)
+  const viewMode = usePreferencesStore((state) => state.viewMode)
+  const setViewMode = usePreferencesStore((state) => state.setViewMode)
+  const marketplaceColumns = usePreferencesStore(
+    (state) => state.marketplaceColumns
+  )
+  const setMarketplaceColumns = usePreferencesStore(
+    (state) => state.setMarketplaceColumns
+  )
+  const isScrolling = usePreferencesStore(
+    (state) => state.paginationMode === 'scroll'
+  )
+
+  const {
+    filteredWants,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    refetch,
+    pagination,
+    filterState,
+    filterOptions,
+    selectedFilters,
+    activeFilterCount,
+    searchIssues,
+    valuePendingCount,
+    valueSkippedCount
+  } = useWantlist({ page, paginate: !isScrolling })
+  const addToCollection = useAddToCollection()
+  const cardActions: VinylCardMenuActions = {
+    onAddToCollection: (want) => {
+      addToCollection({
+        releaseId: want.id,
+        basicInformation: want.basic_information
+      })
+    }
+  }
+  const jumpSections = isScrolling
+    ? getJumpSections(filteredWants, filterState.sort)
+    : undefined
+  const visibleCount = filteredWants.length
+  const totalCount = pagination?.total ?? visibleCount
+  const perPage = pagination?.perPage ?? visibleCount
+  const currentPage = pagination?.page ?? page
+  const rangeStart = visibleCount > 0 ? (currentPage - 1) * perPage + 1 : 0
+  const rangeEnd =
+    visibleCount > 0 ? Math.min(rangeStart + visibleCount - 1, totalCount) : 0
+
+  // Every filter change resets to the first page
+  const withPageReset =
+    <T,>(setter: (value: T) => void) =>
+    (value: T) => {
+      setter(value)
+      setPage(1)
+    }
+
+  const handleClearFilters = () => {
+    filterState.clearFilters()
+    setPage(1)
+  }
+
+  if (isError) {
+    return (
+      <QueryErrorState
+        error={error}
+        fallbackMessage={t('errors.wantlistLoadFailed')}
+        onRetry={() => void refetch()}
+        isRetrying={isFetching}
+      />
+    )
+  }
+
+  return (
+    <div className="flex flex-col gap-6 p-6">
+      <div className="animate-in fade-in slide-in-from-bottom-2 duration-500">
+        <div className="flex flex-wrap items-center justify-between gap-x-4 gap-y-2">
+          <h1 className="text-2xl font-bold">{t('wantlist.title')}</h1>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => {
+              handleClearFilters()
+              void refetch()
+            }}
+            disabled={isFetching}
+            aria-label={t('wantlist.refresh')}
+            title={t('wantlist.refresh')}
+          >
+            <RotateCw className={isFetching ? 'animate-spin' : ''} />
+          </Button>
+        </div>
+        <p className="text-muted-foreground mt-2 text-sm tabular-nums">
+          {t('collection.showing', {
+            count: visibleCount,
+            start: rangeStart,
+            end: rangeEnd,
+            total: totalCount
+          })}
+          {filterState.sort === 'value' && valuePendingCount > 0 ? (
+            <span className="ml-2">
+              {t('marketplace.loadingPrices', { count: valuePendingCount })}
+            </span>
+          ) : null}
+          {filterState.sort === 'value' && valueSkippedCount > 0 ? (
+            <span className="ml-2">
+              {t('marketplace.pricesLimited', {
+                count: MARKETPLACE.VALUE_SORT_LIMIT
+              })}
+            </span>
+          ) : null}
+        </p>
+      </div>
+
+      <div className="animate-in fade-in slide-in-from-bottom-3 fill-mode-backwards delay-100 duration-500">
+        <div className="bg-card/60 rounded-xl border p-4 shadow-sm backdrop-blur">
+          <CollectionToolbar
+            search={filterState.search}
+            onSearchChange={withPageReset(filterState.setSearch)}
+            searchIssues={searchIssues}
+            sort={filterState.sort}
+            onSortChange={withPageReset(filterState.setSort)}
+            sortOrder={filterState.sortOrder}
+            onSortOrderChange={withPageReset(filterState.setSortOrder)}
+            onReshuffle={filterState.reshuffleRandom}
+            viewMode={viewMode}
+            onViewToggle={() => {
+              setViewMode(viewMode === 'grid' ? 'table' : 'grid')
+            }}
+            filters={{
+              options: filterOptions,
+              selected: selectedFilters,
+              setSelectedGenres: withPageReset(filterState.setSelectedGenres),
+              setSelectedStyles: withPageReset(filterState.setSelectedStyles),
+              setSelectedLabels: withPageReset(filterState.setSelectedLabels),
+              setSelectedTypes: withPageReset(filterState.setSelectedTypes),
+              setSelectedSizes: withPageReset(filterState.setSelectedSizes),
+              setSelectedCountries: withPageReset(
+                filterState.setSelectedCountries
+              ),
+              setYearRange: withPageReset(filterState.setYearRange),
+              setMinRating: withPageReset(filterState.setMinRating),
+              clearFilters: handleClearFilters,
+              activeFilterCount
+            }}
+          />
+        </div>
+      </div>
+
+      {viewMode === 'grid' ? (
+        <VinylGrid
+          releases={filteredWants}
+          isLoading={isLoading}
+          shouldAnimate={false}
+          actions={cardActions}
+          virtualized={isScrolling}
+          {...(jumpSections && { jumpSections })}
+        />
+      ) : (
+        <VinylTable
+          releases={filteredWants}
+          isLoading={isLoading}
+          shouldAnimate={false}
+          marketplaceColumns={marketplaceColumns}
+          onMarketplaceColumnsChange={setMarketplaceColumns}
+          virtualized={isScrolling}
+          {...(jumpSections && { jumpSections })}
+        />
+      )}
+
+      {pagination && !isScrolling ? (
+        <PaginationControls
+          page={pagination.page}
+          totalPages={pagination.pages}
+          onPageChange={setPage}
+          isLoading={isLoading}
+        />
+      ) : null}
+    </div>
+  )
+}
@@ -92,7 +92,7 @@ function LoginPage(): React.JSX.Element {
   const { t } = useTranslation()
   const {
     isAuthenticated,
-    hasStoredTokens,
+    hasStoredSession,
     isOnline,
     establishSession,
     disconnect
@@ -109,9 +109,9 @@ function LoginPage(): React.JSX.Element {
   const username = profile?.username
   const cachedAvatarUrl = profile?.avatar_url
 
-  // Show "Welcome back" if tokens exist (even without cached profile when online)
+  // Show "Welcome back" if a session exists (even without cached profile when online)
   // When online without cached profile, establishSession will fetch it
-  const hasExistingSession = hasStoredTokens
+  const hasExistingSession = hasStoredSession
 
   // Can only continue offline if we have cached profile data
   const cannotContinue = !isOnline && profile === undefined
@@ -129,7 +129,7 @@ function LoginPage(): React.JSX.Element {
   }, [isAuthenticated, navigate])
 
   /**
-   * Continue with existing tokens (Welcome back flow)
+   * Continue with existing session (Welcome back flow)
    */
   const handleContinue = async () => {
     setIsValidating(true)
@@ -141,7 +141,7 @@ function LoginPage(): React.JSX.Element {
     } catch (err) {
       // Determine appropriate error message:
       // - Offline without cache: show offline message
-      // - Auth errors (401/403): session expired, tokens invalid
+      // - Auth errors (401/403): session expired or invalid
       // - Transient errors (5xx, network): validation failed, try again
       let errorMessage: string
       if (err instanceof OfflineNoCacheError) {
@@ -159,7 +159,7 @@ function LoginPage(): React.JSX.Element {
   }
 
   /**
-   * Use different account - clear tokens and start fresh OAuth flow
+   * Use different account - clear session and start fresh OAuth flow
    */
   const handleUseDifferentAccount = () => {
     setShowSwitchDialog(false)
@@ -186,7 +186,8 @@ function LoginPage(): React.JSX.Element {
       // Store request tokens in sessionStorage for the callback
       setOAuthRequestTokens({
         requestToken: result.requestToken,
-        requestTokenSecret: result.requestTokenSecret
+        requestTokenSecret: result.requestTokenSecret,
+        state: result.state
       })
 
       // Redirect to Discogs authorization page
@@ -245,7 +246,7 @@ function LoginPage(): React.JSX.Element {
 
               {/* Login actions */}
               {hasExistingSession ? (
-                // Welcome back flow - user has existing tokens
+                // Welcome back flow - user has existing session
                 <div className="animate-in fade-in slide-in-from-bottom-2 fill-mode-backwards space-y-4 delay-800 duration-500">
                   <div className="mb-4 flex flex-col items-center gap-3">
                     <Avatar className="ring-border size-12 overflow-visible ring-2">
@@ -341,7 +342,7 @@ function LoginPage(): React.JSX.Element {
                   </AlertDialog>
                 </div>
               ) : (
-                // Fresh login - no existing tokens
+                // Fresh login - no existing session
                 <div className="animate-in fade-in slide-in-from-bottom-2 fill-mode-backwards space-y-4 delay-800 duration-500">
                   <p className="text-muted-foreground text-center text-sm">
                     {t('login.connectAccount')}
@@ -19,9 +19,13 @@ import {
   CardTitle
 } from '@/components/ui/card'
 import { useAuth } from '@/hooks/use-auth'
+import { getTRPCErrorCode } from '@/lib/errors'
 import {
   clearOAuthRequestTokens,
-  getOAuthRequestTokens
+  getOAuthRequestTokens,
+  isOAuthRequestTokenUsed,
+  markOAuthRequestTokenUsed,
+  readOAuthState
 } from '@/lib/oauth-session'
 import { getAndClearRedirectUrl } from '@/lib/redirect-utils'
 import { trpc } from '@/lib/trpc'
@@ -34,6 +38,29 @@ type OAuthError =
   | 'session_expired'
   | 'exchange_failed'
   | 'validation_failed'
+  | 'state_invalid'
+  | 'state_expired'
+  | 'state_missing'
+  | 'state_replayed'
+
+/**
+ * Maps the codes `oauth.getAccessToken` uses for rejected state (see
+ * `verifyOAuthState`) to callback errors.
+ */
+function getExchangeError(error: unknown): OAuthError {
+  switch (getTRPCErrorCode(error)) {
+    case 'PRECONDITION_FAILED':
+      return 'state_invalid'
+    case 'TIMEOUT':
+      return 'state_expired'
+    case 'PRECONDITION_REQUIRED':
+      return 'state_missing'
+    case 'CONFLICT':
+      return 'state_replayed'
+    default:
+      return 'exchange_failed'
+  }
+}
 
 interface OAuthCallbackSearch {
   oauth_token: string | undefined
@@ -62,7 +89,7 @@ function OAuthCallbackPage() {
     select: (state) => state.status === 'idle'
   })
   const { oauth_token, oauth_verifier, denied } = Route.useSearch()
-  const { establishSession } = useAuth()
+  const { establishSession, isAuthenticated } = useAuth()
 
   const [status, setStatus] = useState<OAuthCallbackStatus>('loading')
   const [error, setError] = useState<OAuthError | null>(null)
@@ -117,39 +144,52 @@ function OAuthCallbackPage() {
       // Get the request token secret from session storage
       const requestTokens = getOAuthRequestTokens()
       if (!requestTokens) {
-        setError('session_expired')
+        setError(
+          isOAuthRequestTokenUsed(token) ? 'state_replayed' : 'session_expired'
+        )
         setStatus('error')
         return
       }
 
-      // Verify the oauth_token matches what we stored
-      if (requestTokens.requestToken !== token) {
-        setError('session_expired')
+      // Verify the oauth_token matches what we stored and the state is
+      // still fresh (the server checks the signature)
+      const state = readOAuthState(requestTokens.state)
+      if (
+        requestTokens.requestToken !== token ||
+        state?.requestToken !== token
+      ) {
+        setError('state_invalid')
+        setStatus('error')
+        clearOAuthRequestTokens()
+        return
+      }
+      if (state.exp * 1000 < Date.now()) {
+        setError('state_expired')
         setStatus('error')
         clearOAuthRequestTokens()
         return
       }
 
+      // The state is single use, whatever the outcome
+      markOAuthRequestTokenUsed(token)
+
       try {
         // Exchange request token for access token
-        const result = await getAccessToken.mutateAsync({
+        // (the server keeps the tokens in an HttpOnly session cookie)
+        await getAccessToken.mutateAsync({
           requestToken: token,
           requestTokenSecret: requestTokens.requestTokenSecret,
-          verifier: verifier
+          verifier: verifier,
+          state: requestTokens.state
         })
 
         // Clear the temporary request tokens
         clearOAuthRequestTokens()
 
-        const tokens = {
-          accessToken: result.accessToken,
-          accessTokenSecret: result.accessTokenSecret
-        }
-
-        // Validate tokens and fetch profile - if validation fails, tokens are not persisted
+        // Validate session and fetch profile - if validation fails, the cookie is cleared
         try {
-          // establishSession validates tokens and fetches profile
-          await establishSession(tokens)
+          // establishSession validates the session and fetches profile
+          await establishSession()
         } catch {
           setError('validation_failed')
           setStatus('error')
@@ -161,8 +201,8 @@ function OAuthCallbackPage() {
         // Navigate to the stored redirect URL or collection
         const redirectUrl = getAndClearRedirectUrl() ?? '/collection'
         void navigate({ to: redirectUrl })
-      } catch {
-        setError('exchange_failed')
+      } catch (err) {
+        setError(getExchangeError(err))
         setStatus('error')
         clearOAuthRequestTokens()
       }
@@ -192,6 +232,14 @@ function OAuthCallbackPage() {
         return t('auth.oauthError')
       case 'validation_failed':
         return t('auth.oauthValidationFailed')
+      case 'state_invalid':
+        return t('auth.oauthStateInvalid')
+      case 'state_expired':
+        return t('auth.oauthStateExpired')
+      case 'state_missing':
+        return t('auth.oauthStateMissing')
+      case 'state_replayed':
+        return t('auth.oauthStateReplayed')
       default:
         return t('auth.oauthError')
     }
@@ -220,11 +268,21 @@ function OAuthCallbackPage() {
           {effectiveStatus === 'loading' && (
             <Loader2 className="text-muted-foreground h-8 w-8 animate-spin" />
           )}
-          {effectiveStatus === 'error' && (
-            <Button asChild variant="outline">
-              <Link to="/login">{t('auth.backToLogin')}</Link>
-            </Button>
+          {effectiveStatus === 'error' && effectiveError !== null && (
+            <p className="text-muted-foreground text-center text-sm">
+              {t(`auth.oauthRecovery.${effectiveError}`)}
+            </p>
           )}
+          {effectiveStatus === 'error' &&
+            (effectiveError === 'state_replayed' && isAuthenticated ? (
+              <Button asChild>
+                <Link to="/collection">{t('auth.goToCollection')}</Link>
+              </Button>
+            ) : (
+              <Button asChild variant="outline">
+                <Link to="/login">{t('auth.backToLogin')}</Link>
+              </Button>
+            ))}
         </CardContent>
       </Card>
     </div>
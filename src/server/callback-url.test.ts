@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { validateCallbackUrl } from './callback-url.js'
+
+describe('validateCallbackUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('allows the local dev origins by default', () => {
+    vi.stubEnv('ALLOWED_CALLBACK_ORIGINS', '')
+
+    expect(validateCallbackUrl('http://localhost:5173/oauth-callback')).toBe(
+      true
+    )
+    expect(validateCallbackUrl('http://localhost:4173/oauth-callback')).toBe(
+      true
+    )
+    expect(validateCallbackUrl('http://localhost:3000/oauth-callback')).toBe(
+      false
+    )
+  })
+
+  it('only allows configured origins when set', () => {
+    vi.stubEnv(
+      'ALLOWED_CALLBACK_ORIGINS',
+      'https://vinyldeck.app, https://beta.vinyldeck.app'
+    )
+
+    expect(
+      validateCallbackUrl('https://beta.vinyldeck.app/oauth-callback')
+    ).toBe(true)
+    expect(validateCallbackUrl('http://localhost:5173/oauth-callback')).toBe(
+      false
+    )
+  })
+
+  it('always allows the Vercel deployment', () => {
+    vi.stubEnv('ALLOWED_CALLBACK_ORIGINS', 'https://vinyldeck.app')
+    vi.stubEnv('VERCEL_URL', 'vinyldeck-git-main.vercel.app')
+
+    expect(
+      validateCallbackUrl(
+        'https://vinyldeck-git-main.vercel.app/oauth-callback'
+      )
+    ).toBe(true)
+  })
+
+  it('compares whole origins', () => {
+    vi.stubEnv('ALLOWED_CALLBACK_ORIGINS', 'https://vinyldeck.app')
+
+    expect(
+      validateCallbackUrl('https://vinyldeck.app.evil.com/oauth-callback')
+    ).toBe(false)
+    expect(validateCallbackUrl('http://vinyldeck.app/oauth-callback')).toBe(
+      false
+    )
+    expect(validateCallbackUrl('not a url')).toBe(false)
+  })
+})
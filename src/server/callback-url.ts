@@ -0,0 +1,51 @@
+declare const process: {
+  env: {
+    ALLOWED_CALLBACK_ORIGINS?: string
+    VERCEL_URL?: string
+  }
+}
+
+/**
+ * Get allowed callback origins for OAuth flow.
+ * Prevents open redirect attacks by restricting where OAuth can redirect.
+ *
+ * Always includes VERCEL_URL (for preview deployments) plus any explicitly
+ * configured origins from ALLOWED_CALLBACK_ORIGINS.
+ */
+function getAllowedCallbackOrigins(): string[] {
+  const origins: string[] = []
+
+  // Add explicitly configured origins (production domains)
+  if (process.env.ALLOWED_CALLBACK_ORIGINS) {
+    origins.push(
+      ...process.env.ALLOWED_CALLBACK_ORIGINS.split(',').map((o) => o.trim())
+    )
+  } else {
+    // Default localhost origins for development (only when no explicit config)
+    origins.push(
+      'http://localhost:5173', // Vite dev server
+      'http://localhost:4173' // Vite preview
+    )
+  }
+
+  // Always add Vercel URL if available (enables preview deployments)
+  if (process.env.VERCEL_URL) {
+    origins.push(`https://${process.env.VERCEL_URL}`)
+  }
+
+  return origins
+}
+
+/**
+ * Validates that a callback URL's origin is in the allowlist.
+ * Prevents OAuth phishing attacks using our consumer credentials.
+ */
+export function validateCallbackUrl(callbackUrl: string): boolean {
+  try {
+    const url = new URL(callbackUrl)
+    const allowedOrigins = getAllowedCallbackOrigins()
+    return allowedOrigins.some((origin) => url.origin === origin)
+  } catch {
+    return false
+  }
+}
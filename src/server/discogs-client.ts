@@ -1,6 +1,12 @@
 import { DiscogsClient } from '@lionralfs/discogs-client'
 import { TRPCError } from '@trpc/server'
 
+import { createLocalRequest, getDiscogsApiUrl } from './local-discogs.js'
+import { getRequestQueue } from './request-queue.js'
+import { isDiscogsError } from './trpc/error-utils.js'
+
+import type { UpstreamTrace } from './logger.js'
+
 declare const process: {
   env: {
     VITE_DISCOGS_CONSUMER_KEY?: string
@@ -20,30 +26,66 @@ const CONSUMER_SECRET = process.env.DISCOGS_CONSUMER_SECRET
  * The client is configured with OAuth 1.0a credentials and handles
  * request signing automatically.
  *
+ * Every request goes through the user's request queue (see
+ * `request-queue.ts`), which paces requests by the rate limit headers and
+ * retries 429s, so callers only see TOO_MANY_REQUESTS once the queue's
+ * deadline has passed.
+ *
+ * With `DISCOGS_API_URL` set, requests go to that server instead (see
+ * `local-discogs.ts`) and no consumer credentials are needed.
+ *
  * @param accessToken - The user's OAuth access token
  * @param accessTokenSecret - The user's OAuth access token secret
+ * @param trace - Records every response's status and rate limit, for the
+ * procedure's log entry
  * @returns An authenticated DiscogsClient instance
  * @throws TRPCError if consumer credentials are missing
  */
 export function createDiscogsClient(
   accessToken: string,
-  accessTokenSecret: string
+  accessTokenSecret: string,
+  trace?: UpstreamTrace
 ): DiscogsClient {
-  if (!CONSUMER_KEY || !CONSUMER_SECRET) {
+  const apiUrl = getDiscogsApiUrl()
+
+  if (!apiUrl && (!CONSUMER_KEY || !CONSUMER_SECRET)) {
     throw new TRPCError({
       code: 'INTERNAL_SERVER_ERROR',
       message: 'Missing Discogs OAuth credentials'
     })
   }
 
-  return new DiscogsClient({
+  const client = new DiscogsClient({
     auth: {
       method: 'oauth',
-      consumerKey: CONSUMER_KEY,
-      consumerSecret: CONSUMER_SECRET,
+      consumerKey: CONSUMER_KEY ?? '',
+      consumerSecret: CONSUMER_SECRET ?? '',
       accessToken,
       accessTokenSecret
     },
     userAgent: `VinylDeck/${APP_VERSION}`
   })
+
+  // All API methods (get/post/put/delete) funnel through request()
+  const queue = getRequestQueue(accessToken)
+  const request = apiUrl
+    ? createLocalRequest(apiUrl, accessToken)
+    : client.request.bind(client)
+  const tracedRequest: DiscogsClient['request'] = async (options) => {
+    if (trace) trace.requests += 1
+    try {
+      const result = await request(options)
+      if (trace) {
+        trace.status = 200
+        trace.rateLimit = result.rateLimit ?? trace.rateLimit
+      }
+      return result
+    } catch (error) {
+      if (trace && isDiscogsError(error)) trace.status = error.statusCode
+      throw error
+    }
+  }
+  client.request = (options) => queue.run(() => tracedRequest(options))
+
+  return client
 }
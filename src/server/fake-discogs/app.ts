@@ -0,0 +1,277 @@
+import { Hono } from 'hono'
+
+import {
+  COLLECTION,
+  COLLECTION_FIELDS,
+  FAKE_USERNAME,
+  getCollectionValue,
+  getFolders,
+  getRelease,
+  IDENTITY,
+  PROFILE,
+  WANTLIST
+} from './fixtures.js'
+
+import type { DiscogsListItem } from '../../types/discogs.js'
+import type { Context } from 'hono'
+
+/** Access tokens the fake server issues; any token with this prefix is valid */
+const ACCESS_TOKEN_PREFIX = 'fake-access-'
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000
+
+interface PendingRequestToken {
+  secret: string
+  callbackUrl: string
+  verifier: string | null
+}
+
+/**
+ * Reads a parameter from an `Authorization: OAuth key="value", ...` header.
+ */
+function readOAuthParam(
+  header: string | undefined,
+  name: string
+): string | undefined {
+  const match = new RegExp(`${name}="([^"]*)"`).exec(header ?? '')
+  return match?.[1] !== undefined ? decodeURIComponent(match[1]) : undefined
+}
+
+const NOT_FOUND = { message: 'The requested resource was not found.' }
+
+/** Sort values for Discogs' collection and wantlist `sort` parameter */
+const SORT_VALUES: Record<string, (item: DiscogsListItem) => string | number> =
+  {
+    added: (item) => item.date_added ?? '',
+    artist: (item) => item.basic_information.artists[0]?.name ?? '',
+    title: (item) => item.basic_information.title,
+    label: (item) => item.basic_information.labels[0]?.name ?? '',
+    catno: (item) => item.basic_information.labels[0]?.catno ?? '',
+    format: (item) => item.basic_information.formats[0]?.name ?? '',
+    rating: (item) => item.rating,
+    // Wantlist spelling of `rating`
+    rated: (item) => item.rating,
+    year: (item) => item.basic_information.year
+  }
+
+/**
+ * Sorts and paginates a list the way Discogs does, reading `page`,
+ * `per_page` (max 100), `sort` and `sort_order` from the query string.
+ */
+function paginate<T extends DiscogsListItem>(c: Context, items: T[]) {
+  const url = new URL(c.req.url)
+  const perPage = Math.min(100, Number(c.req.query('per_page') ?? 50) || 50)
+  const page = Math.max(1, Number(c.req.query('page') ?? 1) || 1)
+  const pages = Math.max(1, Math.ceil(items.length / perPage))
+
+  const sortValue = SORT_VALUES[c.req.query('sort') ?? '']
+  const direction = c.req.query('sort_order') === 'desc' ? -1 : 1
+  const sorted = sortValue
+    ? [...items].sort((a, b) => {
+        const left = sortValue(a)
+        const right = sortValue(b)
+        const order =
+          typeof left === 'number' && typeof right === 'number'
+            ? left - right
+            : String(left).localeCompare(String(right))
+        return order * direction
+      })
+    : items
+
+  const pageUrl = (target: number) => {
+    url.searchParams.set('page', String(target))
+    return url.toString()
+  }
+
+  return {
+    pagination: {
+      page,
+      pages,
+      per_page: perPage,
+      items: items.length,
+      urls: {
+        ...(page > 1 && { first: pageUrl(1), prev: pageUrl(page - 1) }),
+        ...(page < pages && { next: pageUrl(page + 1), last: pageUrl(pages) })
+      }
+    },
+    items: sorted.slice((page - 1) * perPage, page * perPage)
+  }
+}
+
+/**
+ * Creates a stand-in for the Discogs API, serving the fixtures in
+ * `fixtures.ts`. Point the API server at it with `DISCOGS_API_URL` to run
+ * the whole login-to-collection flow without Discogs credentials or a
+ * network connection.
+ *
+ * Covers the OAuth 1.0a flow (authorization is granted straight away),
+ * identity, profile, collection folders, fields and value, paginated and
+ * sorted collection and wantlist, and release details. Every response
+ * carries `X-Discogs-Ratelimit-*` headers from a per-token sliding window,
+ * and requests beyond the limit get a 429 like the real API.
+ *
+ * Signatures aren't checked, and any `fake-access-` token is accepted so
+ * sessions survive a restart. Writes aren't supported.
+ *
+ * @param options.rateLimit - Requests allowed per minute (Discogs allows 60)
+ */
+export function createFakeDiscogsApp({
+  rateLimit = 60
+}: { rateLimit?: number } = {}): Hono {
+  const requestTokens = new Map<string, PendingRequestToken>()
+  const requestTimes = new Map<string, number[]>()
+
+  const app = new Hono()
+
+  app.use('*', async (c, next) => {
+    if (c.req.path === '/oauth/authorize') return next()
+
+    const token =
+      readOAuthParam(c.req.header('Authorization'), 'oauth_token') ??
+      'anonymous'
+    const now = Date.now()
+    const recent = (requestTimes.get(token) ?? []).filter(
+      (time) => now - time < RATE_LIMIT_WINDOW_MS
+    )
+    const limited = recent.length >= rateLimit
+    if (!limited) recent.push(now)
+    requestTimes.set(token, recent)
+
+    c.header('X-Discogs-Ratelimit', String(rateLimit))
+    c.header('X-Discogs-Ratelimit-Used', String(recent.length))
+    c.header('X-Discogs-Ratelimit-Remaining', String(rateLimit - recent.length))
+
+    if (limited) {
+      return c.json({ message: 'You are making requests too quickly.' }, 429)
+    }
+    return next()
+  })
+
+  // OAuth 1.0a: request token, authorize, access token
+
+  app.get('/oauth/request_token', (c) => {
+    const callbackUrl = readOAuthParam(
+      c.req.header('Authorization'),
+      'oauth_callback'
+    )
+    if (!callbackUrl) {
+      return c.text('Missing oauth_callback', 400)
+    }
+
+    const token = crypto.randomUUID()
+    const secret = crypto.randomUUID()
+    requestTokens.set(token, { secret, callbackUrl, verifier: null })
+
+    return c.text(
+      new URLSearchParams({
+        oauth_token: token,
+        oauth_token_secret: secret,
+        oauth_callback_confirmed: 'true'
+      }).toString()
+    )
+  })
+
+  app.get('/oauth/authorize', (c) => {
+    const token = c.req.query('oauth_token') ?? ''
+    const pending = requestTokens.get(token)
+    if (!pending) {
+      return c.text('Unknown or expired request token', 404)
+    }
+
+    pending.verifier = crypto.randomUUID().slice(0, 10)
+    const callback = new URL(pending.callbackUrl)
+    callback.searchParams.set('oauth_token', token)
+    callback.searchParams.set('oauth_verifier', pending.verifier)
+    return c.redirect(callback.toString())
+  })
+
+  app.post('/oauth/access_token', (c) => {
+    const header = c.req.header('Authorization')
+    const token = readOAuthParam(header, 'oauth_token') ?? ''
+    const pending = requestTokens.get(token)
+
+    // PLAINTEXT signature: `<consumer secret>&<token secret>`
+    const signature = readOAuthParam(header, 'oauth_signature') ?? ''
+    if (
+      !pending?.verifier ||
+      pending.verifier !== readOAuthParam(header, 'oauth_verifier') ||
+      !signature.endsWith(`&${pending.secret}`)
+    ) {
+      return c.text('Invalid request token or verifier', 401)
+    }
+
+    requestTokens.delete(token)
+    return c.text(
+      new URLSearchParams({
+        oauth_token: `${ACCESS_TOKEN_PREFIX}${crypto.randomUUID()}`,
+        oauth_token_secret: crypto.randomUUID()
+      }).toString()
+    )
+  })
+
+  // Releases are public; everything else needs the user's access token
+
+  app.get('/releases/:id', (c) => {
+    const release = getRelease(Number(c.req.param('id')))
+    return release ? c.json(release) : c.json(NOT_FOUND, 404)
+  })
+
+  app.use('*', async (c, next) => {
+    const token = readOAuthParam(c.req.header('Authorization'), 'oauth_token')
+    if (!token?.startsWith(ACCESS_TOKEN_PREFIX)) {
+      return c.json(
+        { message: 'You must authenticate to access this resource.' },
+        401
+      )
+    }
+    return next()
+  })
+
+  app.get('/oauth/identity', (c) => c.json(IDENTITY))
+
+  app.use('/users/:username/*', async (c, next) => {
+    if (c.req.param('username') !== FAKE_USERNAME) return c.json(NOT_FOUND, 404)
+    return next()
+  })
+
+  app.get('/users/:username', (c) =>
+    c.req.param('username') === FAKE_USERNAME
+      ? c.json(PROFILE)
+      : c.json(NOT_FOUND, 404)
+  )
+
+  app.get('/users/:username/collection/folders', (c) =>
+    c.json({ folders: getFolders() })
+  )
+
+  app.get('/users/:username/collection/folders/:folderId/releases', (c) => {
+    const folderId = Number(c.req.param('folderId'))
+    if (!getFolders().some((folder) => folder.id === folderId)) {
+      return c.json(NOT_FOUND, 404)
+    }
+
+    const releases =
+      folderId === 0
+        ? COLLECTION
+        : COLLECTION.filter((item) => item.folder_id === folderId)
+    const { pagination, items } = paginate(c, releases)
+    return c.json({ pagination, releases: items })
+  })
+
+  app.get('/users/:username/collection/fields', (c) =>
+    c.json({ fields: COLLECTION_FIELDS })
+  )
+
+  app.get('/users/:username/collection/value', (c) =>
+    c.json(getCollectionValue())
+  )
+
+  app.get('/users/:username/wants', (c) => {
+    const { pagination, items } = paginate(c, WANTLIST)
+    return c.json({ pagination, wants: items })
+  })
+
+  app.notFound((c) => c.json(NOT_FOUND, 404))
+
+  return app
+}
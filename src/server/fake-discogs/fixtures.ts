@@ -0,0 +1,375 @@
+import type {
+  DiscogsBasicInformation,
+  DiscogsCollectionField,
+  DiscogsCollectionFolder,
+  DiscogsCollectionRelease,
+  DiscogsCollectionValue,
+  DiscogsFormat,
+  DiscogsIdentity,
+  DiscogsRelease,
+  DiscogsUserProfile,
+  DiscogsWantlistItem
+} from '../../types/discogs.js'
+
+/**
+ * Fixture data for the fake Discogs server. Generated from a fixed seed, so
+ * every run (and every test) sees the same collection.
+ */
+
+/** Small seeded PRNG (mulberry32) */
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: () => number, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)] as T
+}
+
+const API_ORIGIN = 'https://api.discogs.com'
+
+export const FAKE_USERNAME = 'vinyldeck-demo'
+const FAKE_USER_ID = 7_000_001
+
+const ARTISTS = [
+  'The Velvet Orchards',
+  'Sigrún Ólafsdóttir',
+  'Marcus Hale Quartet',
+  'Neon Tidal',
+  'Zoë & The Cafés',
+  'Kōji Hanazawa',
+  'Lowlight Assembly',
+  'Dalia Ferreira',
+  'Brass Meridian',
+  'Sunset Static',
+  'Åsa Lindqvist Trio',
+  'DJ Parallax',
+  'The Copper Lanterns',
+  'Émile Durand',
+  'Hollow Pines',
+  'Mira Okafor',
+  'Groove Cartel',
+  'Tomás Ibáñez',
+  'Quiet Satellites',
+  'Rhodes Collective'
+].map((name, index) => ({ id: 310_000 + index, name }))
+
+const TITLE_OPENERS = [
+  'Midnight',
+  'Golden',
+  'Electric',
+  'Northern',
+  'Velvet',
+  'Distant',
+  'Paper',
+  'Silver',
+  'Slow',
+  'Wild',
+  'Hidden',
+  'Blue'
+]
+
+const TITLE_CLOSERS = [
+  'Sessions',
+  'Horizons',
+  'Gardens',
+  'Signals',
+  'Rituals',
+  'Weather',
+  'Machines',
+  'Echoes',
+  'Rooms',
+  'Tides',
+  'Lights',
+  'Dreams'
+]
+
+const GENRES: Record<string, string[]> = {
+  Electronic: ['House', 'Techno', 'Ambient', 'Downtempo'],
+  Jazz: ['Hard Bop', 'Modal', 'Fusion', 'Soul-Jazz'],
+  Rock: ['Indie Rock', 'Psychedelic Rock', 'Post-Punk', 'Shoegaze'],
+  'Funk / Soul': ['Funk', 'Soul', 'Disco'],
+  'Hip Hop': ['Boom Bap', 'Instrumental', 'Jazzy Hip-Hop'],
+  Classical: ['Baroque', 'Contemporary', 'Romantic']
+}
+
+const LABELS = [
+  { id: 42_000, name: 'Orchard Records', prefix: 'ORC' },
+  { id: 42_001, name: 'Blue Fathom', prefix: 'BF' },
+  { id: 42_002, name: 'Static Press', prefix: 'SP' },
+  { id: 42_003, name: 'Norrsken Musik', prefix: 'NM' },
+  { id: 42_004, name: 'Lantern Audio', prefix: 'LA' },
+  { id: 42_005, name: 'Kaze Sound', prefix: 'KZ' }
+]
+
+const FORMATS: DiscogsFormat[][] = [
+  [{ name: 'Vinyl', qty: '1', descriptions: ['LP', 'Album'] }],
+  [{ name: 'Vinyl', qty: '2', descriptions: ['LP', 'Album'] }],
+  [{ name: 'Vinyl', qty: '1', descriptions: ['12"', 'EP', '45 RPM'] }],
+  [{ name: 'Vinyl', qty: '1', descriptions: ['7"', 'Single', '45 RPM'] }],
+  [{ name: 'Vinyl', qty: '1', descriptions: ['LP', 'Album', 'Reissue'] }],
+  [{ name: 'CD', qty: '1', descriptions: ['Album'] }]
+]
+
+const COUNTRIES = ['US', 'UK', 'Germany', 'Japan', 'Sweden', 'France', 'Norway']
+
+const CONDITIONS = [
+  'Mint (M)',
+  'Near Mint (NM or M-)',
+  'Very Good Plus (VG+)',
+  'Very Good (VG)',
+  'Good Plus (G+)',
+  'Good (G)',
+  'Fair (F)',
+  'Poor (P)'
+]
+
+/** Dates are counted back from here rather than from "now" */
+const BASE_DATE = Date.UTC(2025, 5, 1, 12)
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function createBasicInformation(
+  random: () => number,
+  id: number
+): DiscogsBasicInformation {
+  const artist = pick(random, ARTISTS)
+  const label = pick(random, LABELS)
+  const genre = pick(random, Object.keys(GENRES))
+  const styles = GENRES[genre] ?? []
+
+  return {
+    id,
+    title: `${pick(random, TITLE_OPENERS)} ${pick(random, TITLE_CLOSERS)}`,
+    year: random() < 0.05 ? 0 : 1962 + Math.floor(random() * 63),
+    resource_url: `${API_ORIGIN}/releases/${id}`,
+    // No artwork: the fake server works offline
+    thumb: '',
+    cover_image: '',
+    formats: pick(random, FORMATS),
+    labels: [
+      {
+        id: label.id,
+        name: label.name,
+        catno: `${label.prefix}-${100 + Math.floor(random() * 900)}`,
+        resource_url: `${API_ORIGIN}/labels/${label.id}`
+      }
+    ],
+    artists: [
+      {
+        id: artist.id,
+        name: artist.name,
+        resource_url: `${API_ORIGIN}/artists/${artist.id}`
+      }
+    ],
+    country: pick(random, COUNTRIES),
+    genres: [genre],
+    styles: styles.filter(() => random() < 0.5).slice(0, 2)
+  }
+}
+
+/** Custom folder, next to Discogs' built-in "All" (0) and "Uncategorized" (1) */
+const FAVORITES_FOLDER_ID = 2_000_001
+
+export const COLLECTION_FIELDS: DiscogsCollectionField[] = [
+  {
+    id: 1,
+    name: 'Media Condition',
+    position: 1,
+    type: 'dropdown',
+    public: true,
+    options: CONDITIONS
+  },
+  {
+    id: 2,
+    name: 'Sleeve Condition',
+    position: 2,
+    type: 'dropdown',
+    public: true,
+    options: CONDITIONS
+  },
+  {
+    id: 3,
+    name: 'Notes',
+    position: 3,
+    type: 'textarea',
+    public: false,
+    lines: 3
+  }
+]
+
+const COLLECTION_SIZE = 120
+const WANTLIST_SIZE = 24
+
+function createCollection(): DiscogsCollectionRelease[] {
+  const random = createRandom(20_250_601)
+
+  return Array.from({ length: COLLECTION_SIZE }, (_, index) => {
+    const id = 1_000_000 + index * 37
+    const condition = pick(random, CONDITIONS.slice(0, 5))
+
+    return {
+      id,
+      instance_id: 500_000_000 + index,
+      date_added: new Date(
+        BASE_DATE - Math.floor(random() * 3 * 365) * DAY_MS
+      ).toISOString(),
+      rating: Math.floor(random() * 6),
+      basic_information: createBasicInformation(random, id),
+      folder_id: index % 6 === 0 ? FAVORITES_FOLDER_ID : 1,
+      notes: [
+        { field_id: 1, value: condition },
+        { field_id: 2, value: condition },
+        ...(random() < 0.2
+          ? [{ field_id: 3, value: 'Bought at a record fair' }]
+          : [])
+      ]
+    }
+  })
+}
+
+function createWantlist(): DiscogsWantlistItem[] {
+  const random = createRandom(20_250_602)
+
+  return Array.from({ length: WANTLIST_SIZE }, (_, index) => {
+    const id = 2_000_000 + index * 41
+    return {
+      id,
+      resource_url: `${API_ORIGIN}/users/${FAKE_USERNAME}/wants/${id}`,
+      rating: 0,
+      date_added: new Date(
+        BASE_DATE - Math.floor(random() * 365) * DAY_MS
+      ).toISOString(),
+      basic_information: createBasicInformation(random, id),
+      notes: ''
+    }
+  })
+}
+
+export const COLLECTION = createCollection()
+export const WANTLIST = createWantlist()
+
+/**
+ * Folders as Discogs lists them, with counts taken from the collection.
+ */
+export function getFolders(): DiscogsCollectionFolder[] {
+  const folder = (id: number, name: string): DiscogsCollectionFolder => ({
+    id,
+    name,
+    count:
+      id === 0
+        ? COLLECTION.length
+        : COLLECTION.filter((item) => item.folder_id === id).length,
+    resource_url: `${API_ORIGIN}/users/${FAKE_USERNAME}/collection/folders/${id}`
+  })
+
+  return [
+    folder(0, 'All'),
+    folder(1, 'Uncategorized'),
+    folder(FAVORITES_FOLDER_ID, 'Favorites')
+  ]
+}
+
+export const IDENTITY: DiscogsIdentity = {
+  id: FAKE_USER_ID,
+  username: FAKE_USERNAME,
+  resource_url: `${API_ORIGIN}/users/${FAKE_USERNAME}`,
+  consumer_name: 'VinylDeck (fake Discogs)'
+}
+
+export const PROFILE: DiscogsUserProfile = {
+  id: FAKE_USER_ID,
+  username: FAKE_USERNAME,
+  resource_url: `${API_ORIGIN}/users/${FAKE_USERNAME}`,
+  uri: `https://www.discogs.com/user/${FAKE_USERNAME}`,
+  name: 'Demo Collector',
+  location: 'Oslo, Norway',
+  registered: '2019-03-14T09:21:44-07:00',
+  num_collection: COLLECTION.length,
+  num_wantlist: WANTLIST.length,
+  curr_abbr: 'USD',
+  avatar_url: '',
+  email: 'demo@vinyldeck.invalid'
+}
+
+/**
+ * Rough collection value, from a made-up median price per item.
+ */
+export function getCollectionValue(): DiscogsCollectionValue {
+  const format = (amount: number) =>
+    amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' })
+
+  return {
+    minimum: format(COLLECTION.length * 6.5),
+    median: format(COLLECTION.length * 14.25),
+    maximum: format(COLLECTION.length * 31.8)
+  }
+}
+
+/**
+ * Full release details for any release in the collection or wantlist.
+ *
+ * @returns The release, or undefined for unknown IDs
+ */
+export function getRelease(id: number): DiscogsRelease | undefined {
+  const basic = [...COLLECTION, ...WANTLIST].find(
+    (item) => item.id === id
+  )?.basic_information
+  if (!basic) return undefined
+
+  const random = createRandom(id)
+  const sides = ['A', 'B']
+  const perSide = 3 + Math.floor(random() * 3)
+
+  return {
+    id,
+    title: basic.title,
+    artists: basic.artists,
+    data_quality: 'Correct',
+    thumb: basic.thumb,
+    community: {
+      contributors: [],
+      data_quality: 'Correct',
+      have: 50 + Math.floor(random() * 5000),
+      want: 20 + Math.floor(random() * 3000),
+      rating: {
+        average: Math.round((3 + random() * 2) * 100) / 100,
+        count: 10 + Math.floor(random() * 400)
+      },
+      status: 'Accepted',
+      submitter: {
+        resource_url: `${API_ORIGIN}/users/${FAKE_USERNAME}`,
+        username: FAKE_USERNAME
+      }
+    },
+    ...(basic.country !== undefined && { country: basic.country }),
+    date_added: '2020-01-05T10:00:00-08:00',
+    date_changed: '2023-08-19T15:30:00-07:00',
+    format_quantity: Number(basic.formats[0]?.qty ?? 1),
+    formats: basic.formats,
+    genres: basic.genres,
+    labels: basic.labels,
+    lowest_price: Math.round((8 + random() * 60) * 100) / 100,
+    num_for_sale: Math.floor(random() * 40),
+    released: String(basic.year),
+    resource_url: basic.resource_url,
+    status: 'Accepted',
+    styles: basic.styles,
+    tracklist: sides.flatMap((side) =>
+      Array.from({ length: perSide }, (_, index) => ({
+        position: `${side}${index + 1}`,
+        title: `${pick(random, TITLE_OPENERS)} ${pick(random, TITLE_CLOSERS)}`,
+        type_: 'track',
+        duration: `${2 + Math.floor(random() * 6)}:${String(
+          Math.floor(random() * 60)
+        ).padStart(2, '0')}`
+      }))
+    ),
+    uri: `https://www.discogs.com/release/${id}`,
+    year: basic.year
+  }
+}
@@ -0,0 +1,140 @@
+import type { DiscogsClient, DiscogsOAuth } from '@lionralfs/discogs-client'
+
+declare const process: {
+  env: {
+    DISCOGS_API_URL?: string
+  }
+}
+
+/**
+ * Base URL of a stand-in Discogs API, such as the fake server in
+ * `fake-discogs/` (`bun run dev:fake-discogs`).
+ *
+ * @returns The URL, or undefined to talk to api.discogs.com
+ */
+export function getDiscogsApiUrl(): string | undefined {
+  return process.env.DISCOGS_API_URL || undefined
+}
+
+/**
+ * Mirrors the package's (unexported) DiscogsError, so `isDiscogsError` and
+ * the error mapping treat local responses like real ones.
+ */
+class LocalDiscogsError extends Error {
+  statusCode: number
+
+  constructor(statusCode: number, message: string) {
+    super(message)
+    this.name = 'DiscogsError'
+    this.statusCode = statusCode
+  }
+}
+
+async function toError(response: Response): Promise<LocalDiscogsError> {
+  const body = await response.text().catch(() => '')
+  let message = body
+  try {
+    const parsed = JSON.parse(body) as { message?: unknown }
+    if (typeof parsed.message === 'string') message = parsed.message
+  } catch {
+    // Plain text body (the OAuth endpoints)
+  }
+  return new LocalDiscogsError(response.status, message)
+}
+
+/**
+ * Creates a replacement for `DiscogsClient.request` that sends requests to
+ * `baseUrl`. The client itself always uses `https://api.discogs.com`.
+ *
+ * Sends the access token the way the real client does, minus the
+ * signature, and returns the same `{ data, rateLimit }` shape.
+ *
+ * @param baseUrl - From {@link getDiscogsApiUrl}
+ * @param accessToken - The user's OAuth access token
+ */
+export function createLocalRequest(
+  baseUrl: string,
+  accessToken: string
+): DiscogsClient['request'] {
+  return async (options) => {
+    const response = await fetch(new URL(options.url, baseUrl), {
+      method: options.method ?? 'GET',
+      headers: {
+        Authorization: `OAuth oauth_token="${accessToken}"`,
+        ...(options.data && { 'Content-Type': 'application/json' })
+      },
+      ...(options.data && { body: JSON.stringify(options.data) })
+    })
+
+    if (response.status > 399) {
+      throw await toError(response)
+    }
+
+    const limit = response.headers.get('x-discogs-ratelimit')
+    return {
+      data: await response.json().catch(() => undefined),
+      ...(limit !== null && {
+        rateLimit: {
+          limit: Number(limit),
+          used: Number(response.headers.get('x-discogs-ratelimit-used')),
+          remaining: Number(
+            response.headers.get('x-discogs-ratelimit-remaining')
+          )
+        }
+      })
+    }
+  }
+}
+
+type OAuthClient = Pick<DiscogsOAuth, 'getRequestToken' | 'getAccessToken'>
+
+/**
+ * Creates a drop-in for `DiscogsOAuth` that runs the token exchange
+ * against `baseUrl`, including the authorize page the user is sent to.
+ * No consumer credentials are involved.
+ *
+ * @param baseUrl - From {@link getDiscogsApiUrl}
+ */
+export function createLocalOAuth(baseUrl: string): OAuthClient {
+  const send = async (path: string, method: string, params: string) => {
+    const response = await fetch(new URL(path, baseUrl), {
+      method,
+      headers: { Authorization: `OAuth ${params}` }
+    })
+    if (response.status !== 200) {
+      throw await toError(response)
+    }
+    return new URLSearchParams(await response.text())
+  }
+
+  return {
+    getRequestToken: async (callbackUrl) => {
+      const body = await send(
+        '/oauth/request_token',
+        'GET',
+        `oauth_callback="${encodeURIComponent(callbackUrl)}"`
+      )
+      const token = body.get('oauth_token')
+      return {
+        token,
+        tokenSecret: body.get('oauth_token_secret'),
+        callbackConfirmed: body.get('oauth_callback_confirmed') === 'true',
+        authorizeUrl: new URL(
+          `/oauth/authorize?oauth_token=${token ?? ''}`,
+          baseUrl
+        ).toString()
+      }
+    },
+    getAccessToken: async (token, tokenSecret, verifier) => {
+      const body = await send(
+        '/oauth/access_token',
+        'POST',
+        `oauth_token="${token}", oauth_signature="&${tokenSecret}", oauth_verifier="${verifier}"`
+      )
+      return {
+        accessToken: body.get('oauth_token'),
+        accessTokenSecret: body.get('oauth_token_secret')
+      }
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { log, redact } from './logger.js'
+
+describe('redact', () => {
+  it('hides tokens and secrets at any depth', () => {
+    expect(
+      redact({
+        username: 'vinyldeck-demo',
+        requestToken: 'abc',
+        nested: [{ accessTokenSecret: 'def', page: 2 }],
+        state: 'signed'
+      })
+    ).toEqual({
+      username: 'vinyldeck-demo',
+      requestToken: '[redacted]',
+      nested: [{ accessTokenSecret: '[redacted]', page: 2 }],
+      state: '[redacted]'
+    })
+  })
+
+  it('leaves plain values alone', () => {
+    expect(redact('token')).toBe('token')
+    expect(redact(undefined)).toBeUndefined()
+  })
+})
+
+describe('log', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('writes one JSON line per entry', () => {
+    vi.stubEnv('LOG_LEVEL', 'info')
+    const write = vi.spyOn(console, 'log').mockImplementation(() => undefined)
+
+    log('info', 'procedure succeeded', { path: 'discogs.getIdentity' })
+
+    expect(write).toHaveBeenCalledOnce()
+    expect(JSON.parse(String(write.mock.calls[0]?.[0]))).toMatchObject({
+      level: 'info',
+      message: 'procedure succeeded',
+      path: 'discogs.getIdentity'
+    })
+  })
+
+  it('drops entries below LOG_LEVEL', () => {
+    vi.stubEnv('LOG_LEVEL', 'warn')
+    const info = vi.spyOn(console, 'log').mockImplementation(() => undefined)
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+
+    log('info', 'procedure succeeded', {})
+    log('warn', 'procedure failed', {})
+
+    expect(info).not.toHaveBeenCalled()
+    expect(warn).toHaveBeenCalledOnce()
+  })
+})
@@ -0,0 +1,111 @@
+import type { RateLimit } from '@lionralfs/discogs-client'
+
+declare const process: {
+  env: {
+    LOG_LEVEL?: string
+  }
+}
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+const LEVEL_ORDER: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 50
+}
+
+/** Vercel tags lines as errors or warnings by the stream they go to */
+const WRITERS: Record<LogLevel, (line: string) => void> = {
+  debug: (line) => {
+    console.debug(line)
+  },
+  info: (line) => {
+    console.log(line)
+  },
+  warn: (line) => {
+    console.warn(line)
+  },
+  error: (line) => {
+    console.error(line)
+  }
+}
+
+/** Keys whose values never reach the logs: tokens, secrets, signed state */
+const SENSITIVE_KEY = /token|secret|verifier|signature|state|cookie|auth/i
+
+const REDACTED = '[redacted]'
+
+function getMinLevel(): number {
+  const configured = process.env.LOG_LEVEL?.toLowerCase()
+  return configured && configured in LEVEL_ORDER
+    ? LEVEL_ORDER[configured as LogLevel | 'silent']
+    : LEVEL_ORDER.info
+}
+
+/**
+ * Copies a value for logging, replacing the values of sensitive keys (see
+ * `SENSITIVE_KEY`) at any depth.
+ *
+ * @param value - Anything JSON-serializable, such as procedure input
+ * @returns The copy, safe to log
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact)
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? REDACTED : redact(item)
+      ])
+    )
+  }
+  return value
+}
+
+/**
+ * Writes one JSON log line, with sensitive fields redacted. Lines below
+ * `LOG_LEVEL` (default `info`; `silent` turns logging off) are dropped.
+ *
+ * @param level - Severity of the entry
+ * @param message - Short, constant description of the event
+ * @param fields - Structured details of the event
+ */
+export function log(
+  level: LogLevel,
+  message: string,
+  fields: Record<string, unknown>
+): void {
+  if (LEVEL_ORDER[level] < getMinLevel()) return
+
+  WRITERS[level](
+    JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...(redact(fields) as Record<string, unknown>)
+    })
+  )
+}
+
+/**
+ * The Discogs requests made for one procedure call, as recorded by the
+ * Discogs client (see `createDiscogsClient`). Stays empty when the
+ * response cache answered.
+ */
+export interface UpstreamTrace {
+  /** Requests sent, including 429 retries */
+  requests: number
+  /** Status of the latest response; 200 for any success */
+  status: number | null
+  /** Rate limit headers of the latest response that had them */
+  rateLimit: RateLimit | null
+}
+
+/** Starts the trace for one procedure call */
+export function createUpstreamTrace(): UpstreamTrace {
+  return { requests: 0, status: null, rateLimit: null }
+}
@@ -0,0 +1,144 @@
+import { TRPCError } from '@trpc/server'
+
+import {
+  fromBase64Url,
+  getSessionSecret,
+  serializeCookie,
+  toBase64Url
+} from './session.js'
+
+import type { OAuthStatePayload } from '../types/discogs.js'
+
+export const OAUTH_STATE_COOKIE_NAME = 'vinyldeck_oauth_state'
+
+/** Time the user has to authorize on Discogs and come back */
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  )
+}
+
+/**
+ * Issues signed state for a request token. The nonce goes into an HttpOnly
+ * cookie (see {@link serializeOAuthStateCookie}) so only the browser that
+ * started the flow can complete it.
+ *
+ * @param requestToken - The request token from Discogs
+ * @returns The state for the client and the nonce for the cookie
+ */
+export async function createOAuthState(
+  requestToken: string
+): Promise<{ state: string; nonce: string }> {
+  const nonce = toBase64Url(crypto.getRandomValues(new Uint8Array(16)))
+  const payload: OAuthStatePayload = {
+    requestToken,
+    nonce,
+    exp: Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS
+  }
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)))
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getSigningKey(),
+    encoder.encode(body)
+  )
+  return { state: `${body}.${toBase64Url(new Uint8Array(signature))}`, nonce }
+}
+
+/**
+ * Verifies state from {@link createOAuthState} against the callback's
+ * request token and the browser's nonce cookie. Each failure has its own
+ * code so the callback page can explain it:
+ * - PRECONDITION_FAILED: forged, or issued for another token
+ * - TIMEOUT: older than {@link OAUTH_STATE_TTL_SECONDS}
+ * - PRECONDITION_REQUIRED: no nonce cookie; the flow was started in another
+ *   browser, already exchanged (the cookie is cleared on first use), or the
+ *   cookie was blocked
+ * - CONFLICT: the cookie holds another nonce, from a newer sign-in started
+ *   in this browser
+ *
+ * @param state - State the client kept from `getRequestToken`
+ * @param requestToken - Request token being exchanged
+ * @param cookieNonce - Nonce from the state cookie, if still present
+ * @throws TRPCError when the state doesn't check out
+ */
+export async function verifyOAuthState(
+  state: string,
+  requestToken: string,
+  cookieNonce: string | null
+): Promise<void> {
+  const invalid = new TRPCError({
+    code: 'PRECONDITION_FAILED',
+    message: 'Invalid OAuth state'
+  })
+
+  const [body, signature, ...rest] = state.split('.')
+  if (!body || !signature || rest.length > 0) throw invalid
+
+  let payload: OAuthStatePayload
+  try {
+    const isSigned = await crypto.subtle.verify(
+      'HMAC',
+      await getSigningKey(),
+      fromBase64Url(signature),
+      encoder.encode(body)
+    )
+    if (!isSigned) throw invalid
+    payload = JSON.parse(
+      decoder.decode(fromBase64Url(body))
+    ) as OAuthStatePayload
+  } catch (error) {
+    if (error instanceof TRPCError) throw error
+    throw invalid
+  }
+
+  if (payload.requestToken !== requestToken) throw invalid
+
+  if (payload.exp < Date.now() / 1000) {
+    throw new TRPCError({
+      code: 'TIMEOUT',
+      message: 'OAuth state expired'
+    })
+  }
+
+  if (cookieNonce === null) {
+    throw new TRPCError({
+      code: 'PRECONDITION_REQUIRED',
+      message: 'OAuth state cookie missing'
+    })
+  }
+
+  if (cookieNonce !== payload.nonce) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: 'OAuth state superseded by a newer sign-in'
+    })
+  }
+}
+
+/**
+ * Builds the Set-Cookie header for the state nonce.
+ *
+ * @param nonce - Nonce from {@link createOAuthState}, or null to clear it
+ * @param secure - Whether the request came over HTTPS
+ * @returns Set-Cookie header value
+ */
+export function serializeOAuthStateCookie(
+  nonce: string | null,
+  secure: boolean
+): string {
+  return serializeCookie(
+    OAUTH_STATE_COOKIE_NAME,
+    nonce,
+    OAUTH_STATE_TTL_SECONDS,
+    secure
+  )
+}
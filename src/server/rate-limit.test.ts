@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+
+import { getRateLimitDelay, WINDOW_MS } from './rate-limit.js'
+
+describe('getRateLimitDelay', () => {
+  it('does not delay while plenty of requests remain', () => {
+    expect(getRateLimitDelay({ limit: 60, used: 10, remaining: 50 })).toBe(0)
+    expect(getRateLimitDelay(undefined)).toBe(0)
+  })
+
+  it('adds a slot of the window per missing request near the limit', () => {
+    const slot = WINDOW_MS / 60
+
+    expect(getRateLimitDelay({ limit: 60, used: 55, remaining: 5 })).toBe(slot)
+    expect(getRateLimitDelay({ limit: 60, used: 60, remaining: 0 })).toBe(
+      6 * slot
+    )
+  })
+})
@@ -0,0 +1,28 @@
+import type { RateLimit } from '@lionralfs/discogs-client'
+
+/** Remaining requests below which the request queue spaces requests out */
+const RESERVE = 5
+/** Discogs rate limits over a moving 60 second window */
+export const WINDOW_MS = 60 * 1000
+
+/**
+ * How long to pause before a user's next request, based on the rate limit
+ * headers of their previous response.
+ *
+ * No delay while more than `RESERVE` requests remain. Below that, each
+ * missing request adds one slot of the window (1 s at 60/min), so a
+ * procedure slows down gradually instead of running into a 429.
+ *
+ * @param rateLimit - Rate limit from the previous Discogs response
+ * @returns Delay in milliseconds
+ */
+export function getRateLimitDelay(rateLimit: RateLimit | undefined): number {
+  if (!rateLimit || rateLimit.limit <= 0 || rateLimit.remaining > RESERVE) {
+    return 0
+  }
+
+  return ((RESERVE - rateLimit.remaining + 1) * WINDOW_MS) / rateLimit.limit
+}
+
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms))
@@ -0,0 +1,143 @@
+import { getRateLimitDelay, sleep, WINDOW_MS } from './rate-limit.js'
+import { isDiscogsError, RateLimitedError } from './trpc/error-utils.js'
+
+import type { RateLimit } from '@lionralfs/discogs-client'
+
+declare const process: {
+  env: {
+    DISCOGS_REQUEST_DEADLINE_MS?: string
+  }
+}
+
+/** First 429 retry waits about this long, doubling each attempt */
+const BACKOFF_BASE_MS = 1000
+const BACKOFF_MAX_MS = 16 * 1000
+
+/**
+ * How long a request may keep retrying 429s before the caller sees the
+ * error. Keep it under the serverless function timeout.
+ */
+const DEFAULT_DEADLINE_MS = 20 * 1000
+
+function getDeadlineMs(): number {
+  const configured = Number(process.env.DISCOGS_REQUEST_DEADLINE_MS)
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_DEADLINE_MS
+}
+
+/**
+ * Jittered exponential backoff: between half and all of the doubled base
+ * delay, so retries from concurrent requests don't land together.
+ */
+function getBackoffDelay(attempt: number): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt)
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+/**
+ * Paces one user's Discogs requests. Request starts are spaced using the
+ * `X-Discogs-Ratelimit-*` headers of the latest response, slowing down as
+ * the window runs low, and 429 responses are retried with backoff until
+ * the deadline passes.
+ */
+class RequestQueue {
+  private rateLimit: RateLimit | undefined
+  private updatedAt = 0
+  private blockedUntil = 0
+  private inFlight = 0
+  private nextStart: Promise<void> = Promise.resolve()
+
+  /** Whether the queue holds no state worth keeping */
+  get isIdle(): boolean {
+    return (
+      this.inFlight === 0 &&
+      // Discogs resets the window after a minute without requests
+      Date.now() - this.updatedAt > WINDOW_MS &&
+      Date.now() > this.blockedUntil
+    )
+  }
+
+  private getStartDelay(): number {
+    const blockedFor = this.blockedUntil - Date.now()
+    if (!this.rateLimit || Date.now() - this.updatedAt > WINDOW_MS) {
+      return Math.max(0, blockedFor)
+    }
+
+    // Requests already running will each use up one of the remaining slots
+    const paced = getRateLimitDelay({
+      ...this.rateLimit,
+      remaining: this.rateLimit.remaining - this.inFlight
+    })
+    return Math.max(0, blockedFor, paced)
+  }
+
+  /** Waits for this request's turn, one start at a time */
+  private waitForTurn(): Promise<void> {
+    const turn = this.nextStart.then(() => sleep(this.getStartDelay()))
+    this.nextStart = turn
+    return turn
+  }
+
+  /**
+   * Runs a Discogs request through the queue.
+   *
+   * @param request - Sends the request; resolves with its rate limit headers
+   * @returns The request's result
+   * @throws RateLimitedError once a 429 persists past the deadline, or any
+   * other error straight away
+   */
+  async run<T extends { rateLimit?: RateLimit }>(
+    request: () => Promise<T>
+  ): Promise<T> {
+    const deadline = Date.now() + getDeadlineMs()
+
+    for (let attempt = 0; ; attempt += 1) {
+      await this.waitForTurn()
+
+      this.inFlight += 1
+      try {
+        const result = await request()
+        if (result.rateLimit) {
+          this.rateLimit = result.rateLimit
+          this.updatedAt = Date.now()
+        }
+        return result
+      } catch (error) {
+        const isRateLimited = isDiscogsError(error) && error.statusCode === 429
+        if (!isRateLimited) throw error
+
+        const delay = getBackoffDelay(attempt)
+        if (Date.now() + delay > deadline) {
+          throw new RateLimitedError(error, Math.ceil(delay / 1000))
+        }
+
+        // Hold back the user's other requests too, not just this one
+        this.blockedUntil = Math.max(this.blockedUntil, Date.now() + delay)
+      } finally {
+        this.inFlight -= 1
+      }
+    }
+  }
+}
+
+const queues = new Map<string, RequestQueue>()
+
+/**
+ * Returns the queue for an access token, so all of a user's concurrent
+ * requests on this instance share one view of their rate limit. Idle
+ * queues are dropped as new ones are requested.
+ *
+ * @param accessToken - The user's OAuth access token
+ */
+export function getRequestQueue(accessToken: string): RequestQueue {
+  let queue = queues.get(accessToken)
+  if (!queue) {
+    for (const [token, idle] of queues) {
+      if (idle.isIdle) queues.delete(token)
+    }
+    queue = new RequestQueue()
+    queues.set(accessToken, queue)
+  }
+  return queue
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { createResponseCache, MemoryCacheStore } from './response-cache.js'
+
+const rateLimit = { limit: 60, used: 1, remaining: 59 }
+
+const respond = (value: string) => () => Promise.resolve({ value, rateLimit })
+
+describe('MemoryCacheStore', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('evicts the oldest entries beyond maxEntries', async () => {
+    const store = new MemoryCacheStore(2)
+    await store.set('a', '1', 60)
+    await store.set('b', '2', 60)
+    await store.set('c', '3', 60)
+
+    expect(await store.get('a')).toBeUndefined()
+    expect(await store.get('c')).toBe('3')
+  })
+
+  it('keeps entries stored without a TTL out of expiry and eviction', async () => {
+    vi.useFakeTimers()
+    const store = new MemoryCacheStore(1)
+    await store.set('pinned', 'kept', null)
+    await store.set('a', '1', 60)
+    await store.set('b', '2', 60)
+
+    vi.advanceTimersByTime(1000 * 60 * 60 * 24 * 7)
+
+    expect(await store.get('pinned')).toBe('kept')
+    expect(await store.get('b')).toBeUndefined()
+  })
+})
+
+describe('createResponseCache', () => {
+  it('keeps invalidated entries dropped once the store fills up', async () => {
+    const store = new MemoryCacheStore(2)
+    const cache = createResponseCache(store, 'user')
+
+    await cache.cached('getCollection', { page: 1 }, respond('stale'))
+    await cache.invalidateUser()
+    await cache.cached('getCollection', { page: 1 }, respond('fresh'))
+    // Fills the store past maxEntries
+    await cache.cached('getCollection', { page: 2 }, respond('other'))
+    await cache.cached('getRelease', { releaseId: 1 }, respond('public'))
+
+    const result = await cache.cached(
+      'getCollection',
+      { page: 1 },
+      respond('refetched')
+    )
+    expect(result.value).not.toBe('stale')
+  })
+
+  it('serves the current generation while other entries are evicted', async () => {
+    const store = new MemoryCacheStore(2)
+    const cache = createResponseCache(store, 'user')
+
+    await cache.invalidateUser()
+    await cache.cached('getCollection', { page: 1 }, respond('first'))
+    await cache.cached('getCollection', { page: 2 }, respond('second'))
+
+    const result = await cache.cached(
+      'getCollection',
+      { page: 1 },
+      respond('refetched')
+    )
+    expect(result).toMatchObject({ value: 'first', cacheHit: true })
+  })
+})
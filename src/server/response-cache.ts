@@ -0,0 +1,211 @@
+import type { RateLimit } from '@lionralfs/discogs-client'
+
+/**
+ * Key-value store behind the response cache. Values are JSON strings, so a
+ * shared store (Redis, Vercel KV) can replace the in-memory one without
+ * touching the procedures.
+ */
+export interface CacheStore {
+  get: (key: string) => Promise<string | undefined>
+  /**
+   * @param ttlSeconds - How long to keep the entry; null keeps it until it's
+   *   overwritten, exempt from expiry and eviction
+   */
+  set: (key: string, value: string, ttlSeconds: number | null) => Promise<void>
+}
+
+interface MemoryEntry {
+  value: string
+  expiresAt: number
+}
+
+/**
+ * In-memory {@link CacheStore}. Lives as long as the process (one warm
+ * serverless instance, or the dev server), evicting the oldest entries
+ * beyond `maxEntries`. Entries stored without a TTL are kept apart and never
+ * evicted.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, MemoryEntry>()
+  private pinned = new Map<string, string>()
+  private readonly maxEntries: number
+
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries
+  }
+
+  get(key: string): Promise<string | undefined> {
+    const pinned = this.pinned.get(key)
+    if (pinned !== undefined) {
+      return Promise.resolve(pinned)
+    }
+
+    const entry = this.entries.get(key)
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key)
+      return Promise.resolve(undefined)
+    }
+    return Promise.resolve(entry?.value)
+  }
+
+  set(key: string, value: string, ttlSeconds: number | null): Promise<void> {
+    // Re-inserting moves the key to the end of the eviction order
+    this.entries.delete(key)
+    this.pinned.delete(key)
+
+    if (ttlSeconds === null) {
+      this.pinned.set(key, value)
+      return Promise.resolve()
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break
+      this.entries.delete(oldest)
+    }
+    return Promise.resolve()
+  }
+}
+
+const MINUTE = 60
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+interface CachePolicy {
+  /**
+   * `public` responses are the same for every user and shared between them;
+   * `user` responses are keyed by the session and dropped when the user
+   * makes a change through any mutation.
+   */
+  scope: 'public' | 'user'
+  ttlSeconds: number
+}
+
+/**
+ * Cacheable procedures. Releases and masters rarely change once entered, so
+ * they're kept for a day; collection and wantlist pages change with the
+ * user's edits on Discogs itself, so they're kept briefly.
+ */
+const CACHE_POLICIES = {
+  getRelease: { scope: 'public', ttlSeconds: DAY },
+  getMaster: { scope: 'public', ttlSeconds: DAY },
+  // Versions carry the user's in_collection/in_wantlist counts
+  getMasterVersions: { scope: 'user', ttlSeconds: HOUR },
+  getCollection: { scope: 'user', ttlSeconds: MINUTE },
+  getFolders: { scope: 'user', ttlSeconds: MINUTE },
+  getCollectionFields: { scope: 'user', ttlSeconds: HOUR },
+  getWantlist: { scope: 'user', ttlSeconds: MINUTE },
+  // Priced in the user's marketplace currency
+  getMarketplaceStats: { scope: 'user', ttlSeconds: 15 * MINUTE },
+  getPriceSuggestions: { scope: 'user', ttlSeconds: HOUR }
+} satisfies Record<string, CachePolicy>
+
+type CachedProcedure = keyof typeof CACHE_POLICIES
+
+/**
+ * A procedure result served through the cache. Hits carry no `rateLimit`:
+ * they didn't reach Discogs, so the stored headers would misreport the
+ * user's remaining budget.
+ */
+type CachedResponse<T extends { rateLimit: RateLimit }> = Omit<
+  T,
+  'rateLimit'
+> & {
+  rateLimit: RateLimit | undefined
+  cacheHit: boolean
+}
+
+/** Response cache bound to one user, exposed as `ctx.responseCache` */
+export interface ResponseCache {
+  /**
+   * Returns the cached result for a procedure call, or runs `fetcher` and
+   * caches what it returns.
+   *
+   * @param procedure - Procedure name, selecting the TTL and scope
+   * @param input - Parsed procedure input, part of the cache key
+   * @param fetcher - Calls Discogs on a miss
+   * @param options.fresh - Skip the lookup (the result is still stored)
+   */
+  cached: <T extends { rateLimit: RateLimit }>(
+    procedure: CachedProcedure,
+    input: unknown,
+    fetcher: () => Promise<T>,
+    options?: { fresh?: boolean }
+  ) => Promise<CachedResponse<T>>
+  /** Drops every `user` scoped entry for this user */
+  invalidateUser: () => Promise<void>
+}
+
+/**
+ * Derives an opaque cache key for a user, so access tokens never end up in
+ * a (possibly shared) cache store.
+ *
+ * @param accessToken - The user's OAuth access token
+ * @returns Hex SHA-256 of the token
+ */
+export async function getUserCacheKey(accessToken: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(accessToken)
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('')
+}
+
+/**
+ * Creates the response cache for one user's request.
+ *
+ * User entries are keyed by a generation stored alongside them; bumping it
+ * invalidates them all at once, which works with stores that can't delete
+ * by prefix. The generation is stored without a TTL: were it to expire or
+ * be evicted, it would fall back to '0' and revive entries it had dropped.
+ *
+ * @param store - Where entries live
+ * @param userKey - From {@link getUserCacheKey}
+ */
+export function createResponseCache(
+  store: CacheStore,
+  userKey: string
+): ResponseCache {
+  const generationKey = `discogs:user:${userKey}:generation`
+
+  const getKey = async (procedure: CachedProcedure, input: unknown) => {
+    const suffix = `${procedure}:${JSON.stringify(input ?? null)}`
+    if (CACHE_POLICIES[procedure].scope === 'public') {
+      return `discogs:public:${suffix}`
+    }
+    const generation = (await store.get(generationKey)) ?? '0'
+    return `discogs:user:${userKey}:${generation}:${suffix}`
+  }
+
+  return {
+    cached: async <T extends { rateLimit: RateLimit }>(
+      procedure: CachedProcedure,
+      input: unknown,
+      fetcher: () => Promise<T>,
+      options?: { fresh?: boolean }
+    ): Promise<CachedResponse<T>> => {
+      const key = await getKey(procedure, input)
+
+      if (!options?.fresh) {
+        const hit = await store.get(key)
+        if (hit !== undefined) {
+          const stored = JSON.parse(hit) as T
+          return { ...stored, rateLimit: undefined, cacheHit: true }
+        }
+      }
+
+      const result = await fetcher()
+      await store.set(
+        key,
+        JSON.stringify(result),
+        CACHE_POLICIES[procedure].ttlSeconds
+      )
+      return { ...result, cacheHit: false }
+    },
+    invalidateUser: () =>
+      store.set(generationKey, Date.now().toString(36), null)
+  }
+}
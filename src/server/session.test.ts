@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest'
+
+import { readCookie } from './session.js'
+
+describe('readCookie', () => {
+  it('reads and decodes the named cookie', () => {
+    expect(readCookie('a=1; session=x%3Dy; b=2', 'session')).toBe('x=y')
+    expect(readCookie('a=1', 'session')).toBeUndefined()
+    expect(readCookie(null, 'session')).toBeUndefined()
+  })
+
+  it('treats a malformed escape as an absent cookie', () => {
+    expect(readCookie('session=%E0%A4%A', 'session')).toBeUndefined()
+  })
+})
@@ -0,0 +1,201 @@
+import { TRPCError } from '@trpc/server'
+
+declare const process: {
+  env: {
+    SESSION_SECRET?: string
+  }
+}
+
+/** OAuth access tokens held in the encrypted session cookie */
+export interface SessionTokens {
+  accessToken: string
+  accessTokenSecret: string
+}
+
+interface SessionPayload extends SessionTokens {
+  /** Unix time (seconds) the session was issued */
+  iat: number
+}
+
+export const SESSION_COOKIE_NAME = 'vinyldeck_session'
+
+/** Discogs access tokens don't expire; re-authorize once a year anyway */
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 365
+
+const ALGORITHM = 'AES-GCM'
+const IV_LENGTH = 12
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+export const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (char) =>
+    char.charCodeAt(0)
+  )
+
+/**
+ * Reads SESSION_SECRET, which keys both the session cookie and signed
+ * OAuth state.
+ *
+ * @throws TRPCError if SESSION_SECRET is missing
+ */
+export function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (!secret) {
+    throw new TRPCError({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Missing SESSION_SECRET'
+    })
+  }
+  return secret
+}
+
+/**
+ * Derives the AES-256 key from SESSION_SECRET. Uses Web Crypto, which both
+ * Node and the Vercel runtime provide.
+ */
+async function getKey(): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    encoder.encode(getSessionSecret())
+  )
+  return crypto.subtle.importKey('raw', digest, ALGORITHM, false, [
+    'encrypt',
+    'decrypt'
+  ])
+}
+
+/**
+ * Encrypts OAuth tokens into a cookie value (AES-256-GCM, base64url of
+ * IV + ciphertext with auth tag). Tampered values fail to decrypt.
+ *
+ * @param tokens - The user's OAuth access tokens
+ * @returns Opaque cookie value
+ */
+export async function encryptSession(tokens: SessionTokens): Promise<string> {
+  const payload: SessionPayload = {
+    accessToken: tokens.accessToken,
+    accessTokenSecret: tokens.accessTokenSecret,
+    iat: Math.floor(Date.now() / 1000)
+  }
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: ALGORITHM, iv },
+    await getKey(),
+    encoder.encode(JSON.stringify(payload))
+  )
+
+  const data = new Uint8Array(IV_LENGTH + ciphertext.byteLength)
+  data.set(iv)
+  data.set(new Uint8Array(ciphertext), IV_LENGTH)
+  return toBase64Url(data)
+}
+
+/**
+ * Decrypts a session cookie value.
+ *
+ * @param value - Cookie value from {@link encryptSession}
+ * @returns The tokens, or null if the value is invalid, tampered or expired
+ */
+export async function decryptSession(
+  value: string
+): Promise<SessionTokens | null> {
+  const key = await getKey()
+  try {
+    const data = fromBase64Url(value)
+    const plaintext = await crypto.subtle.decrypt(
+      { name: ALGORITHM, iv: data.subarray(0, IV_LENGTH) },
+      key,
+      data.subarray(IV_LENGTH)
+    )
+    const payload = JSON.parse(decoder.decode(plaintext)) as SessionPayload
+
+    if (payload.iat + SESSION_MAX_AGE_SECONDS < Date.now() / 1000) {
+      return null
+    }
+
+    return {
+      accessToken: payload.accessToken,
+      accessTokenSecret: payload.accessTokenSecret
+    }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads one cookie from a Cookie request header.
+ *
+ * @param header - The Cookie header, if any
+ * @param name - Cookie name
+ * @returns The decoded value, or undefined if absent or malformed
+ */
+export function readCookie(
+  header: string | null,
+  name: string
+): string | undefined {
+  for (const part of header?.split(';') ?? []) {
+    const separator = part.indexOf('=')
+    if (separator === -1) continue
+    if (part.slice(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(separator + 1).trim())
+      } catch {
+        // A bad % escape isn't a cookie we set
+        return undefined
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Builds a Set-Cookie header for an API cookie. HttpOnly keeps the value
+ * away from scripts; SameSite=Lax keeps it off cross-site POSTs.
+ *
+ * @param name - Cookie name
+ * @param value - Cookie value, or null to clear the cookie
+ * @param maxAgeSeconds - Lifetime when setting a value
+ * @param secure - Whether the request came over HTTPS (false on localhost)
+ * @returns Set-Cookie header value
+ */
+export function serializeCookie(
+  name: string,
+  value: string | null,
+  maxAgeSeconds: number,
+  secure: boolean
+): string {
+  return [
+    `${name}=${value ? encodeURIComponent(value) : ''}`,
+    'Path=/api',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${value ? maxAgeSeconds : 0}`,
+    ...(secure ? ['Secure'] : [])
+  ].join('; ')
+}
+
+/**
+ * Builds the Set-Cookie header for the session.
+ *
+ * @param value - Encrypted session, or null to clear the cookie
+ * @param secure - Whether the request came over HTTPS
+ * @returns Set-Cookie header value
+ */
+export function serializeSessionCookie(
+  value: string | null,
+  secure: boolean
+): string {
+  return serializeCookie(
+    SESSION_COOKIE_NAME,
+    value,
+    SESSION_MAX_AGE_SECONDS,
+    secure
+  )
+}
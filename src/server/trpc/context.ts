@@ -0,0 +1,80 @@
+import {
+  OAUTH_STATE_COOKIE_NAME,
+  serializeOAuthStateCookie
+} from '../oauth-state.js'
+import {
+  decryptSession,
+  encryptSession,
+  readCookie,
+  serializeSessionCookie,
+  SESSION_COOKIE_NAME,
+  type SessionTokens
+} from '../session.js'
+
+import type { CacheStore } from '../response-cache.js'
+import type { FetchCreateContextFnOptions } from '@trpc/server/adapters/fetch'
+
+/**
+ * Per-request tRPC context.
+ */
+export interface Context {
+  /** Identifies the HTTP request in logs; also sent as `X-Request-Id` */
+  requestId: string
+  /** OAuth tokens from the session cookie, null when signed out */
+  session: SessionTokens | null
+  /** Issues (or with null, clears) the session cookie on the response */
+  setSession: (tokens: SessionTokens | null) => Promise<void>
+  /** Nonce of the OAuth flow this browser started, null if none is pending */
+  oauthNonce: string | null
+  /** Issues (or with null, clears) the OAuth state cookie on the response */
+  setOAuthNonce: (nonce: string | null) => void
+  /** Store for cached Discogs responses, shared across requests */
+  cacheStore: CacheStore
+}
+
+/**
+ * Creates the tRPC context factory. Used by the Vercel function and the
+ * local dev server, each passing the cache store it keeps for its
+ * lifetime.
+ *
+ * @param options.cacheStore - Where Discogs responses are cached
+ * @returns `createContext` for the fetch adapter, which resolves the
+ * session from the encrypted cookie
+ */
+export function createContextFactory({
+  cacheStore
+}: {
+  cacheStore: CacheStore
+}): (options: FetchCreateContextFnOptions) => Promise<Context> {
+  return async ({ req, resHeaders }) => {
+    const cookieHeader = req.headers.get('cookie')
+    const cookie = readCookie(cookieHeader, SESSION_COOKIE_NAME)
+    const secure = new URL(req.url).protocol === 'https:'
+
+    // One ID per HTTP request, shared by the calls of a batch
+    const requestId = crypto.randomUUID()
+    resHeaders.set('X-Request-Id', requestId)
+
+    return {
+      requestId,
+      session: cookie ? await decryptSession(cookie) : null,
+      setSession: async (tokens) => {
+        resHeaders.append(
+          'Set-Cookie',
+          serializeSessionCookie(
+            tokens ? await encryptSession(tokens) : null,
+            secure
+          )
+        )
+      },
+      oauthNonce: readCookie(cookieHeader, OAUTH_STATE_COOKIE_NAME) ?? null,
+      setOAuthNonce: (nonce) => {
+        resHeaders.append(
+          'Set-Cookie',
+          serializeOAuthStateCookie(nonce, secure)
+        )
+      },
+      cacheStore
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { TRPCError } from '@trpc/server'
+import { describe, expect, it } from 'vitest'
+
+import {
+  getErrorDetails,
+  handleDiscogsError,
+  RateLimitedError
+} from './error-utils.js'
+
+function discogsError(statusCode: number, message: string) {
+  return Object.assign(new Error(message), { statusCode })
+}
+
+function catchError(error: unknown): TRPCError {
+  try {
+    handleDiscogsError(error, 'get collection')
+  } catch (thrown) {
+    if (thrown instanceof TRPCError) return thrown
+    throw thrown
+  }
+  throw new Error('handleDiscogsError did not throw')
+}
+
+describe('handleDiscogsError', () => {
+  it('maps Discogs status codes to tRPC codes', () => {
+    expect(catchError(discogsError(401, '')).code).toBe('UNAUTHORIZED')
+    expect(catchError(discogsError(404, '')).code).toBe('NOT_FOUND')
+    expect(catchError(discogsError(429, '')).code).toBe('TOO_MANY_REQUESTS')
+    expect(catchError(discogsError(502, '')).code).toBe('INTERNAL_SERVER_ERROR')
+  })
+
+  it('keeps the Discogs message and the status', () => {
+    const error = discogsError(404, 'Release not found.')
+    const trpcError = catchError(error)
+
+    expect(trpcError.message).toBe('Release not found. (HTTP 404)')
+    expect(trpcError.cause).toBe(error)
+  })
+
+  it('falls back to a status message without a Discogs message', () => {
+    expect(catchError(discogsError(503, 'Unknown error.')).message).toBe(
+      'Discogs service temporarily unavailable'
+    )
+  })
+
+  it('re-throws tRPC errors unchanged', () => {
+    const error = new TRPCError({ code: 'FORBIDDEN', message: 'Nope' })
+    expect(catchError(error)).toBe(error)
+  })
+
+  it('reports network and unknown errors with the operation', () => {
+    const network = Object.assign(new Error('socket hang up'), {
+      name: 'FetchError'
+    })
+
+    expect(catchError(network).message).toBe(
+      'Network error while trying to get collection: socket hang up'
+    )
+    expect(catchError('boom')).toMatchObject({
+      code: 'INTERNAL_SERVER_ERROR',
+      message: 'Failed to get collection: An unexpected error occurred'
+    })
+  })
+})
+
+describe('getErrorDetails', () => {
+  it('classifies Discogs errors by their status', () => {
+    const kindOf = (status: number) =>
+      getErrorDetails(catchError(discogsError(status, ''))).kind
+
+    expect(kindOf(401)).toBe('auth-expired')
+    expect(kindOf(403)).toBe('auth-expired')
+    expect(kindOf(404)).toBe('not-found')
+    expect(kindOf(429)).toBe('rate-limited')
+    expect(kindOf(503)).toBe('discogs-down')
+    expect(kindOf(400)).toBe('unknown')
+  })
+
+  it('keeps the upstream status and the retry delay', () => {
+    const error = new RateLimitedError(discogsError(429, 'Slow down'), 8)
+
+    expect(getErrorDetails(catchError(error))).toEqual({
+      kind: 'rate-limited',
+      upstreamStatus: 429,
+      retryAfter: 8
+    })
+  })
+
+  it('reports network errors without an upstream status', () => {
+    const network = Object.assign(new Error('timed out'), {
+      name: 'TimeoutError'
+    })
+
+    expect(getErrorDetails(catchError(network))).toEqual({
+      kind: 'network',
+      upstreamStatus: null,
+      retryAfter: null
+    })
+  })
+
+  it('falls back to the tRPC code for errors not from Discogs', () => {
+    const noSession = new TRPCError({ code: 'UNAUTHORIZED' })
+    const invalidInput = new TRPCError({ code: 'BAD_REQUEST' })
+
+    expect(getErrorDetails(noSession).kind).toBe('auth-expired')
+    expect(getErrorDetails(invalidInput).kind).toBe('unknown')
+  })
+})
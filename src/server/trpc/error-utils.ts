@@ -1,5 +1,24 @@
 import { TRPCError } from '@trpc/server'
 
+import type { ErrorDetails, ErrorKind } from '../../types/errors.js'
+
+/**
+ * A Discogs 429 that outlasted the request queue's retries. Passes
+ * {@link isDiscogsError} like the original, and adds how long the queue
+ * would have waited next.
+ */
+export class RateLimitedError extends Error {
+  readonly statusCode = 429
+  /** Seconds to wait before trying again */
+  readonly retryAfter: number
+
+  constructor(error: Error, retryAfter: number) {
+    super(error.message, { cause: error })
+    this.name = 'DiscogsError'
+    this.retryAfter = retryAfter
+  }
+}
+
 /**
  * Type guard for errors from @lionralfs/discogs-client.
  * DiscogsError is not exported from the package, so we check for the statusCode property.
@@ -59,6 +78,59 @@ export function getStatusMessage(statusCode: number): string {
   }
 }
 
+/**
+ * Maps Discogs HTTP status codes to error kinds.
+ */
+function getStatusKind(statusCode: number): ErrorKind {
+  if (statusCode === 401 || statusCode === 403) return 'auth-expired'
+  if (statusCode === 404) return 'not-found'
+  if (statusCode === 429) return 'rate-limited'
+  if (statusCode >= 500) return 'discogs-down'
+  return 'unknown'
+}
+
+/**
+ * Maps tRPC codes to error kinds, for errors not caused by a Discogs response.
+ */
+function getCodeKind(code: TRPCError['code']): ErrorKind {
+  switch (code) {
+    case 'UNAUTHORIZED':
+      return 'auth-expired'
+    case 'NOT_FOUND':
+      return 'not-found'
+    case 'TOO_MANY_REQUESTS':
+      return 'rate-limited'
+    default:
+      return 'unknown'
+  }
+}
+
+/**
+ * Classifies a tRPC error for the client. Errors from
+ * {@link handleDiscogsError} are classified by the Discogs or network error
+ * kept as their `cause`, others by their code.
+ *
+ * @param error - Any error a procedure threw, as passed to `errorFormatter`
+ * @returns The details sent in the error's `data`
+ */
+export function getErrorDetails(error: TRPCError): ErrorDetails {
+  const { cause } = error
+
+  if (isDiscogsError(cause)) {
+    return {
+      kind: getStatusKind(cause.statusCode),
+      upstreamStatus: cause.statusCode,
+      retryAfter: cause instanceof RateLimitedError ? cause.retryAfter : null
+    }
+  }
+
+  return {
+    kind: isNetworkError(cause) ? 'network' : getCodeKind(error.code),
+    upstreamStatus: null,
+    retryAfter: null
+  }
+}
+
 /**
  * Maps HTTP status codes to appropriate tRPC error codes.
  */
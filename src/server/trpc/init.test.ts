@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { createTestContext, stubDiscogs } from './test-utils.js'
+
+import { appRouter } from './index.js'
+
+const ACCESS_TOKEN = 'fake-access-logging'
+
+describe('procedure logging', () => {
+  let lines: string[]
+
+  beforeEach(() => {
+    stubDiscogs()
+    vi.stubEnv('LOG_LEVEL', 'info')
+    lines = []
+    const capture = (line: string) => {
+      lines.push(line)
+    }
+    vi.spyOn(console, 'log').mockImplementation(capture)
+    vi.spyOn(console, 'warn').mockImplementation(capture)
+    vi.spyOn(console, 'error').mockImplementation(capture)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  const entries = () => lines.map((line) => JSON.parse(line) as unknown)
+
+  it('logs the call with its Discogs requests and rate limit', async () => {
+    await appRouter
+      .createCaller(
+        createTestContext({
+          accessToken: ACCESS_TOKEN,
+          accessTokenSecret: 'secret'
+        })
+      )
+      .discogs.getIdentity()
+
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        message: 'procedure succeeded',
+        requestId: 'test-request',
+        path: 'discogs.getIdentity',
+        type: 'query',
+        durationMs: expect.any(Number) as unknown,
+        upstream: {
+          requests: 1,
+          status: 200,
+          rateLimit: { limit: 60, used: 1, remaining: 59 }
+        }
+      })
+    ])
+    expect(lines.join()).not.toContain(ACCESS_TOKEN)
+  })
+
+  it('logs failures with their code and kind', async () => {
+    await appRouter
+      .createCaller(createTestContext())
+      .discogs.getIdentity()
+      .catch(() => undefined)
+
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        level: 'warn',
+        message: 'procedure failed',
+        code: 'UNAUTHORIZED',
+        kind: 'auth-expired',
+        upstream: { requests: 0, status: null, rateLimit: null }
+      })
+    ])
+  })
+
+  it('redacts tokens in the input', async () => {
+    await appRouter
+      .createCaller(createTestContext())
+      .oauth.getAccessToken({
+        requestToken: 'value-1',
+        requestTokenSecret: 'value-2',
+        verifier: 'value-3',
+        state: 'value-4'
+      })
+      .catch(() => undefined)
+
+    expect(lines).toHaveLength(1)
+    expect(lines[0]).not.toMatch(/value-\d/)
+  })
+
+  it('logs streamed procedures once the stream ends', async () => {
+    const stream = await appRouter
+      .createCaller(
+        createTestContext({
+          accessToken: `${ACCESS_TOKEN}-stream`,
+          accessTokenSecret: 'secret'
+        })
+      )
+      .discogs.getFullCollection({ username: 'vinyldeck-demo' })
+
+    for await (const event of stream) {
+      expect(event).toBeDefined()
+      expect(lines).toHaveLength(0)
+    }
+
+    expect(entries()).toEqual([
+      expect.objectContaining({
+        path: 'discogs.getFullCollection',
+        upstream: expect.objectContaining({ requests: 2 }) as unknown
+      })
+    ])
+  })
+})
@@ -1,10 +1,146 @@
-import { initTRPC } from '@trpc/server'
+import { getTRPCErrorFromUnknown, initTRPC, TRPCError } from '@trpc/server'
+
+import { createDiscogsClient } from '../discogs-client.js'
+import { createUpstreamTrace, log } from '../logger.js'
+import { createResponseCache, getUserCacheKey } from '../response-cache.js'
+
+import { getErrorDetails } from './error-utils.js'
+
+import type { Context } from './context.js'
 
 /**
  * tRPC initialization for the server.
  * This file contains only the tRPC instance setup to avoid circular dependencies.
+ *
+ * Every error carries {@link getErrorDetails} in its `data` (error kind,
+ * Discogs status, retry delay) plus the request ID, which the client reads
+ * through the helpers in `src/lib/errors.ts`.
  */
-const t = initTRPC.create()
+const t = initTRPC.context<Context>().create({
+  errorFormatter: ({ shape, error, ctx }) => ({
+    ...shape,
+    data: {
+      ...shape.data,
+      ...getErrorDetails(error),
+      requestId: ctx?.requestId ?? null
+    }
+  })
+})
+
+const isAsyncIterable = (value: unknown): value is AsyncIterable<unknown> =>
+  typeof value === 'object' && value !== null && Symbol.asyncIterator in value
+
+/**
+ * Logs every procedure call as one JSON line (see `logger.ts`) with the
+ * request ID, path, duration, redacted input and outcome, plus the Discogs
+ * requests it made: the Discogs client records their status and rate limit
+ * into `ctx.upstream`.
+ *
+ * Streamed procedures are logged when the stream ends, so the entry covers
+ * every page.
+ */
+const loggedProcedure = t.procedure.use(
+  async ({ ctx, path, type, getRawInput, next }) => {
+    const startedAt = Date.now()
+    const upstream = createUpstreamTrace()
+    const input = await getRawInput().catch(() => undefined)
+
+    const writeEntry = (error: TRPCError | null) => {
+      const fields = {
+        requestId: ctx.requestId,
+        path,
+        type,
+        durationMs: Date.now() - startedAt,
+        input,
+        upstream
+      }
+      if (!error) {
+        log('info', 'procedure succeeded', fields)
+        return
+      }
+      log(
+        error.code === 'INTERNAL_SERVER_ERROR' ? 'error' : 'warn',
+        'procedure failed',
+        {
+          ...fields,
+          code: error.code,
+          kind: getErrorDetails(error).kind,
+          error: error.message
+        }
+      )
+    }
+
+    const result = await next({ ctx: { upstream } })
+
+    if (!result.ok) {
+      writeEntry(result.error)
+      return result
+    }
+    if (!isAsyncIterable(result.data)) {
+      writeEntry(null)
+      return result
+    }
+
+    const stream = result.data
+    async function* logWhenDone() {
+      let failure: TRPCError | null = null
+      try {
+        const returned: unknown = yield* stream
+        return returned
+      } catch (error) {
+        failure = getTRPCErrorFromUnknown(error)
+        throw error
+      } finally {
+        writeEntry(failure)
+      }
+    }
+    return { ...result, data: logWhenDone() }
+  }
+)
 
 export const router = t.router
-export const publicProcedure = t.procedure
+export const publicProcedure = loggedProcedure
+
+/**
+ * Procedure for Discogs calls on behalf of the signed-in user. Resolves the
+ * OAuth tokens from the session cookie into `ctx.discogs`, so tokens never
+ * travel in request bodies, and the user's response cache into
+ * `ctx.responseCache`.
+ *
+ * A successful mutation invalidates the user's cached responses, since any
+ * of them may now be out of date.
+ *
+ * @throws TRPCError UNAUTHORIZED if there is no valid session cookie
+ */
+export const protectedProcedure = loggedProcedure.use(
+  async ({ ctx, type, next }) => {
+    if (!ctx.session) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'No active session'
+      })
+    }
+
+    const responseCache = createResponseCache(
+      ctx.cacheStore,
+      await getUserCacheKey(ctx.session.accessToken)
+    )
+
+    const result = await next({
+      ctx: {
+        discogs: createDiscogsClient(
+          ctx.session.accessToken,
+          ctx.session.accessTokenSecret,
+          ctx.upstream
+        ),
+        responseCache
+      }
+    })
+
+    if (type === 'mutation' && result.ok) {
+      await responseCache.invalidateUser()
+    }
+
+    return result
+  }
+)
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { getErrorDetails } from '../error-utils.js'
+import { appRouter } from '../index.js'
+import { createTestContext, stubDiscogs } from '../test-utils.js'
+
+import type { TRPCError } from '@trpc/server'
+
+const USERNAME = 'vinyldeck-demo'
+
+/** A fresh token per test, so each gets its own request queue */
+let tokenCount = 0
+const signedIn = () =>
+  createTestContext({
+    accessToken: `fake-access-test-${++tokenCount}`,
+    accessTokenSecret: 'secret'
+  })
+
+describe('discogs router', () => {
+  beforeEach(() => {
+    stubDiscogs()
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  it('requires a session', async () => {
+    const caller = appRouter.createCaller(createTestContext())
+
+    await expect(caller.discogs.getIdentity()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED',
+      message: 'No active session'
+    })
+  })
+
+  it('maps a rejected access token to UNAUTHORIZED', async () => {
+    const caller = appRouter.createCaller(
+      createTestContext({ accessToken: 'revoked', accessTokenSecret: 'x' })
+    )
+
+    await expect(caller.discogs.getIdentity()).rejects.toMatchObject({
+      code: 'UNAUTHORIZED'
+    })
+  })
+
+  it('returns the identity with the rate limit headers', async () => {
+    const { identity, rateLimit } = await appRouter
+      .createCaller(signedIn())
+      .discogs.getIdentity()
+
+    expect(identity.username).toBe(USERNAME)
+    expect(rateLimit).toEqual({ limit: 60, used: 1, remaining: 59 })
+  })
+
+  it('pages and sorts the collection', async () => {
+    const { releases, pagination } = await appRouter
+      .createCaller(signedIn())
+      .discogs.getCollection({
+        username: USERNAME,
+        page: 2,
+        perPage: 25,
+        sort: 'year',
+        sortOrder: 'desc'
+      })
+
+    expect(pagination).toMatchObject({ page: 2, pages: 5, items: 120 })
+    expect(releases).toHaveLength(25)
+    const years = releases.map((release) => release.basic_information.year)
+    expect(years).toEqual([...years].sort((a, b) => b - a))
+  })
+
+  it('serves repeated queries from the cache unless fresh', async () => {
+    const caller = appRouter.createCaller(signedIn())
+    const input = { username: USERNAME, perPage: 10 }
+
+    const first = await caller.discogs.getCollection(input)
+    const second = await caller.discogs.getCollection(input)
+    const fresh = await caller.discogs.getCollection({ ...input, fresh: true })
+
+    expect(first.cacheHit).toBe(false)
+    expect(second).toMatchObject({ cacheHit: true, rateLimit: undefined })
+    expect(second.releases).toEqual(first.releases)
+    expect(fresh.cacheHit).toBe(false)
+  })
+
+  it('streams the full collection page by page', async () => {
+    const events = []
+    for await (const event of await appRouter
+      .createCaller(signedIn())
+      .discogs.getFullCollection({ username: USERNAME })) {
+      events.push(event)
+    }
+
+    expect(events.map((event) => event.type)).toEqual([
+      'progress',
+      'progress',
+      'complete'
+    ])
+    const complete = events.at(-1)
+    expect(complete).toMatchObject({ type: 'complete', nextPage: null })
+    expect(complete?.type === 'complete' && complete.releases).toHaveLength(120)
+  })
+
+  it('shares cached collection pages with the full-collection stream', async () => {
+    const caller = appRouter.createCaller(signedIn())
+    await caller.discogs.getCollection({ username: USERNAME, perPage: 100 })
+
+    const events = []
+    for await (const event of await caller.discogs.getFullCollection({
+      username: USERNAME
+    })) {
+      events.push(event)
+    }
+
+    // Page 1 came from the cache, page 2 from Discogs
+    expect(events.map((event) => event.rateLimit)).toEqual([
+      undefined,
+      expect.objectContaining({ limit: 60 }),
+      expect.objectContaining({ limit: 60 })
+    ])
+  })
+
+  it('hands back a cursor once the stream budget is spent', async () => {
+    const fetchFake = stubDiscogs()
+    vi.stubGlobal('fetch', async (...args: Parameters<typeof fetch>) => {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      return fetchFake(...args)
+    })
+    vi.stubEnv('DISCOGS_STREAM_BUDGET_MS', '1')
+    const caller = appRouter.createCaller(signedIn())
+
+    const collect = async (startPage: number) => {
+      const events = []
+      for await (const event of await caller.discogs.getFullCollection({
+        username: USERNAME,
+        startPage
+      })) {
+        events.push(event)
+      }
+      return events.at(-1)
+    }
+
+    const first = await collect(1)
+    expect(first).toMatchObject({ type: 'complete', nextPage: 2 })
+    expect(first?.type === 'complete' && first.releases).toHaveLength(100)
+
+    const rest = await collect(2)
+    expect(rest).toMatchObject({ type: 'complete', nextPage: null })
+    expect(rest?.type === 'complete' && rest.releases).toHaveLength(20)
+  })
+
+  it('lists folders, wantlist and releases', async () => {
+    const caller = appRouter.createCaller(signedIn())
+
+    const { folders } = await caller.discogs.getFolders({ username: USERNAME })
+    const { wants } = await caller.discogs.getWantlist({ username: USERNAME })
+    const { release } = await caller.discogs.getRelease({
+      releaseId: wants[0]?.id ?? 0
+    })
+
+    expect(folders.map((folder) => folder.name)).toEqual([
+      'All',
+      'Uncategorized',
+      'Favorites'
+    ])
+    expect(wants).toHaveLength(24)
+    expect(release.tracklist.length).toBeGreaterThan(0)
+  })
+
+  it('maps Discogs 404s to NOT_FOUND', async () => {
+    await expect(
+      appRouter
+        .createCaller(signedIn())
+        .discogs.getUserProfile({ username: 'someone-else' })
+    ).rejects.toMatchObject({ code: 'NOT_FOUND' })
+  })
+
+  it('gives up on a 429 once the retry deadline has passed', async () => {
+    stubDiscogs({ rateLimit: 0 })
+    vi.stubEnv('DISCOGS_REQUEST_DEADLINE_MS', '1')
+
+    const error = await appRouter
+      .createCaller(signedIn())
+      .discogs.getIdentity()
+      .catch((thrown: unknown) => thrown)
+
+    expect(error).toMatchObject({ code: 'TOO_MANY_REQUESTS' })
+    expect(getErrorDetails(error as TRPCError)).toEqual({
+      kind: 'rate-limited',
+      upstreamStatus: 429,
+      // The first backoff is under a second
+      retryAfter: 1
+    })
+  })
+
+  it('drops cached responses after a successful mutation', async () => {
+    // The fake doesn't support writes; answer folder creation directly
+    const fetchFake = stubDiscogs()
+    const fetchWithWrites: typeof fetch = (input, init) =>
+      init?.method === 'POST'
+        ? Promise.resolve(
+            Response.json({ id: 3, name: 'New', count: 0, resource_url: '' })
+          )
+        : fetchFake(input, init)
+    vi.stubGlobal('fetch', fetchWithWrites)
+    const caller = appRouter.createCaller(signedIn())
+
+    await caller.discogs.getFolders({ username: USERNAME })
+    const cached = await caller.discogs.getFolders({ username: USERNAME })
+    await caller.discogs.createFolder({ username: USERNAME, name: 'New' })
+    const refetched = await caller.discogs.getFolders({ username: USERNAME })
+
+    expect(cached.cacheHit).toBe(true)
+    expect(refetched.cacheHit).toBe(false)
+  })
+})
@@ -1,14 +1,50 @@
 import { z } from 'zod'
 
-import { createDiscogsClient } from '../../discogs-client.js'
 import { handleDiscogsError } from '../error-utils.js'
-import { publicProcedure, router } from '../init.js'
+import { protectedProcedure, router } from '../init.js'
 
 import type {
+  DiscogsCollectionField,
+  DiscogsCollectionFolder,
   DiscogsCollectionRelease,
-  DiscogsPagination
+  DiscogsCollectionValue,
+  DiscogsMarketplaceStats,
+  DiscogsMasterRelease,
+  DiscogsMasterVersion,
+  DiscogsPagination,
+  DiscogsPriceSuggestionsResponse,
+  DiscogsRelease,
+  DiscogsSearchResult,
+  DiscogsWantlistAddResponse,
+  DiscogsWantlistItem
 } from '../../../types/discogs.js'
 
+declare const process: {
+  env: {
+    DISCOGS_STREAM_BUDGET_MS?: string
+  }
+}
+
+/**
+ * How long getFullCollection keeps starting pages before handing the client
+ * a cursor. Together with one request's retry deadline it must stay under
+ * the serverless function timeout.
+ */
+const DEFAULT_STREAM_BUDGET_MS = 20 * 1000
+
+function getStreamBudgetMs(): number {
+  const configured = Number(process.env.DISCOGS_STREAM_BUDGET_MS)
+  return Number.isFinite(configured) && configured > 0
+    ? configured
+    : DEFAULT_STREAM_BUDGET_MS
+}
+
+const wantRating = z.number().int().min(0).max(5)
+const folderName = z.string().trim().min(1).max(255)
+// Folders 0 ("All") and 1 ("Uncategorized") are built in and immutable
+const userFolderId = z.number().int().min(2)
+const searchTerm = z.string().trim().max(200).optional()
+
 /**
  * Discogs API router for proxying authenticated requests.
  * All Discogs API calls must go through the server because OAuth 1.0a
@@ -18,48 +54,33 @@ export const discogsRouter = router({
   /**
    * Get the identity of the authenticated user.
    * Used to validate OAuth tokens and get the username.
-   * Uses query (not mutation) but sent as POST via methodOverride for security.
    */
-  getIdentity: publicProcedure
-    .input(
-      z.object({
-        accessToken: z.string(),
-        accessTokenSecret: z.string()
-      })
-    )
-    .query(async ({ input }) => {
-      const client = createDiscogsClient(
-        input.accessToken,
-        input.accessTokenSecret
-      )
-
-      try {
-        const { data, rateLimit } = await client.getIdentity()
+  getIdentity: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const { data, rateLimit } = await ctx.discogs.getIdentity()
 
-        return {
-          identity: {
-            id: data.id,
-            username: data.username,
-            resource_url: data.resource_url,
-            consumer_name: data.consumer_name
-          },
-          rateLimit
-        }
-      } catch (error) {
-        handleDiscogsError(error, 'get identity')
+      return {
+        identity: {
+          id: data.id,
+          username: data.username,
+          resource_url: data.resource_url,
+          consumer_name: data.consumer_name
+        },
+        rateLimit
       }
-    }),
+    } catch (error) {
+      handleDiscogsError(error, 'get identity')
+    }
+  }),
 
   /**
    * Get a user's collection releases.
-   * Supports pagination and sorting.
-   * Uses query (not mutation) but sent as POST via methodOverride for security.
+   * Supports pagination and sorting. Pages are cached briefly; `fresh`
+   * skips the cache for callers comparing against live data (sync).
    */
-  getCollection: publicProcedure
+  getCollection: protectedProcedure
     .input(
       z.object({
-        accessToken: z.string(),
-        accessTokenSecret: z.string(),
         username: z.string(),
         folderId: z.number().optional().default(0),
         page: z.number().optional().default(1),
@@ -76,60 +97,157 @@ export const discogsRouter = router({
             'year'
           ])
           .optional(),
-        sortOrder: z.enum(['asc', 'desc']).optional()
+        sortOrder: z.enum(['asc', 'desc']).optional(),
+        fresh: z.boolean().optional().default(false)
       })
     )
-    .query(async ({ input }) => {
-      const client = createDiscogsClient(
-        input.accessToken,
-        input.accessTokenSecret
+    .query(({ ctx, input: { fresh, ...input } }) =>
+      ctx.responseCache.cached(
+        'getCollection',
+        input,
+        async () => {
+          try {
+            const { data, rateLimit } = await ctx.discogs
+              .user()
+              .collection()
+              .getReleases(input.username, input.folderId, {
+                page: input.page,
+                per_page: input.perPage,
+                ...(input.sort && { sort: input.sort }),
+                ...(input.sortOrder && { sort_order: input.sortOrder })
+              })
+
+            // Type cast required: @lionralfs/discogs-client types are incomplete.
+            // The Discogs API returns additional fields (basic_information, formats, etc.)
+            // that our DiscogsCollectionRelease type captures but the library omits.
+            return {
+              releases: data.releases as unknown as DiscogsCollectionRelease[],
+              pagination: data.pagination as unknown as DiscogsPagination,
+              rateLimit
+            }
+          } catch (error) {
+            handleDiscogsError(error, 'get collection')
+          }
+        },
+        { fresh }
       )
+    ),
+
+  /**
+   * Get every release in a collection folder, paginating on the server.
+   *
+   * Streams a `progress` event after each page and a final `complete` event
+   * with the releases fetched, so the UI can show "page 7 of 23" on large
+   * collections. The request queue slows the pages down when Discogs' rate
+   * limit headers run low.
+   *
+   * Stops starting pages once the time budget is spent, so a large
+   * collection can't outlive the function timeout; `complete.nextPage` is
+   * then the page to pass as `startPage` to continue, or null when done.
+   * A streamed query rather than a subscription, so the client can await it
+   * like any other query without a separate SSE connection.
+   */
+  getFullCollection: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        folderId: z.number().optional().default(0),
+        sort: z
+          .enum([
+            'label',
+            'artist',
+            'title',
+            'catno',
+            'format',
+            'rating',
+            'added',
+            'year'
+          ])
+          .optional(),
+        sortOrder: z.enum(['asc', 'desc']).optional(),
+        startPage: z.number().int().min(1).optional().default(1)
+      })
+    )
+    .query(async function* ({ ctx, input }) {
+      const deadline = Date.now() + getStreamBudgetMs()
+      // Cached under the same key as the matching getCollection page, so a
+      // reload within the TTL costs no Discogs requests and mutations drop
+      // the pages with the rest of the user's entries
+      const fetchPage = (page: number) =>
+        ctx.responseCache.cached(
+          'getCollection',
+          {
+            username: input.username,
+            folderId: input.folderId,
+            page,
+            perPage: 100, // Discogs API max
+            sort: input.sort,
+            sortOrder: input.sortOrder
+          },
+          async () => {
+            const { data, rateLimit } = await ctx.discogs
+              .user()
+              .collection()
+              .getReleases(input.username, input.folderId, {
+                page,
+                per_page: 100,
+                ...(input.sort && { sort: input.sort }),
+                ...(input.sortOrder && { sort_order: input.sortOrder })
+              })
+
+            // Type cast required: @lionralfs/discogs-client types are incomplete.
+            // See getCollection for the fields the library omits.
+            return {
+              releases: data.releases as unknown as DiscogsCollectionRelease[],
+              pagination: data.pagination as unknown as DiscogsPagination,
+              rateLimit
+            }
+          }
+        )
 
       try {
-        const { data, rateLimit } = await client
-          .user()
-          .collection()
-          .getReleases(input.username, input.folderId, {
-            page: input.page,
-            per_page: input.perPage,
-            ...(input.sort && { sort: input.sort }),
-            ...(input.sortOrder && { sort_order: input.sortOrder })
-          })
+        const firstPage = await fetchPage(input.startPage)
+        const { pages } = firstPage.pagination
+        const releases = [...firstPage.releases]
+        let { rateLimit } = firstPage
+        let page = input.startPage
 
-        // Type cast required: @lionralfs/discogs-client types are incomplete.
-        // The Discogs API returns additional fields (basic_information, formats, etc.)
-        // that our DiscogsCollectionRelease type captures but the library omits.
-        return {
-          releases: data.releases as unknown as DiscogsCollectionRelease[],
-          pagination: data.pagination as unknown as DiscogsPagination,
+        yield { type: 'progress' as const, page, pages, rateLimit }
+
+        while (page < pages && Date.now() < deadline) {
+          page += 1
+          const response = await fetchPage(page)
+          releases.push(...response.releases)
+          rateLimit = response.rateLimit
+
+          yield { type: 'progress' as const, page, pages, rateLimit }
+        }
+
+        yield {
+          type: 'complete' as const,
+          releases,
+          pagination: firstPage.pagination,
+          nextPage: page < pages ? page + 1 : null,
           rateLimit
         }
       } catch (error) {
-        handleDiscogsError(error, 'get collection')
+        handleDiscogsError(error, 'get full collection')
       }
     }),
 
   /**
    * Get a user's profile including avatar_url and email.
    * Email is only visible when authenticated as the requested user.
-   * Uses query (not mutation) but sent as POST via methodOverride for security.
    */
-  getUserProfile: publicProcedure
+  getUserProfile: protectedProcedure
     .input(
       z.object({
-        accessToken: z.string(),
-        accessTokenSecret: z.string(),
         username: z.string()
       })
     )
-    .query(async ({ input }) => {
-      const client = createDiscogsClient(
-        input.accessToken,
-        input.accessTokenSecret
-      )
-
+    .query(async ({ ctx, input }) => {
       try {
-        const { data, rateLimit } = await client
+        const { data, rateLimit } = await ctx.discogs
           .user()
           .getProfile(input.username)
 
@@ -140,7 +258,8 @@ export const discogsRouter = router({
             avatar_url: data.avatar_url,
             email: data.email,
             num_collection: data.num_collection,
-            num_wantlist: data.num_wantlist
+            num_wantlist: data.num_wantlist,
+            curr_abbr: data.curr_abbr
           },
           rateLimit
         }
@@ -154,36 +273,763 @@ export const discogsRouter = router({
    * Returns only the total count without fetching full collection data.
    * Fast endpoint (1 API call) for detecting new/deleted items.
    */
-  getCollectionMetadata: publicProcedure
+  getCollectionMetadata: protectedProcedure
     .input(
       z.object({
-        accessToken: z.string(),
-        accessTokenSecret: z.string(),
         username: z.string()
       })
     )
-    .query(async ({ input }) => {
-      const client = createDiscogsClient(
-        input.accessToken,
-        input.accessTokenSecret
-      )
-
+    .query(async ({ ctx, input }) => {
       try {
-        // Fetch only first page with per_page=1 (minimal data transfer)
-        const { data, rateLimit } = await client
+        // Fetch only first page with per_page=1 (minimal data transfer).
+        // Sorted by date added, that one item is the newest instance, so an
+        // addition paired with a removal is noticed even if the count holds.
+        const { data, rateLimit } = await ctx.discogs
           .user()
           .collection()
           .getReleases(input.username, 0, {
             page: 1,
-            per_page: 1
+            per_page: 1,
+            sort: 'added',
+            sort_order: 'desc'
           })
 
         return {
           totalCount: data.pagination.items,
+          newestInstanceId: data.releases[0]?.instance_id ?? null,
           rateLimit
         }
       } catch (error) {
         handleDiscogsError(error, 'get collection metadata')
       }
+    }),
+
+  /**
+   * Get the estimated minimum, median and maximum value of a user's collection.
+   * Values are preformatted strings in the user's marketplace currency.
+   * Authentication as the collection owner is required.
+   */
+  getCollectionValue: protectedProcedure
+    .input(
+      z.object({
+        username: z.string()
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .getValue(input.username)
+
+        return {
+          value: data as DiscogsCollectionValue,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'get collection value')
+      }
+    }),
+
+  /**
+   * List the folders in a user's collection with their item counts.
+   * Folder 0 ("All") and 1 ("Uncategorized") always exist.
+   */
+  getFolders: protectedProcedure
+    .input(
+      z.object({
+        username: z.string()
+      })
+    )
+    .query(({ ctx, input }) =>
+      ctx.responseCache.cached('getFolders', input, async () => {
+        try {
+          const { data, rateLimit } = await ctx.discogs
+            .user()
+            .collection()
+            .getFolders(input.username)
+
+          return {
+            folders: data.folders as DiscogsCollectionFolder[],
+            rateLimit
+          }
+        } catch (error) {
+          handleDiscogsError(error, 'get collection folders')
+        }
+      })
+    ),
+
+  /**
+   * Create a new, empty collection folder.
+   */
+  createFolder: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        name: folderName
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .addFolder(input.username, input.name)
+
+        return {
+          folder: data as DiscogsCollectionFolder,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'create collection folder')
+      }
+    }),
+
+  /**
+   * Rename a user-created collection folder.
+   * The built-in folders 0 and 1 cannot be renamed.
+   */
+  renameFolder: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        folderId: userFolderId,
+        name: folderName
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .setFolderName(input.username, input.folderId, input.name)
+
+        return {
+          folder: data as DiscogsCollectionFolder,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'rename collection folder')
+      }
+    }),
+
+  /**
+   * Delete a user-created collection folder.
+   * Discogs only allows deleting folders that are empty.
+   */
+  deleteFolder: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        folderId: userFolderId
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .deleteFolder(input.username, input.folderId)
+
+        return {
+          folderId: input.folderId,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'delete collection folder')
+      }
+    }),
+
+  /**
+   * List the user's custom collection notes fields (e.g. media condition,
+   * sleeve condition, storage shelf), ordered by their position.
+   */
+  getCollectionFields: protectedProcedure
+    .input(
+      z.object({
+        username: z.string()
+      })
+    )
+    .query(({ ctx, input }) =>
+      ctx.responseCache.cached('getCollectionFields', input, async () => {
+        try {
+          const { data, rateLimit } = await ctx.discogs
+            .user()
+            .collection()
+            .getFields(input.username)
+
+          // Type cast required: the library types `type` as a plain string
+          const fields = [...(data.fields as DiscogsCollectionField[])].sort(
+            (a, b) => a.position - b.position
+          )
+
+          return {
+            fields,
+            rateLimit
+          }
+        } catch (error) {
+          handleDiscogsError(error, 'get collection fields')
+        }
+      })
+    ),
+
+  /**
+   * Set the value of a custom notes field on a collection instance.
+   * An empty string clears the field.
+   */
+  editInstanceField: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        folderId: z.number().int().min(1),
+        releaseId: z.number(),
+        instanceId: z.number(),
+        fieldId: z.number(),
+        value: z.string().max(10_000)
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .editInstanceNote(
+            input.username,
+            input.folderId,
+            input.releaseId,
+            input.instanceId,
+            input.fieldId,
+            input.value
+          )
+
+        return {
+          instanceId: input.instanceId,
+          fieldId: input.fieldId,
+          value: input.value,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'edit collection instance field')
+      }
+    }),
+
+  /**
+   * Set the user's rating (1-5) of a collection instance; 0 clears it.
+   */
+  setInstanceRating: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        folderId: z.number().int().min(1),
+        releaseId: z.number(),
+        instanceId: z.number(),
+        rating: z.number().int().min(0).max(5)
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .editRelease(
+            input.username,
+            input.folderId,
+            input.releaseId,
+            input.instanceId,
+            // The Discogs API accepts 0 to clear a rating; the library types omit it
+            { rating: input.rating as 1 | 2 | 3 | 4 | 5 }
+          )
+
+        return {
+          instanceId: input.instanceId,
+          rating: input.rating,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'set collection instance rating')
+      }
+    }),
+
+  /**
+   * Add a copy of a release to the user's collection.
+   * New instances go to folder 1 ("Uncategorized") unless a folder is given.
+   */
+  addReleaseToCollection: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        releaseId: z.number(),
+        folderId: z.number().int().min(1).optional().default(1)
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .addRelease(input.username, input.releaseId, input.folderId)
+
+        return {
+          instanceId: data.instance_id,
+          releaseId: input.releaseId,
+          folderId: input.folderId,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'add release to collection')
+      }
+    }),
+
+  /**
+   * Remove one instance of a release from the user's collection.
+   */
+  removeInstance: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        folderId: z.number().int().min(1),
+        releaseId: z.number(),
+        instanceId: z.number()
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .removeRelease(
+            input.username,
+            input.folderId,
+            input.releaseId,
+            input.instanceId
+          )
+
+        return {
+          instanceId: input.instanceId,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'remove collection instance')
+      }
+    }),
+
+  /**
+   * Move a collection instance from its current folder to another folder.
+   */
+  moveInstanceToFolder: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        folderId: z.number().int().min(1),
+        releaseId: z.number(),
+        instanceId: z.number(),
+        targetFolderId: z.number().int().min(1)
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { rateLimit } = await ctx.discogs
+          .user()
+          .collection()
+          .editRelease(
+            input.username,
+            input.folderId,
+            input.releaseId,
+            input.instanceId,
+            { folder_id: input.targetFolderId }
+          )
+
+        return {
+          instanceId: input.instanceId,
+          folderId: input.targetFolderId,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'move collection instance')
+      }
+    }),
+
+  /**
+   * Add a release found through search and return the new instance.
+   * Search results lack the collection's `basic_information`, so the
+   * instance is read back from Discogs for the client to insert into its
+   * cached collection without refetching it.
+   */
+  addSearchResultToCollection: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        releaseId: z.number(),
+        folderId: z.number().int().min(1).optional().default(1)
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const collection = ctx.discogs.user().collection()
+        const { data: added } = await collection.addRelease(
+          input.username,
+          input.releaseId,
+          input.folderId
+        )
+        const { data, rateLimit } = await collection.getReleaseInstances(
+          input.username,
+          input.releaseId
+        )
+
+        // Type cast required: library types omit fields like folder_id and notes
+        const instances = data.releases as unknown as DiscogsCollectionRelease[]
+
+        return {
+          instance:
+            instances.find(
+              (instance) => instance.instance_id === added.instance_id
+            ) ?? null,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'add search result to collection')
+      }
+    }),
+
+  /**
+   * Get full release details (tracklist, images, credits, identifiers).
+   * Used by the release detail view; the result is persisted client-side
+   * so detail pages keep working offline once visited.
+   */
+  getRelease: protectedProcedure
+    .input(
+      z.object({
+        releaseId: z.number()
+      })
+    )
+    .query(({ ctx, input }) =>
+      ctx.responseCache.cached('getRelease', input, async () => {
+        try {
+          const { data, rateLimit } = await ctx.discogs
+            .database()
+            .getRelease(input.releaseId)
+
+          // Type cast required: library types omit fields like type_ on tracks
+          return {
+            release: data as unknown as DiscogsRelease,
+            rateLimit
+          }
+        } catch (error) {
+          handleDiscogsError(error, 'get release')
+        }
+      })
+    ),
+
+  /**
+   * Get a master release: the shared title, artists, tracklist and images
+   * of all its versions.
+   */
+  getMaster: protectedProcedure
+    .input(
+      z.object({
+        masterId: z.number()
+      })
+    )
+    .query(({ ctx, input }) =>
+      ctx.responseCache.cached('getMaster', input, async () => {
+        try {
+          const { data, rateLimit } = await ctx.discogs
+            .database()
+            .getMaster(input.masterId)
+
+          // Type cast required: library types omit fields like lowest_price
+          return {
+            master: data as unknown as DiscogsMasterRelease,
+            rateLimit
+          }
+        } catch (error) {
+          handleDiscogsError(error, 'get master release')
+        }
+      })
+    ),
+
+  /**
+   * Get the versions (pressings) of a master release, one page at a time.
+   */
+  getMasterVersions: protectedProcedure
+    .input(
+      z.object({
+        masterId: z.number(),
+        page: z.number().int().min(1).optional().default(1),
+        perPage: z.number().max(100).optional().default(100), // Discogs API max
+        format: z.string().optional(),
+        country: z.string().optional(),
+        sort: z
+          .enum(['released', 'title', 'format', 'label', 'catno', 'country'])
+          .optional(),
+        sortOrder: z.enum(['asc', 'desc']).optional()
+      })
+    )
+    .query(({ ctx, input }) =>
+      ctx.responseCache.cached('getMasterVersions', input, async () => {
+        try {
+          const { data, rateLimit } = await ctx.discogs
+            .database()
+            .getMasterVersions(input.masterId, {
+              page: input.page,
+              per_page: input.perPage,
+              ...(input.format && { format: input.format }),
+              ...(input.country && { country: input.country }),
+              ...(input.sort && { sort: input.sort }),
+              ...(input.sortOrder && { sort_order: input.sortOrder })
+            })
+
+          // Type cast required: library types declare stats and status loosely
+          return {
+            versions: data.versions as unknown as DiscogsMasterVersion[],
+            pagination: data.pagination as unknown as DiscogsPagination,
+            rateLimit
+          }
+        } catch (error) {
+          handleDiscogsError(error, 'get master versions')
+        }
+      })
+    ),
+
+  /**
+   * Search the Discogs database. At least one criterion besides the type
+   * is required, so an empty form never spends a rate-limited request.
+   */
+  search: protectedProcedure
+    .input(
+      z
+        .object({
+          query: searchTerm,
+          type: z.enum(['release', 'master', 'artist', 'label']).optional(),
+          barcode: searchTerm,
+          catno: searchTerm,
+          format: searchTerm,
+          year: z
+            .string()
+            .regex(/^\d{4}$/)
+            .optional(),
+          page: z.number().int().min(1).optional().default(1),
+          perPage: z.number().max(100).optional().default(50) // Discogs API max
+        })
+        .refine(
+          (input) =>
+            Boolean(
+              input.query ||
+              input.barcode ||
+              input.catno ||
+              input.format ||
+              input.year
+            ),
+          { message: 'At least one search criterion is required' }
+        )
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const { data, rateLimit } = await ctx.discogs.database().search({
+          ...(input.query && { query: input.query }),
+          ...(input.type && { type: input.type }),
+          ...(input.barcode && { barcode: input.barcode }),
+          ...(input.catno && { catno: input.catno }),
+          ...(input.format && { format: input.format }),
+          ...(input.year && { year: input.year }),
+          page: input.page,
+          per_page: input.perPage
+        })
+
+        // Type cast required: library types declare type as a plain string
+        return {
+          results: data.results as unknown as DiscogsSearchResult[],
+          pagination: data.pagination as unknown as DiscogsPagination,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'search database')
+      }
+    }),
+
+  /**
+   * Get marketplace statistics for a release: lowest listed price and
+   * number of copies for sale. Prices are in the authenticated user's currency.
+   */
+  getMarketplaceStats: protectedProcedure
+    .input(
+      z.object({
+        releaseId: z.number()
+      })
+    )
+    .query(({ ctx, input }) =>
+      ctx.responseCache.cached('getMarketplaceStats', input, async () => {
+        try {
+          const { data, rateLimit } = await ctx.discogs
+            .marketplace()
+            .getReleaseStats(input.releaseId)
+
+          // Normalize: the API omits or nulls these when nothing is for sale
+          const stats: DiscogsMarketplaceStats = {
+            lowest_price: data.lowest_price ?? null,
+            num_for_sale: data.num_for_sale ?? null,
+            blocked_from_sale: data.blocked_from_sale
+          }
+
+          return { stats, rateLimit }
+        } catch (error) {
+          handleDiscogsError(error, 'get marketplace stats')
+        }
+      })
+    ),
+
+  /**
+   * Get suggested sale prices for a release, keyed by media condition grade.
+   * Discogs only returns suggestions once the user has filled in their
+   * seller settings; otherwise the call fails with 404/422.
+   */
+  getPriceSuggestions: protectedProcedure
+    .input(
+      z.object({
+        releaseId: z.number()
+      })
+    )
+    .query(({ ctx, input }) =>
+      ctx.responseCache.cached('getPriceSuggestions', input, async () => {
+        try {
+          const { data, rateLimit } = await ctx.discogs
+            .marketplace()
+            .getPriceSuggestions(input.releaseId)
+
+          return {
+            suggestions: data as DiscogsPriceSuggestionsResponse,
+            rateLimit
+          }
+        } catch (error) {
+          handleDiscogsError(error, 'get price suggestions')
+        }
+      })
+    ),
+
+  /**
+   * Get a user's wantlist.
+   * Supports pagination only - the wants endpoint has no server-side sorting.
+   */
+  getWantlist: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        page: z.number().optional().default(1),
+        perPage: z.number().max(100).optional().default(50) // Discogs API max
+      })
+    )
+    .query(({ ctx, input }) =>
+      ctx.responseCache.cached('getWantlist', input, async () => {
+        try {
+          const { data, rateLimit } = await ctx.discogs
+            .user()
+            .wantlist()
+            .getReleases(input.username, {
+              page: input.page,
+              per_page: input.perPage
+            })
+
+          // Type cast required: library types omit fields like date_added and country
+          return {
+            wants: data.wants as unknown as DiscogsWantlistItem[],
+            pagination: data.pagination as unknown as DiscogsPagination,
+            rateLimit
+          }
+        } catch (error) {
+          handleDiscogsError(error, 'get wantlist')
+        }
+      })
+    ),
+
+  /**
+   * Add a release to the user's wantlist, optionally with notes and a rating.
+   */
+  addToWantlist: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        releaseId: z.number(),
+        notes: z.string().optional(),
+        rating: wantRating.optional()
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, rateLimit } = await ctx.discogs
+          .user()
+          .wantlist()
+          .addRelease(input.username, input.releaseId, {
+            ...(input.notes !== undefined && { notes: input.notes }),
+            ...(input.rating !== undefined && {
+              rating: input.rating as 0 | 1 | 2 | 3 | 4 | 5
+            })
+          })
+
+        return {
+          want: data as unknown as DiscogsWantlistAddResponse,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'add release to wantlist')
+      }
+    }),
+
+  /**
+   * Update the notes and/or rating of a release already in the wantlist.
+   */
+  updateWant: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        releaseId: z.number(),
+        notes: z.string().optional(),
+        rating: wantRating.optional()
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { data, rateLimit } = await ctx.discogs
+          .user()
+          .wantlist()
+          .editNotes(input.username, input.releaseId, {
+            ...(input.notes !== undefined && { notes: input.notes }),
+            ...(input.rating !== undefined && {
+              rating: input.rating as 0 | 1 | 2 | 3 | 4 | 5
+            })
+          })
+
+        return {
+          want: data as unknown as DiscogsWantlistAddResponse,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'update wantlist item')
+      }
+    }),
+
+  /**
+   * Remove a release from the user's wantlist.
+   */
+  removeFromWantlist: protectedProcedure
+    .input(
+      z.object({
+        username: z.string(),
+        releaseId: z.number()
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        const { rateLimit } = await ctx.discogs
+          .user()
+          .wantlist()
+          .removeRelease(input.username, input.releaseId)
+
+        return {
+          releaseId: input.releaseId,
+          rateLimit
+        }
+      } catch (error) {
+        handleDiscogsError(error, 'remove release from wantlist')
+      }
     })
 })
@@ -0,0 +1,144 @@
+import { TRPCError } from '@trpc/server'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { appRouter } from '../index.js'
+import { createTestContext, stubDiscogs } from '../test-utils.js'
+
+const CALLBACK_URL = 'http://localhost:5173/oauth-callback'
+
+describe('oauth router', () => {
+  let fetchFake: ReturnType<typeof stubDiscogs>
+
+  beforeEach(() => {
+    fetchFake = stubDiscogs()
+    vi.stubEnv('SESSION_SECRET', 'test-secret-with-enough-entropy-0123456789')
+    vi.stubEnv('ALLOWED_CALLBACK_ORIGINS', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+  })
+
+  /** Starts the flow and approves it, returning what the callback gets */
+  async function authorize(ctx: ReturnType<typeof createTestContext>) {
+    const caller = appRouter.createCaller(ctx)
+    const tokens = await caller.oauth.getRequestToken({
+      callbackUrl: CALLBACK_URL
+    })
+
+    const response = await fetchFake(tokens.authorizeUrl)
+    const callback = new URL(response.headers.get('Location') ?? '')
+    return {
+      ...tokens,
+      verifier: callback.searchParams.get('oauth_verifier') ?? ''
+    }
+  }
+
+  it('rejects callback URLs outside the allowlist', async () => {
+    const caller = appRouter.createCaller(createTestContext())
+
+    await expect(
+      caller.oauth.getRequestToken({ callbackUrl: 'https://evil.com/cb' })
+    ).rejects.toMatchObject({ code: 'BAD_REQUEST' })
+  })
+
+  it('runs the login flow through to a session', async () => {
+    const ctx = createTestContext()
+    const { requestToken, requestTokenSecret, state, verifier } =
+      await authorize(ctx)
+
+    expect(ctx.oauthNonce).not.toBeNull()
+
+    await appRouter.createCaller(ctx).oauth.getAccessToken({
+      requestToken,
+      requestTokenSecret,
+      verifier,
+      state
+    })
+
+    expect(ctx.session?.accessToken).toMatch(/^fake-access-/)
+    expect(ctx.oauthNonce).toBeNull()
+
+    const { identity } = await appRouter.createCaller(ctx).discogs.getIdentity()
+    expect(identity.username).toBe('vinyldeck-demo')
+  })
+
+  it('rejects a callback from another browser', async () => {
+    const { requestToken, requestTokenSecret, state, verifier } =
+      await authorize(createTestContext())
+
+    // No state cookie: the flow wasn't started here, or already finished
+    await expect(
+      appRouter.createCaller(createTestContext()).oauth.getAccessToken({
+        requestToken,
+        requestTokenSecret,
+        verifier,
+        state
+      })
+    ).rejects.toMatchObject({ code: 'PRECONDITION_REQUIRED' })
+  })
+
+  it('rejects a link superseded by a newer sign-in in the same browser', async () => {
+    const ctx = createTestContext()
+    const first = await authorize(ctx)
+    // Replaces the nonce cookie
+    await authorize(ctx)
+
+    await expect(
+      appRouter.createCaller(ctx).oauth.getAccessToken({
+        requestToken: first.requestToken,
+        requestTokenSecret: first.requestTokenSecret,
+        verifier: first.verifier,
+        state: first.state
+      })
+    ).rejects.toMatchObject({ code: 'CONFLICT' })
+  })
+
+  it('rejects state issued for another request token', async () => {
+    const ctx = createTestContext()
+    const first = await authorize(ctx)
+    const second = await authorize(ctx)
+
+    await expect(
+      appRouter.createCaller(ctx).oauth.getAccessToken({
+        requestToken: second.requestToken,
+        requestTokenSecret: second.requestTokenSecret,
+        verifier: second.verifier,
+        state: first.state
+      })
+    ).rejects.toMatchObject({ code: 'PRECONDITION_FAILED' })
+    // Single use even when rejected, so a retry has to start over
+    expect(ctx.oauthNonce).toBeNull()
+  })
+
+  it('surfaces a rejected verifier as UNAUTHORIZED', async () => {
+    const ctx = createTestContext()
+    const { requestToken, requestTokenSecret, state } = await authorize(ctx)
+
+    const error: unknown = await appRouter
+      .createCaller(ctx)
+      .oauth.getAccessToken({
+        requestToken,
+        requestTokenSecret,
+        verifier: 'wrong',
+        state
+      })
+      .catch((caught: unknown) => caught)
+
+    expect(error).toBeInstanceOf(TRPCError)
+    expect(error).toMatchObject({ code: 'UNAUTHORIZED' })
+    expect(ctx.session).toBeNull()
+  })
+
+  it('clears the session', async () => {
+    const ctx = createTestContext({
+      accessToken: 'fake-access-1',
+      accessTokenSecret: 'secret'
+    })
+
+    await appRouter.createCaller(ctx).oauth.clearSession()
+
+    expect(ctx.session).toBeNull()
+  })
+})
@@ -2,6 +2,9 @@ import { DiscogsOAuth } from '@lionralfs/discogs-client'
 import { TRPCError } from '@trpc/server'
 import { z } from 'zod'
 
+import { validateCallbackUrl } from '../../callback-url.js'
+import { createLocalOAuth, getDiscogsApiUrl } from '../../local-discogs.js'
+import { createOAuthState, verifyOAuthState } from '../../oauth-state.js'
 import { handleDiscogsError } from '../error-utils.js'
 import { publicProcedure, router } from '../init.js'
 
@@ -9,8 +12,6 @@ declare const process: {
   env: {
     VITE_DISCOGS_CONSUMER_KEY?: string
     DISCOGS_CONSUMER_SECRET?: string
-    ALLOWED_CALLBACK_ORIGINS?: string
-    VERCEL_URL?: string
   }
 }
 
@@ -18,51 +19,18 @@ const CONSUMER_KEY = process.env.VITE_DISCOGS_CONSUMER_KEY
 const CONSUMER_SECRET = process.env.DISCOGS_CONSUMER_SECRET
 
 /**
- * Get allowed callback origins for OAuth flow.
- * Prevents open redirect attacks by restricting where OAuth can redirect.
- *
- * Always includes VERCEL_URL (for preview deployments) plus any explicitly
- * configured origins from ALLOWED_CALLBACK_ORIGINS.
+ * The OAuth client for the token exchange: Discogs itself, or the server
+ * at `DISCOGS_API_URL` when one is configured.
  */
-function getAllowedCallbackOrigins(): string[] {
-  const origins: string[] = []
-
-  // Add explicitly configured origins (production domains)
-  if (process.env.ALLOWED_CALLBACK_ORIGINS) {
-    origins.push(
-      ...process.env.ALLOWED_CALLBACK_ORIGINS.split(',').map((o) => o.trim())
-    )
-  } else {
-    // Default localhost origins for development (only when no explicit config)
-    origins.push(
-      'http://localhost:5173', // Vite dev server
-      'http://localhost:4173' // Vite preview
-    )
-  }
-
-  // Always add Vercel URL if available (enables preview deployments)
-  if (process.env.VERCEL_URL) {
-    origins.push(`https://${process.env.VERCEL_URL}`)
-  }
-
-  return origins
-}
-
-/**
- * Validates that a callback URL's origin is in the allowlist.
- * Prevents OAuth phishing attacks using our consumer credentials.
- */
-function validateCallbackUrl(callbackUrl: string): boolean {
-  try {
-    const url = new URL(callbackUrl)
-    const allowedOrigins = getAllowedCallbackOrigins()
-    return allowedOrigins.some((origin) => url.origin === origin)
-  } catch {
-    return false
+function getDiscogsOAuth(): Pick<
+  DiscogsOAuth,
+  'getRequestToken' | 'getAccessToken'
+> {
+  const apiUrl = getDiscogsApiUrl()
+  if (apiUrl) {
+    return createLocalOAuth(apiUrl)
   }
-}
 
-function getDiscogsOAuth() {
   if (!CONSUMER_KEY || !CONSUMER_SECRET) {
     throw new TRPCError({
       code: 'INTERNAL_SERVER_ERROR',
@@ -81,8 +49,10 @@ function getDiscogsOAuth() {
 export const oauthRouter = router({
   /**
    * Step 1: Get a request token and authorization URL.
-   * Client stores the request token secret in sessionStorage,
-   * then redirects user to the authorization URL.
+   * Client stores the request token secret and signed state in
+   * sessionStorage, then redirects user to the authorization URL. The
+   * state's nonce is set as an HttpOnly cookie, binding the flow to this
+   * browser.
    */
   getRequestToken: publicProcedure
     .input(
@@ -90,7 +60,7 @@ export const oauthRouter = router({
         callbackUrl: z.url()
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       // Validate callback URL against allowlist to prevent OAuth phishing
       if (!validateCallbackUrl(input.callbackUrl)) {
         throw new TRPCError({
@@ -111,9 +81,13 @@ export const oauthRouter = router({
           })
         }
 
+        const { state, nonce } = await createOAuthState(response.token)
+        ctx.setOAuthNonce(nonce)
+
         return {
           requestToken: response.token,
           requestTokenSecret: response.tokenSecret,
+          state,
           authorizeUrl: response.authorizeUrl
         }
       } catch (error) {
@@ -124,16 +98,28 @@ export const oauthRouter = router({
   /**
    * Step 2: Exchange request token + verifier for access token.
    * Called after user authorizes on Discogs and is redirected back.
+   * The access token is stored in an encrypted HttpOnly session cookie and
+   * never returned, so the browser never holds the token secret.
+   *
+   * The state from step 1 is verified first (see `verifyOAuthState` for the
+   * error codes); it's single use, so the state cookie is cleared either way.
    */
   getAccessToken: publicProcedure
     .input(
       z.object({
         requestToken: z.string(),
         requestTokenSecret: z.string(),
-        verifier: z.string()
+        verifier: z.string(),
+        state: z.string()
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await verifyOAuthState(input.state, input.requestToken, ctx.oauthNonce)
+      } finally {
+        ctx.setOAuthNonce(null)
+      }
+
       const oauth = getDiscogsOAuth()
 
       try {
@@ -150,12 +136,20 @@ export const oauthRouter = router({
           })
         }
 
-        return {
+        await ctx.setSession({
           accessToken: response.accessToken,
           accessTokenSecret: response.accessTokenSecret
-        }
+        })
       } catch (error) {
         handleDiscogsError(error, 'get access token')
       }
-    })
+    }),
+
+  /**
+   * Clears the session cookie. Called on disconnect; signing out keeps the
+   * cookie for the "Welcome back" flow.
+   */
+  clearSession: publicProcedure.mutation(async ({ ctx }) => {
+    await ctx.setSession(null)
+  })
 })
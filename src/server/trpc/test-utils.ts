@@ -0,0 +1,60 @@
+import { vi } from 'vitest'
+
+import { createFakeDiscogsApp } from '../fake-discogs/app.js'
+import { MemoryCacheStore } from '../response-cache.js'
+
+import type { SessionTokens } from '../session.js'
+import type { Context } from './context.js'
+
+/**
+ * Helpers for calling `appRouter` in tests, without an HTTP server.
+ */
+
+const FAKE_DISCOGS_URL = 'http://fake-discogs.test'
+
+/**
+ * Points the Discogs client and OAuth flow at an in-process fake Discogs
+ * API (`DISCOGS_API_URL` plus a stubbed `fetch`). Undo with
+ * `vi.unstubAllEnvs()` and `vi.unstubAllGlobals()`.
+ *
+ * @param options.rateLimit - Requests per minute the fake allows
+ * @returns The fake's `fetch`, for requests a browser would make
+ * (e.g. following the authorize redirect)
+ */
+export function stubDiscogs(
+  options: { rateLimit?: number } = {}
+): typeof fetch {
+  const app = createFakeDiscogsApp(options)
+  const fetchFake: typeof fetch = async (input, init) =>
+    app.fetch(new Request(input, init))
+
+  vi.stubEnv('DISCOGS_API_URL', FAKE_DISCOGS_URL)
+  vi.stubGlobal('fetch', fetchFake)
+  return fetchFake
+}
+
+/**
+ * Creates a request context like `createContextFactory` does. Cookies are
+ * kept on the context itself, so a caller created from it sees the
+ * session and nonce set by earlier calls, as a browser would.
+ *
+ * @param session - Tokens of the signed-in user, null when signed out
+ */
+export function createTestContext(
+  session: SessionTokens | null = null
+): Context {
+  const ctx: Context = {
+    requestId: 'test-request',
+    session,
+    setSession: (tokens) => {
+      ctx.session = tokens
+      return Promise.resolve()
+    },
+    oauthNonce: null,
+    setOAuthNonce: (nonce) => {
+      ctx.oauthNonce = nonce
+    },
+    cacheStore: new MemoryCacheStore()
+  }
+  return ctx
+}
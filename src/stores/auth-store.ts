@@ -5,18 +5,14 @@ import { persist } from 'zustand/middleware'
 import { STORAGE_KEYS } from '@/lib/storage-keys'
 import { usePreferencesStore } from '@/stores/preferences-store'
 
-interface AuthTokens {
-  accessToken: string
-  accessTokenSecret: string
-}
-
 interface AuthStore {
   // State
-  tokens: AuthTokens | null
+  /** Whether the server has issued a session cookie (HttpOnly, so unreadable here) */
+  hasSession: boolean
   sessionActive: boolean
 
   // Actions
-  setTokens: (tokens: AuthTokens) => void
+  setHasSession: (hasSession: boolean) => void
   setSessionActive: (active: boolean) => void
   signOut: () => void
   disconnect: () => void
@@ -27,10 +23,12 @@ interface AuthStore {
  * Automatically persists to localStorage under 'vinyldeck-auth' key.
  *
  * Note: User profile is stored separately in TanStack Query (IndexedDB)
- * via the useUserProfile hook. This store only manages auth credentials.
+ * via the useUserProfile hook. The OAuth tokens themselves live in an
+ * encrypted HttpOnly cookie on the server side; this store only records
+ * that one was issued.
  *
  * Two-tier auth system:
- * - signOut(): Ends session, keeps tokens for "welcome back"
+ * - signOut(): Ends session, keeps the cookie for "welcome back"
  * - disconnect(): Clears everything, requires re-authorization
  *
  * @param selector - Zustand selector function to extract state
@@ -39,27 +37,33 @@ interface AuthStore {
 export const useAuthStore = create<AuthStore>()(
   persist(
     (set) => ({
-      tokens: null,
+      hasSession: false,
       sessionActive: false,
 
-      setTokens: (tokens) => set({ tokens }),
+      setHasSession: (hasSession) => set({ hasSession }),
 
       setSessionActive: (active) => set({ sessionActive: active }),
 
-      // Sign out: clear session, keep tokens for "welcome back"
+      // Sign out: clear session, keep the cookie for "welcome back"
       signOut: () => set({ sessionActive: false }),
 
-      // Disconnect: clear auth tokens (profile cleanup done by auth provider)
+      // Disconnect: forget the session (cookie and profile cleanup done by auth provider)
       disconnect: () => {
         // Reset avatar preferences to prevent cross-account data leakage
         usePreferencesStore.getState().resetAvatarSettings()
 
         set({
-          tokens: null,
+          hasSession: false,
           sessionActive: false
         })
       }
     }),
-    { name: STORAGE_KEYS.AUTH }
+    {
+      name: STORAGE_KEYS.AUTH,
+      // Version 0 kept the OAuth tokens in localStorage. Drop them; those
+      // users sign in again to get a session cookie.
+      version: 1,
+      migrate: () => ({ hasSession: false, sessionActive: false })
+    }
   )
 )
@@ -4,16 +4,24 @@ import { persist } from 'zustand/middleware'
 
 import { STORAGE_KEYS } from '@/lib/storage-keys'
 import type { AvatarSource } from '@/providers/preferences-context'
-import type { ViewMode } from '@/types/preferences'
+import type {
+  MarketplaceColumn,
+  PaginationMode,
+  ViewMode
+} from '@/types/preferences'
 
 interface PreferencesStore {
   // State
   viewMode: ViewMode
+  paginationMode: PaginationMode
   avatarSource: AvatarSource
   gravatarEmail: string
+  marketplaceColumns: MarketplaceColumn[]
 
   // Actions
   setViewMode: (mode: ViewMode) => void
+  setPaginationMode: (mode: PaginationMode) => void
+  setMarketplaceColumns: (columns: MarketplaceColumn[]) => void
   setAvatarSource: (source: AvatarSource) => void
   setGravatarEmail: (email: string) => void
   resetAvatarSettings: () => void
@@ -32,10 +40,14 @@ export const usePreferencesStore = create<PreferencesStore>()(
   persist(
     (set) => ({
       viewMode: 'grid',
+      paginationMode: 'pages',
       avatarSource: 'discogs',
       gravatarEmail: '',
+      marketplaceColumns: [],
 
       setViewMode: (mode) => set({ viewMode: mode }),
+      setPaginationMode: (mode) => set({ paginationMode: mode }),
+      setMarketplaceColumns: (columns) => set({ marketplaceColumns: columns }),
       setAvatarSource: (source) => set({ avatarSource: source }),
       setGravatarEmail: (email) => set({ gravatarEmail: email }),
       resetAvatarSettings: () =>
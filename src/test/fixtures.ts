@@ -0,0 +1,46 @@
+import type {
+  DiscogsBasicInformation,
+  DiscogsCollectionRelease
+} from '@/types/discogs'
+
+/**
+ * Test data shared by the unit tests.
+ */
+
+let nextId = 1
+
+/**
+ * Creates a collection item for a plain vinyl LP with a unique ID. The
+ * instance ID differs from the release ID, so tests notice code keying
+ * items by the wrong one.
+ *
+ * @param info - Overrides for `basic_information`
+ * @param item - Overrides for the collection item itself
+ */
+export function createRelease(
+  info: Partial<DiscogsBasicInformation> = {},
+  item: Partial<DiscogsCollectionRelease> = {}
+): DiscogsCollectionRelease {
+  const id = nextId++
+  return {
+    id,
+    instance_id: id * 10,
+    date_added: '2024-01-01T00:00:00-08:00',
+    rating: 0,
+    basic_information: {
+      id,
+      title: `Title ${id}`,
+      year: 1990,
+      resource_url: '',
+      thumb: '',
+      cover_image: '',
+      formats: [{ name: 'Vinyl', qty: '1', descriptions: ['LP', 'Album'] }],
+      labels: [{ name: 'Label', catno: 'CAT-1' }],
+      artists: [{ id: 1, name: 'Artist' }],
+      genres: ['Rock'],
+      styles: [],
+      ...info
+    },
+    ...item
+  }
+}
@@ -36,19 +36,26 @@ export interface DiscogsOAuthAccessToken {
 }
 
 /**
- * App-level OAuth token storage (stored in localStorage via Zustand)
+ * OAuth request tokens (temporary, stored in sessionStorage during OAuth flow)
  */
-export interface OAuthTokens {
-  accessToken: string
-  accessTokenSecret: string
+export interface OAuthRequestTokens {
+  requestToken: string
+  requestTokenSecret: string
+  /** Signed state binding the callback to the flow that issued the token */
+  state: string
 }
 
 /**
- * OAuth request tokens (temporary, stored in sessionStorage during OAuth flow)
+ * Payload of the signed OAuth state (base64url JSON, then a `.` and its
+ * HMAC). The server verifies the signature; the client reads the payload
+ * only to reject stale callbacks early.
  */
-export interface OAuthRequestTokens {
+export interface OAuthStatePayload {
   requestToken: string
-  requestTokenSecret: string
+  /** Random value echoed in an HttpOnly cookie, tying the flow to one browser */
+  nonce: string
+  /** Unix time (seconds) after which the callback is rejected */
+  exp: number
 }
 
 /**
@@ -245,7 +252,11 @@ export type CollectionSortKey =
   | 'releaseYear'
   | 'label'
   | 'format'
+  | 'rating'
+  | 'value'
   | 'random'
+  /** Search relevance; only offered while a search is active */
+  | 'relevance'
 
 /**
  * Valid sort keys for GET /users/{username}/collection/folders/{folder_id}/releases
@@ -325,6 +336,8 @@ export interface DiscogsWantlistItem {
   resource_url: string
   /** User's rating (0-5) */
   rating: number
+  /** ISO 8601 date when added to wantlist */
+  date_added?: string
   /** Basic release information */
   basic_information: DiscogsBasicInformation
   /**
@@ -347,6 +360,12 @@ export interface DiscogsWantlistResponse {
   wants: DiscogsWantlistItem[]
 }
 
+/**
+ * Any list entry that carries basic release information.
+ * Lets collection and wantlist views share the same grid, table and filters.
+ */
+export type DiscogsListItem = DiscogsCollectionRelease | DiscogsWantlistItem
+
 /**
  * ==============================================================================
  * Database
@@ -659,6 +678,14 @@ export interface DiscogsSearchResult {
     want: number
     have: number
   }
+  /** Master release ID (release results that belong to a master) */
+  master_id?: number
+  master_url?: string
+  /** Whether the authenticated user has this item; only set for releases and masters */
+  user_data?: {
+    in_wantlist: boolean
+    in_collection: boolean
+  }
 }
 
 /**
@@ -709,6 +736,20 @@ export interface DiscogsMarketplaceFee {
   currency: string
 }
 
+/**
+ * Media condition grades used by the marketplace, best first.
+ * Keys of the price suggestions response.
+ */
+export type DiscogsCondition =
+  | 'Mint (M)'
+  | 'Near Mint (NM or M-)'
+  | 'Very Good Plus (VG+)'
+  | 'Very Good (VG)'
+  | 'Good Plus (G+)'
+  | 'Good (G)'
+  | 'Fair (F)'
+  | 'Poor (P)'
+
 /**
  * Price suggestion for a specific grade
  */
@@ -720,9 +761,8 @@ export interface DiscogsPriceSuggestion {
 /**
  * Response from GET /marketplace/price_suggestions/{release_id}
  */
-export type DiscogsPriceSuggestionsResponse = Record<
-  string,
-  DiscogsPriceSuggestion
+export type DiscogsPriceSuggestionsResponse = Partial<
+  Record<DiscogsCondition, DiscogsPriceSuggestion>
 >
 
 /**
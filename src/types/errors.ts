@@ -0,0 +1,30 @@
+/**
+ * What went wrong with an API call, independent of the message. The server
+ * attaches it to every tRPC error (see `errorFormatter` in
+ * `src/server/trpc/init.ts`) and screens pick their recovery action by it.
+ *
+ * - `auth-expired` - The session is missing, or Discogs rejected its tokens
+ * - `rate-limited` - Discogs kept answering 429 past the server's deadline
+ * - `discogs-down` - Discogs answered with a 5xx
+ * - `not-found` - The requested resource doesn't exist on Discogs
+ * - `network` - The request never got an answer, from Discogs or our server
+ * - `unknown` - Anything else, such as invalid input or a bug
+ */
+export type ErrorKind =
+  | 'auth-expired'
+  | 'rate-limited'
+  | 'discogs-down'
+  | 'not-found'
+  | 'network'
+  | 'unknown'
+
+/**
+ * Error details shared by server and client, sent in the tRPC error `data`.
+ */
+export interface ErrorDetails {
+  kind: ErrorKind
+  /** HTTP status Discogs answered with, null if Discogs wasn't reached */
+  upstreamStatus: number | null
+  /** Seconds to wait before retrying, for `rate-limited` */
+  retryAfter: number | null
+}
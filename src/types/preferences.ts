@@ -1,4 +1,17 @@
+import type { DiscogsCondition } from './discogs'
+
 /**
  * View mode for collection display
  */
 export type ViewMode = 'grid' | 'table'
+
+/**
+ * How long lists are browsed: page by page, or in one virtualized scroll
+ */
+export type PaginationMode = 'pages' | 'scroll'
+
+/**
+ * Optional marketplace columns in the table view: lowest listed price,
+ * copies for sale, or the suggested price for a condition grade
+ */
+export type MarketplaceColumn = 'lowestPrice' | 'numForSale' | DiscogsCondition
@@ -0,0 +1,32 @@
+import {
+  createReleaseViewHandler,
+  type ReleaseViewRequest
+} from '@/lib/release-view'
+
+type QueryRequest = Extract<ReleaseViewRequest, { type: 'query' }>
+
+const handleRequest = createReleaseViewHandler()
+/** Only the latest query matters; older ones still waiting are skipped */
+let pendingQuery: QueryRequest | null = null
+
+function runPendingQuery() {
+  const request = pendingQuery
+  pendingQuery = null
+  if (!request) return
+
+  const response = handleRequest(request)
+  if (response) self.postMessage(response)
+}
+
+self.onmessage = (event: MessageEvent<ReleaseViewRequest>) => {
+  const request = event.data
+  if (request.type === 'load') {
+    handleRequest(request)
+    return
+  }
+
+  const isScheduled = pendingQuery !== null
+  pendingQuery = request
+  // Let queued messages arrive first, so a burst of keystrokes runs once
+  if (!isScheduled) setTimeout(runPendingQuery, 0)
+}
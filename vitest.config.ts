@@ -0,0 +1,23 @@
+import path from 'path'
+
+import { defineConfig } from 'vitest/config'
+
+import packageJson from './package.json'
+
+// Separate from vite.config.ts so tests don't run the router and PWA plugins
+export default defineConfig({
+  define: {
+    __APP_VERSION__: JSON.stringify(packageJson.version)
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+    // Tests that check log output turn it back on with vi.stubEnv
+    env: { LOG_LEVEL: 'silent' }
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src')
+    }
+  }
+})